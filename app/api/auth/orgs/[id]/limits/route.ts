@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { withOrgValidation } from "@/shared/api/hofs/withOrgValidation";
+import {
+  subscriptionsService,
+  LimitOverridesInputSchema,
+} from "@/modules/subscriptions";
+import { UserRole } from "@/shared/auth/types";
+
+/**
+ * Set organisation limit overrides
+ * @description Overrides single limits of the organisation's tier (e.g. a
+ * custom Enterprise deal). Limits sent replace their override, null removes
+ * it and -1 is unlimited; limits left out keep their current override.
+ * Overrides are cleared when the tier changes. GrowthMind admins only -
+ * organisations can't raise their own limits.
+ * @params id - Organization ID (PropelAuth org ID)
+ * @body LimitOverridesInputSchema
+ * @response SubscriptionResponse
+ * @auth bearer
+ * @openapi
+ */
+export const PATCH = withAuth(
+  withDb(
+    withOrgValidation(
+      withValidation(
+        LimitOverridesInputSchema,
+        async (_req, _params, { user, body, orgId }) => {
+          try {
+            const subscription = await subscriptionsService.setLimitOverrides(
+              orgId,
+              body,
+              user.userId
+            );
+            return NextResponse.json(subscription);
+          } catch (error) {
+            return createErrorResponse(error);
+          }
+        }
+      )
+    )
+  ),
+  {
+    requiredRoles: [UserRole.GROWTHMIND_ADMIN],
+  }
+);
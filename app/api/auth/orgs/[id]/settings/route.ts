@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { withOrgValidation } from "@/shared/api/hofs/withOrgValidation";
+import {
+  organizationSettingsService,
+  UpdateOrganizationSettingsSchema,
+} from "@/modules/settings";
+import { Permissions } from "@/shared/auth/types";
+
+/**
+ * Settings are stored in our database, so (unlike PropelAuth calls) access
+ * is limited to the organization the user is acting in
+ */
+const forbidden = () =>
+  NextResponse.json(
+    {
+      error: "Forbidden",
+      message: "You don't have access to this organisation",
+    },
+    { status: 403 }
+  );
+
+/**
+ * Get organisation settings
+ * @description Returns the organisation's settings (defaults for settings never saved)
+ * @params id - Organization ID (PropelAuth org ID)
+ * @response OrganizationSettingsResponse
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    withOrgValidation(async (_req, _params, { orgId, activeOrgId }) => {
+      try {
+        if (orgId !== activeOrgId) {
+          return forbidden();
+        }
+
+        const settings = await organizationSettingsService.getForOrganization(
+          orgId
+        );
+        return NextResponse.json(settings);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    })
+  ),
+  {
+    requiredPermissions: [Permissions.READ_ORGANISATIONS],
+  }
+);
+
+/**
+ * Update organisation settings
+ * @description Changes the settings sent; others keep their current value.
+ * research_review_threshold (0-1) is the research confidence below which new
+ * research-created clients need review before plans can be generated.
+ * @params id - Organization ID (PropelAuth org ID)
+ * @body UpdateOrganizationSettingsSchema
+ * @response OrganizationSettingsResponse
+ * @auth bearer
+ * @openapi
+ */
+export const PATCH = withAuth(
+  withDb(
+    withOrgValidation(
+      withValidation(
+        UpdateOrganizationSettingsSchema,
+        async (_req, _params, { user, body, orgId, activeOrgId }) => {
+          try {
+            if (orgId !== activeOrgId) {
+              return forbidden();
+            }
+
+            const settings =
+              await organizationSettingsService.updateForOrganization(
+                orgId,
+                body,
+                user.userId
+              );
+            return NextResponse.json(settings);
+          } catch (error) {
+            return createErrorResponse(error);
+          }
+        }
+      )
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_ORGANISATIONS],
+  }
+);
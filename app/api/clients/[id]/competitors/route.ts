@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import { clientsService } from "@/modules/clients";
+import { competitorsService } from "@/modules/competitors";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * List client competitors
+ * @description Tracked competitors linked to this client, by name. Each
+ * competitor includes its snapshot history (oldest first) for charting.
+ * @response CompetitorResponse[]
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+        const client = await clientsService.getClientContext(id);
+
+        // Verify ownership
+        if (client.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this client",
+            },
+            { status: 403 }
+          );
+        }
+
+        const competitors = await competitorsService.findClientCompetitors(
+          client
+        );
+        return NextResponse.json(competitors);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
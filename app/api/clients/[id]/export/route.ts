@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withSubscription,
+  createErrorResponse,
+} from "@/shared/api";
+import { clientsService, ClientExportQuerySchema } from "@/modules/clients";
+import { Feature } from "@/modules/subscriptions";
+import { Permissions } from "@/shared/auth/types";
+import { ValidationError } from "@/shared/utils/errors";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Export a client
+ * @description Download a client as JSON, CSV or a markdown client brief
+ * (`?format=json|csv|md`, default json). Requires the export_data feature.
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    withSubscription({ requiredFeature: Feature.EXPORT_DATA })(
+      async (
+        req,
+        context: NextRouteContext<{ id: string }>,
+        { activeOrgId }
+      ) => {
+        try {
+          const query = ClientExportQuerySchema.safeParse({
+            format: req.nextUrl.searchParams.get("format") ?? undefined,
+          });
+          if (!query.success) {
+            throw ValidationError.fromZod({
+              errors: query.error.issues.map((issue) => ({
+                path: issue.path as (string | number)[],
+                message: issue.message,
+              })),
+            });
+          }
+
+          const { id } = await context.params;
+          const client = await clientsService.getClientContext(id);
+
+          // Verify ownership
+          if (client.organization_id !== activeOrgId) {
+            return NextResponse.json(
+              {
+                error: "Forbidden",
+                message: "You don't have access to this client",
+              },
+              { status: 403 }
+            );
+          }
+
+          const file = clientsService.exportClients(
+            [client],
+            query.data.format,
+            `client-${client.id}`
+          );
+
+          return new NextResponse(file.body, {
+            headers: {
+              "Content-Type": file.content_type,
+              "Content-Disposition": `attachment; filename="${file.filename}"`,
+            },
+          });
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
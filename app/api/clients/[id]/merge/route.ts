@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { clientsService, MergeClientsSchema } from "@/modules/clients";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Merge a duplicate client into this one
+ * @description Combines the source client into this client: this client's
+ * values are kept, the source fills the gaps, then the source is deleted.
+ * @body MergeClientsSchema
+ * @response ClientResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withValidation(
+      MergeClientsSchema,
+      async (
+        _req,
+        context: NextRouteContext<{ id: string }>,
+        { user, body, activeOrgId }
+      ) => {
+        try {
+          const { id } = await context.params;
+
+          // Verify ownership of both clients before merging
+          const [target, source] = await Promise.all([
+            clientsService.getClientContext(id),
+            clientsService.getClientContext(body.source_client_id),
+          ]);
+          if (
+            target.organization_id !== activeOrgId ||
+            source.organization_id !== activeOrgId
+          ) {
+            return NextResponse.json(
+              {
+                error: "Forbidden",
+                message: "You don't have access to this client",
+              },
+              { status: 403 }
+            );
+          }
+
+          const client = await clientsService.mergeClients(
+            id,
+            body.source_client_id,
+            user.userId
+          );
+          return NextResponse.json(client);
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
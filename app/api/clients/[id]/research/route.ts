@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withSubscription,
+  withIdempotencyKey,
+} from "@/shared/api";
+import { clientsService } from "@/modules/clients";
+import { Permissions } from "@/shared/auth/types";
+import { ErrorHandler } from "@/shared/utils/errors";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Helper to create error responses
+ */
+const createErrorResponse = (error: unknown) => {
+  const response = ErrorHandler.handle(error);
+  return new NextResponse(response.body, {
+    status: response.status,
+    headers: response.headers,
+  });
+};
+
+/**
+ * Re-research client website
+ * @description Re-run AI research and propose field-by-field context changes (accept them via the refine endpoint)
+ * Returns 402 once the organization's monthly AI budget is used up.
+ * @response ResearchProposalResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withIdempotencyKey(
+      withSubscription({ requiredLimit: "ai_budget_usd_per_month" })(
+        async (
+          _req,
+          context: NextRouteContext<{ id: string }>,
+          { activeOrgId, sourceRoute }
+        ) => {
+          try {
+            const { id } = await context.params;
+
+            // Verify ownership before researching
+            const existingClient = await clientsService.getClientContext(id);
+            if (existingClient.organization_id !== activeOrgId) {
+              return NextResponse.json(
+                {
+                  error: "Forbidden",
+                  message: "You don't have access to this client",
+                },
+                { status: 403 }
+              );
+            }
+
+            const proposal = await clientsService.proposeResearchUpdate(
+              id,
+              sourceRoute
+            );
+            return NextResponse.json(proposal);
+          } catch (error) {
+            return createErrorResponse(error);
+          }
+        }
+      )
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import { clientsService } from "@/modules/clients";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Confirm client research
+ * @description Confirm the research of a client created needing review
+ * (research confidence below the organization's threshold). Plans can be
+ * generated once confirmed. Clients that don't need review are returned
+ * unchanged.
+ * @response ClientResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { user, activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+
+        // Verify ownership before confirming
+        const existingClient = await clientsService.getClientContext(id);
+        if (existingClient.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this client",
+            },
+            { status: 403 }
+          );
+        }
+
+        const client = await clientsService.confirmResearchReview(
+          id,
+          user.userId
+        );
+        return NextResponse.json(client);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
@@ -117,7 +117,7 @@ export const DELETE = withAuth(
     async (
       _req,
       context: NextRouteContext<{ id: string }>,
-      { activeOrgId }
+      { user, activeOrgId }
     ) => {
       try {
         const { id } = await context.params;
@@ -134,7 +134,7 @@ export const DELETE = withAuth(
           );
         }
 
-        await clientsService.deleteById(id);
+        await clientsService.deleteById(id, user.userId);
         return new NextResponse(null, { status: 204 });
       } catch (error) {
         return createErrorResponse(error);
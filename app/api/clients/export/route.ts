@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withSubscription,
+  createErrorResponse,
+} from "@/shared/api";
+import { clientsService, ClientExportQuerySchema } from "@/modules/clients";
+import { Feature } from "@/modules/subscriptions";
+import { Permissions } from "@/shared/auth/types";
+import { ValidationError } from "@/shared/utils/errors";
+
+/**
+ * Export clients
+ * @description Download the organization's clients as JSON, CSV or markdown
+ * client briefs (`?format=json|csv|md`, default json). Accepts the client
+ * list filters, search and sort (e.g. `company.industry=in:SaaS,Fintech`).
+ * Requires the export_data feature. Returns 400 if more than 500 clients
+ * match - narrow the filters and export in parts.
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    withSubscription({ requiredFeature: Feature.EXPORT_DATA })(
+      async (req, {}, { activeOrgId }) => {
+        try {
+          const { searchParams } = req.nextUrl;
+          const query = ClientExportQuerySchema.safeParse({
+            format: searchParams.get("format") ?? undefined,
+          });
+          if (!query.success) {
+            throw ValidationError.fromZod({
+              errors: query.error.issues.map((issue) => ({
+                path: issue.path as (string | number)[],
+                message: issue.message,
+              })),
+            });
+          }
+
+          const clients = await clientsService.findClientsForExport(
+            searchParams,
+            activeOrgId
+          );
+
+          const file = clientsService.exportClients(
+            clients,
+            query.data.format,
+            `clients-${new Date().toISOString().slice(0, 10)}`
+          );
+
+          return new NextResponse(file.body, {
+            headers: {
+              "Content-Type": file.content_type,
+              "Content-Disposition": `attachment; filename="${file.filename}"`,
+            },
+          });
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withIdempotencyKey,
+  withValidation,
+  createErrorResponse,
+  getSourceRoute,
+} from "@/shared/api";
+import { clientsService, ImportClientsSchema } from "@/modules/clients";
+import { Permissions } from "@/shared/auth/types";
+
+/**
+ * Import clients in bulk
+ * @description Import clients from a JSON array (`rows`) or CSV text
+ * (`csv`, headers are field paths such as company.name). Each row is
+ * validated on its own; the report lists the outcome and field errors of
+ * every row. Set `dry_run` to validate without creating anything, and
+ * `research_website_only` to queue AI research for rows with only a website.
+ * Once the organization's monthly AI budget is used up, website-only rows
+ * are reported as skipped; everything else still imports.
+ * @body ImportClientsSchema
+ * @response ImportReportResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withIdempotencyKey(
+      withValidation(
+        ImportClientsSchema,
+        async (req, {}, { user, body, activeOrgId }) => {
+          try {
+            const report = await clientsService.importClients(
+              body,
+              user.userId,
+              activeOrgId,
+              getSourceRoute(req)
+            );
+            return NextResponse.json(report, {
+              status: report.dry_run ? 200 : 201,
+            });
+          } catch (error) {
+            return createErrorResponse(error);
+          }
+        }
+      )
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb } from "@/shared/api";
+import { clientsService } from "@/modules/clients";
+import { Permissions } from "@/shared/auth/types";
+import { ErrorHandler } from "@/shared/utils/errors";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Helper to create error responses
+ */
+const createErrorResponse = (error: unknown) => {
+  const response = ErrorHandler.handle(error);
+  return new NextResponse(response.body, {
+    status: response.status,
+    headers: response.headers,
+  });
+};
+
+/**
+ * Get research job status
+ * @description Poll a website research job. partial_result shows progress
+ * while it runs; client_id is set once it completes.
+ * @response ResearchJobResponse
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+        const job = await clientsService.getResearchJob(id);
+
+        // Verify ownership
+        if (job.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this research job",
+            },
+            { status: 403 }
+          );
+        }
+
+        return NextResponse.json(job);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
@@ -1,5 +1,11 @@
 import { NextResponse } from "next/server";
-import { withAuth, withDb, withValidation } from "@/shared/api";
+import {
+  withAuth,
+  withDb,
+  withSubscription,
+  withIdempotencyKey,
+  withValidation,
+} from "@/shared/api";
 import { clientsService, WebsiteUrlInputSchema } from "@/modules/clients";
 import { Permissions } from "@/shared/auth/types";
 import { ErrorHandler } from "@/shared/utils/errors";
@@ -17,28 +23,39 @@ const createErrorResponse = (error: unknown) => {
 
 /**
  * Research website and create client
- * @description Submit website URL for AI research and client creation
+ * @description Queue AI research of a website. Returns 202 with a research
+ * job; poll the job (Location header) until it completes with a client_id.
+ * Returns 409 with existing_client_id if the company is already a client.
+ * Returns 402 once the organization's monthly AI budget is used up.
  * @body WebsiteUrlInputSchema
- * @response ClientResponse
+ * @response ResearchJobResponse
  * @auth bearer
  * @openapi
  */
 export const POST = withAuth(
   withDb(
-    withValidation(
-      WebsiteUrlInputSchema,
-      async (_req, {}, { user, body, activeOrgId }) => {
-        try {
-          const client = await clientsService.createClientFromWebsite(
-            body.website_url,
-            user.userId,
-            activeOrgId
-          );
-          return NextResponse.json(client, { status: 201 });
-        } catch (error) {
-          return createErrorResponse(error);
-        }
-      }
+    withIdempotencyKey(
+      withSubscription({ requiredLimit: "ai_budget_usd_per_month" })(
+        withValidation(
+          WebsiteUrlInputSchema,
+          async (_req, {}, { user, body, activeOrgId, sourceRoute }) => {
+            try {
+              const job = await clientsService.startResearchJob(
+                body.website_url,
+                user.userId,
+                activeOrgId,
+                sourceRoute
+              );
+              return NextResponse.json(job, {
+                status: 202,
+                headers: { Location: `/api/clients/research/jobs/${job.id}` },
+              });
+            } catch (error) {
+              return createErrorResponse(error);
+            }
+          }
+        )
+      )
     )
   ),
   {
@@ -1,180 +1,218 @@
-import { NextRequest } from "next/server";
-import { withAuth, withDb, withValidation } from "@/shared/api";
-import { clientsService, WebsiteUrlInputSchema } from "@/modules/clients";
+import { after, NextRequest, NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withSubscription,
+  withValidation,
+} from "@/shared/api";
+import {
+  clientsService,
+  formatResearchEventId,
+  parseResearchEventId,
+  WebsiteUrlInputSchema,
+  type IResearchStreamEvent,
+  type ResearchStreamCursor,
+} from "@/modules/clients";
 import { Permissions } from "@/shared/auth/types";
 import { ErrorHandler } from "@/shared/utils/errors";
 import { StreamEventType } from "@/shared/ai-sdk";
 
+/**
+ * Research keeps running after a disconnect - give it the full duration
+ */
+export const maxDuration = 300;
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a research event as an SSE message
+ * SSE format: id: <job id>:<seq>\nevent: <type>\ndata: <json>\n\n
+ */
+const toSSEMessage = (jobId: string, event: IResearchStreamEvent) => {
+  const eventData = JSON.stringify({
+    type: event.type,
+    message: event.message,
+    step: event.step,
+    progress: event.progress,
+    data: event.data,
+    error: event.error,
+    metadata: event.metadata,
+  });
+
+  return encoder.encode(
+    `id: ${formatResearchEventId(jobId, event.seq)}\nevent: ${
+      event.type
+    }\ndata: ${eventData}\n\n`
+  );
+};
+
+/**
+ * Turn research events into an SSE body
+ * Cancelling the body (client disconnect) only stops delivery - the
+ * research itself carries on.
+ */
+const toSSEStream = (
+  jobId: string,
+  events: ReadableStream<IResearchStreamEvent>,
+  getMetadata?: () => Promise<Record<string, unknown>>
+) => {
+  const reader = events.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value: event } = await reader.read();
+
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(toSSEMessage(jobId, event));
+
+        // Send final metadata (live connections only - not replayed)
+        if (event.type === StreamEventType.COMPLETE && getMetadata) {
+          const metadataEvent = JSON.stringify({
+            type: "metadata",
+            ...(await getMetadata()),
+          });
+          controller.enqueue(
+            encoder.encode(`event: metadata\ndata: ${metadataEvent}\n\n`)
+          );
+        }
+      } catch (error) {
+        console.error("Error reading event stream:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        const errorEvent = JSON.stringify({
+          type: StreamEventType.ERROR,
+          message: "Stream processing error",
+          error: { message: errorMessage },
+        });
+        controller.enqueue(
+          encoder.encode(`event: error\ndata: ${errorEvent}\n\n`)
+        );
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+};
+
+const toSSEResponse = (body: ReadableStream<Uint8Array>, jobId: string) =>
+  new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Disable nginx buffering
+      "X-Research-Job-Id": jobId,
+    },
+  });
+
+/**
+ * SSE error response for errors before streaming starts
+ */
+const toErrorResponse = (error: unknown) => {
+  const response = ErrorHandler.handle(error);
+  return new Response(response.body, {
+    status: response.status,
+    headers: response.headers,
+  });
+};
+
+/**
+ * Resume the research a reconnecting client was following
+ * The research is already paid for, so a reconnect skips the AI budget
+ * check and isn't metered - a research that used up the budget can still
+ * be followed to the end.
+ */
+const resumeResearch = async (
+  cursor: ResearchStreamCursor,
+  activeOrgId: string
+): Promise<Response> => {
+  try {
+    const job = await clientsService.getResearchJob(cursor.job_id);
+
+    // Verify ownership
+    if (job.organization_id !== activeOrgId) {
+      return NextResponse.json(
+        {
+          error: "Forbidden",
+          message: "You don't have access to this research",
+        },
+        { status: 403 }
+      );
+    }
+
+    const events = await clientsService.resumeResearchStream(
+      cursor.job_id,
+      cursor.seq
+    );
+    return toSSEResponse(toSSEStream(job.id, events), job.id);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+};
+
+/**
+ * Start streaming research (budget-checked and metered)
+ */
+const startResearch = withSubscription({
+  requiredLimit: "ai_budget_usd_per_month",
+})(
+  withValidation(
+    WebsiteUrlInputSchema,
+    async (_req: NextRequest, {}, { user, body, activeOrgId, sourceRoute }) => {
+      try {
+        const research = await clientsService.startResearchStream(
+          body.website_url,
+          user.userId,
+          activeOrgId,
+          sourceRoute
+        );
+
+        // Keep the research (and its buffering) alive past a disconnect
+        after(research.done);
+
+        return toSSEResponse(
+          toSSEStream(research.jobId, research.events, async () => ({
+            usage: await research.usage,
+            sources: research.sources,
+          })),
+          research.jobId
+        );
+      } catch (error) {
+        return toErrorResponse(error);
+      }
+    }
+  )
+);
+
 /**
  * Stream website research with real-time progress updates
- * @description Submit website URL for streaming AI research
+ * @description Submit website URL for streaming AI research. Every event
+ * has an id; reconnect with the Last-Event-ID header to replay missed
+ * events and follow the same research instead of starting a new one.
+ * Returns 402 once the organization's monthly AI budget is used up;
+ * reconnects to a research already running are never refused for budget.
  * @body WebsiteUrlInputSchema
  * @response Stream of progress events and partial data (Server-Sent Events)
  * @auth bearer
  * @openapi
  */
 export const POST = withAuth(
-  withDb(
-    withValidation(
-      WebsiteUrlInputSchema,
-      async (_req: NextRequest, {}, { body }) => {
-        try {
-          // Start streaming research
-          const streamResult = await clientsService.streamResearchWebsite(
-            body.website_url
-          );
-
-          // Create a ReadableStream for the response
-          const encoder = new TextEncoder();
-          
-          const stream = new ReadableStream({
-            async start(controller) {
-              try {
-                // Stream progress events if available
-                if (streamResult.eventStream) {
-                  const eventReader = streamResult.eventStream.getReader();
-                  
-                  try {
-                    while (true) {
-                      const { done, value: event } = await eventReader.read();
-                      
-                      if (done) break;
-                      
-                      // Send event as SSE format
-                      const eventData = JSON.stringify({
-                        type: event.type,
-                        message: event.message,
-                        step: event.step,
-                        progress: event.progress,
-                        data: event.data,
-                        error: event.error,
-                        metadata: event.metadata,
-                      });
-                      
-                      // SSE format: event: <type>\ndata: <json>\n\n
-                      const sseMessage = `event: ${event.type}\ndata: ${eventData}\n\n`;
-                      controller.enqueue(encoder.encode(sseMessage));
-                      
-                      // If this is an error event, close the stream
-                      if (event.type === StreamEventType.ERROR) {
-                        controller.close();
-                        return;
-                      }
-                      
-                      // If this is a complete event, we're done
-                      if (event.type === StreamEventType.COMPLETE) {
-                        // Send final metadata
-                        const usage = await streamResult.usage;
-                        const sources = streamResult.sources;
-                        
-                        const metadataEvent = JSON.stringify({
-                          type: 'metadata',
-                          usage,
-                          sources,
-                        });
-                        
-                        controller.enqueue(
-                          encoder.encode(`event: metadata\ndata: ${metadataEvent}\n\n`)
-                        );
-                        
-                        controller.close();
-                        return;
-                      }
-                    }
-                  } catch (error) {
-                    console.error("Error reading event stream:", error);
-                    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-                    const errorEvent = JSON.stringify({
-                      type: StreamEventType.ERROR,
-                      message: "Stream processing error",
-                      error: { message: errorMessage },
-                    });
-                    controller.enqueue(
-                      encoder.encode(`event: error\ndata: ${errorEvent}\n\n`)
-                    );
-                    controller.close();
-                  } finally {
-                    eventReader.releaseLock();
-                  }
-                } else {
-                  // Fallback: stream partial objects directly
-                  const partialReader = streamResult.partialObjectStream.getReader();
-                  
-                  try {
-                    while (true) {
-                      const { done, value } = await partialReader.read();
-                      
-                      if (done) {
-                        // Send completion event
-                        const finalObject = await streamResult.objectPromise;
-                        const completeEvent = JSON.stringify({
-                          type: StreamEventType.COMPLETE,
-                          message: "Research completed!",
-                          data: finalObject,
-                        });
-                        
-                        controller.enqueue(
-                          encoder.encode(`event: complete\ndata: ${completeEvent}\n\n`)
-                        );
-                        
-                        controller.close();
-                        break;
-                      }
-                      
-                      // Send partial update
-                      const partialEvent = JSON.stringify({
-                        type: StreamEventType.PARTIAL,
-                        message: "Processing...",
-                        data: value,
-                      });
-                      
-                      controller.enqueue(
-                        encoder.encode(`event: partial\ndata: ${partialEvent}\n\n`)
-                      );
-                    }
-                  } finally {
-                    partialReader.releaseLock();
-                  }
-                }
-              } catch (error) {
-                console.error("Stream error:", error);
-                const errorMessage = error instanceof Error ? error.message : "Unknown error";
-                const errorEvent = JSON.stringify({
-                  type: StreamEventType.ERROR,
-                  message: "Stream failed",
-                  error: { message: errorMessage },
-                });
-                
-                controller.enqueue(
-                  encoder.encode(`event: error\ndata: ${errorEvent}\n\n`)
-                );
-                controller.close();
-              }
-            },
-          });
+  withDb((req, context, props) => {
+    const cursor = parseResearchEventId(req.headers.get("last-event-id"));
 
-          // Return streaming response with SSE headers
-          return new Response(stream, {
-            headers: {
-              "Content-Type": "text/event-stream",
-              "Cache-Control": "no-cache, no-transform",
-              "Connection": "keep-alive",
-              "X-Accel-Buffering": "no", // Disable nginx buffering
-            },
-          });
-        } catch (error) {
-          // Handle errors that occur before streaming starts
-          const response = ErrorHandler.handle(error);
-          return new Response(response.body, {
-            status: response.status,
-            headers: response.headers,
-          });
-        }
-      }
-    )
-  ),
+    // Reconnect - resume the research the client was following
+    return cursor
+      ? resumeResearch(cursor, props.activeOrgId)
+      : startResearch(req, context, props);
+  }),
   {
     requiredPermissions: [Permissions.WRITE_CLIENTS],
   }
 );
-
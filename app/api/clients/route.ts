@@ -10,15 +10,18 @@ import { Permissions } from "@/shared/auth/types";
 
 /**
  * Get clients
- * @description Returns a list of clients for the authenticated user/organization
+ * @description Returns a list of clients for the authenticated user/organization.
+ * Supports filtering (e.g. ?research_metadata.review_status=needs_review&company.industry=in:SaaS,Fintech), search and sort
  * @auth bearer
  * @openapi
  */
 export const GET = withAuth(
-  withDb(async (_req, {}, { activeOrgId }) => {
+  withDb(async (req, {}, { activeOrgId }) => {
     try {
+      const { searchParams } = new URL(req.url);
       const data = await clientsService.findClientsByOrganization(
-        activeOrgId
+        activeOrgId,
+        searchParams
       );
       return NextResponse.json(data);
     } catch (error) {
@@ -32,7 +35,8 @@ export const GET = withAuth(
 
 /**
  * Create a new client
- * @description Create a client manually with provided data
+ * @description Create a client manually with provided data. Returns 409
+ * with existing_client_id if the website's company is already a client.
  * @body CreateClientSchema
  * @response ClientResponse
  * @auth bearer
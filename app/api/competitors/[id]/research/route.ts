@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withSubscription,
+  createErrorResponse,
+} from "@/shared/api";
+import { competitorsService } from "@/modules/competitors";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Research competitor
+ * @description Queue a research run for the competitor. Returns 202 with
+ * the competitor as it is now; the run adds a competitor_research snapshot
+ * when it completes (poll GET /api/competitors/:id).
+ * Returns 402 once the organization's monthly AI budget is used up.
+ * @response CompetitorResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withSubscription({ requiredLimit: "ai_budget_usd_per_month" })(
+      async (
+        _req,
+        context: NextRouteContext<{ id: string }>,
+        { user, activeOrgId, sourceRoute }
+      ) => {
+        try {
+          const { id } = await context.params;
+          const competitor = await competitorsService.getCompetitor(id);
+
+          // Verify ownership
+          if (competitor.organization_id !== activeOrgId) {
+            return NextResponse.json(
+              {
+                error: "Forbidden",
+                message: "You don't have access to this competitor",
+              },
+              { status: 403 }
+            );
+          }
+
+          const queued = await competitorsService.requestResearch(
+            id,
+            user.userId,
+            sourceRoute
+          );
+          return NextResponse.json(queued, { status: 202 });
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
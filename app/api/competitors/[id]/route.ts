@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import { competitorsService } from "@/modules/competitors";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Get competitor by ID
+ * @description Retrieve a tracked competitor with the clients it is linked
+ * to and its snapshot history
+ * @response CompetitorResponse
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+        const competitor = await competitorsService.getCompetitor(id);
+
+        // Verify ownership
+        if (competitor.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this competitor",
+            },
+            { status: 403 }
+          );
+        }
+
+        return NextResponse.json(competitor);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
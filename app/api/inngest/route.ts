@@ -1,45 +1,23 @@
-import { NextResponse } from "next/server";
+import { serve } from "inngest/next";
+import { inngest } from "@/inngest/client";
+import { functions } from "@/inngest/functions";
 
 /**
- * Inngest Endpoint Stub
+ * Inngest Endpoint
  *
- * This is a placeholder endpoint that prevents 404 errors when the Inngest
- * Dev Server tries to discover functions during development.
+ * Registers all Inngest functions and executes them when Inngest calls back.
+ * Excluded from the auth proxy - requests are verified with
+ * INNGEST_SIGNING_KEY instead.
  *
- * When you're ready to activate Inngest (Phase v0.2), replace this with:
- * - Import Inngest client from `inngest/client.ts`
- * - Import all function handlers
- * - Use `serve()` to register functions
- *
- * For now, this returns an empty response to stop the 404 spam.
+ * Local development: run `npx inngest-cli@latest dev` and set INNGEST_DEV=1;
+ * the dev server discovers functions at http://localhost:3000/api/inngest.
  */
+export const { GET, POST, PUT } = serve({
+  client: inngest,
+  functions,
+});
 
-export async function GET() {
-  return NextResponse.json(
-    {
-      message: "Inngest endpoint (stub - not active yet)",
-      functions: [],
-    },
-    { status: 200 }
-  );
-}
-
-export async function PUT() {
-  return NextResponse.json(
-    {
-      message: "Inngest endpoint (stub - not active yet)",
-      functions: [],
-    },
-    { status: 200 }
-  );
-}
-
-export async function POST() {
-  return NextResponse.json(
-    {
-      message: "Inngest endpoint (stub - not active yet)",
-      functions: [],
-    },
-    { status: 200 }
-  );
-}
+/**
+ * Website research runs inside a single step and can take minutes
+ */
+export const maxDuration = 300;
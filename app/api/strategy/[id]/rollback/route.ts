@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { strategyService, RollbackPlanSchema } from "@/modules/strategy";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Roll back plan
+ * @description Restore the content of an earlier plan version. The rollback is stored as a new version
+ * @body RollbackPlanSchema
+ * @response PlanResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withValidation(
+      RollbackPlanSchema,
+      async (
+        _req,
+        context: NextRouteContext<{ id: string }>,
+        { user, body, activeOrgId }
+      ) => {
+        try {
+          const { id } = await context.params;
+
+          // Verify ownership before rollback
+          const existingPlan = await strategyService.getPlan(id);
+          if (existingPlan.organization_id !== activeOrgId) {
+            return NextResponse.json(
+              {
+                error: "Forbidden",
+                message: "You don't have access to this plan",
+              },
+              { status: 403 }
+            );
+          }
+
+          const plan = await strategyService.rollbackPlan(
+            id,
+            body.version,
+            user.userId,
+            body.note
+          );
+          return NextResponse.json(plan);
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
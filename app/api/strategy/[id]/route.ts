@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { strategyService, UpdatePlanSchema } from "@/modules/strategy";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Get plan by ID
+ * @description Retrieve a specific growth plan by ID
+ * @response PlanResponse
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+        const plan = await strategyService.getPlan(id);
+
+        // Verify ownership
+        if (plan.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this plan",
+            },
+            { status: 403 }
+          );
+        }
+
+        return NextResponse.json(plan);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
+
+/**
+ * Update plan
+ * @description Hand-edit a plan. Content changes create a new plan version
+ * @body UpdatePlanSchema
+ * @response PlanResponse
+ * @auth bearer
+ * @openapi
+ */
+export const PATCH = withAuth(
+  withDb(
+    withValidation(
+      UpdatePlanSchema,
+      async (
+        _req,
+        context: NextRouteContext<{ id: string }>,
+        { user, body, activeOrgId }
+      ) => {
+        try {
+          const { id } = await context.params;
+
+          // Verify ownership before update
+          const existingPlan = await strategyService.getPlan(id);
+          if (existingPlan.organization_id !== activeOrgId) {
+            return NextResponse.json(
+              {
+                error: "Forbidden",
+                message: "You don't have access to this plan",
+              },
+              { status: 403 }
+            );
+          }
+
+          const plan = await strategyService.updatePlan(
+            id,
+            body as any,
+            user.userId
+          );
+          return NextResponse.json(plan);
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
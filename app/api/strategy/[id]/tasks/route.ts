@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import { strategyService } from "@/modules/strategy";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Expand plan into tasks
+ * @description Schedule a task for every calendar item of the plan. Idempotent - items that already have a task are skipped, and open tasks for items no longer on the plan are cancelled. Plans are expanded automatically when saved; use this to re-run the expansion
+ * @response IPlanExpansionResult
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { user, activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+
+        // Verify ownership before expansion
+        const plan = await strategyService.getPlan(id);
+        if (plan.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this plan",
+            },
+            { status: 403 }
+          );
+        }
+
+        const result = await strategyService.expandPlanTasks(
+          id,
+          user.userId,
+          activeOrgId
+        );
+        return NextResponse.json(result);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import {
+  strategyService,
+  PlanVersionDiffQuerySchema,
+} from "@/modules/strategy";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Diff plan versions
+ * @description Structured diff between two plan versions (?from=1&to=2): pillars added/removed, calendar items moved, KPI targets changed
+ * @response PlanDiffResponse
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    async (req, context: NextRouteContext<{ id: string }>, { activeOrgId }) => {
+      try {
+        const { id } = await context.params;
+        const { searchParams } = new URL(req.url);
+        const query = PlanVersionDiffQuerySchema.parse({
+          from: searchParams.get("from"),
+          to: searchParams.get("to"),
+        });
+
+        // Verify ownership
+        const plan = await strategyService.getPlan(id);
+        if (plan.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this plan",
+            },
+            { status: 403 }
+          );
+        }
+
+        const diff = await strategyService.diffPlanVersions(
+          id,
+          query.from,
+          query.to
+        );
+        return NextResponse.json(diff);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import { strategyService } from "@/modules/strategy";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * List plan versions
+ * @description Returns every stored version of a plan, newest first
+ * @response PlanVersionResponse[]
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+
+        // Verify ownership
+        const plan = await strategyService.getPlan(id);
+        if (plan.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this plan",
+            },
+            { status: 403 }
+          );
+        }
+
+        const versions = await strategyService.getPlanVersions(id);
+        return NextResponse.json(versions);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withSubscription,
+  withValidation,
+} from "@/shared/api";
+import { strategyService, GeneratePlanSchema } from "@/modules/strategy";
+import { clientsService } from "@/modules/clients";
+import { Permissions } from "@/shared/auth/types";
+import { ErrorHandler } from "@/shared/utils/errors";
+import { StreamEventType } from "@/shared/ai-sdk";
+
+/**
+ * Stream growth plan generation with real-time progress updates
+ * @description Generate a 30-day growth plan from a client's context, streaming progress as pillars and calendar weeks fill in. The plan is stored when the stream completes.
+ * Returns 409 if the client's research needs review (confirm it first).
+ * Returns 402 once the organization's monthly AI budget is used up.
+ * @body GeneratePlanSchema
+ * @response Stream of progress events and partial data (Server-Sent Events)
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withSubscription({ requiredLimit: "ai_budget_usd_per_month" })(
+      withValidation(
+        GeneratePlanSchema,
+        async (
+          _req: NextRequest,
+          {},
+          { user, body, activeOrgId, sourceRoute }
+        ) => {
+          try {
+            // Verify client ownership before spending AI tokens
+            const client = await clientsService.getClientContext(
+              body.client_id
+            );
+            if (client.organization_id !== activeOrgId) {
+              return NextResponse.json(
+                {
+                  error: "Forbidden",
+                  message: "You don't have access to this client",
+                },
+                { status: 403 }
+              );
+            }
+
+            // Start streaming plan generation
+            const streamResult = await strategyService.streamGeneratePlan(
+              body.client_id,
+              user.userId,
+              activeOrgId,
+              {
+                start_date: body.start_date,
+                instructions: body.instructions,
+                source_route: sourceRoute,
+              }
+            );
+
+            // Create a ReadableStream for the response
+            const encoder = new TextEncoder();
+
+            const stream = new ReadableStream({
+              async start(controller) {
+                const eventReader = streamResult.eventStream.getReader();
+
+                try {
+                  while (true) {
+                    const { done, value: event } = await eventReader.read();
+
+                    if (done) break;
+
+                    // Send event as SSE format
+                    const eventData = JSON.stringify({
+                      type: event.type,
+                      message: event.message,
+                      step: event.step,
+                      progress: event.progress,
+                      data: event.data,
+                      error: event.error,
+                      metadata: event.metadata,
+                    });
+
+                    // SSE format: event: <type>\ndata: <json>\n\n
+                    const sseMessage = `event: ${event.type}\ndata: ${eventData}\n\n`;
+                    controller.enqueue(encoder.encode(sseMessage));
+
+                    // If this is an error event, close the stream
+                    if (event.type === StreamEventType.ERROR) {
+                      controller.close();
+                      return;
+                    }
+
+                    // If this is a complete event, we're done
+                    if (event.type === StreamEventType.COMPLETE) {
+                      // Send final metadata
+                      const usage = await streamResult.usage;
+
+                      const metadataEvent = JSON.stringify({
+                        type: "metadata",
+                        usage,
+                      });
+
+                      controller.enqueue(
+                        encoder.encode(
+                          `event: metadata\ndata: ${metadataEvent}\n\n`
+                        )
+                      );
+
+                      controller.close();
+                      return;
+                    }
+                  }
+
+                  controller.close();
+                } catch (error) {
+                  console.error("Error reading plan event stream:", error);
+                  const errorMessage =
+                    error instanceof Error ? error.message : "Unknown error";
+                  const errorEvent = JSON.stringify({
+                    type: StreamEventType.ERROR,
+                    message: "Stream processing error",
+                    error: { message: errorMessage },
+                  });
+                  controller.enqueue(
+                    encoder.encode(`event: error\ndata: ${errorEvent}\n\n`)
+                  );
+                  controller.close();
+                } finally {
+                  eventReader.releaseLock();
+                }
+              },
+            });
+
+            // Return streaming response with SSE headers
+            return new Response(stream, {
+              headers: {
+                "Content-Type": "text/event-stream",
+                "Cache-Control": "no-cache, no-transform",
+                Connection: "keep-alive",
+                "X-Accel-Buffering": "no", // Disable nginx buffering
+              },
+            });
+          } catch (error) {
+            // Handle errors that occur before streaming starts
+            const response = ErrorHandler.handle(error);
+            return new Response(response.body, {
+              status: response.status,
+              headers: response.headers,
+            });
+          }
+        }
+      )
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
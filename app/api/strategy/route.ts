@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withSubscription,
+  withIdempotencyKey,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { strategyService, GeneratePlanSchema } from "@/modules/strategy";
+import { clientsService } from "@/modules/clients";
+import { Permissions } from "@/shared/auth/types";
+
+/**
+ * Get plans
+ * @description Returns growth plans for the organization, optionally filtered by client_id
+ * @response PlanResponse[]
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(async (req, {}, { activeOrgId }) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const clientId = searchParams.get("client_id");
+
+      if (!clientId) {
+        const data = await strategyService.findPlansByOrganization(activeOrgId);
+        return NextResponse.json(data);
+      }
+
+      // Verify client ownership
+      const client = await clientsService.getClientContext(clientId);
+      if (client.organization_id !== activeOrgId) {
+        return NextResponse.json(
+          {
+            error: "Forbidden",
+            message: "You don't have access to this client",
+          },
+          { status: 403 }
+        );
+      }
+
+      const data = await strategyService.getPlansByClient(clientId);
+      return NextResponse.json(data);
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+  }),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
+
+/**
+ * Generate a growth plan
+ * @description Generate a 30-day growth plan from a client's context using AI and store it as a new plan version.
+ * Returns 409 if the client's research needs review (confirm it first).
+ * Returns 402 once the organization's monthly AI budget is used up.
+ * @body GeneratePlanSchema
+ * @response PlanResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withIdempotencyKey(
+      withSubscription({ requiredLimit: "ai_budget_usd_per_month" })(
+        withValidation(
+          GeneratePlanSchema,
+          async (_req, {}, { user, body, activeOrgId, sourceRoute }) => {
+            try {
+              // Verify client ownership before spending AI tokens
+              const client = await clientsService.getClientContext(
+                body.client_id
+              );
+              if (client.organization_id !== activeOrgId) {
+                return NextResponse.json(
+                  {
+                    error: "Forbidden",
+                    message: "You don't have access to this client",
+                  },
+                  { status: 403 }
+                );
+              }
+
+              const plan = await strategyService.generatePlan(
+                body.client_id,
+                user.userId,
+                activeOrgId,
+                {
+                  start_date: body.start_date,
+                  instructions: body.instructions,
+                  source_route: sourceRoute,
+                }
+              );
+              return NextResponse.json(plan, { status: 201 });
+            } catch (error) {
+              return createErrorResponse(error);
+            }
+          }
+        )
+      )
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
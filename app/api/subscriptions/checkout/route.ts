@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import {
+  subscriptionsService,
+  CreateCheckoutSessionInputSchema,
+} from "@/modules/subscriptions";
+import { Permissions } from "@/shared/auth/types";
+
+/**
+ * Start checkout
+ * @description Creates a hosted checkout for a paid tier for the active
+ * organization and returns its URL. The subscription changes once the
+ * billing provider confirms payment through the webhook.
+ * @body CreateCheckoutSessionInputSchema
+ * @response BillingSessionResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withValidation(
+      CreateCheckoutSessionInputSchema,
+      async (_req, _params, { user, body, activeOrgId }) => {
+        try {
+          const session = await subscriptionsService.createCheckoutSession(
+            activeOrgId,
+            body,
+            user.email
+          );
+          return NextResponse.json(session, { status: 201 });
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_BILLING],
+  }
+);
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import { subscriptionsService } from "@/modules/subscriptions";
+
+/**
+ * Get entitlements
+ * @description Effective features and limits of the active organization -
+ * its tier's with any per-organization limit overrides applied - and usage
+ * against each limit. A limit (or remaining) of -1 is unlimited. Expired and
+ * cancelled subscriptions have no features. Open to every member so the UI
+ * can hide what the plan doesn't include.
+ * @response EntitlementsResponse
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(async (_req, {}, { activeOrgId }) => {
+    try {
+      const entitlements = await subscriptionsService.getEntitlements(
+        activeOrgId
+      );
+      return NextResponse.json(entitlements);
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+  })
+);
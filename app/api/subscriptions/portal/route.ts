@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import {
+  subscriptionsService,
+  CreatePortalSessionInputSchema,
+} from "@/modules/subscriptions";
+import { Permissions } from "@/shared/auth/types";
+
+/**
+ * Open billing portal
+ * @description Returns a customer portal URL for the active organization,
+ * where invoices, payment methods and cancellation are managed. Only
+ * available once the organization has checked out a paid tier.
+ * @body CreatePortalSessionInputSchema
+ * @response BillingSessionResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withValidation(
+      CreatePortalSessionInputSchema,
+      async (_req, _params, { body, activeOrgId }) => {
+        try {
+          const session = await subscriptionsService.createPortalSession(
+            activeOrgId,
+            body
+          );
+          return NextResponse.json(session, { status: 201 });
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_BILLING],
+  }
+);
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import { subscriptionsService } from "@/modules/subscriptions";
+import { Permissions } from "@/shared/auth/types";
+
+/**
+ * Rebuild usage counters
+ * @description Recount the active organization's cached usage counters from
+ * the usage ledger - monthly metrics from the start of the current usage
+ * period, the others from the beginning. Repairs counters that drifted from
+ * the ledger (e.g. when a counter update failed after its usage was
+ * recorded).
+ * @response SubscriptionResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(async (_req, {}, { activeOrgId }) => {
+    try {
+      const subscription = await subscriptionsService.rebuildUsageCounters(
+        activeOrgId
+      );
+      return NextResponse.json(subscription);
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+  }),
+  {
+    requiredPermissions: [Permissions.WRITE_BILLING],
+  }
+);
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { withAuth, withDb, createErrorResponse } from "@/shared/api";
+import {
+  subscriptionsService,
+  UsageReportQuerySchema,
+} from "@/modules/subscriptions";
+import { Permissions } from "@/shared/auth/types";
+import { ValidationError } from "@/shared/utils/errors";
+
+/**
+ * Get usage report
+ * @description Itemized usage of the active organization from the usage
+ * ledger, per metric (`?group_by=metric`, default), per UTC day and metric
+ * (`day`) or per user and metric (`user`). `from` (inclusive) and `to`
+ * (exclusive) are ISO dates; the default period is the current calendar
+ * month (UTC). Reports cover at most 366 days.
+ * @response UsageReportResponse
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(async (req, {}, { activeOrgId }) => {
+    try {
+      const { searchParams } = req.nextUrl;
+      const query = UsageReportQuerySchema.safeParse({
+        from: searchParams.get("from") ?? undefined,
+        to: searchParams.get("to") ?? undefined,
+        group_by: searchParams.get("group_by") ?? undefined,
+      });
+      if (!query.success) {
+        throw ValidationError.fromZod({
+          errors: query.error.issues.map((issue) => ({
+            path: issue.path as (string | number)[],
+            message: issue.message,
+          })),
+        });
+      }
+
+      const report = await subscriptionsService.getUsageReport(
+        activeOrgId,
+        query.data
+      );
+      return NextResponse.json(report);
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+  }),
+  {
+    requiredPermissions: [Permissions.VIEW_BILLING],
+  }
+);
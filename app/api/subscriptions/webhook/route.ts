@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withDb, createErrorResponse } from "@/shared/api";
+import { subscriptionsService } from "@/modules/subscriptions";
+
+/**
+ * Header carrying the webhook signature (Stripe's name; the fake provider
+ * reads the same header)
+ */
+const SIGNATURE_HEADER = "stripe-signature";
+
+/**
+ * Billing webhook
+ * @description Receives billing provider webhooks. Not authenticated with a
+ * bearer token - the signature is verified against the raw body instead, and
+ * invalid signatures get a 400. Events that don't affect subscriptions are
+ * acknowledged and ignored.
+ * @response { received: boolean }
+ */
+export const POST = withDb(async (req: NextRequest) => {
+  try {
+    const payload = await req.text();
+    const signature = req.headers.get(SIGNATURE_HEADER) ?? "";
+
+    await subscriptionsService.handleBillingWebhook(payload, signature);
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+});
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { tasksService, UpdateTaskSchema } from "@/modules/tasks";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Get task by ID
+ * @description Retrieve a specific task by ID
+ * @response TaskResponse
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+        const task = await tasksService.getTask(id);
+
+        // Verify ownership
+        if (task.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this task",
+            },
+            { status: 403 }
+          );
+        }
+
+        return NextResponse.json(task);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
+
+/**
+ * Update task
+ * @description Update task details. Status changes go through /api/tasks/:id/status
+ * @body UpdateTaskSchema
+ * @response TaskResponse
+ * @auth bearer
+ * @openapi
+ */
+export const PATCH = withAuth(
+  withDb(
+    withValidation(
+      UpdateTaskSchema,
+      async (
+        _req,
+        context: NextRouteContext<{ id: string }>,
+        { user, body, activeOrgId }
+      ) => {
+        try {
+          const { id } = await context.params;
+
+          // Verify ownership before update
+          const existingTask = await tasksService.getTask(id);
+          if (existingTask.organization_id !== activeOrgId) {
+            return NextResponse.json(
+              {
+                error: "Forbidden",
+                message: "You don't have access to this task",
+              },
+              { status: 403 }
+            );
+          }
+
+          const task = await tasksService.updateTask(
+            id,
+            body as any,
+            user.userId
+          );
+          return NextResponse.json(task);
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
+
+/**
+ * Delete task
+ * @description Soft delete a task
+ * @response NoContent
+ * @auth bearer
+ * @openapi
+ */
+export const DELETE = withAuth(
+  withDb(
+    async (
+      _req,
+      context: NextRouteContext<{ id: string }>,
+      { activeOrgId }
+    ) => {
+      try {
+        const { id } = await context.params;
+
+        // Verify ownership before deletion
+        const existingTask = await tasksService.getTask(id);
+        if (existingTask.organization_id !== activeOrgId) {
+          return NextResponse.json(
+            {
+              error: "Forbidden",
+              message: "You don't have access to this task",
+            },
+            { status: 403 }
+          );
+        }
+
+        await tasksService.deleteById(id);
+        return new NextResponse(null, { status: 204 });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
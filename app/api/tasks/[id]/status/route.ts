@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { tasksService, TransitionTaskStatusSchema } from "@/modules/tasks";
+import { Permissions } from "@/shared/auth/types";
+import { NextRouteContext } from "@/shared/types";
+
+/**
+ * Change task status
+ * @description Move a task through its lifecycle (draft → queued → in_progress → review → done/failed/cancelled). Illegal transitions return 409
+ * @body TransitionTaskStatusSchema
+ * @response TaskResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withValidation(
+      TransitionTaskStatusSchema,
+      async (
+        _req,
+        context: NextRouteContext<{ id: string }>,
+        { user, body, activeOrgId }
+      ) => {
+        try {
+          const { id } = await context.params;
+
+          // Verify ownership before transition
+          const existingTask = await tasksService.getTask(id);
+          if (existingTask.organization_id !== activeOrgId) {
+            return NextResponse.json(
+              {
+                error: "Forbidden",
+                message: "You don't have access to this task",
+              },
+              { status: 403 }
+            );
+          }
+
+          const task = await tasksService.transitionStatus(
+            id,
+            body.status,
+            user.userId,
+            body.reason
+          );
+          return NextResponse.json(task);
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
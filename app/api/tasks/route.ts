@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import {
+  withAuth,
+  withDb,
+  withValidation,
+  createErrorResponse,
+} from "@/shared/api";
+import { tasksService, CreateTaskSchema } from "@/modules/tasks";
+import { clientsService } from "@/modules/clients";
+import { Permissions } from "@/shared/auth/types";
+
+/**
+ * Get tasks
+ * @description Returns tasks for the organization. Supports filtering (e.g. ?status=in:queued,in_progress&client_id=...&due_date=lte:2025-01-31), search, sort and pagination
+ * @response IPaginationResponse<TaskResponse>
+ * @auth bearer
+ * @openapi
+ */
+export const GET = withAuth(
+  withDb(async (req, {}, { activeOrgId }) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const data = await tasksService.findTasks(searchParams, activeOrgId);
+      return NextResponse.json(data);
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+  }),
+  {
+    requiredPermissions: [Permissions.READ_CLIENTS],
+  }
+);
+
+/**
+ * Create a task
+ * @description Create a task for a client. New tasks start as draft (or queued)
+ * @body CreateTaskSchema
+ * @response TaskResponse
+ * @auth bearer
+ * @openapi
+ */
+export const POST = withAuth(
+  withDb(
+    withValidation(
+      CreateTaskSchema,
+      async (_req, {}, { user, body, activeOrgId }) => {
+        try {
+          // Verify client ownership
+          const client = await clientsService.getClientContext(body.client_id);
+          if (client.organization_id !== activeOrgId) {
+            return NextResponse.json(
+              {
+                error: "Forbidden",
+                message: "You don't have access to this client",
+              },
+              { status: 403 }
+            );
+          }
+
+          const task = await tasksService.createTask(
+            body as any,
+            user.userId,
+            activeOrgId
+          );
+          return NextResponse.json(task, { status: 201 });
+        } catch (error) {
+          return createErrorResponse(error);
+        }
+      }
+    )
+  ),
+  {
+    requiredPermissions: [Permissions.WRITE_CLIENTS],
+  }
+);
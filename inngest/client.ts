@@ -0,0 +1,52 @@
+/**
+ * Inngest Client
+ *
+ * Typed Inngest client for the whole application. The event map comes from
+ * modules/events/registry.ts, so `inngest.send()`, `step.sendEvent()` and
+ * function triggers only accept registered events with matching payloads.
+ *
+ * ENVIRONMENT:
+ * - INNGEST_EVENT_KEY   - Required in production to send events
+ * - INNGEST_SIGNING_KEY - Required in production to verify requests to /api/inngest
+ * - INNGEST_DEV=1       - Use the local Inngest dev server (`npx inngest-cli@latest dev`)
+ */
+
+import { EventSchemas, Inngest } from "inngest";
+import type {
+  AppEvent,
+  InngestEventMap,
+  InngestEventPayload,
+} from "@/modules/events/registry";
+import { databaseMiddleware } from "./middleware";
+
+/**
+ * Application identifier shown in the Inngest dashboard
+ */
+export const INNGEST_APP_ID = "growthmind";
+
+export const inngest = new Inngest({
+  id: INNGEST_APP_ID,
+  schemas: new EventSchemas().fromRecord<InngestEventMap>(),
+  middleware: [databaseMiddleware],
+});
+
+/**
+ * Convert a domain event (createEvent) to the Inngest wire format
+ * The idempotency key (or event ID) becomes the Inngest event ID, which
+ * Inngest uses to deduplicate sends within 24 hours.
+ *
+ * @param event - Event built with createEvent()
+ * @returns Payload for inngest.send() / step.sendEvent()
+ */
+export function toInngestEvent<TEvent extends AppEvent>(
+  event: TEvent
+): InngestEventPayload<TEvent> {
+  return {
+    id: event.metadata.idempotencyKey ?? event.metadata.eventId,
+    name: event.name,
+    data: {
+      ...event.data,
+      metadata: event.metadata,
+    },
+  } as InngestEventPayload<TEvent>;
+}
@@ -0,0 +1,10 @@
+/**
+ * competitor.research.requested - Registered Functions
+ *
+ * Every Inngest function triggered by `competitor.research.requested`, across modules.
+ * Keeps the fan-out of an event visible in one place.
+ */
+
+import { runCompetitorResearch } from "@/modules/competitors/inngest";
+
+export const competitorResearchRequestedFunctions = [runCompetitorResearch];
@@ -0,0 +1,10 @@
+/**
+ * context.updated - Registered Functions
+ *
+ * Every Inngest function triggered by `context.updated`, across modules.
+ * Keeps the fan-out of an event visible in one place.
+ */
+
+import { syncCompetitorsOnContextUpdated } from "@/modules/competitors/inngest";
+
+export const contextUpdatedFunctions = [syncCompetitorsOnContextUpdated];
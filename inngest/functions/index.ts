@@ -0,0 +1,27 @@
+/**
+ * Inngest Functions
+ *
+ * All functions served from /api/inngest, grouped by triggering event.
+ * Add a new module function to the file of the event that triggers it
+ * (cron-triggered functions go in scheduled.ts).
+ */
+
+import { projectCreatedFunctions } from "./project.created";
+import { projectDeletedFunctions } from "./project.deleted";
+import { contextUpdatedFunctions } from "./context.updated";
+import { researchRequestedFunctions } from "./research.requested";
+import { competitorResearchRequestedFunctions } from "./competitor.research.requested";
+import { planGeneratedFunctions } from "./plan.generated";
+import { taskCreatedFunctions } from "./task.created";
+import { scheduledFunctions } from "./scheduled";
+
+export const functions = [
+  ...projectCreatedFunctions,
+  ...projectDeletedFunctions,
+  ...contextUpdatedFunctions,
+  ...researchRequestedFunctions,
+  ...competitorResearchRequestedFunctions,
+  ...planGeneratedFunctions,
+  ...taskCreatedFunctions,
+  ...scheduledFunctions,
+];
@@ -0,0 +1,10 @@
+/**
+ * plan.generated - Registered Functions
+ *
+ * Every Inngest function triggered by `plan.generated`, across modules.
+ * Keeps the fan-out of an event visible in one place.
+ */
+
+import { createTasksFromPlan } from "@/modules/tasks/inngest";
+
+export const planGeneratedFunctions = [createTasksFromPlan];
@@ -0,0 +1,10 @@
+/**
+ * project.created - Registered Functions
+ *
+ * Every Inngest function triggered by `project.created`, across modules.
+ * Keeps the fan-out of an event visible in one place.
+ */
+
+import { syncCompetitorsOnProjectCreated } from "@/modules/competitors/inngest";
+
+export const projectCreatedFunctions = [syncCompetitorsOnProjectCreated];
@@ -0,0 +1,10 @@
+/**
+ * project.deleted - Registered Functions
+ *
+ * Every Inngest function triggered by `project.deleted`, across modules.
+ * Keeps the fan-out of an event visible in one place.
+ */
+
+import { unlinkCompetitorsOnProjectDeleted } from "@/modules/competitors/inngest";
+
+export const projectDeletedFunctions = [unlinkCompetitorsOnProjectDeleted];
@@ -0,0 +1,10 @@
+/**
+ * research.requested - Registered Functions
+ *
+ * Every Inngest function triggered by `research.requested`, across modules.
+ * Keeps the fan-out of an event visible in one place.
+ */
+
+import { runResearchJob } from "@/modules/clients/inngest";
+
+export const researchRequestedFunctions = [runResearchJob];
@@ -0,0 +1,19 @@
+/**
+ * Scheduled - Registered Functions
+ *
+ * Every cron-triggered Inngest function, across modules.
+ */
+
+import { refreshStaleClientResearch } from "@/modules/clients/inngest";
+import {
+  remindExpiringTrials,
+  expireEndedTrials,
+  resetMonthlyUsageOnAnniversary,
+} from "@/modules/subscriptions/inngest";
+
+export const scheduledFunctions = [
+  refreshStaleClientResearch,
+  remindExpiringTrials,
+  expireEndedTrials,
+  resetMonthlyUsageOnAnniversary,
+];
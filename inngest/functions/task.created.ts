@@ -0,0 +1,10 @@
+/**
+ * task.created - Registered Functions
+ *
+ * Every Inngest function triggered by `task.created`, across modules.
+ * Keeps the fan-out of an event visible in one place.
+ */
+
+import { trackTaskCreated } from "@/modules/analytics/inngest";
+
+export const taskCreatedFunctions = [trackTaskCreated];
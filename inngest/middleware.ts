@@ -0,0 +1,27 @@
+/**
+ * Inngest Middleware
+ *
+ * Cross-cutting concerns for every Inngest function run - the Inngest
+ * equivalent of the withDb route HOF.
+ */
+
+import { InngestMiddleware } from "inngest";
+import { dbService } from "@/shared/db/database.service";
+
+/**
+ * Ensure the database is connected before any function step runs
+ */
+export const databaseMiddleware = new InngestMiddleware({
+  name: "Database connection",
+  init() {
+    return {
+      onFunctionRun() {
+        return {
+          async transformInput() {
+            await dbService.connect();
+          },
+        };
+      },
+    };
+  },
+});
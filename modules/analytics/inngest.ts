@@ -0,0 +1,41 @@
+/**
+ * Analytics Module - Inngest Event Handlers
+ *
+ * ============================================
+ * EVENT-DRIVEN WORKFLOWS
+ * ============================================
+ *
+ * - task.created → record the task for execution analytics
+ *
+ * The analytics store is not built yet; the handler records a structured
+ * log line so the plan → task → analytics flow is traceable end to end.
+ */
+
+import { inngest } from "@/inngest/client";
+import { EventName } from "@/modules/events";
+import { logger } from "@/shared/utils/logger";
+
+const log = logger.child({ module: "analytics-inngest" });
+
+/**
+ * Track newly created tasks
+ */
+export const trackTaskCreated = inngest.createFunction(
+  {
+    id: "analytics-track-task-created",
+    name: "Track created task",
+  },
+  { event: EventName.TASK_CREATED },
+  async ({ event }) => {
+    const { task_id, client_id, plan_id, metadata } = event.data;
+
+    log.child({ correlationId: metadata.correlationId }).info("Task created", {
+      taskId: task_id,
+      clientId: client_id,
+      planId: plan_id,
+      eventId: metadata.eventId,
+    });
+
+    return { tracked: true, task_id };
+  }
+);
@@ -56,6 +56,7 @@ type ExcludedClientFields =
  *
  * Supports filtering by:
  * - Company fields (name, industry, stage, website)
+ * - Research review status and confidence
  * - Revenue metrics (MRR, ARR)
  * - User ownership (user_id, organization_id)
  * - Audit fields (created_at, updated_at)
@@ -116,6 +117,23 @@ export const clientQueryConfig: StrictQueryParserConfig<
       allowMultiple: false,
     },
 
+    // Research confidence and review (e.g. ?research_metadata.review_status=needs_review)
+    "research_metadata.review_status": {
+      field: "research_metadata.review_status",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    "research_metadata.confidence": {
+      field: "research_metadata.confidence",
+      type: "number",
+      operators: [
+        FilterOperator.GREATER_THAN_OR_EQUAL,
+        FilterOperator.LESS_THAN,
+      ],
+      allowMultiple: false,
+    },
+
     // Revenue metrics (snake_case to match database schema)
     current_mrr: {
       field: "current_mrr",
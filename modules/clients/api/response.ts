@@ -20,8 +20,27 @@
  */
 
 import { BaseResponseDTO } from "@/shared/api/base.response.dto";
-import { IClient } from "../domain/types";
-import { ClientResponse } from "./validation";
+import { IClient, IFieldProvenance, IResearchJob } from "../domain/types";
+import {
+  ClientResponse,
+  FieldProvenanceResponse,
+  ResearchJobResponse,
+} from "./validation";
+
+/**
+ * Key provenance entries by path so the UI can look fields up directly
+ */
+const toProvenanceMap = (
+  provenance: IFieldProvenance[] | undefined
+): Record<string, FieldProvenanceResponse> =>
+  Object.fromEntries(
+    (provenance ?? []).map(
+      ({ path, source, updated_at, updated_by, confidence }) => [
+        path,
+        { source, updated_at, updated_by, confidence },
+      ]
+    )
+  );
 
 /**
  * Client Response DTO
@@ -48,16 +67,12 @@ class ClientResponseDTOClass extends BaseResponseDTO<IClient, ClientResponse> {
    */
   protected transform(entity: IClient): ClientResponse {
     // Use MongoDB helper for _id → id transformation
-    return this.transformMongoEntity(entity) as ClientResponse;
-    
-    // For custom transformations, extend the helper result:
-    // const base = this.transformMongoEntity(entity);
-    // return {
-    //   ...base,
-    //   // Add computed fields:
-    //   full_name: `${entity.company.name} (${entity.company.stage})`,
-    //   is_research_complete: entity.research_metadata.status === 'completed',
-    // } as ClientResponse;
+    const base = this.transformMongoEntity(entity);
+    return {
+      ...base,
+      // Stored as a list (paths contain dots), returned keyed by path
+      field_provenance: toProvenanceMap(entity.field_provenance),
+    } as ClientResponse;
   }
 }
 
@@ -74,3 +89,31 @@ export const toClientResponse = (entity: IClient): ClientResponse =>
 
 export const toClientResponses = (entities: IClient[]): ClientResponse[] =>
   ClientResponseDTO.fromEntities(entities);
+
+/**
+ * Research Job Response DTO
+ * Returns the job's status fields only - ownership fields stay internal.
+ */
+class ResearchJobResponseDTOClass extends BaseResponseDTO<
+  IResearchJob,
+  ResearchJobResponse
+> {
+  protected transform(entity: IResearchJob): ResearchJobResponse {
+    return {
+      id: this.convertId(entity._id),
+      organization_id: entity.organization_id,
+      website_url: entity.website_url,
+      status: entity.status,
+      partial_result: entity.partial_result,
+      client_id: entity.client_id,
+      error: entity.error,
+      attempts: entity.attempts,
+      started_at: entity.started_at,
+      completed_at: entity.completed_at,
+      created_at: entity.created_at,
+      updated_at: entity.updated_at,
+    };
+  }
+}
+
+export const ResearchJobResponseDTO = new ResearchJobResponseDTOClass();
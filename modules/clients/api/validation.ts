@@ -37,7 +37,18 @@ import {
   TechStackSchema,
   ResourcesSchema,
   ConversionFunnelSchema,
+  FieldProvenanceSchema,
+  ResearchJobFieldsSchema,
+  ResearchSectionConfidenceSchema,
 } from "../domain/schema.definition";
+import {
+  ClientExportFormat,
+  ClientExportFormatValues,
+  ClientReviewStatusValues,
+  ImportRowStatusValues,
+  ProvenanceSourceValues,
+  ResearchChangeTypeValues,
+} from "../domain/types";
 import {
   createResponseSchema,
   createInputSchema,
@@ -141,6 +152,9 @@ export const AIExtractedContextSchema = z.object({
       .number()
       .min(0, "Inferred confidence must be between 0 and 1")
       .max(1, "Inferred confidence must be between 0 and 1"),
+    sections: ResearchSectionConfidenceSchema.optional().describe(
+      "Confidence 0-1 for each context section researched"
+    ),
   }),
 
   research_notes: z.string().optional(),
@@ -214,6 +228,14 @@ export const RefineContextSchema = z.object({
   brand_voice: BrandVoiceSchema.partial().optional(),
   marketing_assets: MarketingAssetsSchema.partial().optional(),
 
+  // Growth strategy fields (accepted from re-research proposals)
+  competitors: z.array(CompetitorSchema).optional(),
+  current_metrics: CurrentMetricsSchema.partial().optional(),
+  content_inventory: ContentInventorySchema.partial().optional(),
+  tech_stack: TechStackSchema.partial().optional(),
+  resources: ResourcesSchema.partial().optional(),
+  conversion_funnel: ConversionFunnelSchema.partial().optional(),
+
   refinement_notes: z.string().optional(),
 });
 
@@ -232,12 +254,24 @@ export type RefineContextInput = BrandedZodType<
  * Now it's just composition of existing schemas!
  */
 
+/**
+ * Provenance of one context field (the path is the record key)
+ */
+export const FieldProvenanceResponseSchema = FieldProvenanceSchema.omit({
+  path: true,
+});
+
+export type FieldProvenanceResponse = z.infer<
+  typeof FieldProvenanceResponseSchema
+>;
+
 /**
  * Client-specific response fields (without base audit fields)
  */
 const ClientResponseFieldsSchema = z.object({
   // Reuse domain schemas directly - they already match the response shape
   company: CompanySchema,
+  website_domain: z.string().optional(),
   product: ProductSchema,
   icp: ICPSchema,
   business_goals: BusinessGoalsSchema,
@@ -263,8 +297,19 @@ const ClientResponseFieldsSchema = z.object({
     confidence: z.number().optional(),
     factual_confidence: z.number().optional(),
     inferred_confidence: z.number().optional(),
+    section_confidence: ResearchSectionConfidenceSchema.optional(),
     research_notes: z.string().optional(),
+    // Set on research-created clients below the organization's threshold
+    review_status: z.enum(ClientReviewStatusValues).optional(),
+    review_threshold: z.number().optional(),
+    reviewed_at: z.date().optional(),
+    reviewed_by: z.string().optional(),
   }),
+
+  // Provenance per context path (e.g. "icp.pain_points")
+  field_provenance: z
+    .record(z.string(), FieldProvenanceResponseSchema)
+    .optional(),
 });
 
 /**
@@ -290,3 +335,155 @@ export const ResearchResultResponseSchema = z.object({
 export type ResearchResultResponse = z.infer<
   typeof ResearchResultResponseSchema
 >;
+
+/**
+ * One proposed change from re-researching a client
+ */
+export const ResearchChangeResponseSchema = z.object({
+  path: z.string(),
+  type: z.enum(ResearchChangeTypeValues),
+  current_value: z.unknown().optional(),
+  proposed_value: z.unknown(),
+  current_source: z.enum(ProvenanceSourceValues).optional(),
+});
+
+/**
+ * Re-research merge proposal response schema
+ * Accept changes by sending the proposed values to the refine endpoint.
+ */
+export const ResearchProposalResponseSchema = z.object({
+  client_id: z.string(),
+  website_url: z.string().url(),
+  researched_at: z.date(),
+  confidence: z.number().optional(),
+  changes: z.array(ResearchChangeResponseSchema),
+  research_notes: z.string().optional(),
+});
+
+export type ResearchChangeResponse = z.infer<
+  typeof ResearchChangeResponseSchema
+>;
+
+export type ResearchProposalResponse = z.infer<
+  typeof ResearchProposalResponseSchema
+>;
+
+/**
+ * Research job response schema (status polling)
+ * partial_result holds the context extracted so far while the job runs;
+ * client_id is set once the client has been created.
+ */
+export const ResearchJobResponseSchema = ResearchJobFieldsSchema.omit({
+  user_id: true,
+  // Stream replay buffer - served through the stream endpoint
+  events: true,
+  latest_partial: true,
+}).extend({
+  id: z.string(),
+  created_at: z.date(),
+  updated_at: z.date(),
+});
+
+export type ResearchJobResponse = z.infer<typeof ResearchJobResponseSchema>;
+
+/**
+ * ============================================================================
+ * Bulk Import Schemas
+ * ============================================================================
+ */
+
+/**
+ * Most rows accepted by one import request
+ */
+export const MAX_CLIENT_IMPORT_ROWS = 500;
+
+/**
+ * One imported client - a manual create without the auth fields
+ */
+export const ImportClientRowSchema = CreateClientSchema.omit({
+  user_id: true,
+  organization_id: true,
+});
+
+/**
+ * Bulk import request
+ * Send either `rows` (client objects) or `csv` (headers are field paths,
+ * e.g. company.name, product.features; list cells separated by `;`).
+ */
+export const ImportClientsSchema = z
+  .object({
+    rows: z
+      .array(z.record(z.string(), z.unknown()))
+      .min(1, "At least one row is required")
+      .optional(),
+    csv: z.string().min(1, "CSV is empty").optional(),
+    // Validate and report without creating anything
+    dry_run: z.boolean().default(false),
+    // Queue AI research for rows that only have company.website
+    research_website_only: z.boolean().default(false),
+  })
+  .refine((input) => (input.rows === undefined) !== (input.csv === undefined), {
+    message: "Provide either rows or csv",
+    path: ["rows"],
+  });
+
+export type ImportClientsInput = z.infer<typeof ImportClientsSchema>;
+
+/**
+ * Import report row - `row` is 1-based, in upload order (CSV header excluded)
+ */
+export const ImportRowResultSchema = z.object({
+  row: z.number().int().positive(),
+  status: z.enum(ImportRowStatusValues),
+  client_id: z.string().optional(),
+  job_id: z.string().optional(),
+  // Field-level errors (ValidationError.fromZod details), keyed by path
+  errors: z.record(z.string(), z.array(z.string())).optional(),
+});
+
+export const ImportReportResponseSchema = z.object({
+  dry_run: z.boolean(),
+  total: z.number().int().nonnegative(),
+  // Row count per status
+  summary: z.record(z.enum(ImportRowStatusValues), z.number().int()),
+  rows: z.array(ImportRowResultSchema),
+});
+
+export type ImportRowResult = z.infer<typeof ImportRowResultSchema>;
+
+export type ImportReportResponse = z.infer<typeof ImportReportResponseSchema>;
+
+/**
+ * ============================================================================
+ * Export Schemas
+ * ============================================================================
+ */
+
+/**
+ * Most clients in one export
+ */
+export const MAX_CLIENT_EXPORT_ROWS = 500;
+
+/**
+ * Export query parameters (filters use clientQueryConfig)
+ */
+export const ClientExportQuerySchema = z.object({
+  format: z.enum(ClientExportFormatValues).default(ClientExportFormat.JSON),
+});
+
+export type ClientExportQuery = z.infer<typeof ClientExportQuerySchema>;
+
+/**
+ * ============================================================================
+ * Merge Schemas
+ * ============================================================================
+ */
+
+/**
+ * Merge a duplicate client (source) into the client in the URL
+ */
+export const MergeClientsSchema = z.object({
+  source_client_id: z.string().min(1, "Source client ID is required"),
+});
+
+export type MergeClientsInput = z.infer<typeof MergeClientsSchema>;
@@ -17,7 +17,7 @@
  * This factory:
  * - Converts API requests → Domain entities
  * - Handles AI-extracted data → Domain entities
- * - Applies business rules (research metadata, status)
+ * - Applies business rules (research metadata, status, website domain)
  * - Provides merge logic for refinements
  * - Works with database-agnostic IClient interface
  *
@@ -28,7 +28,16 @@
  */
 
 import { BaseFactory } from "@/shared/db/base.factory";
-import { IClient, ResearchStatus, ResearchSource } from "../domain/types";
+import {
+  IClient,
+  ResearchStatus,
+  ResearchSource,
+  ProvenanceSource,
+} from "../domain/types";
+import { getContextValuePaths } from "../domain/context-changes";
+import { recordProvenance } from "../domain/provenance";
+import { buildResearchBaseline } from "../domain/context-drift";
+import { normalizeWebsiteDomain } from "../domain/website-domain";
 import {
   AIExtractedContext,
   CreateClientInput,
@@ -58,9 +67,11 @@ type ClientDataFields = Omit<
   | "created_by_propel_auth_org_id"
   | "user_id"
   | "organization_id"
+  | "website_domain"
   | "deleted_at"
   | "deleted_by"
   | "research_metadata"
+  | "field_provenance"
 >;
 
 /**
@@ -179,7 +190,8 @@ export class ClientFactory extends BaseFactory<
 
   /**
    * Apply business logic during client creation
-   * Sets research metadata for manually created clients
+   * Sets research metadata, field provenance and the normalized website
+   * domain for manually created clients
    *
    * @param request - Original creation request
    * @param userId - User creating the client
@@ -187,19 +199,24 @@ export class ClientFactory extends BaseFactory<
    * @returns Business-specific entity fields
    */
   protected applyCreateBusinessLogic(
-    _request: CreateClientInput,
-    _userId: string,
+    request: CreateClientInput,
+    userId: string,
     _orgId: string
   ): Partial<IClient> {
     // Mark parameters as intentionally unused in this implementation
-    void _request;
-    void _userId;
     void _orgId;
     return {
+      website_domain: normalizeWebsiteDomain(request.company.website),
       research_metadata: {
         status: ResearchStatus.MANUAL,
         source: ResearchSource.MANUAL,
       },
+      // Every field of a manually created client was entered by a person
+      field_provenance: recordProvenance([], getContextValuePaths(request), {
+        source: ProvenanceSource.MANUAL,
+        updated_at: new Date(),
+        updated_by: userId,
+      }),
     };
   }
 
@@ -267,6 +284,7 @@ export class ClientFactory extends BaseFactory<
         website: websiteInput.website_url,
         description: extractedContext.company.description,
       },
+      website_domain: normalizeWebsiteDomain(websiteInput.website_url),
 
       // Optional domain fields mapped from AI extraction
       product: extractedContext.product,
@@ -309,10 +327,28 @@ export class ClientFactory extends BaseFactory<
         confidence: extractedContext.confidence.overall,
         factual_confidence: extractedContext.confidence.factual,
         inferred_confidence: extractedContext.confidence.inferred,
+        section_confidence: extractedContext.confidence.sections,
         research_notes: extractedContext.research_notes,
       },
+
+      // Filled in below once the context is mapped
+      field_provenance: [],
     };
 
+    // Every field that came back from research is an AI guess
+    entity.field_provenance = recordProvenance(
+      [],
+      getContextValuePaths(entity),
+      {
+        source: ProvenanceSource.AI,
+        updated_at: now,
+        confidence: extractedContext.confidence.overall,
+      }
+    );
+
+    // Positioning as researched - scheduled re-research diffs against this
+    entity.research_metadata.baseline = buildResearchBaseline(entity);
+
     return entity;
   }
 
@@ -24,17 +24,66 @@
  */
 
 import { BaseService } from "@/shared/services/base.service";
-import { IClient, ResearchSource } from "../domain/types";
+import {
+  IClient,
+  IContextDrift,
+  IResearchJob,
+  IResearchStreamEvent,
+  ClientExportFormat,
+  ClientReviewStatus,
+  ImportRowStatus,
+  ProvenanceSource,
+  ResearchJobStatus,
+  ResearchSource,
+} from "../domain/types";
+import { getChangedContextPaths, pickContext } from "../domain/context-changes";
+import { getFieldProvenance, recordProvenance } from "../domain/provenance";
+import { buildResearchMergeProposal } from "../domain/research-merge";
+import {
+  buildResearchBaseline,
+  detectContextDrift,
+} from "../domain/context-drift";
+import { getResearchEventsAfter } from "../domain/research-stream";
+import {
+  csvRecordToClientRow,
+  getWebsiteOnlyRowUrl,
+} from "../domain/client-import";
+import { renderClientBrief, toClientCsvRecords } from "../domain/client-export";
+import { mergeClientContexts } from "../domain/client-merge";
+import { normalizeWebsiteDomain } from "../domain/website-domain";
+import {
+  buildResearchReview,
+  getLowConfidenceSections,
+  isAwaitingResearchReview,
+} from "../domain/research-review";
+import { RepositoryFactory } from "@/shared/db/repository.factory";
+import { IRepository } from "@/shared/db/repository.interface";
 import { CLIENT_MODEL_NAME } from "../infrastructure/schema";
+import { RESEARCH_JOB_MODEL_NAME } from "../infrastructure/research-job.schema";
 import {
   AIExtractedContext,
   AIExtractedContextSchema,
   CreateClientInput,
   ClientResponse,
+  ImportClientRowSchema,
+  ImportClientsInput,
+  ImportReportResponse,
+  ImportRowResult,
+  MAX_CLIENT_IMPORT_ROWS,
+  MAX_CLIENT_EXPORT_ROWS,
   RefineContextInput,
+  ResearchJobResponse,
+  ResearchProposalResponse,
   UpdateClientInput,
   WebsiteUrlInput,
+  WebsiteUrlInputSchema,
 } from "../api/validation";
+import { clientQueryConfig } from "../api/query.config";
+import { formatCsv, parseCsv } from "@/shared/utils/csv.parser";
+import {
+  QueryValidationError,
+  UniversalQueryParser,
+} from "@/shared/utils/query.parser";
 import {
   generateStructuredOutputWithWebSearch,
   streamStructuredOutputWithWebSearch,
@@ -43,18 +92,137 @@ import {
   TemperaturePreset,
   type GenerateStructuredStreamResult,
   MaxTokensPreset,
+  StreamEventType,
+  type StreamEvent,
+  type AIUsageContext,
 } from "@/shared/ai-sdk";
+import {
+  EventName,
+  publishEvent,
+  type AppEventByName,
+  type AppEventName,
+} from "@/modules/events";
+import { organizationSettingsService } from "@/modules/settings";
+import { subscriptionsService } from "@/modules/subscriptions";
 import { logger } from "@/shared/utils/logger";
 import {
   NotFoundError,
   ValidationError,
   ExternalServiceError,
+  ConflictError,
 } from "@/shared/utils/errors";
 import { clientFactory } from "./factory";
-import { ClientResponseDTO } from "../api/response";
+import { ClientResponseDTO, ResearchJobResponseDTO } from "../api/response";
 
 const log = logger.child({ module: "clients-service" });
 
+/**
+ * Model settings for research that creates or refreshes a client
+ */
+const WEBSITE_RESEARCH_CONFIG = {
+  provider: AIProvider.GOOGLE,
+  model: AIModel.GEMINI_2_5_PRO,
+  temperature: TemperaturePreset.PRECISE, // 0.3 for factual extraction
+  maxTokens: MaxTokensPreset.EXTENDED, // Increased for comprehensive research output
+};
+
+/**
+ * AI usage context for research done for an organization
+ * Research without an organization has nobody to meter against.
+ *
+ * @param sourceRoute - API route (or background job) the research came from
+ */
+function researchUsageContext(
+  organizationId: string | undefined,
+  userId?: string,
+  clientId?: string,
+  sourceRoute?: string
+): AIUsageContext | undefined {
+  return organizationId
+    ? {
+        organization_id: organizationId,
+        user_id: userId,
+        client_id: clientId,
+        source_route: sourceRoute,
+      }
+    : undefined;
+}
+
+/**
+ * Minimum time between partial result writes of a running research job
+ */
+const RESEARCH_JOB_PROGRESS_INTERVAL_MS = 3000;
+
+/**
+ * Minimum time between partial data writes of a streamed research
+ * Live clients get every event; this only bounds what a reconnect misses.
+ */
+const RESEARCH_STREAM_PARTIAL_SAVE_INTERVAL_MS = 1000;
+
+/**
+ * How often a resumed stream checks its job for new events
+ */
+const RESEARCH_STREAM_POLL_INTERVAL_MS = 1000;
+
+/**
+ * A running research whose job hasn't been written for this long has lost
+ * its process and won't produce more events (route maxDuration is 300s)
+ */
+const RESEARCH_STREAM_STALE_MS = 5 * 60 * 1000;
+
+/**
+ * Streamed website research, buffered on a research job for replay
+ */
+export interface ResearchStream {
+  jobId: string;
+  /** Live events - the research continues if this is cancelled */
+  events: ReadableStream<IResearchStreamEvent>;
+  usage: GenerateStructuredStreamResult<AIExtractedContext>["usage"];
+  sources?: any;
+  /** Settles once the research has finished and every event is buffered */
+  done: Promise<void>;
+}
+
+/**
+ * Rendered client export
+ */
+export interface ClientExport {
+  filename: string;
+  content_type: string;
+  body: string;
+}
+
+const EXPORT_CONTENT_TYPES: Record<ClientExportFormat, string> = {
+  [ClientExportFormat.JSON]: "application/json; charset=utf-8",
+  [ClientExportFormat.CSV]: "text/csv; charset=utf-8",
+  [ClientExportFormat.MARKDOWN]: "text/markdown; charset=utf-8",
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Duplicate key error from a unique index (create wraps it as the cause)
+ */
+const isDuplicateKeyError = (error: unknown): boolean => {
+  const { code, cause } = (error ?? {}) as {
+    code?: number;
+    cause?: { code?: number };
+  };
+  return code === 11000 || cause?.code === 11000;
+};
+
+/**
+ * Events about an existing client (their payload names the client)
+ */
+type ClientEventName = {
+  [TName in AppEventName]: AppEventByName<TName>["data"] extends {
+    client_id: string;
+  }
+    ? TName
+    : never;
+}[AppEventName];
+
 /**
  * Clients Service
  * Handles AI-powered website research and client context management
@@ -69,6 +237,25 @@ export class ClientsService extends BaseService<
     super(CLIENT_MODEL_NAME);
   }
 
+  private readonly queryParser = new UniversalQueryParser<IClient>(
+    clientQueryConfig
+  );
+
+  private _jobRepository: IRepository<IResearchJob, any> | null = null;
+
+  /**
+   * Lazily created repository for background research jobs
+   * Mirrors BaseService's lazy repository so models load before first use
+   */
+  private get jobRepository(): IRepository<IResearchJob, any> {
+    if (!this._jobRepository) {
+      this._jobRepository = RepositoryFactory.create<any>(
+        RESEARCH_JOB_MODEL_NAME
+      );
+    }
+    return this._jobRepository;
+  }
+
   /**
    * ========================================================================
    * Abstract Method Implementations (Required by BaseService)
@@ -115,8 +302,13 @@ export class ClientsService extends BaseService<
   /**
    * Research a website using AI to extract company context
    * Uses ai-sdk's generateStructuredOutputWithWebSearch for intelligent web scraping
+   *
+   * @param usageContext - Organization the research's AI usage is metered against
    */
-  async researchWebsite(websiteUrl: string): Promise<AIExtractedContext> {
+  async researchWebsite(
+    websiteUrl: string,
+    usageContext?: AIUsageContext
+  ): Promise<AIExtractedContext> {
     log.info(`Starting AI research for website: ${websiteUrl}`);
 
     try {
@@ -127,12 +319,8 @@ export class ClientsService extends BaseService<
       const result = await generateStructuredOutputWithWebSearch({
         prompt,
         schema: AIExtractedContextSchema,
-        config: {
-          provider: AIProvider.GOOGLE,
-          model: AIModel.GEMINI_2_5_PRO, // Cheapest model
-          temperature: TemperaturePreset.PRECISE, // 0.3 for factual extraction
-          maxTokens: MaxTokensPreset.EXTENDED, // Increased for comprehensive research output
-        },
+        config: WEBSITE_RESEARCH_CONFIG,
+        usageContext,
       });
 
       log.info("AI research completed successfully", {
@@ -168,8 +356,13 @@ export class ClientsService extends BaseService<
    * - Final complete data
    *
    * Perfect for showing users what's happening during the research process.
+   *
+   * @param usageContext - Organization the research's AI usage is metered against
    */
-  async streamResearchWebsite(websiteUrl: string): Promise<
+  async streamResearchWebsite(
+    websiteUrl: string,
+    usageContext?: AIUsageContext
+  ): Promise<
     GenerateStructuredStreamResult<AIExtractedContext> & {
       sources?: any;
       searchTextPromise: Promise<string>;
@@ -197,6 +390,7 @@ export class ClientsService extends BaseService<
             complete: "✅ Research completed!",
           },
         },
+        usageContext,
       });
 
       // Log completion (happens when objectPromise resolves)
@@ -319,7 +513,7 @@ Execute these searches systematically (use web search for ALL of these):
 - Key features (list 5-10 main capabilities or product features)
 - Website description (meta description, tagline from homepage)
 - Social media presence (LinkedIn, Twitter/X, Facebook, Instagram, YouTube, blog URL)
-- Pricing model (free, freemium, subscription, one-time, enterprise - if visible)
+- Pricing model and messaging (free, freemium, subscription, one-time, enterprise; how pricing is presented - if visible)
 
 ### 2. LIGHT COMPETITOR AWARENESS (Don't Over-Index Here)
 **Find 2-3 competitors if obvious:**
@@ -459,6 +653,7 @@ Rate confidence 0-1 for each category:
 - **overall**: Combined confidence across all data
 - **factual**: Confidence in hard facts (company name, features, URLs, team size)
 - **inferred**: Confidence in strategic insights (ICP, marketing maturity, opportunities)
+- **sections**: Confidence per context section you researched (company, product, icp, business_goals, brand_voice, marketing_assets, competitors, current_metrics, content_inventory, tech_stack, resources, conversion_funnel)
 
 **Scoring Guidelines:**
 - 0.9-1.0: Established company with strong web presence and public data
@@ -508,220 +703,1853 @@ Begin comprehensive research now.`;
 
   /**
    * Create client from website URL (AI-powered research + creation)
+   *
+   * @param sourceRoute - API route the request came from, for usage metering
    */
   async createClientFromWebsite(
     websiteUrl: string,
     userId: string,
-    organizationId?: string
+    organizationId?: string,
+    sourceRoute?: string
   ): Promise<ClientResponse> {
     log.info("Creating client from website", {
       website_url: websiteUrl,
       user_id: userId,
     });
 
+    // Don't pay for research of a company that is already a client
+    await this.assertNoDuplicateClient(websiteUrl, organizationId);
+
     // Step 1: Research website using AI
-    const extractedContext = await this.researchWebsite(websiteUrl);
+    const extractedContext = await this.researchWebsite(
+      websiteUrl,
+      researchUsageContext(organizationId, userId, undefined, sourceRoute)
+    );
+
+    // Step 2: Create the client from the research
+    return this.createClientFromResearch(
+      extractedContext,
+      websiteUrl,
+      userId,
+      organizationId
+    );
+  }
 
-    // Step 2: Create branded input for factory
+  /**
+   * Create a client from completed website research
+   */
+  private async createClientFromResearch(
+    extractedContext: AIExtractedContext,
+    websiteUrl: string,
+    userId: string,
+    organizationId?: string
+  ): Promise<ClientResponse> {
+    // Create branded input for factory
     const input: WebsiteUrlInput = {
       website_url: websiteUrl,
       user_id: userId,
       organization_id: organizationId,
     } as WebsiteUrlInput;
 
-    // Step 3: Transform AI data to domain entity using factory
+    // Transform AI data to domain entity using factory
     const clientData = clientFactory.createFromAIResearch(
       extractedContext,
       input
     );
 
-    // Step 4: Save to database (repository handles implementation details)
-    const createdClient = await this.repository.create(clientData);
+    // Low-confidence research waits for a person before plans use it
+    const threshold =
+      await organizationSettingsService.getResearchReviewThreshold(
+        organizationId
+      );
+    Object.assign(
+      clientData.research_metadata,
+      buildResearchReview(extractedContext.confidence.overall, threshold)
+    );
+
+    // Save to database (repository handles implementation details)
+    const createdClient = await this.createUniqueClient(clientData);
 
     log.info("Client created from AI research", {
       clientId: String(createdClient._id),
       confidence: extractedContext.confidence.overall,
+      reviewStatus: clientData.research_metadata.review_status,
+      lowConfidenceSections: getLowConfidenceSections(
+        extractedContext.confidence.sections,
+        threshold
+      ),
     });
 
-    return this.mapEntityToResponse(createdClient);
+    const client = this.mapEntityToResponse(createdClient);
+    await this.publishProjectCreated(client, userId);
+
+    return client;
   }
 
   /**
-   * Create client manually (no AI research)
+   * ========================================================================
+   * Background Research Jobs
+   * ========================================================================
+   *
+   * Research takes longer than a serverless request may run, so requests
+   * queue a job and poll it. The research.requested Inngest function runs
+   * the job: runResearchJob researches (saving partial results as it goes),
+   * completeResearchJob creates the client, failResearchJob records the
+   * error once retries are exhausted.
    */
-  async createClient(
-    request: CreateClientInput,
-    userId: string,
-    orgId: string
-  ): Promise<ClientResponse> {
-    log.info("Creating client manually", { user_id: userId });
 
-    const clientData = this.prepareEntityForCreate(request, userId, orgId);
-    const createdClient = await this.repository.create(clientData);
+  /**
+   * Queue website research as a background job
+   *
+   * @param sourceRoute - API route the request came from, for usage metering
+   * @returns The pending job
+   * @throws ExternalServiceError if the job could not be queued
+   * @throws ConflictError if the company is already a client
+   */
+  async startResearchJob(
+    websiteUrl: string,
+    userId: string,
+    organizationId?: string,
+    sourceRoute?: string
+  ): Promise<ResearchJobResponse> {
+    await this.assertNoDuplicateClient(websiteUrl, organizationId);
 
-    log.info("Manual client created", {
-      clientId: String(createdClient._id),
+    const job = await this.jobRepository.create({
+      user_id: userId,
+      organization_id: organizationId,
+      created_by: userId,
+      website_url: websiteUrl,
+      status: ResearchJobStatus.PENDING,
+      attempts: 0,
     });
+    const jobId = String(job._id);
+
+    log.info("Research job queued", { jobId, website_url: websiteUrl });
+
+    try {
+      await publishEvent(
+        EventName.RESEARCH_REQUESTED,
+        {
+          job_id: jobId,
+          website_url: websiteUrl,
+          organization_id: organizationId,
+          source_route: sourceRoute,
+        },
+        {
+          // No client exists yet - the job stands in for the project
+          projectId: jobId,
+          userId,
+          source: "clients-module",
+          idempotencyKey: `research-job:${jobId}`,
+        }
+      );
+    } catch (error) {
+      // Nothing will pick the job up - fail it so pollers don't wait forever
+      await this.failResearchJob(jobId, "Research could not be queued");
+      throw error;
+    }
 
-    return this.mapEntityToResponse(createdClient);
+    return ResearchJobResponseDTO.fromEntity(job);
   }
 
   /**
-   * Get client context by ID
+   * Get a research job
+   *
+   * @throws NotFoundError if the job doesn't exist
    */
-  async getClientContext(clientId: string): Promise<ClientResponse> {
-    log.debug("Fetching client context", { clientId });
-
-    const client = await this.repository.findById(clientId);
+  async getResearchJob(jobId: string): Promise<ResearchJobResponse> {
+    const job = await this.jobRepository.findById(jobId);
 
-    if (!client) {
-      throw new NotFoundError(`Client not found with ID: ${clientId}`);
+    if (!job) {
+      throw new NotFoundError(`Research job not found with ID: ${jobId}`);
     }
 
-    return this.mapEntityToResponse(client);
+    return ResearchJobResponseDTO.fromEntity(job);
   }
 
   /**
-   * Update client context
+   * Run a research job's website research
+   * Saves partial results on the job at most every few seconds so pollers
+   * can show progress. Uses the same model as researchWebsite.
+   *
+   * @param sourceRoute - API route the job was queued from, for usage metering
+   * @returns The extracted context
    */
-  async updateContext(
-    clientId: string,
-    updates: UpdateClientInput,
-    updatedBy?: string
-  ): Promise<ClientResponse> {
-    log.info("Updating client context", { clientId });
+  async runResearchJob(
+    jobId: string,
+    sourceRoute?: string
+  ): Promise<AIExtractedContext> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (!job) {
+      throw new NotFoundError(`Research job not found with ID: ${jobId}`);
+    }
 
-    // Fetch existing client
-    const existingClient = await this.repository.findById(clientId);
+    await this.jobRepository.atomicUpdate(jobId, {
+      status: ResearchJobStatus.RUNNING,
+      started_at: new Date(),
+      attempts: (job.attempts ?? 0) + 1,
+    });
 
-    if (!existingClient) {
-      throw new NotFoundError(`Client not found with ID: ${clientId}`);
-    }
+    log.info("Running research job", {
+      jobId,
+      website_url: job.website_url,
+      attempt: (job.attempts ?? 0) + 1,
+    });
 
-    // Prepare update data
-    const updateData = this.prepareEntityForUpdate(updates, updatedBy || "");
+    try {
+      const streamResult = await streamStructuredOutputWithWebSearch({
+        prompt: this.buildResearchPrompt(job.website_url),
+        schema: AIExtractedContextSchema,
+        config: { ...WEBSITE_RESEARCH_CONFIG, enableProgressEvents: false },
+        usageContext: researchUsageContext(
+          job.organization_id,
+          job.user_id,
+          undefined,
+          sourceRoute
+        ),
+      });
 
-    // If updating AI-researched fields, mark as mixed source
-    if (
-      existingClient.research_metadata.source === ResearchSource.AI &&
-      Object.keys(updateData).length > 0
-    ) {
-      updateData.research_metadata = {
-        ...existingClient.research_metadata,
-        source: ResearchSource.MIXED,
-      } as any;
-    }
+      const reader = streamResult.partialObjectStream.getReader();
+      let lastSavedAt = 0;
 
-    // Add updatedBy if provided
-    if (updatedBy) {
-      updateData.updated_by = updatedBy;
-    }
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
 
-    // Update client
-    const updatedClient = await this.repository.updateById(
-      clientId,
-      updateData
-    );
+          if (Date.now() - lastSavedAt >= RESEARCH_JOB_PROGRESS_INTERVAL_MS) {
+            lastSavedAt = Date.now();
+            await this.jobRepository.atomicUpdate(jobId, {
+              partial_result: value,
+            });
+          }
+        }
+      } finally {
+        reader.releaseLock();
+      }
 
-    if (!updatedClient) {
-      throw new NotFoundError(
-        `Client not found after update with ID: ${clientId}`
+      return await streamResult.objectPromise;
+    } catch (error) {
+      log.error("Research job research failed", { jobId, error });
+
+      throw new ExternalServiceError(
+        "AI Website Research",
+        `Failed to research website: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        {
+          websiteUrl: job.website_url,
+          originalError: error,
+        }
       );
     }
-
-    log.info("Client context updated", { clientId });
-
-    return this.mapEntityToResponse(updatedClient);
   }
 
   /**
-   * Refine AI-extracted context (user overrides AI data)
+   * Create the client for a researched job and mark the job completed
+   * Safe to retry - a job that already has a client is returned as is.
+   * Fails the job if the company became a client in the meantime.
    */
-  async refineContext(
-    clientId: string,
-    refinements: RefineContextInput,
-    refinedBy?: string
-  ): Promise<ClientResponse> {
-    log.info("Refining AI-extracted context", { clientId });
-
-    // Fetch existing client
-    const existingClient = await this.repository.findById(clientId);
-
-    if (!existingClient) {
-      throw new NotFoundError(`Client not found with ID: ${clientId}`);
-    }
-
-    // Ensure client was AI-researched
-    if (existingClient.research_metadata.source === ResearchSource.MANUAL) {
-      throw new ValidationError(
-        "Cannot refine manually created client. Use updateContext instead."
-      );
-    }
-
-    // Merge refinements with existing data using factory
-    const updateData = clientFactory.mergeRefinements(
-      existingClient,
-      refinements
-    );
-
-    // Add refinement notes if provided
-    if (refinements.refinement_notes) {
-      updateData.research_metadata = {
-        ...existingClient.research_metadata,
-        ...updateData.research_metadata,
-        research_notes: `${
-          existingClient.research_metadata.research_notes || ""
-        }\n\nUser Refinements: ${refinements.refinement_notes}`.trim(),
-      } as any;
+  async completeResearchJob(
+    jobId: string,
+    extractedContext: AIExtractedContext
+  ): Promise<ResearchJobResponse> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (!job) {
+      throw new NotFoundError(`Research job not found with ID: ${jobId}`);
     }
 
-    if (refinedBy) {
-      updateData.updated_by = refinedBy;
+    if (job.client_id) {
+      return ResearchJobResponseDTO.fromEntity(job);
     }
 
-    // Update client
-    const updatedClient = await this.repository.updateById(
-      clientId,
-      updateData
-    );
-
-    if (!updatedClient) {
-      throw new NotFoundError(
-        `Client not found after refinement with ID: ${clientId}`
+    let client: ClientResponse;
+    try {
+      client = await this.createClientFromResearch(
+        extractedContext,
+        job.website_url,
+        job.user_id,
+        job.organization_id
       );
+    } catch (error) {
+      // The company became a client while it was being researched -
+      // retrying won't change that
+      if (!(error instanceof ConflictError)) {
+        throw error;
+      }
+      await this.failResearchJob(jobId, error.message, "duplicate_client");
+      return this.getResearchJob(jobId);
     }
 
-    log.info("Client context refined", { clientId });
+    const completedJob = await this.jobRepository.atomicUpdate(jobId, {
+      status: ResearchJobStatus.COMPLETED,
+      client_id: client.id,
+      completed_at: new Date(),
+    });
 
-    return this.mapEntityToResponse(updatedClient);
+    log.info("Research job completed", { jobId, clientId: client.id });
+
+    return ResearchJobResponseDTO.fromEntity(completedJob ?? job);
   }
 
   /**
-   * Find clients by user
+   * Mark a research job failed
+   *
+   * @param jobId - Research job ID
+   * @param message - Error shown to the user
+   * @param code - Optional machine-readable error code
    */
-  async findClientsByUser(userId: string): Promise<ClientResponse[]> {
-    log.debug("Finding clients by user", { userId });
-
-    const [clients] = await this.repository.find({
-      user_id: userId,
+  async failResearchJob(
+    jobId: string,
+    message: string,
+    code?: string
+  ): Promise<void> {
+    log.warn("Research job failed", { jobId, message });
+
+    await this.jobRepository.atomicUpdate(jobId, {
+      status: ResearchJobStatus.FAILED,
+      error: { message, code },
+      completed_at: new Date(),
     });
-
-    return clients.map((p) => this.mapEntityToResponse(p));
   }
 
   /**
-   * Find clients by organization
+   * ========================================================================
+   * Resumable Research Streams
+   * ========================================================================
+   *
+   * Streamed research writes its events to a research job as they happen.
+   * The research keeps running when the client disconnects; a reconnect
+   * (Last-Event-ID) replays the missed events from the job and follows it
+   * until the research finishes. See domain/research-stream.ts.
    */
-  async findClientsByOrganization(
-    organizationId: string
-  ): Promise<ClientResponse[]> {
-    log.debug("Finding clients by organization", { organizationId });
 
-    const [clients] = await this.repository.find({
+  /**
+   * Start streamed website research
+   * Await `done` (e.g. with next/server's after()) so the research outlives
+   * a disconnected client.
+   *
+   * @param sourceRoute - API route the request came from, for usage metering
+   * @throws ExternalServiceError if the research could not be started
+   * @throws ConflictError if the company is already a client
+   */
+  async startResearchStream(
+    websiteUrl: string,
+    userId: string,
+    organizationId?: string,
+    sourceRoute?: string
+  ): Promise<ResearchStream> {
+    await this.assertNoDuplicateClient(websiteUrl, organizationId);
+
+    const job = await this.jobRepository.create({
+      user_id: userId,
       organization_id: organizationId,
+      created_by: userId,
+      website_url: websiteUrl,
+      status: ResearchJobStatus.RUNNING,
+      started_at: new Date(),
+      attempts: 1,
+      events: [],
     });
+    const jobId = String(job._id);
 
-    return clients.map((p) => this.mapEntityToResponse(p));
+    let streamResult: Awaited<
+      ReturnType<ClientsService["streamResearchWebsite"]>
+    >;
+    try {
+      streamResult = await this.streamResearchWebsite(
+        websiteUrl,
+        researchUsageContext(organizationId, userId, undefined, sourceRoute)
+      );
+    } catch (error) {
+      await this.failResearchJob(
+        jobId,
+        error instanceof Error ? error.message : "Research failed"
+      );
+      throw error;
+    }
+
+    if (!streamResult.eventStream) {
+      await this.failResearchJob(jobId, "Research progress is unavailable");
+      throw new ExternalServiceError(
+        "AI Website Research",
+        "Research stream has no progress events",
+        { websiteUrl }
+      );
+    }
+
+    let live: ReadableStreamDefaultController<IResearchStreamEvent> | null =
+      null;
+    const events = new ReadableStream<IResearchStreamEvent>({
+      start(controller) {
+        live = controller;
+      },
+      cancel() {
+        // Client went away - keep buffering for its reconnect
+        live = null;
+      },
+    });
+
+    const done = this.bufferResearchStream(
+      jobId,
+      streamResult.eventStream,
+      (event) => live?.enqueue(event),
+      () => {
+        live?.close();
+        live = null;
+      }
+    );
+
+    log.info("Research stream started", { jobId, website_url: websiteUrl });
+
+    return {
+      jobId,
+      events,
+      usage: streamResult.usage,
+      sources: streamResult.sources,
+      done,
+    };
+  }
+
+  /**
+   * Follow a streamed research from a reconnect
+   * Replays the buffered events after `afterSeq`, then the new ones as they
+   * are written, until the research finishes.
+   *
+   * @param jobId - Research job ID (from Last-Event-ID)
+   * @param afterSeq - Last seq the client received
+   * @throws NotFoundError if the job doesn't exist
+   */
+  async resumeResearchStream(
+    jobId: string,
+    afterSeq: number
+  ): Promise<ReadableStream<IResearchStreamEvent>> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (!job) {
+      throw new NotFoundError(`Research job not found with ID: ${jobId}`);
+    }
+
+    log.info("Resuming research stream", { jobId, afterSeq });
+
+    let lastSeq = afterSeq;
+    let current: IResearchJob | null = job;
+    let cancelled = false;
+
+    return new ReadableStream<IResearchStreamEvent>({
+      pull: async (controller) => {
+        while (!cancelled) {
+          if (!current) {
+            current = await this.jobRepository.findById(jobId);
+          }
+          if (!current) {
+            controller.error(
+              new NotFoundError(`Research job not found with ID: ${jobId}`)
+            );
+            return;
+          }
+
+          const missed = getResearchEventsAfter(current, lastSeq);
+          const finished = current.status !== ResearchJobStatus.RUNNING;
+          const stale =
+            !finished &&
+            Date.now() - new Date(current.updated_at).getTime() >
+              RESEARCH_STREAM_STALE_MS;
+          current = null;
+
+          if (missed.length > 0) {
+            for (const event of missed) controller.enqueue(event);
+            lastSeq = missed[missed.length - 1].seq;
+            return;
+          }
+
+          if (finished) {
+            controller.close();
+            return;
+          }
+
+          if (stale) {
+            await this.failResearchJob(jobId, "Research stopped responding");
+            controller.enqueue({
+              seq: lastSeq + 1,
+              type: StreamEventType.ERROR,
+              message: "Research stopped responding",
+              error: { message: "Research stopped responding" },
+            });
+            controller.close();
+            return;
+          }
+
+          await sleep(RESEARCH_STREAM_POLL_INTERVAL_MS);
+        }
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+  }
+
+  /**
+   * Pass a research's events to the live client and buffer them on its job
+   * Marks the job completed or failed when the research ends.
+   */
+  private async bufferResearchStream(
+    jobId: string,
+    eventStream: ReadableStream<StreamEvent<AIExtractedContext>>,
+    emit: (event: IResearchStreamEvent) => void,
+    end: () => void
+  ): Promise<void> {
+    const reader = eventStream.getReader();
+    const buffered: IResearchStreamEvent[] = [];
+    let latestPartial: IResearchStreamEvent | undefined;
+    let partialSavedAt = 0;
+    let seq = 0;
+    let finished = false;
+
+    const record = async (event: StreamEvent<AIExtractedContext>) => {
+      const numbered: IResearchStreamEvent = { ...event, seq: ++seq };
+      emit(numbered);
+
+      if (event.type === StreamEventType.PARTIAL) {
+        latestPartial = numbered;
+        if (
+          Date.now() - partialSavedAt <
+          RESEARCH_STREAM_PARTIAL_SAVE_INTERVAL_MS
+        ) {
+          return;
+        }
+        partialSavedAt = Date.now();
+        await this.saveResearchStream(jobId, { latest_partial: numbered });
+        return;
+      }
+
+      buffered.push(numbered);
+      finished =
+        event.type === StreamEventType.COMPLETE ||
+        event.type === StreamEventType.ERROR;
+
+      await this.saveResearchStream(jobId, {
+        events: buffered,
+        latest_partial: latestPartial,
+        ...(event.type === StreamEventType.COMPLETE && {
+          status: ResearchJobStatus.COMPLETED,
+          completed_at: new Date(),
+        }),
+        ...(event.type === StreamEventType.ERROR && {
+          status: ResearchJobStatus.FAILED,
+          error: event.error ?? { message: event.message ?? "Research failed" },
+          completed_at: new Date(),
+        }),
+      });
+    };
+
+    try {
+      while (!finished) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await record(value);
+      }
+
+      if (!finished) {
+        await record({
+          type: StreamEventType.ERROR,
+          message: "Research ended unexpectedly",
+          error: { message: "Research ended without a result" },
+        });
+      }
+    } catch (error) {
+      log.error("Research stream failed", { jobId, error });
+
+      if (!finished) {
+        await record({
+          type: StreamEventType.ERROR,
+          message: "Stream processing error",
+          error: {
+            message: error instanceof Error ? error.message : "Unknown error",
+          },
+        });
+      }
+    } finally {
+      reader.releaseLock();
+      end();
+    }
+  }
+
+  /**
+   * Write a streamed research's buffer to its job
+   * Failures are logged, not thrown - the live client must keep receiving
+   * events even if replay is unavailable.
+   */
+  private async saveResearchStream(
+    jobId: string,
+    updates: Partial<IResearchJob>
+  ): Promise<void> {
+    try {
+      await this.jobRepository.atomicUpdate(jobId, updates);
+    } catch (error) {
+      log.error("Failed to buffer research stream", { jobId, error });
+    }
+  }
+
+  /**
+   * Re-research an existing client's website and propose context changes
+   * Nothing is saved - the user accepts the changes they want through
+   * refineContext. Changes to fields a person edited come back as conflicts.
+   *
+   * @param sourceRoute - API route the request came from, for usage metering
+   */
+  async proposeResearchUpdate(
+    clientId: string,
+    sourceRoute?: string
+  ): Promise<ResearchProposalResponse> {
+    log.info("Re-researching client", { clientId });
+
+    const existingClient = await this.repository.findById(clientId);
+
+    if (!existingClient) {
+      throw new NotFoundError(`Client not found with ID: ${clientId}`);
+    }
+
+    const websiteUrl = existingClient.company.website;
+    const extractedContext = await this.researchWebsite(
+      websiteUrl,
+      researchUsageContext(
+        existingClient.organization_id,
+        existingClient.user_id,
+        clientId,
+        sourceRoute
+      )
+    );
+
+    // Map the research exactly as a new client would be
+    const researchedClient = clientFactory.createFromAIResearch(
+      extractedContext,
+      {
+        website_url: websiteUrl,
+        user_id: existingClient.user_id,
+        organization_id: existingClient.organization_id,
+      } as WebsiteUrlInput
+    );
+
+    const changes = buildResearchMergeProposal(
+      pickContext(existingClient),
+      pickContext(researchedClient),
+      existingClient.field_provenance
+    );
+
+    log.info("Client re-research proposal ready", {
+      clientId,
+      changes: changes.length,
+      confidence: extractedContext.confidence.overall,
+    });
+
+    return {
+      client_id: String(existingClient._id),
+      website_url: websiteUrl,
+      researched_at:
+        researchedClient.research_metadata.researched_at ?? new Date(),
+      confidence: extractedContext.confidence.overall,
+      changes,
+      research_notes: extractedContext.research_notes,
+    };
+  }
+
+  /**
+   * Find AI-researched clients due a research refresh, oldest research first
+   * Only clients of the given organizations whose research is older than
+   * their organization's cutoff are returned, so clients that aren't due
+   * can't fill the batch.
+   *
+   * @param cutoffs - Organizations and the date their research must predate
+   * @param limit - Most clients returned
+   */
+  async findClientsDueForRefresh(
+    cutoffs: Array<{ organization_ids: string[]; researched_before: Date }>,
+    limit: number
+  ): Promise<ClientResponse[]> {
+    const due = cutoffs.filter(
+      ({ organization_ids }) => organization_ids.length
+    );
+    if (due.length === 0) {
+      return [];
+    }
+
+    const [clients] = await this.repository.find(
+      {
+        "research_metadata.source": {
+          $in: [ResearchSource.AI, ResearchSource.MIXED],
+        },
+        $or: due.map(({ organization_ids, researched_before }) => ({
+          organization_id: { $in: organization_ids },
+          "research_metadata.researched_at": { $lt: researched_before },
+        })),
+      },
+      { sort: { "research_metadata.researched_at": 1 }, limit }
+    );
+
+    return clients.map((client) => this.mapEntityToResponse(client));
+  }
+
+  /**
+   * Re-research a client on schedule and report material positioning changes
+   * Only the research date and baseline are saved - the context is left
+   * alone; proposeResearchUpdate lets the user review the changes.
+   *
+   * @param sourceRoute - Job the refresh runs in, for usage metering
+   * @returns Drift since the previous research (empty if nothing moved)
+   */
+  async refreshResearch(
+    clientId: string,
+    sourceRoute?: string
+  ): Promise<IContextDrift[]> {
+    log.info("Refreshing client research", { clientId });
+
+    const existingClient = await this.repository.findById(clientId);
+
+    if (!existingClient) {
+      throw new NotFoundError(`Client not found with ID: ${clientId}`);
+    }
+
+    const websiteUrl = existingClient.company.website;
+    const extractedContext = await this.researchWebsite(
+      websiteUrl,
+      researchUsageContext(
+        existingClient.organization_id,
+        existingClient.user_id,
+        clientId,
+        sourceRoute
+      )
+    );
+    const researchedClient = clientFactory.createFromAIResearch(
+      extractedContext,
+      {
+        website_url: websiteUrl,
+        user_id: existingClient.user_id,
+        organization_id: existingClient.organization_id,
+      } as WebsiteUrlInput
+    );
+
+    // Clients researched before baselines existed fall back to their context
+    const previousBaseline =
+      existingClient.research_metadata.baseline ??
+      buildResearchBaseline(pickContext(existingClient));
+    const baseline = buildResearchBaseline(researchedClient);
+    const drift = detectContextDrift(previousBaseline, baseline);
+
+    await this.repository.atomicUpdate(clientId, {
+      "research_metadata.researched_at":
+        researchedClient.research_metadata.researched_at,
+      "research_metadata.baseline": baseline,
+    });
+
+    log.info("Client research refreshed", {
+      clientId,
+      drift: drift.length,
+    });
+
+    return drift;
+  }
+
+  /**
+   * Create client manually (no AI research)
+   */
+  async createClient(
+    request: CreateClientInput,
+    userId: string,
+    orgId: string
+  ): Promise<ClientResponse> {
+    log.info("Creating client manually", { user_id: userId });
+
+    const clientData = this.prepareEntityForCreate(request, userId, orgId);
+    const createdClient = await this.createUniqueClient(clientData);
+
+    log.info("Manual client created", {
+      clientId: String(createdClient._id),
+    });
+
+    const client = this.mapEntityToResponse(createdClient);
+    await this.publishProjectCreated(client, userId);
+
+    return client;
+  }
+
+  /**
+   * Import clients in bulk
+   * Every row is validated like a manual create; valid rows are inserted in
+   * one write. With research_website_only, rows holding nothing but
+   * company.website are researched in the background instead (one research
+   * job each) - or skipped once the organization's monthly AI budget is
+   * used up. A dry run validates and reports without writing anything.
+   *
+   * @param sourceRoute - API route the import came from, for usage metering
+   * @returns Per-row report, in upload order
+   * @throws ValidationError if the upload is empty, too large or bad CSV
+   */
+  async importClients(
+    input: ImportClientsInput,
+    userId: string,
+    orgId: string,
+    sourceRoute?: string
+  ): Promise<ImportReportResponse> {
+    const rows =
+      input.csv !== undefined
+        ? parseCsv(input.csv).map(csvRecordToClientRow)
+        : input.rows ?? [];
+
+    if (rows.length === 0) {
+      throw new ValidationError("No rows to import");
+    }
+
+    if (rows.length > MAX_CLIENT_IMPORT_ROWS) {
+      throw new ValidationError(
+        `Import is limited to ${MAX_CLIENT_IMPORT_ROWS} rows`,
+        { rows: rows.length }
+      );
+    }
+
+    log.info("Importing clients", {
+      user_id: userId,
+      rows: rows.length,
+      dry_run: input.dry_run,
+    });
+
+    const results: ImportRowResult[] = [];
+    const creates: { index: number; request: CreateClientInput }[] = [];
+    const researches: { index: number; websiteUrl: string }[] = [];
+
+    rows.forEach((row, index) => {
+      const websiteUrl = input.research_website_only
+        ? getWebsiteOnlyRowUrl(row)
+        : undefined;
+
+      if (websiteUrl !== undefined) {
+        const parsed = WebsiteUrlInputSchema.safeParse({
+          website_url: websiteUrl,
+        });
+        results[index] = parsed.success
+          ? { row: index + 1, status: ImportRowStatus.NEEDS_RESEARCH }
+          : {
+              row: index + 1,
+              status: ImportRowStatus.INVALID,
+              errors: this.toImportErrors(parsed.error.issues, [
+                "company",
+                "website",
+              ]),
+            };
+        if (parsed.success) researches.push({ index, websiteUrl });
+        return;
+      }
+
+      const parsed = ImportClientRowSchema.safeParse(row);
+
+      if (!parsed.success) {
+        results[index] = {
+          row: index + 1,
+          status: ImportRowStatus.INVALID,
+          errors: this.toImportErrors(parsed.error.issues),
+        };
+        return;
+      }
+
+      results[index] = { row: index + 1, status: ImportRowStatus.VALID };
+      creates.push({
+        index,
+        request: {
+          ...parsed.data,
+          user_id: userId,
+          organization_id: orgId,
+        } as CreateClientInput,
+      });
+    });
+
+    // Companies that are already clients, or appear earlier in the upload
+    const duplicates = await this.findImportDuplicates(
+      [
+        ...creates.map(({ index, request }) => ({
+          index,
+          website: request.company.website,
+        })),
+        ...researches.map(({ index, websiteUrl }) => ({
+          index,
+          website: websiteUrl,
+        })),
+      ],
+      orgId
+    );
+    for (const [index, duplicate] of duplicates) {
+      results[index] = {
+        row: index + 1,
+        status: ImportRowStatus.DUPLICATE,
+        ...duplicate,
+      };
+    }
+
+    if (!input.dry_run) {
+      await this.insertImportedClients(
+        creates.filter(({ index }) => !duplicates.has(index)),
+        results,
+        userId,
+        orgId
+      );
+
+      const queued = researches.filter(({ index }) => !duplicates.has(index));
+
+      // Only research costs AI credits - other rows import over budget too
+      const withinBudget =
+        queued.length === 0 ||
+        (await subscriptionsService.checkLimit(
+          orgId,
+          "ai_budget_usd_per_month"
+        ));
+
+      for (const { index, websiteUrl } of queued) {
+        if (!withinBudget) {
+          results[index] = {
+            row: index + 1,
+            status: ImportRowStatus.SKIPPED,
+            errors: {
+              "company.website": [
+                "Your plan's monthly AI budget has been reached - import this row again once it resets or after upgrading.",
+              ],
+            },
+          };
+          continue;
+        }
+
+        try {
+          const job = await this.startResearchJob(
+            websiteUrl,
+            userId,
+            orgId,
+            sourceRoute
+          );
+          results[index] = {
+            row: index + 1,
+            status: ImportRowStatus.RESEARCH_QUEUED,
+            job_id: job.id,
+          };
+        } catch (error) {
+          results[index] = {
+            row: index + 1,
+            status: ImportRowStatus.FAILED,
+            errors: {
+              "company.website": [
+                error instanceof Error
+                  ? error.message
+                  : "Research could not be queued",
+              ],
+            },
+          };
+        }
+      }
+    }
+
+    const summary = Object.fromEntries(
+      Object.values(ImportRowStatus).map((status) => [
+        status,
+        results.filter((result) => result.status === status).length,
+      ])
+    ) as ImportReportResponse["summary"];
+
+    log.info("Client import finished", { user_id: userId, summary });
+
+    return {
+      dry_run: input.dry_run,
+      total: rows.length,
+      summary,
+      rows: results,
+    };
+  }
+
+  /**
+   * Insert the valid rows of an import and record their client IDs
+   * Rows whose company became a client while the import ran (the unique
+   * company index) are reported as duplicates; the other rows are still
+   * created and announced.
+   */
+  private async insertImportedClients(
+    creates: { index: number; request: CreateClientInput }[],
+    results: ImportRowResult[],
+    userId: string,
+    orgId: string
+  ): Promise<void> {
+    if (creates.length === 0) {
+      return;
+    }
+
+    let createdClients: IClient[];
+    let duplicated = new Set<number>();
+
+    try {
+      createdClients = await this.repository.insertMany(
+        creates.map(({ request }) =>
+          this.prepareEntityForCreate(request, userId, orgId)
+        )
+      );
+    } catch (error) {
+      // Write error indexes are positions in `creates`
+      const bulkError = error as {
+        insertedDocs?: IClient[];
+        writeErrors?: {
+          index: number;
+          code?: number;
+          err?: { code?: number };
+        }[];
+      };
+      const writeErrors = bulkError.writeErrors ?? [];
+      if (
+        writeErrors.length === 0 ||
+        writeErrors.some(
+          (writeError) => (writeError.code ?? writeError.err?.code) !== 11000
+        )
+      ) {
+        throw error;
+      }
+
+      createdClients = bulkError.insertedDocs ?? [];
+      duplicated = new Set(writeErrors.map(({ index }) => index));
+    }
+
+    if (duplicated.size > 0) {
+      const duplicateRows = creates.filter((_, i) => duplicated.has(i));
+      const duplicates = await this.findImportDuplicates(
+        duplicateRows.map(({ index, request }) => ({
+          index,
+          website: request.company.website,
+        })),
+        orgId
+      );
+
+      for (const { index } of duplicateRows) {
+        results[index] = {
+          row: index + 1,
+          status: ImportRowStatus.DUPLICATE,
+          ...(duplicates.get(index) ?? {
+            errors: {
+              "company.website": ["A client for this website already exists"],
+            },
+          }),
+        };
+      }
+
+      log.warn("Imported rows became clients during the import", {
+        count: duplicated.size,
+      });
+    }
+
+    // Inserted documents keep the order of the rows that were inserted
+    const insertedRows = creates.filter((_, i) => !duplicated.has(i));
+    for (const [i, createdClient] of createdClients.entries()) {
+      const client = this.mapEntityToResponse(createdClient);
+      results[insertedRows[i].index] = {
+        row: insertedRows[i].index + 1,
+        status: ImportRowStatus.CREATED,
+        client_id: client.id,
+      };
+      await this.publishProjectCreated(client, userId);
+    }
+
+    log.info("Imported clients created", { count: createdClients.length });
+  }
+
+  /**
+   * Find the import rows whose company is already a client, or has a row
+   * earlier in the upload
+   *
+   * @param rows - Row indexes with their websites
+   * @param orgId - Organization importing
+   * @returns Report fields of each duplicate row, keyed by row index
+   */
+  private async findImportDuplicates(
+    rows: { index: number; website: string }[],
+    orgId: string
+  ): Promise<Map<number, Pick<ImportRowResult, "client_id" | "errors">>> {
+    const domains = new Map<number, string>();
+    for (const { index, website } of rows) {
+      const domain = normalizeWebsiteDomain(website);
+      if (domain) domains.set(index, domain);
+    }
+
+    const duplicates = new Map<
+      number,
+      Pick<ImportRowResult, "client_id" | "errors">
+    >();
+    if (domains.size === 0) {
+      return duplicates;
+    }
+
+    const [existingClients] = await this.repository.find({
+      organization_id: orgId,
+      website_domain: { $in: [...new Set(domains.values())] },
+    });
+    const existingIds = new Map(
+      existingClients.map((client) => [
+        client.website_domain,
+        String(client._id),
+      ])
+    );
+
+    // Earliest row wins
+    const firstRows = new Map<string, number>();
+    for (const [index, domain] of [...domains].sort(([a], [b]) => a - b)) {
+      const clientId = existingIds.get(domain);
+      const firstRow = firstRows.get(domain);
+
+      if (clientId) {
+        duplicates.set(index, {
+          client_id: clientId,
+          errors: {
+            "company.website": ["A client for this website already exists"],
+          },
+        });
+      } else if (firstRow !== undefined) {
+        duplicates.set(index, {
+          errors: {
+            "company.website": [`Same website as row ${firstRow + 1}`],
+          },
+        });
+      } else {
+        firstRows.set(domain, index);
+      }
+    }
+
+    return duplicates;
+  }
+
+  /**
+   * Field errors of an import row, as ValidationError.fromZod reports them
+   *
+   * @param issues - Zod issues
+   * @param path - Path to report the issues under instead of their own
+   */
+  private toImportErrors(
+    issues: { path: PropertyKey[]; message: string }[],
+    path?: string[]
+  ): Record<string, string[]> {
+    const error = ValidationError.fromZod({
+      errors: issues.map((issue) => ({
+        path: path ?? (issue.path as (string | number)[]),
+        message: issue.message,
+      })),
+    });
+
+    return (error.metadata?.errors ?? {}) as Record<string, string[]>;
+  }
+
+  /**
+   * ========================================================================
+   * Export
+   * ========================================================================
+   */
+
+  /**
+   * Find an organization's clients to export using query string filters
+   * Supports the filters, search and sort of clientQueryConfig. Exports are
+   * all or nothing - more than MAX_CLIENT_EXPORT_ROWS matches is rejected
+   * rather than silently cut short.
+   *
+   * @param searchParams - Raw query parameters (`format` is ignored)
+   * @param organizationId - Organization the clients belong to (always enforced)
+   * @throws ValidationError if more than MAX_CLIENT_EXPORT_ROWS clients match
+   */
+  async findClientsForExport(
+    searchParams: URLSearchParams,
+    organizationId: string
+  ): Promise<ClientResponse[]> {
+    const filterParams = new URLSearchParams(searchParams);
+    filterParams.delete("format");
+
+    const parsed = this.parseClientQuery(filterParams);
+
+    const [clients, total] = await this.repository.find(
+      { ...parsed.filters, organization_id: organizationId },
+      { sort: parsed.sort, limit: MAX_CLIENT_EXPORT_ROWS }
+    );
+
+    if (total > MAX_CLIENT_EXPORT_ROWS) {
+      throw new ValidationError(
+        `${total} clients match - exports are limited to ${MAX_CLIENT_EXPORT_ROWS}. Narrow the filters and export in parts.`,
+        { matched: total, max: MAX_CLIENT_EXPORT_ROWS }
+      );
+    }
+
+    return clients.map((client) => this.mapEntityToResponse(client));
+  }
+
+  /**
+   * Render clients as an export file
+   * JSON holds the API representation, CSV the import columns and
+   * markdown one client brief per client.
+   *
+   * @param clients - Clients to export
+   * @param format - File format
+   * @param name - File name without extension
+   */
+  exportClients(
+    clients: ClientResponse[],
+    format: ClientExportFormat,
+    name: string
+  ): ClientExport {
+    log.info("Exporting clients", { count: clients.length, format });
+
+    let body: string;
+    switch (format) {
+      case ClientExportFormat.CSV: {
+        const { columns, records } = toClientCsvRecords(clients);
+        body = formatCsv(columns, records);
+        break;
+      }
+      case ClientExportFormat.MARKDOWN:
+        body = clients.map(renderClientBrief).join("\n---\n\n");
+        break;
+      default:
+        body = JSON.stringify(clients, null, 2);
+    }
+
+    return {
+      filename: `${name}.${format}`,
+      content_type: EXPORT_CONTENT_TYPES[format],
+      body,
+    };
+  }
+
+  /**
+   * Get client context by ID
+   */
+  async getClientContext(clientId: string): Promise<ClientResponse> {
+    log.debug("Fetching client context", { clientId });
+
+    const client = await this.repository.findById(clientId);
+
+    if (!client) {
+      throw new NotFoundError(`Client not found with ID: ${clientId}`);
+    }
+
+    return this.mapEntityToResponse(client);
+  }
+
+  /**
+   * Update client context
+   */
+  async updateContext(
+    clientId: string,
+    updates: UpdateClientInput,
+    updatedBy?: string
+  ): Promise<ClientResponse> {
+    log.info("Updating client context", { clientId });
+
+    // Fetch existing client
+    const existingClient = await this.repository.findById(clientId);
+
+    if (!existingClient) {
+      throw new NotFoundError(`Client not found with ID: ${clientId}`);
+    }
+
+    // Prepare update data
+    const updateData = this.prepareEntityForUpdate(updates, updatedBy || "");
+    await this.applyWebsiteDomain(existingClient, updateData);
+
+    // Record the edited fields as manually set
+    const changedFields = this.applyManualProvenance(
+      existingClient,
+      updateData,
+      updatedBy
+    );
+
+    // Add updatedBy if provided
+    if (updatedBy) {
+      updateData.updated_by = updatedBy;
+    }
+
+    // Update client
+    const updatedClient = await this.repository.updateById(
+      clientId,
+      updateData
+    );
+
+    if (!updatedClient) {
+      throw new NotFoundError(
+        `Client not found after update with ID: ${clientId}`
+      );
+    }
+
+    log.info("Client context updated", { clientId });
+
+    await this.publishContextUpdated(updatedClient, changedFields, updatedBy);
+
+    return this.mapEntityToResponse(updatedClient);
+  }
+
+  /**
+   * Refine AI-extracted context (user overrides AI data)
+   */
+  async refineContext(
+    clientId: string,
+    refinements: RefineContextInput,
+    refinedBy?: string
+  ): Promise<ClientResponse> {
+    log.info("Refining AI-extracted context", { clientId });
+
+    // Fetch existing client
+    const existingClient = await this.repository.findById(clientId);
+
+    if (!existingClient) {
+      throw new NotFoundError(`Client not found with ID: ${clientId}`);
+    }
+
+    // Ensure client was AI-researched
+    if (existingClient.research_metadata.source === ResearchSource.MANUAL) {
+      throw new ValidationError(
+        "Cannot refine manually created client. Use updateContext instead."
+      );
+    }
+
+    // Merge refinements with existing data using factory
+    const updateData = clientFactory.mergeRefinements(
+      existingClient,
+      refinements
+    );
+    await this.applyWebsiteDomain(existingClient, updateData);
+
+    // Record the refined fields as manually set
+    const changedFields = this.applyManualProvenance(
+      existingClient,
+      updateData,
+      refinedBy
+    );
+
+    // Add refinement notes if provided
+    if (refinements.refinement_notes) {
+      updateData.research_metadata = {
+        ...existingClient.research_metadata,
+        ...updateData.research_metadata,
+        research_notes: `${
+          existingClient.research_metadata.research_notes || ""
+        }\n\nUser Refinements: ${refinements.refinement_notes}`.trim(),
+      } as any;
+    }
+
+    if (refinedBy) {
+      updateData.updated_by = refinedBy;
+    }
+
+    // Update client
+    const updatedClient = await this.repository.updateById(
+      clientId,
+      updateData
+    );
+
+    if (!updatedClient) {
+      throw new NotFoundError(
+        `Client not found after refinement with ID: ${clientId}`
+      );
+    }
+
+    log.info("Client context refined", { clientId });
+
+    await this.publishContextUpdated(updatedClient, changedFields, refinedBy);
+
+    return this.mapEntityToResponse(updatedClient);
+  }
+
+  /**
+   * Record manual provenance for the context fields an update changes
+   * Also marks an AI-researched client as MIXED once a person edits it.
+   *
+   * @param existingClient - Client before the update
+   * @param updateData - Update about to be written (modified in place)
+   * @param userId - User making the change
+   * @returns The changed context paths
+   */
+  private applyManualProvenance(
+    existingClient: IClient,
+    updateData: Partial<IClient>,
+    userId?: string
+  ): string[] {
+    const changedFields = getChangedContextPaths(existingClient, {
+      ...pickContext(existingClient),
+      ...pickContext(updateData),
+    });
+
+    if (changedFields.length === 0) {
+      return changedFields;
+    }
+
+    updateData.field_provenance = recordProvenance(
+      existingClient.field_provenance,
+      changedFields,
+      {
+        source: ProvenanceSource.MANUAL,
+        updated_at: new Date(),
+        updated_by: userId,
+      }
+    );
+
+    if (existingClient.research_metadata.source === ResearchSource.AI) {
+      updateData.research_metadata = {
+        ...existingClient.research_metadata,
+        ...updateData.research_metadata,
+        source: ResearchSource.MIXED,
+      };
+    }
+
+    return changedFields;
+  }
+
+  /**
+   * Soft delete a client and publish project.deleted
+   *
+   * @param id - Client ID
+   * @param deletedBy - User deleting the client
+   * @returns The deleted client, or null if it did not exist
+   */
+  async deleteById(
+    id: string,
+    deletedBy?: string
+  ): Promise<ClientResponse | null> {
+    const deletedClient = await super.deleteById(id);
+
+    if (deletedClient) {
+      log.info("Client deleted", { clientId: id });
+
+      await this.publishClientEvent(
+        EventName.PROJECT_DELETED,
+        {
+          client_id: deletedClient.id,
+          organization_id: deletedClient.organization_id,
+        },
+        deletedBy
+      );
+    }
+
+    return deletedClient;
+  }
+
+  /**
+   * ========================================================================
+   * Research Review
+   * ========================================================================
+   *
+   * Research-created clients whose confidence is below their organization's
+   * threshold (see domain/research-review.ts) are created needing review.
+   * Plans can't be generated for them until a person confirms the research.
+   */
+
+  /**
+   * Confirm a client's research after a person reviewed it
+   * Clients that don't need review are returned unchanged.
+   *
+   * @param clientId - Client to confirm
+   * @param reviewedBy - User confirming the research
+   * @returns The client
+   */
+  async confirmResearchReview(
+    clientId: string,
+    reviewedBy: string
+  ): Promise<ClientResponse> {
+    const client = await this.repository.findById(clientId);
+
+    if (!client) {
+      throw new NotFoundError(`Client not found with ID: ${clientId}`);
+    }
+
+    if (!isAwaitingResearchReview(client.research_metadata)) {
+      return this.mapEntityToResponse(client);
+    }
+
+    const confirmedClient = await this.repository.atomicUpdate(clientId, {
+      "research_metadata.review_status": ClientReviewStatus.CONFIRMED,
+      "research_metadata.reviewed_at": new Date(),
+      "research_metadata.reviewed_by": reviewedBy,
+      updated_by: reviewedBy,
+    });
+
+    log.info("Client research confirmed", { clientId, reviewedBy });
+
+    return this.mapEntityToResponse(confirmedClient ?? client);
+  }
+
+  /**
+   * Refuse to generate plans from research nobody has confirmed yet
+   *
+   * @throws ConflictError if the client needs review
+   */
+  assertResearchReviewed(client: ClientResponse): void {
+    if (!isAwaitingResearchReview(client.research_metadata)) {
+      return;
+    }
+
+    throw new ConflictError(
+      "Client research needs review before plans can be generated",
+      {
+        client_id: client.id,
+        review_status: client.research_metadata.review_status,
+        confidence: client.research_metadata.confidence,
+        review_threshold: client.research_metadata.review_threshold,
+      }
+    );
+  }
+
+  /**
+   * ========================================================================
+   * Duplicate Clients
+   * ========================================================================
+   *
+   * A company can be a client of an organization once: clients are keyed by
+   * their normalized website domain (see domain/website-domain.ts), unique
+   * per organization. Creating a duplicate fails with a ConflictError naming
+   * the existing client; duplicates that exist anyway can be merged.
+   */
+
+  /**
+   * Find an organization's client for a website
+   *
+   * @param website - Website in any form (scheme, www and path don't matter)
+   * @param organizationId - Organization to look in
+   * @param excludeClientId - Client to ignore (the one being updated)
+   * @returns The client, or null if the company isn't a client yet
+   */
+  async findDuplicateClient(
+    website: string,
+    organizationId?: string,
+    excludeClientId?: string
+  ): Promise<ClientResponse | null> {
+    const websiteDomain = normalizeWebsiteDomain(website);
+
+    if (!organizationId || !websiteDomain) {
+      return null;
+    }
+
+    const [clients] = await this.repository.find({
+      organization_id: organizationId,
+      website_domain: websiteDomain,
+    });
+    const duplicate = clients.find(
+      (client) => String(client._id) !== excludeClientId
+    );
+
+    return duplicate ? this.mapEntityToResponse(duplicate) : null;
+  }
+
+  /**
+   * @throws ConflictError (with existing_client_id) if the website's
+   * company is already a client of the organization
+   */
+  private async assertNoDuplicateClient(
+    website: string,
+    organizationId?: string,
+    excludeClientId?: string
+  ): Promise<void> {
+    const duplicate = await this.findDuplicateClient(
+      website,
+      organizationId,
+      excludeClientId
+    );
+
+    if (duplicate) {
+      throw new ConflictError("A client for this website already exists", {
+        existing_client_id: duplicate.id,
+        website_domain: duplicate.website_domain,
+      });
+    }
+  }
+
+  /**
+   * Create a client unless its company is already a client
+   * The unique index catches creates racing past the check.
+   *
+   * @throws ConflictError if the company is already a client
+   */
+  private async createUniqueClient(clientData: IClient): Promise<IClient> {
+    await this.assertNoDuplicateClient(
+      clientData.company.website,
+      clientData.organization_id
+    );
+
+    try {
+      return await this.repository.create(clientData);
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        await this.assertNoDuplicateClient(
+          clientData.company.website,
+          clientData.organization_id
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Keep website_domain in step with an update that changes the website
+   *
+   * @param existingClient - Client before the update
+   * @param updateData - Update about to be written (modified in place)
+   * @throws ConflictError if the new website belongs to another client
+   */
+  private async applyWebsiteDomain(
+    existingClient: IClient,
+    updateData: Partial<IClient>
+  ): Promise<void> {
+    const website = updateData.company?.website;
+
+    if (website === undefined) {
+      return;
+    }
+
+    await this.assertNoDuplicateClient(
+      website,
+      existingClient.organization_id,
+      String(existingClient._id)
+    );
+    updateData.website_domain = normalizeWebsiteDomain(website);
+  }
+
+  /**
+   * Merge a duplicate client into another and delete the duplicate
+   * The kept client's values win; the duplicate fills its gaps (see
+   * domain/client-merge.ts). Filled fields keep the provenance they had on
+   * the duplicate.
+   *
+   * @param targetId - Client to keep
+   * @param sourceId - Duplicate to merge in and delete
+   * @param mergedBy - User merging
+   * @returns The merged client
+   * @throws ValidationError if the clients are the same or belong to
+   * different organizations
+   */
+  async mergeClients(
+    targetId: string,
+    sourceId: string,
+    mergedBy?: string
+  ): Promise<ClientResponse> {
+    if (targetId === sourceId) {
+      throw new ValidationError("Cannot merge a client into itself");
+    }
+
+    const [target, source] = await Promise.all([
+      this.repository.findById(targetId),
+      this.repository.findById(sourceId),
+    ]);
+
+    if (!target) {
+      throw new NotFoundError(`Client not found with ID: ${targetId}`);
+    }
+    if (!source) {
+      throw new NotFoundError(`Client not found with ID: ${sourceId}`);
+    }
+    if (target.organization_id !== source.organization_id) {
+      throw new ValidationError(
+        "Cannot merge clients of different organizations"
+      );
+    }
+
+    log.info("Merging clients", { targetId, sourceId });
+
+    const { context, filled_paths } = mergeClientContexts(
+      pickContext(target),
+      pickContext(source)
+    );
+
+    let mergedClient = target;
+
+    if (filled_paths.length > 0) {
+      const now = new Date();
+      const updateData: Partial<IClient> = {
+        ...context,
+        field_provenance: filled_paths.reduce((provenance, path) => {
+          const entry = getFieldProvenance(source.field_provenance, path);
+          return recordProvenance(
+            provenance,
+            [path],
+            entry
+              ? {
+                  source: entry.source,
+                  updated_at: entry.updated_at,
+                  updated_by: entry.updated_by,
+                  confidence: entry.confidence,
+                }
+              : {
+                  source: ProvenanceSource.MANUAL,
+                  updated_at: now,
+                  updated_by: mergedBy,
+                }
+          );
+        }, target.field_provenance),
+      };
+
+      if (source.research_metadata.source !== target.research_metadata.source) {
+        updateData.research_metadata = {
+          ...target.research_metadata,
+          source: ResearchSource.MIXED,
+        };
+      }
+
+      if (mergedBy) {
+        updateData.updated_by = mergedBy;
+      }
+
+      const updatedClient = await this.repository.updateById(
+        targetId,
+        updateData
+      );
+
+      if (!updatedClient) {
+        throw new NotFoundError(
+          `Client not found after merge with ID: ${targetId}`
+        );
+      }
+      mergedClient = updatedClient;
+    }
+
+    await this.deleteById(sourceId, mergedBy);
+
+    log.info("Clients merged", {
+      targetId,
+      sourceId,
+      filled: filled_paths.length,
+    });
+
+    if (filled_paths.length > 0) {
+      await this.publishContextUpdated(mergedClient, filled_paths, mergedBy);
+    }
+
+    return this.mapEntityToResponse(mergedClient);
+  }
+
+  /**
+   * ========================================================================
+   * Domain Events
+   * ========================================================================
+   */
+
+  /**
+   * Publish project.created for a newly stored client
+   */
+  private async publishProjectCreated(
+    client: ClientResponse,
+    userId: string
+  ): Promise<void> {
+    await this.publishClientEvent(
+      EventName.PROJECT_CREATED,
+      {
+        client_id: client.id,
+        organization_id: client.organization_id,
+        name: client.company.name,
+        website: client.company.website,
+      },
+      userId
+    );
+  }
+
+  /**
+   * Publish context.updated with the context paths that changed
+   * Writes that don't touch the context (e.g. notes only) publish nothing.
+   */
+  private async publishContextUpdated(
+    client: IClient,
+    changedFields: string[],
+    userId?: string
+  ): Promise<void> {
+    if (changedFields.length === 0) {
+      return;
+    }
+
+    await this.publishClientEvent(
+      EventName.CONTEXT_UPDATED,
+      {
+        client_id: String(client._id),
+        organization_id: client.organization_id,
+        changed_fields: changedFields,
+      },
+      userId
+    );
+  }
+
+  /**
+   * Publish a client event
+   * The write has already succeeded, so a failed publish is logged rather
+   * than failing the request. The event carries the request's correlation
+   * ID, which downstream events (plan.generated, task.created) carry forward.
+   */
+  private async publishClientEvent<TName extends ClientEventName>(
+    name: TName,
+    data: AppEventByName<TName>["data"],
+    userId?: string
+  ): Promise<void> {
+    try {
+      await publishEvent(name, data, {
+        projectId: data.client_id,
+        userId,
+        source: "clients-module",
+      });
+    } catch (error) {
+      log.error("Failed to publish client event", {
+        event: name,
+        clientId: data.client_id,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Find clients by user
+   */
+  async findClientsByUser(userId: string): Promise<ClientResponse[]> {
+    log.debug("Finding clients by user", { userId });
+
+    const [clients] = await this.repository.find({
+      user_id: userId,
+    });
+
+    return clients.map((p) => this.mapEntityToResponse(p));
+  }
+
+  /**
+   * Find clients by organization
+   * Query string filters, search and sort of clientQueryConfig narrow the
+   * list (e.g. `research_metadata.review_status=needs_review`).
+   *
+   * @param organizationId - Organization the clients belong to (always enforced)
+   * @param searchParams - Optional raw query parameters
+   */
+  async findClientsByOrganization(
+    organizationId: string,
+    searchParams?: URLSearchParams
+  ): Promise<ClientResponse[]> {
+    log.debug("Finding clients by organization", { organizationId });
+
+    const parsed = searchParams
+      ? this.parseClientQuery(searchParams)
+      : undefined;
+
+    const [clients] = await this.repository.find(
+      { ...parsed?.filters, organization_id: organizationId },
+      parsed && { sort: parsed.sort }
+    );
+
+    return clients.map((p) => this.mapEntityToResponse(p));
+  }
+
+  /**
+   * Parse query string filters with clientQueryConfig
+   *
+   * @throws ValidationError for unknown fields or invalid values
+   */
+  private parseClientQuery(searchParams: URLSearchParams) {
+    try {
+      return this.queryParser.parse(searchParams);
+    } catch (error) {
+      if (error instanceof QueryValidationError) {
+        throw new ValidationError(error.message, {
+          field: error.field,
+          value: error.value,
+          expected: error.expectedType,
+        });
+      }
+      throw error;
+    }
   }
 
   /**
@@ -0,0 +1,206 @@
+/**
+ * Clients Module - Export
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Renders clients for export: CSV rows and markdown client briefs.
+ *
+ * CSV:
+ * - One row per client, one column per context field path - the same
+ *   columns the bulk import reads, so an export can be edited and
+ *   re-imported
+ * - Lists are joined with `;` (CSV_LIST_SEPARATOR)
+ *
+ * MARKDOWN:
+ * - A brief a freelancer can work from without access to the app: company,
+ *   product, ICP, brand voice, competitors and conversion funnel
+ * - Empty sections are left out
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types, ./context-changes, ./client-import
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import {
+  CLIENT_CONTEXT_FIELDS,
+  ClientContext,
+  getContextValue,
+  getContextValuePaths,
+} from "./context-changes";
+import { CSV_LIST_SEPARATOR } from "./client-import";
+
+/**
+ * Client as exported - its context plus its ID
+ */
+export type ExportableClient = ClientContext & { id: string };
+
+/**
+ * Column holding the client ID (ignored by the import)
+ */
+export const EXPORT_ID_COLUMN = "id";
+
+const formatCell = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return value.map(formatCell).join(`${CSV_LIST_SEPARATOR} `);
+  }
+  return String(value);
+};
+
+const fieldIndex = (path: string): number =>
+  CLIENT_CONTEXT_FIELDS.findIndex(
+    (field) =>
+      path === field ||
+      path.startsWith(`${field}.`) ||
+      path.startsWith(`${field}[`)
+  );
+
+/**
+ * Flatten clients into CSV records
+ *
+ * @param clients - Clients to export
+ * @returns Columns (ID first, then field paths in field order) and records
+ */
+export function toClientCsvRecords(clients: ExportableClient[]): {
+  columns: string[];
+  records: Record<string, string>[];
+} {
+  const paths = new Set<string>();
+
+  const records = clients.map((client) => {
+    const record: Record<string, string> = { [EXPORT_ID_COLUMN]: client.id };
+
+    for (const path of getContextValuePaths(client)) {
+      paths.add(path);
+      record[path] = formatCell(getContextValue(client, path));
+    }
+
+    return record;
+  });
+
+  // Stable sort keeps the path order within each field
+  const columns = [
+    EXPORT_ID_COLUMN,
+    ...[...paths].sort((a, b) => fieldIndex(a) - fieldIndex(b)),
+  ];
+
+  return { columns, records };
+}
+
+/**
+ * Render `- **Label:** value` lines for the values that are set
+ */
+const renderDetails = (details: [label: string, value: unknown][]): string[] =>
+  details
+    .filter(([, value]) => formatCell(value).trim() !== "")
+    .map(([label, value]) => `- **${label}:** ${formatCell(value)}`);
+
+/**
+ * Render a bullet list section body
+ */
+const renderList = (items: string[] | undefined): string[] =>
+  (items ?? []).filter((item) => item.trim() !== "").map((item) => `- ${item}`);
+
+/**
+ * Render a section, or nothing if it has no content
+ */
+const renderSection = (title: string, lines: string[]): string[] =>
+  lines.some((line) => line.trim() !== "")
+    ? [`## ${title}`, "", ...lines, ""]
+    : [];
+
+/**
+ * Render a labelled list inside a section
+ */
+const renderLabelledList = (
+  label: string,
+  items: string[] | undefined
+): string[] => {
+  const list = renderList(items);
+  return list.length > 0 ? [`**${label}:**`, "", ...list, ""] : [];
+};
+
+/**
+ * Render a client brief in markdown
+ *
+ * @param client - Client to describe
+ * @returns Markdown document
+ */
+export function renderClientBrief(client: ExportableClient): string {
+  const { company, product, icp, brand_voice, competitors, conversion_funnel } =
+    client;
+
+  const lines = [
+    `# ${company?.name ?? "Client"} - Client Brief`,
+    "",
+    ...renderDetails([
+      ["Website", company?.website],
+      ["Industry", company?.industry],
+      ["Stage", company?.stage],
+    ]),
+    "",
+    ...(company?.description ? [company.description, ""] : []),
+    ...renderSection("Product", [
+      ...(product?.description ? [product.description, ""] : []),
+      ...renderDetails([
+        ["Value proposition", product?.value_proposition],
+        ["Pricing", product?.pricing_summary],
+      ]),
+      "",
+      ...renderLabelledList("Key features", product?.features),
+    ]),
+    ...renderSection("Ideal Customer Profile", [
+      ...(icp?.description ? [icp.description, ""] : []),
+      ...renderDetails([
+        ["Demographics", icp?.demographics],
+        ["Company size", icp?.target_company_size],
+        ["Industries", icp?.target_industries],
+      ]),
+      "",
+      ...renderLabelledList("Pain points", icp?.pain_points),
+    ]),
+    ...renderSection("Brand Voice", [
+      ...renderDetails([
+        ["Tone", brand_voice?.tone],
+        ["Style", brand_voice?.style],
+        ["Keywords", brand_voice?.keywords],
+      ]),
+      ...(brand_voice?.guidelines ? ["", brand_voice.guidelines] : []),
+    ]),
+    ...renderSection(
+      "Competitors",
+      (competitors ?? []).flatMap((competitor) => [
+        `### ${competitor.name}`,
+        "",
+        ...renderDetails([
+          ["Website", competitor.website],
+          ["Positioning", competitor.positioning],
+          ["Strengths", competitor.strengths],
+          ["Weaknesses", competitor.weaknesses],
+        ]),
+        "",
+      ])
+    ),
+    ...renderSection(
+      "Conversion Funnel",
+      renderDetails([
+        ["Awareness channels", conversion_funnel?.awareness_channels],
+        ["Consideration assets", conversion_funnel?.consideration_assets],
+        ["Decision triggers", conversion_funnel?.decision_triggers],
+        ["Decision maker", conversion_funnel?.decision_maker_job_title],
+        ["Primary CTA", conversion_funnel?.primary_cta],
+        ["Bottleneck", conversion_funnel?.conversion_bottleneck],
+        ["Sales cycle (days)", conversion_funnel?.avg_sales_cycle_days],
+      ])
+    ),
+  ];
+
+  // Collapse the blank lines left by empty parts
+  return `${lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()}\n`;
+}
@@ -0,0 +1,192 @@
+/**
+ * Clients Module - Bulk Import
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Maps uploaded CSV records onto the client shape so each row can be
+ * validated like a manually created client.
+ *
+ * CSV COLUMNS:
+ * - Headers are field paths: `company.name`, `product.value_proposition`,
+ *   `competitors[0].name`
+ * - Cells are converted to the type the client schema expects at that path:
+ *   numbers, booleans (true/false/yes/no/1/0) and lists separated by `;`
+ * - Empty cells are left out; cells that don't convert are kept as text so
+ *   validation reports them
+ * - Columns that aren't client fields are ignored
+ *
+ * A row whose only value is `company.website` is a website-only row: it
+ * can't be created as is, but can be researched.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: zod, ./schema.definition
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import { z } from "zod";
+import { ClientFieldsSchema } from "./schema.definition";
+
+/**
+ * Separates the items of a list cell
+ */
+export const CSV_LIST_SEPARATOR = ";";
+
+const TRUE_VALUES = ["true", "yes", "1"];
+const FALSE_VALUES = ["false", "no", "0"];
+
+/**
+ * Split a field path into keys and array indexes
+ * `competitors[0].name` → ["competitors", 0, "name"]
+ */
+const toPathSegments = (path: string): (string | number)[] =>
+  path
+    .split(/\.|\[(\d+)\]/)
+    .filter((segment) => segment !== undefined && segment !== "")
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+/**
+ * Strip optional/default/nullable wrappers
+ */
+const unwrapSchema = (schema: z.ZodType): z.ZodType => {
+  let current = schema;
+  while (
+    current instanceof z.ZodOptional ||
+    current instanceof z.ZodDefault ||
+    current instanceof z.ZodNullable
+  ) {
+    current = current.unwrap() as z.ZodType;
+  }
+  return current;
+};
+
+/**
+ * Schema expected at a path of the client, if the path exists
+ */
+const getSchemaAtPath = (
+  segments: (string | number)[]
+): z.ZodType | undefined => {
+  let current: z.ZodType | undefined = ClientFieldsSchema;
+
+  for (const segment of segments) {
+    if (!current) return undefined;
+    const schema = unwrapSchema(current);
+
+    if (typeof segment === "number") {
+      current =
+        schema instanceof z.ZodArray
+          ? (schema.element as z.ZodType)
+          : undefined;
+    } else {
+      current =
+        schema instanceof z.ZodObject &&
+        Object.prototype.hasOwnProperty.call(schema.shape, segment)
+          ? (schema.shape as Record<string, z.ZodType>)[segment]
+          : undefined;
+    }
+  }
+
+  return current;
+};
+
+/**
+ * Convert a cell to the type the schema expects
+ */
+const coerceCell = (cell: string, schema: z.ZodType | undefined): unknown => {
+  const target = schema ? unwrapSchema(schema) : undefined;
+
+  if (target instanceof z.ZodNumber) {
+    const value = Number(cell);
+    return Number.isNaN(value) ? cell : value;
+  }
+
+  if (target instanceof z.ZodBoolean) {
+    const value = cell.toLowerCase();
+    if (TRUE_VALUES.includes(value)) return true;
+    if (FALSE_VALUES.includes(value)) return false;
+    return cell;
+  }
+
+  if (target instanceof z.ZodArray) {
+    return cell
+      .split(CSV_LIST_SEPARATOR)
+      .map((item) => item.trim())
+      .filter((item) => item !== "")
+      .map((item) => coerceCell(item, target.element as z.ZodType));
+  }
+
+  return cell;
+};
+
+/**
+ * Set a value at a path, creating objects and arrays on the way
+ */
+const setAtPath = (
+  target: Record<string, unknown>,
+  segments: (string | number)[],
+  value: unknown
+): void => {
+  let current: any = target;
+
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      current[segment] = value;
+      return;
+    }
+
+    if (current[segment] === undefined) {
+      current[segment] = typeof segments[index + 1] === "number" ? [] : {};
+    }
+    current = current[segment];
+  });
+};
+
+/**
+ * Map a CSV record onto the client shape
+ *
+ * @param record - Cells keyed by header (field path)
+ * @returns Nested client row, not yet validated
+ */
+export function csvRecordToClientRow(
+  record: Record<string, string>
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  for (const [header, rawCell] of Object.entries(record)) {
+    const cell = rawCell.trim();
+    const segments = toPathSegments(header.trim());
+
+    const schema = getSchemaAtPath(segments);
+
+    if (cell === "" || segments.length === 0 || !schema) continue;
+
+    setAtPath(row, segments, coerceCell(cell, schema));
+  }
+
+  return row;
+}
+
+/**
+ * Check whether a row holds nothing but a company website
+ *
+ * @param row - Client row (mapped CSV record or JSON row)
+ * @returns The website, or undefined if the row has other values
+ */
+export function getWebsiteOnlyRowUrl(
+  row: Record<string, unknown>
+): string | undefined {
+  const company = row.company as Record<string, unknown> | undefined;
+
+  if (
+    Object.keys(row).length !== 1 ||
+    !company ||
+    typeof company !== "object" ||
+    Object.keys(company).length !== 1 ||
+    typeof company.website !== "string"
+  ) {
+    return undefined;
+  }
+
+  return company.website;
+}
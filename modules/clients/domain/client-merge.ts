@@ -0,0 +1,137 @@
+/**
+ * Clients Module - Merging Duplicate Clients
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Combines a duplicate client (source) into the client that is kept
+ * (target). The target's context is the one people have been working
+ * with, so it wins; the source only fills the gaps.
+ *
+ * MERGE RULES:
+ * - Values set on the target are kept; empty ones (unset, blank, empty
+ *   list) are taken from the source
+ * - Nested objects are merged field by field
+ * - Lists of objects (competitors, existing customers) gain the source's
+ *   items the target doesn't have, matched by name (case-insensitive)
+ * - Other lists gain the source's values the target doesn't have
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./context-changes, ./provenance
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import {
+  CLIENT_CONTEXT_FIELDS,
+  ClientContext,
+  getChangedContextPaths,
+  getContextValuePaths,
+  isEmptyContextValue,
+  isPlainObject,
+  toPlain,
+} from "./context-changes";
+import { isSameOrDescendantPath } from "./provenance";
+
+/**
+ * Merged context and what the source contributed
+ */
+export interface ClientMergeResult {
+  context: ClientContext;
+  // Leaf paths whose value now comes from the source
+  filled_paths: string[];
+}
+
+/**
+ * Key two list items are matched on
+ * Objects match by name when they have one, anything else by content.
+ */
+const itemKey = (input: unknown): string => {
+  const item = toPlain(input);
+
+  if (isPlainObject(item) && typeof item.name === "string") {
+    return `name:${item.name.trim().toLowerCase()}`;
+  }
+  if (typeof item === "string") {
+    return `value:${item.trim().toLowerCase()}`;
+  }
+  return `json:${JSON.stringify(item)}`;
+};
+
+/**
+ * Append the source items the target doesn't have
+ */
+const mergeLists = (target: unknown[], source: unknown[]): unknown[] => {
+  const keys = new Set(target.map(itemKey));
+
+  return [
+    ...target,
+    ...source.filter((item) => {
+      const key = itemKey(item);
+      if (keys.has(key)) return false;
+      keys.add(key);
+      return true;
+    }),
+  ];
+};
+
+/**
+ * Merge one value, target first
+ */
+function mergeValue(targetInput: unknown, sourceInput: unknown): unknown {
+  const target = toPlain(targetInput);
+  const source = toPlain(sourceInput);
+
+  if (isEmptyContextValue(target)) {
+    return isEmptyContextValue(source) ? target : source;
+  }
+
+  if (isPlainObject(target) && isPlainObject(source)) {
+    const keys = new Set([...Object.keys(target), ...Object.keys(source)]);
+    return [...keys]
+      .filter((key) => key !== "_id")
+      .reduce<Record<string, unknown>>((merged, key) => {
+        const value = mergeValue(target[key], source[key]);
+        if (value !== undefined) merged[key] = value;
+        return merged;
+      }, {});
+  }
+
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return mergeLists(target, source);
+  }
+
+  return target;
+}
+
+/**
+ * Merge a duplicate client's context into the client that is kept
+ *
+ * @param target - Context of the client that is kept
+ * @param source - Context of the duplicate
+ * @returns The merged context (every context field) and the filled paths
+ */
+export function mergeClientContexts(
+  target: ClientContext,
+  source: ClientContext
+): ClientMergeResult {
+  const context = Object.fromEntries(
+    CLIENT_CONTEXT_FIELDS.map((field) => [
+      field,
+      mergeValue(target[field], source[field]),
+    ]).filter(([, value]) => value !== undefined)
+  ) as ClientContext;
+
+  // Report added sections and items by their leaves, like provenance
+  const valuePaths = getContextValuePaths(context);
+  const filled_paths = getChangedContextPaths(target, context).flatMap(
+    (path) => {
+      const leaves = valuePaths.filter((valuePath) =>
+        isSameOrDescendantPath(valuePath, path)
+      );
+      return leaves.length > 0 ? leaves : [path];
+    }
+  );
+
+  return { context, filled_paths };
+}
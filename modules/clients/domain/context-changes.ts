@@ -0,0 +1,285 @@
+/**
+ * Clients Module - Context Changes
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Works out which parts of a client's business context changed between two
+ * versions of the client, as field paths (e.g. `icp.pain_points`,
+ * `brand_voice.tone`, `competitors[2].strengths`). The paths are published
+ * with context.updated so consumers can decide whether a change matters to
+ * them - plan regeneration cares about ICP and brand voice, not about a new
+ * blog URL - and key the per-field provenance records.
+ *
+ * COMPARISON RULES:
+ * - Nested objects are compared field by field, so paths point at leaves
+ * - Arrays of objects are compared item by item (`competitors[2].name`);
+ *   other arrays are compared as a whole and reported at the array's path
+ * - Dates compare by timestamp; `_id` keys of subdocuments are ignored
+ * - Database documents are compared by their JSON representation
+ * - Audit and research metadata fields are not part of the context
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./schema.definition (ClientFields type)
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import type { ClientFields } from "./schema.definition";
+
+/**
+ * Top-level client fields that make up the business context
+ */
+export const CLIENT_CONTEXT_FIELDS = [
+  "company",
+  "product",
+  "icp",
+  "business_goals",
+  "brand_voice",
+  "marketing_assets",
+  "existing_customers",
+  "current_mrr",
+  "current_arr",
+  "competitors",
+  "current_metrics",
+  "content_inventory",
+  "tech_stack",
+  "resources",
+  "conversion_funnel",
+] as const satisfies ReadonlyArray<keyof ClientFields>;
+
+export type ClientContextField = (typeof CLIENT_CONTEXT_FIELDS)[number];
+
+/**
+ * Client context as compared by getChangedContextPaths
+ */
+export type ClientContext = Partial<Pick<ClientFields, ClientContextField>>;
+
+/**
+ * Check for a plain object (not an array, Date or database identifier)
+ */
+export const isPlainObject = (
+  value: unknown
+): value is Record<string, unknown> => {
+  if (Object.prototype.toString.call(value) !== "[object Object]") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || prototype.constructor?.name === "Object";
+};
+
+/**
+ * Convert database documents/subdocuments to their JSON representation
+ * Plain values, arrays and Dates are returned as they are.
+ */
+export function toPlain(value: unknown): unknown {
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !isPlainObject(value) &&
+    typeof (value as { toJSON?: unknown }).toJSON === "function"
+  ) {
+    return (value as { toJSON: () => unknown }).toJSON();
+  }
+  return value;
+}
+
+/**
+ * Check for an array whose items are all objects (e.g. competitors)
+ */
+const isObjectArray = (value: unknown): value is unknown[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((item) => isPlainObject(toPlain(item)));
+
+/**
+ * Normalize a value so equal content compares equal
+ * Drops undefined and `_id` keys, sorts object keys, converts Dates and
+ * database identifiers to strings.
+ */
+function normalize(input: unknown): unknown {
+  const value = toPlain(input);
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value)
+      .filter((key) => key !== "_id" && value[key] !== undefined)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = normalize(value[key]);
+        return result;
+      }, {});
+  }
+  if (typeof value === "object") {
+    return String(value);
+  }
+  return value;
+}
+
+/**
+ * Compare two values after normalization
+ */
+const isEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+/**
+ * Collect changed leaf paths below a path
+ */
+function collectChanges(
+  beforeInput: unknown,
+  afterInput: unknown,
+  path: string,
+  changes: string[]
+): void {
+  const before = toPlain(beforeInput);
+  const after = toPlain(afterInput);
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      if (key === "_id") continue;
+      collectChanges(before[key], after[key], `${path}.${key}`, changes);
+    }
+    return;
+  }
+
+  if (isObjectArray(before) && isObjectArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      collectChanges(before[index], after[index], `${path}[${index}]`, changes);
+    }
+    return;
+  }
+
+  if (!isEqual(before, after)) {
+    changes.push(path);
+  }
+}
+
+/**
+ * Collect the leaf paths holding a value below a path
+ */
+function collectValuePaths(
+  input: unknown,
+  path: string,
+  paths: string[]
+): void {
+  const value = toPlain(input);
+
+  if (value === null || value === undefined) {
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of Object.keys(value).sort()) {
+      if (key === "_id") continue;
+      collectValuePaths(value[key], `${path}.${key}`, paths);
+    }
+    return;
+  }
+
+  if (isObjectArray(value)) {
+    value.forEach((item, index) =>
+      collectValuePaths(item, `${path}[${index}]`, paths)
+    );
+    return;
+  }
+
+  if (Array.isArray(value) && value.length === 0) {
+    return;
+  }
+
+  paths.push(path);
+}
+
+/**
+ * Pick the context fields that are set on a client or partial update
+ * Works on database documents too (fields are read through their getters).
+ *
+ * @param client - Client entity or update data
+ * @returns The defined context fields
+ */
+export function pickContext(client: ClientContext): ClientContext {
+  return Object.fromEntries(
+    CLIENT_CONTEXT_FIELDS.filter((field) => client[field] !== undefined).map(
+      (field) => [field, client[field]]
+    )
+  ) as ClientContext;
+}
+
+/**
+ * Get the paths of every context field that holds a value
+ * Used to record provenance for a whole context at once (e.g. after research).
+ *
+ * @param context - Client context
+ * @returns Leaf paths in field order
+ */
+export function getContextValuePaths(context: ClientContext): string[] {
+  const paths: string[] = [];
+
+  for (const field of CLIENT_CONTEXT_FIELDS) {
+    collectValuePaths(context[field], field, paths);
+  }
+
+  return paths;
+}
+
+/**
+ * Get the paths of context fields that changed
+ *
+ * @param before - Client before the change
+ * @param after - Client after the change
+ * @returns Changed paths in field order (empty if nothing changed)
+ */
+export function getChangedContextPaths(
+  before: ClientContext,
+  after: ClientContext
+): string[] {
+  const changes: string[] = [];
+
+  for (const field of CLIENT_CONTEXT_FIELDS) {
+    collectChanges(before[field], after[field], field, changes);
+  }
+
+  return changes;
+}
+
+/**
+ * Read the value at a context path (`icp.pain_points`, `competitors[2].name`)
+ *
+ * @param context - Client context
+ * @param path - Field path in the getChangedContextPaths format
+ * @returns The value, or undefined if any part of the path is missing
+ */
+export function getContextValue(context: ClientContext, path: string): unknown {
+  const segments = path.split(/\.|\[(\d+)\]/).filter(Boolean);
+
+  return segments.reduce<unknown>((value, segment) => {
+    const current = toPlain(value);
+    if (Array.isArray(current)) {
+      return current[Number(segment)];
+    }
+    return isPlainObject(current) ? current[segment] : undefined;
+  }, context);
+}
+
+/**
+ * Check whether a value counts as empty (unset, blank string or empty array)
+ */
+export function isEmptyContextValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
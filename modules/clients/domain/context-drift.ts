@@ -0,0 +1,190 @@
+/**
+ * Clients Module - Context Drift
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Compares two researches of the same website and reports material changes
+ * to the client's market position: new or repositioned competitors, a new
+ * company description or value proposition, new pricing messaging.
+ *
+ * Each research stores a baseline (research_metadata.baseline) - the
+ * researched positioning before any human edits - so drift is measured
+ * research-to-research and a user's corrections never count as drift.
+ *
+ * WHAT COUNTS AS MATERIAL:
+ * - Text fields: word overlap below MATERIAL_SIMILARITY_THRESHOLD. AI
+ *   research rewords the same facts from run to run; small rewording is
+ *   not reported.
+ * - Competitors: a competitor not in the previous research, or one whose
+ *   positioning changed materially. Competitors missing from the new
+ *   research are not reported - research only lists the obvious few.
+ * - Fields the new research left empty are not reported.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types, ./context-changes
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import {
+  ContextDriftCategory,
+  IContextDrift,
+  IResearchBaseline,
+} from "./types";
+import { ClientContext, getContextValue } from "./context-changes";
+
+/**
+ * Word overlap (0-1) below which two texts count as materially different
+ */
+export const MATERIAL_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Baseline text fields and the drift category they belong to
+ */
+const BASELINE_TEXT_FIELDS = [
+  {
+    key: "company_description",
+    path: "company.description",
+    category: ContextDriftCategory.POSITIONING,
+  },
+  {
+    key: "value_proposition",
+    path: "product.value_proposition",
+    category: ContextDriftCategory.POSITIONING,
+  },
+  {
+    key: "pricing_summary",
+    path: "product.pricing_summary",
+    category: ContextDriftCategory.PRICING,
+  },
+] as const;
+
+const asText = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Significant lower-cased words of a text
+ */
+const toWords = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2)
+  );
+
+/**
+ * Word overlap of two texts (Jaccard index, 0-1)
+ *
+ * @param a - First text
+ * @param b - Second text
+ * @returns 1 for the same words, 0 for no words in common
+ */
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = toWords(a);
+  const wordsB = toWords(b);
+
+  if (wordsA.size === 0 && wordsB.size === 0) {
+    return 1;
+  }
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Check whether a text changed materially
+ * A value appearing or disappearing is not a material change.
+ */
+const isMaterialTextChange = (before?: string, after?: string): boolean =>
+  !!before &&
+  !!after &&
+  textSimilarity(before, after) < MATERIAL_SIMILARITY_THRESHOLD;
+
+/**
+ * Take the drift baseline from a client context
+ *
+ * @param context - Client context (as researched)
+ * @returns Positioning baseline
+ */
+export function buildResearchBaseline(
+  context: ClientContext
+): IResearchBaseline {
+  const competitors = getContextValue(context, "competitors");
+
+  return {
+    company_description: asText(
+      getContextValue(context, "company.description")
+    ),
+    value_proposition: asText(
+      getContextValue(context, "product.value_proposition")
+    ),
+    pricing_summary: asText(
+      getContextValue(context, "product.pricing_summary")
+    ),
+    competitors: (Array.isArray(competitors) ? competitors : []).flatMap(
+      (_, index) => {
+        const name = asText(
+          getContextValue(context, `competitors[${index}].name`)
+        );
+        const positioning = asText(
+          getContextValue(context, `competitors[${index}].positioning`)
+        );
+        return name ? [{ name, positioning }] : [];
+      }
+    ),
+  };
+}
+
+/**
+ * Find material changes between two researches
+ *
+ * @param previous - Baseline of the previous research
+ * @param current - Baseline of the new research
+ * @returns Material changes (empty when nothing moved)
+ */
+export function detectContextDrift(
+  previous: IResearchBaseline,
+  current: IResearchBaseline
+): IContextDrift[] {
+  const drift: IContextDrift[] = [];
+
+  for (const { key, path, category } of BASELINE_TEXT_FIELDS) {
+    if (isMaterialTextChange(previous[key], current[key])) {
+      drift.push({
+        category,
+        subject: path,
+        before: previous[key],
+        after: current[key],
+      });
+    }
+  }
+
+  const previousCompetitors = new Map(
+    previous.competitors.map((competitor) => [
+      normalizeName(competitor.name),
+      competitor,
+    ])
+  );
+
+  for (const competitor of current.competitors) {
+    const known = previousCompetitors.get(normalizeName(competitor.name));
+
+    if (
+      !known ||
+      isMaterialTextChange(known.positioning, competitor.positioning)
+    ) {
+      drift.push({
+        category: ContextDriftCategory.COMPETITORS,
+        subject: competitor.name,
+        before: known?.positioning,
+        after: competitor.positioning,
+      });
+    }
+  }
+
+  return drift;
+}
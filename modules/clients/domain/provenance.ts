@@ -0,0 +1,118 @@
+/**
+ * Clients Module - Field Provenance
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Tracks where each context field's current value came from - AI research,
+ * a person, or an integration - so re-research can leave human corrections
+ * alone and the UI can badge AI guesses.
+ *
+ * PATH RULES:
+ * - Paths use the format of getChangedContextPaths: `icp.pain_points`,
+ *   `competitors[2].strengths`
+ * - The most specific entry wins: `icp.description` overrides `icp`
+ * - Recording a path replaces entries below it (rewriting `competitors`
+ *   drops the `competitors[2].strengths` entry)
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types (domain types)
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import { IFieldProvenance, ProvenanceSource } from "./types";
+
+/**
+ * Provenance details shared by every path recorded in one write
+ */
+export type ProvenanceEntry = Omit<IFieldProvenance, "path">;
+
+/**
+ * Check whether `path` is `ancestor` or lies below it
+ */
+export function isSameOrDescendantPath(
+  path: string,
+  ancestor: string
+): boolean {
+  return (
+    path === ancestor ||
+    path.startsWith(`${ancestor}.`) ||
+    path.startsWith(`${ancestor}[`)
+  );
+}
+
+/**
+ * Record provenance for a set of paths
+ *
+ * @param existing - Current provenance entries
+ * @param paths - Paths written
+ * @param entry - Source, time, user and confidence of the write
+ * @returns New provenance list (input is not modified)
+ */
+export function recordProvenance(
+  existing: IFieldProvenance[] | undefined,
+  paths: string[],
+  entry: ProvenanceEntry
+): IFieldProvenance[] {
+  if (paths.length === 0) {
+    return [...(existing ?? [])];
+  }
+
+  const kept = (existing ?? []).filter(
+    (current) =>
+      !paths.some((path) => isSameOrDescendantPath(current.path, path))
+  );
+
+  return [...kept, ...paths.map((path) => ({ ...entry, path }))];
+}
+
+/**
+ * Look up the provenance of a path
+ * Falls back to the nearest ancestor entry when the path itself has none.
+ *
+ * @param provenance - Provenance entries
+ * @param path - Field path
+ * @returns The most specific matching entry, or undefined
+ */
+export function getFieldProvenance(
+  provenance: IFieldProvenance[] | undefined,
+  path: string
+): IFieldProvenance | undefined {
+  return (provenance ?? [])
+    .filter((entry) => isSameOrDescendantPath(path, entry.path))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/**
+ * Paths whose current value was set by a person
+ *
+ * @param provenance - Provenance entries
+ * @returns Manually set paths
+ */
+export function getManualPaths(
+  provenance: IFieldProvenance[] | undefined
+): string[] {
+  return (provenance ?? [])
+    .filter((entry) => entry.source === ProvenanceSource.MANUAL)
+    .map((entry) => entry.path);
+}
+
+/**
+ * Check whether a person set the value at a path, or anything inside it
+ *
+ * @param provenance - Provenance entries
+ * @param path - Field path
+ * @returns True if the path's value was (partly) set by a person
+ */
+export function hasManualEdit(
+  provenance: IFieldProvenance[] | undefined,
+  path: string
+): boolean {
+  return (
+    getFieldProvenance(provenance, path)?.source === ProvenanceSource.MANUAL ||
+    getManualPaths(provenance).some((manualPath) =>
+      isSameOrDescendantPath(manualPath, path)
+    )
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Clients Module - Research Merge
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Compares freshly researched context against a client's current context
+ * and proposes field-by-field changes. Nothing is written here - the user
+ * reviews the proposal and accepts the changes they want.
+ *
+ * CHANGE TYPES:
+ * - conflict: a person set (or cleared) the field or something inside it -
+ *             accepting would overwrite their edit
+ * - new:      the field was empty
+ * - changed:  the field holds an earlier AI (or integration) value
+ *
+ * Fields the research left empty are never proposed: not finding something
+ * on the website is not a reason to delete it.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types, ./context-changes, ./provenance
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import { IFieldProvenance, IResearchChange, ResearchChangeType } from "./types";
+import {
+  ClientContext,
+  getChangedContextPaths,
+  getContextValue,
+  isEmptyContextValue,
+} from "./context-changes";
+import { getFieldProvenance, hasManualEdit } from "./provenance";
+
+/**
+ * Build a merge proposal from re-researched context
+ *
+ * @param current - Client's current context
+ * @param researched - Context produced by the new research
+ * @param provenance - Client's field provenance
+ * @returns Proposed changes, in context field order
+ */
+export function buildResearchMergeProposal(
+  current: ClientContext,
+  researched: ClientContext,
+  provenance: IFieldProvenance[] | undefined
+): IResearchChange[] {
+  return getChangedContextPaths(current, researched).flatMap(
+    (path): IResearchChange[] => {
+      const proposedValue = getContextValue(researched, path);
+      if (isEmptyContextValue(proposedValue)) {
+        return [];
+      }
+
+      const currentValue = getContextValue(current, path);
+      // A person clearing a field is an edit too, so check manual first
+      const type = hasManualEdit(provenance, path)
+        ? ResearchChangeType.CONFLICT
+        : isEmptyContextValue(currentValue)
+        ? ResearchChangeType.NEW
+        : ResearchChangeType.CHANGED;
+
+      return [
+        {
+          path,
+          type,
+          current_value: currentValue,
+          proposed_value: proposedValue,
+          current_source: getFieldProvenance(provenance, path)?.source,
+        },
+      ];
+    }
+  );
+}
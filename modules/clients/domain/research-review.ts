@@ -0,0 +1,73 @@
+/**
+ * Clients Module - Research Review
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Decides when a research-created client needs a person to check it before
+ * plans are generated from its context.
+ *
+ * RULES:
+ * - Overall confidence below the organization's threshold → needs_review
+ *   (research that reported no confidence counts as 0)
+ * - Sections below the threshold are pointed out so reviewers know where
+ *   to look; they don't decide the status on their own
+ * - Only needs_review blocks plan generation. Manually created clients have
+ *   no review status.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import {
+  ClientReviewStatus,
+  IResearchMetadata,
+  IResearchSectionConfidence,
+} from "./types";
+
+/**
+ * Review fields for a newly researched client
+ *
+ * @param confidence - Overall research confidence (0-1)
+ * @param threshold - Organization's review threshold (0-1)
+ * @returns The threshold checked against, and needs_review if below it
+ */
+export function buildResearchReview(
+  confidence: number | undefined,
+  threshold: number
+): Pick<IResearchMetadata, "review_status" | "review_threshold"> {
+  return {
+    review_threshold: threshold,
+    review_status:
+      (confidence ?? 0) < threshold
+        ? ClientReviewStatus.NEEDS_REVIEW
+        : undefined,
+  };
+}
+
+/**
+ * Sections researched with confidence below the threshold, least confident first
+ */
+export function getLowConfidenceSections(
+  sectionConfidence: IResearchSectionConfidence | undefined,
+  threshold: number
+): string[] {
+  return Object.entries(sectionConfidence ?? {})
+    .filter(
+      (entry): entry is [string, number] =>
+        typeof entry[1] === "number" && entry[1] < threshold
+    )
+    .sort(([, a], [, b]) => a - b)
+    .map(([section]) => section);
+}
+
+/**
+ * Check whether a client is waiting for a person to confirm its research
+ */
+export function isAwaitingResearchReview(
+  metadata: { review_status?: string } | undefined
+): boolean {
+  return metadata?.review_status === ClientReviewStatus.NEEDS_REVIEW;
+}
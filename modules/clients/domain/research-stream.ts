@@ -0,0 +1,88 @@
+/**
+ * Clients Module - Resumable Research Streams
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Streamed research is buffered on a research job so a client that loses
+ * its connection can reconnect and pick up where it left off instead of
+ * starting another (slow, paid) web-search run.
+ *
+ * EVENT IDS:
+ * - Every event gets `<job id>:<seq>` as its SSE id, seq counting from 1
+ * - Browsers send the last id they received as `Last-Event-ID` on
+ *   reconnect; the job id tells the server which research to resume
+ *
+ * REPLAY:
+ * - Every event after the client's last seq, in order
+ * - Partial data events are cumulative, so only the latest one is kept and
+ *   replayed
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import { IResearchJob, IResearchStreamEvent } from "./types";
+
+/**
+ * Separates the job ID from the sequence number in an event ID
+ */
+const EVENT_ID_SEPARATOR = ":";
+
+/**
+ * Position in a research stream, parsed from a Last-Event-ID
+ */
+export interface ResearchStreamCursor {
+  job_id: string;
+  seq: number;
+}
+
+/**
+ * Build the SSE id of a research stream event
+ */
+export function formatResearchEventId(jobId: string, seq: number): string {
+  return `${jobId}${EVENT_ID_SEPARATOR}${seq}`;
+}
+
+/**
+ * Parse a Last-Event-ID header
+ *
+ * @param lastEventId - Header value
+ * @returns The stream position, or null for missing or malformed ids
+ */
+export function parseResearchEventId(
+  lastEventId: string | null | undefined
+): ResearchStreamCursor | null {
+  const value = lastEventId?.trim();
+  if (!value) return null;
+
+  const separatorIndex = value.lastIndexOf(EVENT_ID_SEPARATOR);
+  if (separatorIndex <= 0) return null;
+
+  const seq = Number(value.slice(separatorIndex + 1));
+  if (!Number.isInteger(seq) || seq < 0) return null;
+
+  return { job_id: value.slice(0, separatorIndex), seq };
+}
+
+/**
+ * Buffered events a client hasn't seen yet
+ *
+ * @param job - Job holding the replay buffer
+ * @param afterSeq - Last seq the client received (0 for none)
+ * @returns Missed events in emission order
+ */
+export function getResearchEventsAfter(
+  job: Pick<IResearchJob, "events" | "latest_partial">,
+  afterSeq: number
+): IResearchStreamEvent[] {
+  const buffered = job.latest_partial
+    ? [...(job.events ?? []), job.latest_partial]
+    : [...(job.events ?? [])];
+
+  return buffered
+    .filter((event) => event.seq > afterSeq)
+    .sort((a, b) => a.seq - b.seq);
+}
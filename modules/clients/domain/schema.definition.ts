@@ -38,6 +38,10 @@ import {
   ResearchSourceValues,
   ResearchStatus,
   ResearchSource,
+  ProvenanceSourceValues,
+  ResearchJobStatusValues,
+  ResearchJobStatus,
+  ClientReviewStatusValues,
 } from "./types";
 
 // ============================================
@@ -62,6 +66,7 @@ export const ProductSchema = z.object({
   description: z.string().trim().optional(),
   features: z.array(z.string().trim()).optional().default([]),
   value_proposition: z.string().trim().optional(),
+  pricing_summary: z.string().trim().optional(),
 });
 
 /**
@@ -212,6 +217,45 @@ export const ConversionFunnelSchema = z.object({
   avg_sales_cycle_days: z.number().nonnegative().optional(),
 });
 
+/**
+ * Researched positioning snapshot schema (drift detection baseline)
+ */
+export const ResearchBaselineSchema = z.object({
+  company_description: z.string().trim().optional(),
+  value_proposition: z.string().trim().optional(),
+  pricing_summary: z.string().trim().optional(),
+  competitors: z
+    .array(
+      z.object({
+        name: z.string().trim(),
+        positioning: z.string().trim().optional(),
+      })
+    )
+    .optional()
+    .default([]),
+});
+
+const sectionConfidence = z.number().min(0).max(1).optional();
+
+/**
+ * Research confidence per context section schema
+ * Sections research didn't cover are left out.
+ */
+export const ResearchSectionConfidenceSchema = z.object({
+  company: sectionConfidence,
+  product: sectionConfidence,
+  icp: sectionConfidence,
+  business_goals: sectionConfidence,
+  brand_voice: sectionConfidence,
+  marketing_assets: sectionConfidence,
+  competitors: sectionConfidence,
+  current_metrics: sectionConfidence,
+  content_inventory: sectionConfidence,
+  tech_stack: sectionConfidence,
+  resources: sectionConfidence,
+  conversion_funnel: sectionConfidence,
+});
+
 /**
  * Research metadata for AI-powered extraction schema
  */
@@ -222,7 +266,27 @@ export const ResearchMetadataSchema = z.object({
   confidence: z.number().min(0).max(1).optional(),
   factual_confidence: z.number().min(0).max(1).optional(),
   inferred_confidence: z.number().min(0).max(1).optional(),
+  section_confidence: ResearchSectionConfidenceSchema.optional(),
   research_notes: z.string().trim().optional(),
+  baseline: ResearchBaselineSchema.optional(),
+
+  // Review of low-confidence research (see domain/research-review.ts)
+  review_status: z.enum(ClientReviewStatusValues).optional(),
+  review_threshold: z.number().min(0).max(1).optional(),
+  reviewed_at: z.coerce.date().optional(),
+  reviewed_by: z.string().optional(),
+});
+
+/**
+ * Per-field provenance schema
+ * One entry per context path; stored as a list because paths contain dots
+ */
+export const FieldProvenanceSchema = z.object({
+  path: z.string().min(1),
+  source: z.enum(ProvenanceSourceValues),
+  updated_at: z.coerce.date(),
+  updated_by: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
 });
 
 // ============================================
@@ -251,6 +315,8 @@ export const ClientFieldsSchema = z.object({
 
   // Core company context
   company: CompanySchema,
+  // company.website normalized (see website-domain.ts) - unique per org
+  website_domain: z.string().optional(),
   product: ProductSchema.optional(),
   icp: ICPSchema.optional(),
   business_goals: BusinessGoalsSchema.optional(),
@@ -272,6 +338,9 @@ export const ClientFieldsSchema = z.object({
 
   // AI research metadata
   research_metadata: ResearchMetadataSchema,
+
+  // Where each context field's current value came from
+  field_provenance: z.array(FieldProvenanceSchema).optional().default([]),
 });
 
 /**
@@ -279,3 +348,76 @@ export const ClientFieldsSchema = z.object({
  * This is the pure domain type without base entity fields
  */
 export type ClientFields = z.infer<typeof ClientFieldsSchema>;
+
+// ============================================
+// RESEARCH JOB SCHEMA
+// ============================================
+
+/**
+ * Research Stream Event Schema
+ *
+ * A progress event of a streamed research, numbered in emission order so a
+ * reconnecting client can ask for the events after the last one it saw.
+ * `type` holds a StreamEventType value.
+ */
+export const ResearchStreamEventSchema = z.object({
+  seq: z.number().int().positive(),
+  type: z.string(),
+  message: z.string().optional(),
+  step: z.string().optional(),
+  progress: z.number().optional(),
+  data: z.record(z.string(), z.unknown()).optional(),
+  error: z
+    .object({
+      message: z.string(),
+      code: z.string().optional(),
+    })
+    .optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Research Job Fields Schema
+ *
+ * A website research running in the background. The job is created when
+ * research is requested, updated with partial results while the AI works
+ * and points at the created client once it completes.
+ *
+ * Streamed research (POST /api/clients/research/stream) uses a job as its
+ * replay buffer instead: `events` holds every event except partial data,
+ * `latest_partial` the most recent partial data event (each one carries
+ * everything extracted so far, so older ones are never needed).
+ *
+ * TYPE INFERENCE:
+ * - IResearchJob = z.infer<typeof ResearchJobFieldsSchema> & IEntity<DatabaseId>
+ */
+export const ResearchJobFieldsSchema = z.object({
+  user_id: z.string().min(1),
+  organization_id: z.string().optional(),
+
+  website_url: z.string().url().trim(),
+  status: z.enum(ResearchJobStatusValues).default(ResearchJobStatus.PENDING),
+
+  // Extracted context so far (shape of AIExtractedContext, possibly incomplete)
+  partial_result: z.record(z.string(), z.unknown()).optional(),
+
+  // Set once the client has been created
+  client_id: z.string().optional(),
+
+  error: z
+    .object({
+      message: z.string(),
+      code: z.string().optional(),
+    })
+    .optional(),
+
+  // Replay buffer of streamed research
+  events: z.array(ResearchStreamEventSchema).default([]),
+  latest_partial: ResearchStreamEventSchema.optional(),
+
+  attempts: z.number().int().nonnegative().default(0),
+  started_at: z.coerce.date().optional(),
+  completed_at: z.coerce.date().optional(),
+});
+
+export type ResearchJobFields = z.infer<typeof ResearchJobFieldsSchema>;
@@ -35,7 +35,12 @@
 
 import { IEntity, DatabaseId } from "@/shared/types/repository.types";
 import { z } from "zod";
-import { ClientFieldsSchema } from "./schema.definition";
+import {
+  ClientFieldsSchema,
+  ResearchJobFieldsSchema,
+  ResearchStreamEventSchema,
+  ResearchSectionConfidenceSchema,
+} from "./schema.definition";
 
 // ============================================
 // ENUMS - Business Domain Enums
@@ -64,6 +69,90 @@ export enum ResearchSource {
 
 export const ResearchSourceValues = Object.values(ResearchSource);
 
+/**
+ * Whether a person has checked a low-confidence research-created client
+ * Only set on research-created clients whose confidence was below the
+ * organization's threshold; plans can't be generated until confirmed.
+ */
+export enum ClientReviewStatus {
+  NEEDS_REVIEW = "needs_review",
+  CONFIRMED = "confirmed",
+}
+
+export const ClientReviewStatusValues = Object.values(ClientReviewStatus);
+
+/**
+ * Where the current value of a single context field came from
+ */
+export enum ProvenanceSource {
+  AI = "ai",
+  MANUAL = "manual",
+  INTEGRATION = "integration",
+}
+
+export const ProvenanceSourceValues = Object.values(ProvenanceSource);
+
+/**
+ * How a re-researched value relates to the client's current value
+ */
+export enum ResearchChangeType {
+  NEW = "new", // Field was empty
+  CHANGED = "changed", // Field holds an AI or integration value
+  CONFLICT = "conflict", // Field was set by a person
+}
+
+export const ResearchChangeTypeValues = Object.values(ResearchChangeType);
+
+/**
+ * Area of a client's market position that drifted between researches
+ */
+export enum ContextDriftCategory {
+  COMPETITORS = "competitors",
+  POSITIONING = "positioning",
+  PRICING = "pricing",
+}
+
+export const ContextDriftCategoryValues = Object.values(ContextDriftCategory);
+
+/**
+ * Lifecycle of a background website research job
+ */
+export enum ResearchJobStatus {
+  PENDING = "pending", // Queued, not picked up yet
+  RUNNING = "running",
+  COMPLETED = "completed", // Client created (streamed research: finished)
+  FAILED = "failed",
+}
+
+export const ResearchJobStatusValues = Object.values(ResearchJobStatus);
+
+/**
+ * Outcome of one row of a bulk client import
+ */
+export enum ImportRowStatus {
+  CREATED = "created",
+  RESEARCH_QUEUED = "research_queued", // Website-only row, research job started
+  VALID = "valid", // Dry run: would be created
+  NEEDS_RESEARCH = "needs_research", // Dry run: would be researched
+  INVALID = "invalid",
+  FAILED = "failed", // Valid, but research could not be queued
+  SKIPPED = "skipped", // Valid, but not researched - AI budget used up
+  DUPLICATE = "duplicate", // Company already a client, or earlier in the upload
+}
+
+export const ImportRowStatusValues = Object.values(ImportRowStatus);
+
+/**
+ * Client export file formats
+ */
+export enum ClientExportFormat {
+  JSON = "json",
+  CSV = "csv",
+  MARKDOWN = "md", // Client brief
+}
+
+export const ClientExportFormatValues = Object.values(ClientExportFormat);
+
 /**
  * Company stage enum
  */
@@ -115,6 +204,7 @@ export interface IProduct {
   description?: string;
   features?: string[];
   value_proposition?: string;
+  pricing_summary?: string;
 }
 
 /**
@@ -275,7 +365,67 @@ export interface IResearchMetadata {
   confidence?: number;
   factual_confidence?: number;
   inferred_confidence?: number;
+  /** Confidence per researched context section */
+  section_confidence?: IResearchSectionConfidence;
   research_notes?: string;
+  baseline?: IResearchBaseline;
+  review_status?: ClientReviewStatus;
+  /** Organization threshold the confidence was checked against */
+  review_threshold?: number;
+  reviewed_at?: Date;
+  reviewed_by?: string;
+}
+
+/**
+ * Research confidence (0-1) per context section
+ */
+export type IResearchSectionConfidence = z.infer<
+  typeof ResearchSectionConfidenceSchema
+>;
+
+/**
+ * Positioning as last researched - the reference point for drift detection
+ */
+export interface IResearchBaseline {
+  company_description?: string;
+  value_proposition?: string;
+  pricing_summary?: string;
+  competitors: Array<{ name: string; positioning?: string }>;
+}
+
+/**
+ * One material change found by scheduled re-research
+ */
+export interface IContextDrift {
+  category: ContextDriftCategory;
+  /** Field path or competitor name */
+  subject: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Provenance of one context field, keyed by its path
+ * (e.g. `icp.pain_points`, `competitors[2].strengths`)
+ */
+export interface IFieldProvenance {
+  path: string;
+  source: ProvenanceSource;
+  updated_at: Date;
+  updated_by?: string;
+  confidence?: number;
+}
+
+/**
+ * One field of a re-research merge proposal
+ */
+export interface IResearchChange {
+  path: string;
+  type: ResearchChangeType;
+  current_value?: unknown;
+  proposed_value: unknown;
+  /** Provenance of the current value, if recorded */
+  current_source?: ProvenanceSource;
 }
 
 // ============================================
@@ -322,3 +472,21 @@ export type IClient = Omit<
   };
 
 // This const will error if the type validation fails
+
+/**
+ * IResearchStreamEvent - Numbered progress event of a streamed research
+ */
+export type IResearchStreamEvent = z.infer<typeof ResearchStreamEventSchema>;
+
+/**
+ * IResearchJob - Background website research that creates a client
+ * Inferred from ResearchJobFieldsSchema, like IClient.
+ */
+export type IResearchJob = Omit<
+  z.infer<typeof ResearchJobFieldsSchema>,
+  keyof IEntity<DatabaseId> | "user_id" | "organization_id"
+> &
+  IEntity<DatabaseId> & {
+    user_id: string;
+    organization_id?: string;
+  };
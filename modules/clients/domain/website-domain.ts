@@ -0,0 +1,54 @@
+/**
+ * Clients Module - Website Domains
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * A company is identified by its website's domain. The same site is written
+ * many ways - `https://www.acme.com/`, `http://acme.com/en?ref=ads`,
+ * `ACME.com` - so websites are normalized before they are compared.
+ *
+ * NORMALIZATION:
+ * - Scheme, port, path, query and fragment are ignored - where a site
+ *   redirects to (`/en`, `/home`) doesn't make it another company
+ * - Host is lowercased; a leading `www.` and trailing `.` are stripped
+ * - A website without a scheme (`acme.com`) is read as https
+ * - Hosts without a dot (`n/a`, `localhost`) aren't public websites
+ *
+ * Clients store the result as `website_domain`, unique per organization.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: nothing (pure functions)
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+const SCHEME_PATTERN = /^[a-z][a-z\d+.-]*:\/\//i;
+
+/**
+ * Normalize a website to the domain that identifies the company
+ *
+ * @param website - Website URL as entered or researched
+ * @returns The domain (e.g. `acme.com`), or undefined if it isn't a URL
+ */
+export function normalizeWebsiteDomain(
+  website: string | null | undefined
+): string | undefined {
+  const value = website?.trim();
+  if (!value) return undefined;
+
+  let hostname: string;
+  try {
+    hostname = new URL(SCHEME_PATTERN.test(value) ? value : `https://${value}`)
+      .hostname;
+  } catch {
+    return undefined;
+  }
+
+  const domain = hostname
+    .toLowerCase()
+    .replace(/\.+$/, "")
+    .replace(/^www\./, "");
+
+  return domain.includes(".") ? domain : undefined;
+}
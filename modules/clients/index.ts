@@ -57,6 +57,13 @@ export type {
   IMarketingAssets,
   IExistingCustomer,
   IResearchMetadata,
+  IResearchSectionConfidence,
+  IFieldProvenance,
+  IResearchChange,
+  IResearchBaseline,
+  IContextDrift,
+  IResearchJob,
+  IResearchStreamEvent,
 } from "./domain/types";
 
 export {
@@ -64,13 +71,100 @@ export {
   ResearchStatus,
   ResearchSource,
   CompanyStage,
+  ProvenanceSource,
+  ResearchChangeType,
+  ContextDriftCategory,
+  ResearchJobStatus,
+  ImportRowStatus,
+  ClientExportFormat,
+  ClientReviewStatus,
 
   // Enum value arrays (for Zod validation)
   ResearchStatusValues,
   ResearchSourceValues,
   CompanyStageValues,
+  ProvenanceSourceValues,
+  ResearchChangeTypeValues,
+  ContextDriftCategoryValues,
+  ResearchJobStatusValues,
+  ImportRowStatusValues,
+  ClientExportFormatValues,
+  ClientReviewStatusValues,
 } from "./domain/types";
 
+export {
+  // Context change detection (context.updated payloads)
+  CLIENT_CONTEXT_FIELDS,
+  getChangedContextPaths,
+  getContextValuePaths,
+  getContextValue,
+  pickContext,
+  type ClientContext,
+  type ClientContextField,
+} from "./domain/context-changes";
+
+export {
+  // Field provenance (AI vs. manual values)
+  recordProvenance,
+  getFieldProvenance,
+  getManualPaths,
+  hasManualEdit,
+  type ProvenanceEntry,
+} from "./domain/provenance";
+
+export {
+  // Re-research merge proposals
+  buildResearchMergeProposal,
+} from "./domain/research-merge";
+
+export {
+  // Low-confidence research review (blocks plan generation)
+  buildResearchReview,
+  getLowConfidenceSections,
+  isAwaitingResearchReview,
+} from "./domain/research-review";
+
+export {
+  // Drift between scheduled researches (client.context.drifted)
+  buildResearchBaseline,
+  detectContextDrift,
+  textSimilarity,
+  MATERIAL_SIMILARITY_THRESHOLD,
+} from "./domain/context-drift";
+
+export {
+  // Resumable research streams (Last-Event-ID replay)
+  formatResearchEventId,
+  parseResearchEventId,
+  getResearchEventsAfter,
+  type ResearchStreamCursor,
+} from "./domain/research-stream";
+
+export {
+  // Bulk import (CSV records → client rows)
+  csvRecordToClientRow,
+  getWebsiteOnlyRowUrl,
+  CSV_LIST_SEPARATOR,
+} from "./domain/client-import";
+
+export {
+  // Export (CSV columns and markdown client briefs)
+  toClientCsvRecords,
+  renderClientBrief,
+  EXPORT_ID_COLUMN,
+  type ExportableClient,
+} from "./domain/client-export";
+
+export {
+  // Duplicate clients (normalized website domains, merging)
+  normalizeWebsiteDomain,
+} from "./domain/website-domain";
+
+export {
+  mergeClientContexts,
+  type ClientMergeResult,
+} from "./domain/client-merge";
+
 // ============================================
 // APPLICATION LAYER - Business Logic
 // ============================================
@@ -82,6 +176,8 @@ export {
   // Service - Main business logic entry point
   ClientsService,
   clientsService, // Singleton instance
+  type ResearchStream,
+  type ClientExport,
 } from "./application/service";
 
 export {
@@ -103,10 +199,19 @@ export {
   CreateClientSchema,
   UpdateClientSchema,
   RefineContextSchema,
+  ImportClientsSchema,
+  ImportClientRowSchema,
+  MAX_CLIENT_IMPORT_ROWS,
+  ClientExportQuerySchema,
+  MAX_CLIENT_EXPORT_ROWS,
+  MergeClientsSchema,
 
   // Output schemas
   ClientResponseSchema,
   AIExtractedContextSchema,
+  ResearchProposalResponseSchema,
+  ResearchJobResponseSchema,
+  ImportReportResponseSchema,
 
   // TypeScript types inferred from schemas
   type WebsiteUrlInput,
@@ -114,12 +219,22 @@ export {
   type UpdateClientInput,
   type RefineContextInput,
   type ClientResponse,
+  type FieldProvenanceResponse,
+  type ResearchChangeResponse,
+  type ResearchProposalResponse,
+  type ResearchJobResponse,
+  type ImportClientsInput,
+  type ImportRowResult,
+  type ImportReportResponse,
+  type ClientExportQuery,
+  type MergeClientsInput,
   type AIExtractedContext,
 } from "./api/validation";
 
 // Response DTOs
 export {
   ClientResponseDTO,
+  ResearchJobResponseDTO,
   toClientResponse,
   toClientResponses,
 } from "./api/response";
@@ -132,12 +247,16 @@ export { clientQueryConfig } from "./api/query.config";
 // ============================================
 // ❌ NOT EXPORTED - Internal implementation detail
 // ❌ Services should NOT import from infrastructure
-// ⚠️  Only exported: CLIENT_MODEL_NAME constant (needed by service)
+// ⚠️  Only exported: model name constants (needed by services)
 
 export {
   CLIENT_MODEL_NAME, // String constant - safe to export
 } from "./infrastructure/schema";
 
+export {
+  RESEARCH_JOB_MODEL_NAME, // String constant - safe to export
+} from "./infrastructure/research-job.schema";
+
 // ❌ DO NOT EXPORT:
 // - ClientDocument (Mongoose-specific type)
 // - ClientModel (Mongoose model)
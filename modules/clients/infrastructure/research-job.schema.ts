@@ -0,0 +1,112 @@
+/**
+ * Clients Module - Research Job Mongoose Schema
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Database Implementation
+ * ============================================
+ *
+ * Background website research jobs. A job is written when research is
+ * requested, updated by the Inngest function while it runs and kept for
+ * RESEARCH_JOB_RETENTION_DAYS after it finishes so clients can poll the
+ * outcome.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: mongoose, Mongoose types, @/shared/db/base.schema.types
+ * ✅ CAN import: Domain schema definition (for zodToMongoose conversion)
+ * ⚠️  CAN export: RESEARCH_JOB_MODEL_NAME constant (safe - just a string)
+ * ❌ CANNOT be imported by: Services, factories, API routes (except the constant)
+ * ❌ CANNOT export: IResearchJob (use ../domain/types for that)
+ */
+
+import mongoose, { Schema, Model, InferSchemaType } from "mongoose";
+import { modelRegistry } from "@/shared/db/model.registry";
+import {
+  baseUserEntityDefinition,
+  IMongooseDocument,
+} from "@/shared/db/base.schema.types";
+import { mergeWithBaseFields } from "@/shared/db/schema.builder";
+import { ResearchJobFieldsSchema } from "../domain/schema.definition";
+
+// ============================================
+// CONSTANTS - Safe to export everywhere
+// ============================================
+
+/**
+ * Model name constant - used by repository factory
+ */
+export const RESEARCH_JOB_MODEL_NAME = "ResearchJob";
+
+/**
+ * Days a finished job is kept before MongoDB's TTL monitor removes it
+ */
+export const RESEARCH_JOB_RETENTION_DAYS = 30;
+
+// ============================================
+// MONGOOSE SCHEMA GENERATION - AUTOMATIC FROM ZOD
+// ============================================
+
+const researchJobDefinition = mergeWithBaseFields(
+  ResearchJobFieldsSchema,
+  baseUserEntityDefinition
+);
+
+const ResearchJobSchema = new Schema(researchJobDefinition, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+  },
+  collection: "research_jobs",
+  versionKey: false,
+  // Partial results are stored as-is; don't strip empty objects
+  minimize: false,
+});
+
+// ============================================
+// INDEXES - Performance Optimization
+// ============================================
+
+ResearchJobSchema.index({ organization_id: 1, created_at: -1 });
+ResearchJobSchema.index({ status: 1 });
+
+/**
+ * TTL - remove finished jobs after the retention period
+ * Jobs that never finish have no completed_at and are kept.
+ */
+ResearchJobSchema.index(
+  { completed_at: 1 },
+  { expireAfterSeconds: RESEARCH_JOB_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+// ============================================
+// TYPE INFERENCE - Mongoose Document Type
+// ============================================
+
+/**
+ * ResearchJobDocument - Mongoose-specific document type
+ * ONLY use in repository implementations and infrastructure code.
+ */
+export type ResearchJobDocument = IMongooseDocument<
+  InferSchemaType<typeof ResearchJobSchema>
+>;
+
+// ============================================
+// MODEL CREATION & REGISTRATION
+// ============================================
+
+const ResearchJobModel =
+  (mongoose.models[RESEARCH_JOB_MODEL_NAME] as Model<ResearchJobDocument>) ||
+  mongoose.model<ResearchJobDocument>(
+    RESEARCH_JOB_MODEL_NAME,
+    ResearchJobSchema
+  );
+
+modelRegistry.register<ResearchJobDocument>(
+  RESEARCH_JOB_MODEL_NAME,
+  ResearchJobModel
+);
+
+/**
+ * Export the Mongoose model
+ * ONLY use this in repository implementations!
+ */
+export default ResearchJobModel;
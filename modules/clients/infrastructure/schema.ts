@@ -119,6 +119,22 @@ ClientSchema.index({ "company.website": 1 });
 ClientSchema.index({ "research_metadata.status": 1 });
 ClientSchema.index({ created_at: -1 });
 
+/**
+ * One live client per company (normalized website) per organization
+ * Deleted clients and clients without an organization don't count.
+ */
+ClientSchema.index(
+  { organization_id: 1, website_domain: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      organization_id: { $type: "string" },
+      website_domain: { $type: "string" },
+      is_deleted: false,
+    },
+  }
+);
+
 // ============================================
 // TYPE INFERENCE - Mongoose Document Type
 // ============================================
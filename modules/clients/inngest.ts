@@ -0,0 +1,231 @@
+/**
+ * Clients Module - Inngest Functions
+ *
+ * ============================================
+ * EVENT-DRIVEN & SCHEDULED WORKFLOWS
+ * ============================================
+ *
+ * - research.requested → run the research job → create the client
+ * - daily cron → re-research clients with stale research → client.context.drifted
+ *
+ * Research jobs run here instead of in the HTTP request because web-search
+ * research outlasts serverless request timeouts. Research and client
+ * creation are separate steps, so a retry after a failed write doesn't pay
+ * for the research again. A job whose organization used up its monthly AI
+ * budget after it was queued fails without researching.
+ *
+ * Competitor and positioning data go stale within a quarter. Each run picks
+ * the clients whose research is older than their tier allows
+ * (TierConfig.research_refresh_days - tiers without AI research are never
+ * refreshed), re-researches them and publishes client.context.drifted when
+ * competitors, positioning or pricing messaging changed materially.
+ * Organizations over their monthly AI budget are left out of the query, and
+ * the budget is checked again before each re-research, so an organization
+ * that uses up its budget mid-run is skipped until it resets.
+ *
+ * Re-research only moves the drift baseline; the stored context is never
+ * overwritten. Users review changes through the re-research endpoint.
+ */
+
+import { inngest, toInngestEvent } from "@/inngest/client";
+import { buildEvent, EventName } from "@/modules/events";
+import { subscriptionsService } from "@/modules/subscriptions";
+import { createIdempotencyKey } from "@/shared/types/inngest.types";
+import { logger } from "@/shared/utils/logger";
+import { clientsService } from "./application/service";
+import type { AIExtractedContext } from "./api/validation";
+
+const log = logger.child({ module: "clients-inngest" });
+
+/**
+ * When the refresh runs (daily, off-peak)
+ */
+export const RESEARCH_REFRESH_CRON = "TZ=UTC 0 3 * * *";
+
+/**
+ * Most clients re-researched per run - research is slow and costs AI credits
+ */
+export const RESEARCH_REFRESH_BATCH_SIZE = 25;
+
+/**
+ * Usage label of scheduled re-research - it has no API route
+ */
+export const RESEARCH_REFRESH_SOURCE = "inngest:clients-refresh-stale-research";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Client picked for refresh, as passed between steps
+ */
+interface StaleClient {
+  id: string;
+  organization_id: string;
+}
+
+const daysAgo = (days: number, now: Date): Date =>
+  new Date(now.getTime() - days * DAY_MS);
+
+/**
+ * Run a queued website research job and create its client
+ */
+export const runResearchJob = inngest.createFunction(
+  {
+    id: "clients-run-research-job",
+    name: "Run website research job",
+    retries: 2,
+    // Retries exhausted - record the error for pollers
+    onFailure: async ({ event, error }) => {
+      await clientsService.failResearchJob(
+        event.data.event.data.job_id,
+        error.message
+      );
+    },
+  },
+  { event: EventName.RESEARCH_REQUESTED },
+  async ({ event, step }) => {
+    const { job_id, organization_id, source_route, metadata } = event.data;
+
+    log.info("Handling research.requested", {
+      jobId: job_id,
+      eventId: metadata.eventId,
+      correlationId: metadata.correlationId,
+    });
+
+    // The budget may have run out while the job was queued
+    const withinBudget = await step.run("check-ai-budget", async () =>
+      organization_id
+        ? subscriptionsService.checkLimit(
+            organization_id,
+            "ai_budget_usd_per_month"
+          )
+        : true
+    );
+
+    if (!withinBudget) {
+      await step.run("fail-over-budget", () =>
+        clientsService.failResearchJob(
+          job_id,
+          "Your plan's monthly AI budget has been reached. Please upgrade your subscription.",
+          "ai_budget_exceeded"
+        )
+      );
+      return { job_id, skipped: true };
+    }
+
+    const extractedContext = await step.run("research-website", () =>
+      clientsService.runResearchJob(job_id, source_route)
+    );
+
+    const job = await step.run("create-client", () =>
+      clientsService.completeResearchJob(
+        job_id,
+        extractedContext as AIExtractedContext
+      )
+    );
+
+    return { job_id, client_id: job.client_id };
+  }
+);
+
+/**
+ * Re-research clients whose research is older than their tier allows
+ */
+export const refreshStaleClientResearch = inngest.createFunction(
+  {
+    id: "clients-refresh-stale-research",
+    name: "Re-research clients with stale context",
+    // Never overlap runs - a slow run would pick the same clients again
+    concurrency: { limit: 1 },
+    retries: 1,
+  },
+  { cron: RESEARCH_REFRESH_CRON },
+  async ({ step }) => {
+    const due = await step.run(
+      "find-due-clients",
+      async (): Promise<StaleClient[]> => {
+        const now = new Date();
+        const schedules =
+          await subscriptionsService.findResearchRefreshOrganizations();
+
+        const clients = await clientsService.findClientsDueForRefresh(
+          schedules.map(({ refresh_days, organization_ids }) => ({
+            organization_ids,
+            researched_before: daysAgo(refresh_days, now),
+          })),
+          RESEARCH_REFRESH_BATCH_SIZE
+        );
+        return clients.map((client) => ({
+          id: String(client.id),
+          organization_id: client.organization_id as string,
+        }));
+      }
+    );
+
+    let refreshed = 0;
+    let drifted = 0;
+
+    for (const client of due) {
+      const result = await step.run(`refresh-${client.id}`, async () => {
+        // Checked per client - earlier refreshes of this run spend the
+        // same budget
+        const withinBudget = await subscriptionsService.checkLimit(
+          client.organization_id,
+          "ai_budget_usd_per_month"
+        );
+        if (!withinBudget) {
+          return null;
+        }
+
+        return {
+          drift: await clientsService.refreshResearch(
+            client.id,
+            RESEARCH_REFRESH_SOURCE
+          ),
+          refreshed_at: new Date().toISOString(),
+        };
+      });
+
+      if (!result) {
+        continue;
+      }
+
+      refreshed++;
+      if (result.drift.length === 0) {
+        continue;
+      }
+
+      drifted++;
+      await step.sendEvent(
+        `emit-context-drifted-${client.id}`,
+        toInngestEvent(
+          buildEvent(
+            EventName.CONTEXT_DRIFTED,
+            {
+              client_id: client.id,
+              organization_id: client.organization_id,
+              changes: result.drift,
+            },
+            {
+              projectId: client.id,
+              source: "clients-module",
+              idempotencyKey: createIdempotencyKey(
+                client.id,
+                "context",
+                "drifted",
+                result.refreshed_at
+              ),
+            }
+          )
+        )
+      );
+    }
+
+    log.info("Stale client research refreshed", {
+      due: due.length,
+      refreshed,
+      drifted,
+    });
+
+    return { due: due.length, refreshed, drifted };
+  }
+);
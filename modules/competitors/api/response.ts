@@ -0,0 +1,54 @@
+/**
+ * Competitor Response DTO
+ *
+ * ============================================
+ * API LAYER - Response Data Transfer Objects
+ * ============================================
+ *
+ * Handles conversion from domain entities to API responses.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/types (ICompetitor - domain entity)
+ * ✅ CAN import: ./validation (API contract types)
+ * ✅ CAN import: @/shared/api (BaseResponseDTO)
+ * ❌ CANNOT import: ../infrastructure/schema (CompetitorDocument, mongoose)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { BaseResponseDTO } from "@/shared/api/base.response.dto";
+import { ICompetitor } from "../domain/types";
+import { CompetitorResponse } from "./validation";
+
+/**
+ * Competitor Response DTO
+ * Uses MongoDB transformation helper from BaseResponseDTO (_id → id).
+ * match_key is internal (how records are matched) and not returned.
+ */
+class CompetitorResponseDTOClass extends BaseResponseDTO<
+  ICompetitor,
+  CompetitorResponse
+> {
+  /**
+   * Transform ICompetitor domain entity to CompetitorResponse
+   */
+  protected transform(entity: ICompetitor): CompetitorResponse {
+    const { match_key, ...competitor } = this.transformMongoEntity(entity);
+    void match_key;
+    return competitor as CompetitorResponse;
+  }
+}
+
+/**
+ * Singleton instance for use across the application
+ */
+export const CompetitorResponseDTO = new CompetitorResponseDTOClass();
+
+/**
+ * Convenience functions (optional - can use CompetitorResponseDTO directly)
+ */
+export const toCompetitorResponse = (entity: ICompetitor): CompetitorResponse =>
+  CompetitorResponseDTO.fromEntity(entity);
+
+export const toCompetitorResponses = (
+  entities: ICompetitor[]
+): CompetitorResponse[] => CompetitorResponseDTO.fromEntities(entities);
@@ -0,0 +1,121 @@
+/**
+ * Competitors Module - API Validation Schemas
+ *
+ * ============================================
+ * API LAYER - Input/Output Validation
+ * ============================================
+ *
+ * Defines Zod schemas for API request validation and response typing.
+ * Reuses domain Zod schemas from schema.definition.ts.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/schema.definition (Zod schemas)
+ * ✅ CAN import: ../domain/types (enums for validation)
+ * ✅ CAN import: @/shared/validation (base validation utilities)
+ * ✅ CAN import: zod (validation library)
+ * ❌ CANNOT import: ../infrastructure/schema (database types)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { z } from "zod";
+import { CompetitorSchema } from "@/modules/clients/domain/schema.definition";
+import { CompetitorSnapshotSchema } from "../domain/schema.definition";
+import {
+  createResponseSchema,
+  createInputSchema,
+} from "@/shared/validation/base.validation";
+import { BrandedZodType } from "@/shared/types";
+
+/**
+ * ============================================================================
+ * Brand Symbols for Nominal Typing
+ * ============================================================================
+ */
+
+export const CreateCompetitorBrand = Symbol("CreateCompetitorBrand");
+export const UpdateCompetitorBrand = Symbol("UpdateCompetitorBrand");
+
+/**
+ * ============================================================================
+ * Competitor Creation / Update Schemas
+ * ============================================================================
+ */
+
+// Competitor fields plus the clients it is linked to
+const CompetitorInputFieldsSchema = CompetitorSchema.extend({
+  client_ids: z.array(z.string().min(1)).optional(),
+});
+
+// Use helper to add user_id and organization_id
+export const CreateCompetitorSchema = createInputSchema(
+  CompetitorInputFieldsSchema
+);
+
+export type CreateCompetitorInput = BrandedZodType<
+  z.infer<typeof CreateCompetitorSchema>,
+  typeof CreateCompetitorBrand
+>;
+
+export const UpdateCompetitorSchema = CreateCompetitorSchema.partial().omit({
+  user_id: true,
+  organization_id: true,
+});
+
+export type UpdateCompetitorInput = BrandedZodType<
+  z.infer<typeof UpdateCompetitorSchema>,
+  typeof UpdateCompetitorBrand
+>;
+
+/**
+ * ============================================================================
+ * AI Research Schema
+ * ============================================================================
+ */
+
+/**
+ * What a competitor research run extracts
+ */
+export const AICompetitorResearchSchema = CompetitorSchema.omit({
+  name: true,
+  website: true,
+}).extend({
+  confidence: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("Overall confidence in the findings, 0-1"),
+});
+
+export type AICompetitorResearch = z.infer<typeof AICompetitorResearchSchema>;
+
+/**
+ * ============================================================================
+ * Response Schemas
+ * ============================================================================
+ */
+
+/**
+ * Competitor-specific response fields (without base audit fields)
+ */
+const CompetitorResponseFieldsSchema = z.object({
+  name: z.string(),
+  website: z.string().optional(),
+  positioning: z.string().optional(),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  estimated_monthly_traffic: z.number().optional(),
+  employee_size: z.string().optional(),
+  client_ids: z.array(z.string()),
+  // History for charting, oldest first
+  snapshots: z.array(CompetitorSnapshotSchema),
+  last_researched_at: z.date().optional(),
+});
+
+/**
+ * Competitor response schema (extends base - automatically includes id, audit fields, user ownership)
+ */
+export const CompetitorResponseSchema = createResponseSchema(
+  CompetitorResponseFieldsSchema
+);
+
+export type CompetitorResponse = z.infer<typeof CompetitorResponseSchema>;
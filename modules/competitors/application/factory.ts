@@ -0,0 +1,90 @@
+/**
+ * Competitor Factory
+ *
+ * ============================================
+ * APPLICATION LAYER - Data Transformation
+ * ============================================
+ *
+ * Handles transformations between API contracts and domain entities.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/* (ICompetitor, enums, tracking rules)
+ * ✅ CAN import: ../api/validation (API input types)
+ * ✅ CAN import: @/shared/db/base.factory (base factory pattern)
+ * ❌ CANNOT import: ../infrastructure/schema (CompetitorDocument, mongoose)
+ * ❌ CANNOT import: Database-specific types
+ *
+ * This factory:
+ * - Converts API requests → Domain entities
+ * - Converts competitors named in a client's context → Domain entities
+ * - Sets the match key and the first snapshot of new competitors
+ */
+
+import { BaseFactory } from "@/shared/db/base.factory";
+import { CompetitorSnapshotSource, ICompetitor } from "../domain/types";
+import {
+  createCompetitorSnapshot,
+  getCompetitorMatchKey,
+} from "../domain/competitor-tracking";
+import {
+  CreateCompetitorInput,
+  UpdateCompetitorInput,
+} from "../api/validation";
+
+/**
+ * CompetitorFactory
+ *
+ * Extends BaseFactory to provide Competitor-specific transformations.
+ */
+export class CompetitorFactory extends BaseFactory<
+  ICompetitor,
+  CreateCompetitorInput,
+  UpdateCompetitorInput
+> {
+  /**
+   * Map request fields to entity fields
+   * API and domain both use snake_case, so this is a direct pass-through
+   *
+   * @param request - Competitor request data (create or update)
+   * @returns Mapped entity fields in snake_case
+   */
+  protected mapRequestToEntity(
+    request: Partial<CreateCompetitorInput> | UpdateCompetitorInput
+  ): Partial<ICompetitor> {
+    return request as Partial<ICompetitor>;
+  }
+
+  /**
+   * Apply business logic during competitor creation
+   * Sets the match key and records the request as the first snapshot
+   * (observed on the first linked client)
+   *
+   * @param request - Original creation request
+   * @param userId - User creating the competitor
+   * @param orgId - Organization ID
+   * @returns Business-specific entity fields
+   */
+  protected applyCreateBusinessLogic(
+    request: CreateCompetitorInput,
+    _userId: string,
+    _orgId: string
+  ): Partial<ICompetitor> {
+    // Mark parameters as intentionally unused in this implementation
+    void _userId;
+    void _orgId;
+    return {
+      match_key: getCompetitorMatchKey(request),
+      client_ids: [...new Set(request.client_ids ?? [])],
+      snapshots: [
+        createCompetitorSnapshot(
+          request,
+          CompetitorSnapshotSource.CLIENT_CONTEXT,
+          { captured_at: new Date(), client_id: request.client_ids?.[0] }
+        ),
+      ],
+    };
+  }
+}
+
+// Export singleton instance
+export const competitorFactory = new CompetitorFactory();
@@ -0,0 +1,465 @@
+/**
+ * Competitors Service
+ *
+ * ============================================
+ * APPLICATION LAYER - Business Logic Orchestration
+ * ============================================
+ *
+ * Tracks competitors as records of their own: linked to every client whose
+ * context names them, researched on their own, with a history of
+ * positioning and traffic snapshots.
+ *
+ * A client's embedded `competitors` stay the client's view (what research
+ * and people put in its context). Syncing turns that view into tracked
+ * records - after a client is created or its competitors change (see
+ * ../inngest.ts), and on first read for clients that predate tracking.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/* (ICompetitor, enums, tracking rules)
+ * ✅ CAN import: ../api/* (validation, response DTOs)
+ * ✅ CAN import: ./factory (same layer)
+ * ✅ CAN import: @/shared/services, @/shared/utils, @/modules/clients
+ * ⚠️  CAN import: COMPETITOR_MODEL_NAME constant from ../infrastructure/schema (only the constant!)
+ * ❌ CANNOT import: CompetitorDocument, mongoose types from ../infrastructure/schema
+ */
+
+import { BaseService } from "@/shared/services/base.service";
+import {
+  CompetitorSnapshotSource,
+  ICompetitor,
+  ICompetitorSyncResult,
+} from "../domain/types";
+import {
+  appendCompetitorSnapshot,
+  createCompetitorSnapshot,
+  getCompetitorMatchKey,
+  pickObservation,
+} from "../domain/competitor-tracking";
+import { COMPETITOR_MODEL_NAME } from "../infrastructure/schema";
+import {
+  AICompetitorResearch,
+  AICompetitorResearchSchema,
+  CompetitorResponse,
+  CreateCompetitorInput,
+  UpdateCompetitorInput,
+} from "../api/validation";
+import { clientsService, type ClientResponse } from "@/modules/clients";
+import { EventName, publishEvent } from "@/modules/events";
+import {
+  generateStructuredOutputWithWebSearch,
+  AIProvider,
+  AIModel,
+  TemperaturePreset,
+  MaxTokensPreset,
+} from "@/shared/ai-sdk";
+import { logger } from "@/shared/utils/logger";
+import { ExternalServiceError, NotFoundError } from "@/shared/utils/errors";
+import { competitorFactory } from "./factory";
+import { CompetitorResponseDTO } from "../api/response";
+
+const log = logger.child({ module: "competitors-service" });
+
+/**
+ * Model settings for competitor research (same model as client research)
+ */
+const COMPETITOR_RESEARCH_CONFIG = {
+  provider: AIProvider.GOOGLE,
+  model: AIModel.GEMINI_2_5_PRO,
+  temperature: TemperaturePreset.PRECISE,
+  maxTokens: MaxTokensPreset.MEDIUM,
+};
+
+/**
+ * Competitors Service
+ * Handles competitor tracking, client links, snapshots and research runs
+ */
+export class CompetitorsService extends BaseService<
+  ICompetitor,
+  CreateCompetitorInput,
+  UpdateCompetitorInput,
+  CompetitorResponse
+> {
+  constructor() {
+    super(COMPETITOR_MODEL_NAME);
+  }
+
+  /**
+   * ========================================================================
+   * Abstract Method Implementations (Required by BaseService)
+   * ========================================================================
+   */
+
+  /**
+   * Map domain entity to API response format
+   * Delegates to CompetitorResponseDTO for clean transformation
+   */
+  protected mapEntityToResponse(entity: ICompetitor): CompetitorResponse {
+    return CompetitorResponseDTO.fromEntity(entity);
+  }
+
+  /**
+   * Prepare entity data for creation
+   * Delegates to CompetitorFactory for clean transformation
+   */
+  protected prepareEntityForCreate(
+    request: CreateCompetitorInput,
+    userId: string,
+    orgId: string
+  ): ICompetitor {
+    return competitorFactory.createFromRequest(request, userId, orgId);
+  }
+
+  /**
+   * Prepare entity data for update
+   * Delegates to CompetitorFactory for clean transformation
+   */
+  protected prepareEntityForUpdate(
+    request: UpdateCompetitorInput,
+    userId: string
+  ): Partial<ICompetitor> {
+    return competitorFactory.updateFromRequest(request, userId);
+  }
+
+  /**
+   * ========================================================================
+   * Queries
+   * ========================================================================
+   */
+
+  /**
+   * Get competitor by ID
+   */
+  async getCompetitor(competitorId: string): Promise<CompetitorResponse> {
+    const competitor = await this.repository.findById(competitorId);
+
+    if (!competitor) {
+      throw new NotFoundError(`Competitor not found with ID: ${competitorId}`);
+    }
+
+    return this.mapEntityToResponse(competitor);
+  }
+
+  /**
+   * Tracked competitors of a client, by name
+   * Clients that name competitors but were never synced (created before
+   * competitors were tracked) are synced first.
+   *
+   * @param client - Client whose competitors to list
+   */
+  async findClientCompetitors(
+    client: ClientResponse
+  ): Promise<CompetitorResponse[]> {
+    let competitors = await this.findLinkedCompetitors(client.id);
+
+    if (competitors.length === 0 && (client.competitors ?? []).length > 0) {
+      await this.syncClientCompetitors(client);
+      competitors = await this.findLinkedCompetitors(client.id);
+    }
+
+    return competitors.map((competitor) =>
+      this.mapEntityToResponse(competitor)
+    );
+  }
+
+  private async findLinkedCompetitors(
+    clientId: string
+  ): Promise<ICompetitor[]> {
+    const [competitors] = await this.repository.find(
+      { client_ids: clientId },
+      { sort: { name: 1 } }
+    );
+    return competitors;
+  }
+
+  /**
+   * ========================================================================
+   * Client Sync
+   * ========================================================================
+   */
+
+  /**
+   * Sync a client's competitors into tracked records
+   * Each competitor the client names is matched to its organization's record
+   * (see competitor-tracking.ts) or created, linked to the client and given
+   * a snapshot if what the client says about it changed. Records the client
+   * no longer names are unlinked from it.
+   *
+   * @param client - Client as it is now
+   * @returns Counts of created, updated and unlinked competitors
+   */
+  async syncClientCompetitors(
+    client: ClientResponse
+  ): Promise<ICompetitorSyncResult> {
+    const result: ICompetitorSyncResult = {
+      client_id: client.id,
+      created: 0,
+      updated: 0,
+      unlinked: 0,
+    };
+    const now = new Date();
+    const matchKeys = new Set<string>();
+
+    for (const named of client.competitors ?? []) {
+      const matchKey = getCompetitorMatchKey(named);
+
+      // A client naming the same competitor twice counts once
+      if (matchKeys.has(matchKey)) continue;
+      matchKeys.add(matchKey);
+
+      const existing = await this.repository.findOne({
+        organization_id: client.organization_id,
+        match_key: matchKey,
+      });
+
+      if (!existing) {
+        await this.repository.create(
+          this.prepareEntityForCreate(
+            {
+              ...named,
+              client_ids: [client.id],
+            } as CreateCompetitorInput,
+            client.user_id,
+            client.organization_id ?? ""
+          )
+        );
+        result.created++;
+        continue;
+      }
+
+      const snapshots = appendCompetitorSnapshot(
+        existing.snapshots,
+        createCompetitorSnapshot(
+          named,
+          CompetitorSnapshotSource.CLIENT_CONTEXT,
+          { captured_at: now, client_id: client.id }
+        )
+      );
+      const isLinked = (existing.client_ids ?? []).includes(client.id);
+
+      if (!snapshots && isLinked) continue;
+
+      await this.repository.updateById(String(existing._id), {
+        client_ids: isLinked
+          ? existing.client_ids
+          : [...(existing.client_ids ?? []), client.id],
+        ...(snapshots && {
+          ...pickObservation(named),
+          website: existing.website ?? named.website,
+          snapshots,
+        }),
+      });
+      result.updated++;
+    }
+
+    result.unlinked = await this.unlinkClient(client.id, matchKeys);
+
+    log.info("Client competitors synced", { ...result });
+
+    return result;
+  }
+
+  /**
+   * Unlink a client from the competitors it no longer names
+   * The records themselves (and their history) are kept.
+   *
+   * @param clientId - Client to unlink
+   * @param keepMatchKeys - Competitors the client still names
+   * @returns Number of competitors unlinked
+   */
+  async unlinkClient(
+    clientId: string,
+    keepMatchKeys: Set<string> = new Set()
+  ): Promise<number> {
+    const linked = await this.findLinkedCompetitors(clientId);
+    let unlinked = 0;
+
+    for (const competitor of linked) {
+      if (keepMatchKeys.has(competitor.match_key)) continue;
+
+      await this.repository.updateById(String(competitor._id), {
+        client_ids: (competitor.client_ids ?? []).filter(
+          (id) => id !== clientId
+        ),
+      });
+      unlinked++;
+    }
+
+    return unlinked;
+  }
+
+  /**
+   * Sync the competitors of a client by ID
+   * A client that no longer exists is unlinked from every competitor.
+   */
+  async syncClientCompetitorsById(
+    clientId: string
+  ): Promise<ICompetitorSyncResult> {
+    let client: ClientResponse;
+
+    try {
+      client = await clientsService.getClientContext(clientId);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+
+      return {
+        client_id: clientId,
+        created: 0,
+        updated: 0,
+        unlinked: await this.unlinkClient(clientId),
+      };
+    }
+
+    return this.syncClientCompetitors(client);
+  }
+
+  /**
+   * ========================================================================
+   * Research Runs
+   * ========================================================================
+   *
+   * Research runs look at the competitor itself rather than through one
+   * client's eyes. They run in the background (competitor.research.requested)
+   * and add a competitor_research snapshot.
+   */
+
+  /**
+   * Queue research of a competitor
+   *
+   * @param competitorId - Competitor to research
+   * @param userId - User requesting the research
+   * @param sourceRoute - API route the request came from, for usage metering
+   * @returns The competitor as it is now
+   */
+  async requestResearch(
+    competitorId: string,
+    userId: string,
+    sourceRoute?: string
+  ): Promise<CompetitorResponse> {
+    const competitor = await this.getCompetitor(competitorId);
+
+    await publishEvent(
+      EventName.COMPETITOR_RESEARCH_REQUESTED,
+      {
+        competitor_id: competitor.id,
+        organization_id: competitor.organization_id,
+        source_route: sourceRoute,
+      },
+      {
+        // Competitors span clients - the competitor stands in for the project
+        projectId: competitor.id,
+        userId,
+        source: "competitors-module",
+      }
+    );
+
+    log.info("Competitor research queued", { competitorId });
+
+    return competitor;
+  }
+
+  /**
+   * Research a competitor and record a snapshot
+   *
+   * @param competitorId - Competitor to research
+   * @param sourceRoute - API route the research was requested from, for
+   *   usage metering
+   * @returns The updated competitor
+   * @throws ExternalServiceError if the research fails
+   */
+  async researchCompetitor(
+    competitorId: string,
+    sourceRoute?: string
+  ): Promise<CompetitorResponse> {
+    const competitor = await this.repository.findById(competitorId);
+
+    if (!competitor) {
+      throw new NotFoundError(`Competitor not found with ID: ${competitorId}`);
+    }
+
+    log.info("Researching competitor", {
+      competitorId,
+      name: competitor.name,
+    });
+
+    let research: AICompetitorResearch;
+    try {
+      const result = await generateStructuredOutputWithWebSearch({
+        prompt: this.buildResearchPrompt(competitor),
+        schema: AICompetitorResearchSchema,
+        config: COMPETITOR_RESEARCH_CONFIG,
+        usageContext: competitor.organization_id
+          ? {
+              organization_id: competitor.organization_id,
+              user_id: competitor.user_id,
+              client_id: competitor.client_id,
+              source_route: sourceRoute,
+            }
+          : undefined,
+      });
+      research = result.object;
+    } catch (error) {
+      log.error("Competitor research failed", { competitorId, error });
+
+      throw new ExternalServiceError(
+        "AI Competitor Research",
+        `Failed to research competitor: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        { competitorId }
+      );
+    }
+
+    const now = new Date();
+    const snapshot = createCompetitorSnapshot(
+      research,
+      CompetitorSnapshotSource.COMPETITOR_RESEARCH,
+      { captured_at: now, confidence: research.confidence }
+    );
+
+    const updatedCompetitor = await this.repository.updateById(competitorId, {
+      ...pickObservation(research),
+      snapshots:
+        appendCompetitorSnapshot(competitor.snapshots, snapshot) ??
+        competitor.snapshots,
+      last_researched_at: now,
+    });
+
+    if (!updatedCompetitor) {
+      throw new NotFoundError(
+        `Competitor not found after research with ID: ${competitorId}`
+      );
+    }
+
+    log.info("Competitor researched", {
+      competitorId,
+      confidence: research.confidence,
+    });
+
+    return this.mapEntityToResponse(updatedCompetitor);
+  }
+
+  /**
+   * Build the research prompt for a competitor
+   */
+  private buildResearchPrompt(competitor: ICompetitor): string {
+    const subject = competitor.website
+      ? `${competitor.name} (${competitor.website})`
+      : competitor.name;
+
+    return `You are a competitive intelligence analyst. Research ${subject} as it is today.
+
+Use web search to find:
+- **Positioning:** who they sell to and how they describe their value (homepage, pricing and about pages)
+- **Strengths:** what customers and reviewers praise
+- **Weaknesses:** recurring complaints, gaps and limitations
+- **Estimated monthly traffic:** from public traffic estimates (e.g. Similarweb)
+- **Employee size:** from LinkedIn or company pages
+
+Only report what you found evidence for. Leave out values you couldn't find instead of guessing, and set confidence (0-1) to reflect how well supported the findings are.`;
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const competitorsService = new CompetitorsService();
@@ -0,0 +1,158 @@
+/**
+ * Competitors Module - Tracking
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Decides which tracked competitor a client's competitor is, and when an
+ * observation is worth a new snapshot.
+ *
+ * MATCHING:
+ * - By website domain when there is a website (normalized like client
+ *   websites: scheme, www and path don't matter)
+ * - Otherwise by name, case- and whitespace-insensitive
+ *
+ * SNAPSHOTS:
+ * - An observation only becomes a snapshot when it differs from the latest
+ *   snapshot of the same source and client, so re-syncing the same context
+ *   doesn't grow the history
+ * - List order doesn't count as a change
+ * - At most MAX_COMPETITOR_SNAPSHOTS are kept (oldest dropped first)
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types, @/modules/clients/domain (pure functions)
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import { normalizeWebsiteDomain } from "@/modules/clients/domain/website-domain";
+import {
+  CompetitorObservation,
+  CompetitorSnapshotSource,
+  ICompetitorSnapshot,
+} from "./types";
+
+/**
+ * Most snapshots kept per competitor
+ */
+export const MAX_COMPETITOR_SNAPSHOTS = 100;
+
+/**
+ * Fields compared between snapshots
+ */
+const TRACKED_FIELDS = [
+  "positioning",
+  "strengths",
+  "weaknesses",
+  "estimated_monthly_traffic",
+  "employee_size",
+] as const satisfies ReadonlyArray<keyof CompetitorObservation>;
+
+/**
+ * Key that identifies a competitor within an organization
+ *
+ * @param competitor - Name and (optional) website
+ * @returns The website domain, or `name:<normalized name>`
+ */
+export function getCompetitorMatchKey(competitor: {
+  name: string;
+  website?: string;
+}): string {
+  const domain = normalizeWebsiteDomain(competitor.website);
+
+  if (domain) {
+    return domain;
+  }
+
+  return `name:${competitor.name.trim().toLowerCase().replace(/\s+/g, " ")}`;
+}
+
+/**
+ * Pick the tracked fields of an observation
+ * Works on database documents too (fields are read through their getters).
+ */
+export function pickObservation(
+  observation: CompetitorObservation
+): Omit<
+  ICompetitorSnapshot,
+  "captured_at" | "source" | "client_id" | "confidence"
+> {
+  return {
+    positioning: observation.positioning,
+    strengths: [...(observation.strengths ?? [])],
+    weaknesses: [...(observation.weaknesses ?? [])],
+    estimated_monthly_traffic: observation.estimated_monthly_traffic,
+    employee_size: observation.employee_size,
+  };
+}
+
+/**
+ * Build a snapshot of an observation
+ *
+ * @param observation - Positioning and traffic as observed
+ * @param source - Where it was observed
+ * @param details - Capture time, observing client and research confidence
+ */
+export function createCompetitorSnapshot(
+  observation: CompetitorObservation,
+  source: CompetitorSnapshotSource,
+  details: { captured_at: Date; client_id?: string; confidence?: number }
+): ICompetitorSnapshot {
+  return {
+    ...pickObservation(observation),
+    source,
+    ...details,
+  };
+}
+
+const normalizeField = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item).trim().toLowerCase()).sort();
+  }
+  if (typeof value === "string") {
+    return value.trim() || undefined;
+  }
+  return value ?? undefined;
+};
+
+/**
+ * Check whether two observations hold the same positioning and traffic
+ */
+export function isSameObservation(
+  a: CompetitorObservation,
+  b: CompetitorObservation
+): boolean {
+  return TRACKED_FIELDS.every(
+    (field) =>
+      JSON.stringify(normalizeField(a[field])) ===
+      JSON.stringify(normalizeField(b[field]))
+  );
+}
+
+/**
+ * Add a snapshot to a competitor's history unless nothing changed
+ *
+ * @param snapshots - History, oldest first
+ * @param snapshot - New snapshot
+ * @returns The new history, or null if the snapshot adds nothing
+ */
+export function appendCompetitorSnapshot(
+  snapshots: ICompetitorSnapshot[] | undefined,
+  snapshot: ICompetitorSnapshot
+): ICompetitorSnapshot[] | null {
+  const history = snapshots ?? [];
+
+  const previous = [...history]
+    .reverse()
+    .find(
+      (entry) =>
+        entry.source === snapshot.source &&
+        entry.client_id === snapshot.client_id
+    );
+
+  if (previous && isSameObservation(previous, snapshot)) {
+    return null;
+  }
+
+  return [...history, snapshot].slice(-MAX_COMPETITOR_SNAPSHOTS);
+}
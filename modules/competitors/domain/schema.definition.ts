@@ -0,0 +1,89 @@
+/**
+ * Competitors Module - Schema Definitions (Zod)
+ *
+ * ============================================
+ * SINGLE SOURCE OF TRUTH - ZOD SCHEMAS
+ * ============================================
+ *
+ * This file defines the COMPLETE competitor structure using Zod schemas.
+ * These schemas serve three purposes simultaneously:
+ *
+ * 1. **TypeScript Types** - Inferred via z.infer<>
+ * 2. **Mongoose Schema** - Generated via zodToMongoose()
+ * 3. **Runtime Validation** - Reused by API validation schemas
+ *
+ * A competitor's fields are the same as a client's embedded competitor
+ * (CompetitorSchema in the clients module), so both stay in step.
+ *
+ * DEPENDENCIES:
+ * ✅ CAN import: zod, enums from ./types
+ * ✅ CAN import: @/modules/clients/domain/schema.definition (CompetitorSchema)
+ * ❌ CANNOT import: mongoose, infrastructure, services
+ *
+ * WHO CAN IMPORT THIS:
+ * ✅ domain/types.ts - For type inference
+ * ✅ infrastructure/schema.ts - For Mongoose schema generation
+ * ✅ api/validation.ts - For API validation
+ * ✅ application/* - For business logic validation
+ */
+
+import { z } from "zod";
+import { CompetitorSchema } from "@/modules/clients/domain/schema.definition";
+import { CompetitorSnapshotSourceValues } from "./types";
+
+// ============================================
+// NESTED DOMAIN SCHEMAS
+// ============================================
+
+/**
+ * Snapshot of a competitor's positioning and traffic
+ */
+export const CompetitorSnapshotSchema = CompetitorSchema.omit({
+  name: true,
+  website: true,
+}).extend({
+  captured_at: z.coerce.date(),
+  source: z.enum(CompetitorSnapshotSourceValues),
+  // Client whose context named the competitor (client_context snapshots)
+  client_id: z.string().optional(),
+  // Research confidence, 0-1 (competitor_research snapshots)
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+// ============================================
+// COMPLETE COMPETITOR SCHEMA
+// ============================================
+
+/**
+ * Complete Competitor Fields Schema (Domain-Specific Only)
+ *
+ * Base entity fields (created_at, is_deleted, etc.) are added separately
+ * at the infrastructure layer to maintain clean separation.
+ *
+ * USAGE:
+ * - Mongoose: mergeWithBaseFields(CompetitorFieldsSchema, baseUserEntityDefinition)
+ * - API Validation: Reuse nested schemas as needed
+ * - TypeScript: z.infer<typeof CompetitorFieldsSchema>
+ */
+export const CompetitorFieldsSchema = CompetitorSchema.extend({
+  // User ownership (required at infrastructure layer, not here)
+  user_id: z.string().min(1),
+  organization_id: z.string().optional(),
+
+  // Identifies the competitor within the organization (see
+  // competitor-tracking.ts) - unique per org
+  match_key: z.string().min(1),
+
+  // Clients whose context names this competitor
+  client_ids: z.array(z.string()).optional().default([]),
+
+  // History, oldest first (the top-level fields are the latest observation)
+  snapshots: z.array(CompetitorSnapshotSchema).optional().default([]),
+  last_researched_at: z.coerce.date().optional(),
+});
+
+/**
+ * Infer TypeScript type from schema
+ * This is the pure domain type without base entity fields
+ */
+export type CompetitorFields = z.infer<typeof CompetitorFieldsSchema>;
@@ -0,0 +1,109 @@
+/**
+ * Competitors Module - Domain Types
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * This file contains ONLY domain types and interfaces for competitors.
+ * A competitor is a company an organization tracks over time. It is linked
+ * to every client whose context names it, so one competitor can be followed
+ * across many clients, and keeps a history of snapshots of its positioning
+ * and traffic.
+ *
+ * TYPE INFERENCE STRATEGY:
+ * - Enums are defined here for use in validation
+ * - ICompetitor is INFERRED from Zod schema (schema.definition.ts)
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: @/shared/types/repository.types (IEntity, DatabaseId)
+ * ✅ CAN import: ./schema.definition (Zod schemas for type inference)
+ * ✅ CAN import: Pure TypeScript types, enums, interfaces
+ * ❌ CANNOT import: mongoose, Database-specific types
+ * ❌ CANNOT import: ../infrastructure/* (schema, repository)
+ * ❌ CANNOT import: ../api/* (validation, DTOs)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { IEntity, DatabaseId } from "@/shared/types/repository.types";
+import { z } from "zod";
+import {
+  CompetitorFieldsSchema,
+  CompetitorSnapshotSchema,
+} from "./schema.definition";
+
+// ============================================
+// ENUMS - Business Domain Enums
+// ============================================
+
+/**
+ * Where a competitor snapshot was observed
+ */
+export enum CompetitorSnapshotSource {
+  CLIENT_CONTEXT = "client_context", // A client's competitors (research or edits)
+  COMPETITOR_RESEARCH = "competitor_research", // The competitor's own research run
+}
+
+export const CompetitorSnapshotSourceValues = Object.values(
+  CompetitorSnapshotSource
+);
+
+// ============================================
+// NESTED TYPES
+// ============================================
+
+/**
+ * Positioning and traffic of a competitor at one point in time
+ */
+export type ICompetitorSnapshot = z.infer<typeof CompetitorSnapshotSchema>;
+
+/**
+ * Fields a snapshot tracks - what charts compare over time
+ */
+export type CompetitorObservation = Partial<
+  Pick<
+    ICompetitorSnapshot,
+    | "positioning"
+    | "strengths"
+    | "weaknesses"
+    | "estimated_monthly_traffic"
+    | "employee_size"
+  >
+>;
+
+/**
+ * Outcome of syncing a client's competitors into tracked records
+ */
+export interface ICompetitorSyncResult {
+  client_id: string;
+  /** Competitors created for this client */
+  created: number;
+  /** Existing competitors linked or given a new snapshot */
+  updated: number;
+  /** Competitors no longer named by the client */
+  unlinked: number;
+}
+
+// ============================================
+// ROOT DOMAIN ENTITY - TYPE INFERRED FROM ZOD
+// ============================================
+
+/**
+ * ICompetitor - Database-Agnostic Competitor Entity
+ *
+ * Inferred from CompetitorFieldsSchema (schema.definition.ts), extended with
+ * base entity fields. The top-level positioning/traffic fields hold the
+ * latest observation; snapshots hold the history.
+ *
+ * @extends IEntity<DatabaseId> - Inherits: _id, created_by, updated_by, created_at, updated_at, is_deleted
+ */
+export type ICompetitor = Omit<
+  z.infer<typeof CompetitorFieldsSchema>,
+  keyof IEntity<DatabaseId> | "user_id" | "organization_id"
+> &
+  IEntity<DatabaseId> & {
+    user_id: string;
+    organization_id?: string;
+    deleted_at?: Date;
+    deleted_by?: string;
+  };
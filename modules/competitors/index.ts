@@ -0,0 +1,87 @@
+/**
+ * Competitors Module - Public API
+ *
+ * ============================================
+ * BARREL EXPORT WITH ARCHITECTURAL BOUNDARIES
+ * ============================================
+ *
+ * Controls what is exported from the competitors module.
+ *
+ * DIRECTORY STRUCTURE:
+ * ```
+ * competitors/
+ *   domain/          - ICompetitor, snapshot types, tracking rules, Zod schema definitions
+ *   application/     - CompetitorsService, CompetitorFactory
+ *   infrastructure/  - Mongoose schema (NOT exported!)
+ *   api/             - Validation schemas, response DTOs
+ *   index.ts         - This file (controlled exports)
+ * ```
+ */
+
+// ============================================
+// DOMAIN LAYER
+// ============================================
+
+export type {
+  ICompetitor,
+  ICompetitorSnapshot,
+  ICompetitorSyncResult,
+  CompetitorObservation,
+} from "./domain/types";
+
+export {
+  CompetitorSnapshotSource,
+  CompetitorSnapshotSourceValues,
+} from "./domain/types";
+
+export {
+  MAX_COMPETITOR_SNAPSHOTS,
+  getCompetitorMatchKey,
+  createCompetitorSnapshot,
+  isSameObservation,
+  appendCompetitorSnapshot,
+} from "./domain/competitor-tracking";
+
+// ============================================
+// APPLICATION LAYER
+// ============================================
+
+export { CompetitorsService, competitorsService } from "./application/service";
+
+export { CompetitorFactory, competitorFactory } from "./application/factory";
+
+// ============================================
+// API LAYER
+// ============================================
+
+export {
+  // Input schemas
+  CreateCompetitorSchema,
+  UpdateCompetitorSchema,
+  AICompetitorResearchSchema,
+
+  // Output schemas
+  CompetitorResponseSchema,
+
+  // TypeScript types inferred from schemas
+  type CreateCompetitorInput,
+  type UpdateCompetitorInput,
+  type AICompetitorResearch,
+  type CompetitorResponse,
+} from "./api/validation";
+
+export {
+  CompetitorResponseDTO,
+  toCompetitorResponse,
+  toCompetitorResponses,
+} from "./api/response";
+
+// ============================================
+// INFRASTRUCTURE LAYER
+// ============================================
+
+export { COMPETITOR_MODEL_NAME } from "./infrastructure/schema";
+
+// ❌ DO NOT EXPORT:
+// - CompetitorDocument (Mongoose-specific type)
+// - CompetitorModel (Mongoose model)
@@ -0,0 +1,126 @@
+/**
+ * Competitors Module - Mongoose Schema
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Database Implementation
+ * ============================================
+ *
+ * This file contains ONLY Mongoose-specific schema and document definitions.
+ * Uses automatic schema generation from Zod via mergeWithBaseFields().
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: mongoose, Mongoose types, @/shared/db/base.schema.types
+ * ✅ CAN import: Domain schema definition (for zodToMongoose conversion)
+ * ⚠️  CAN export: COMPETITOR_MODEL_NAME constant (safe - just a string)
+ * ⚠️  CAN export: CompetitorDocument type (Mongoose-specific - for repository only)
+ * ❌ CANNOT be imported by: Services, factories, API routes
+ * ❌ CANNOT export: ICompetitor (use ../domain/types for that)
+ */
+
+import mongoose, { Schema, Model, InferSchemaType } from "mongoose";
+import { modelRegistry } from "@/shared/db/model.registry";
+import {
+  baseUserEntityDefinition,
+  IMongooseDocument,
+} from "@/shared/db/base.schema.types";
+import { mergeWithBaseFields } from "@/shared/db/schema.builder";
+import { CompetitorFieldsSchema } from "../domain/schema.definition";
+
+// ============================================
+// MODEL NAME CONSTANT - Safe to export everywhere
+// ============================================
+
+/**
+ * Model name constant - used by repository factory
+ * This is safe to export and use in application layer as it's just a string
+ */
+export const COMPETITOR_MODEL_NAME = "Competitor";
+
+// ============================================
+// MONGOOSE SCHEMA GENERATION - AUTOMATIC FROM ZOD
+// ============================================
+
+/**
+ * Competitor Schema Definition - AUTO-GENERATED from Zod
+ * Merges CompetitorFieldsSchema with the base audit/soft-delete fields
+ */
+const competitorDefinition = mergeWithBaseFields(
+  CompetitorFieldsSchema,
+  baseUserEntityDefinition
+);
+
+/**
+ * Create the Mongoose Schema from the auto-generated definition
+ */
+const CompetitorSchema = new Schema(competitorDefinition, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+  },
+  collection: "competitors",
+  versionKey: false,
+});
+
+// ============================================
+// INDEXES - Performance Optimization
+// ============================================
+
+CompetitorSchema.index({ client_ids: 1, is_deleted: 1 });
+CompetitorSchema.index({ organization_id: 1, is_deleted: 1 });
+
+/**
+ * One tracked record per competitor per organization, so every client
+ * naming the same competitor links to the same record
+ */
+CompetitorSchema.index(
+  { organization_id: 1, match_key: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      organization_id: { $type: "string" },
+      is_deleted: false,
+    },
+  }
+);
+CompetitorSchema.index({ created_at: -1 });
+
+// ============================================
+// TYPE INFERENCE - Mongoose Document Type
+// ============================================
+
+/**
+ * CompetitorDocument - Mongoose-specific document type
+ *
+ * IMPORTANT: Only use in repository implementations and infrastructure code.
+ * Services and business logic should use ICompetitor from ../domain/types instead!
+ */
+export type CompetitorDocument = IMongooseDocument<
+  InferSchemaType<typeof CompetitorSchema>
+>;
+
+// ============================================
+// MODEL CREATION & REGISTRATION
+// ============================================
+
+/**
+ * Create or retrieve the Competitor Mongoose model
+ * Handles hot module replacement in development
+ */
+const CompetitorModel =
+  (mongoose.models[COMPETITOR_MODEL_NAME] as Model<CompetitorDocument>) ||
+  mongoose.model<CompetitorDocument>(COMPETITOR_MODEL_NAME, CompetitorSchema);
+
+/**
+ * Register the model with the central registry
+ * This allows the repository factory to find the model by name
+ */
+modelRegistry.register<CompetitorDocument>(
+  COMPETITOR_MODEL_NAME,
+  CompetitorModel
+);
+
+/**
+ * Export the Mongoose model
+ * ONLY use this in repository implementations!
+ */
+export default CompetitorModel;
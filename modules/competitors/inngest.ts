@@ -0,0 +1,142 @@
+/**
+ * Competitors Module - Inngest Event Handlers
+ *
+ * ============================================
+ * EVENT-DRIVEN WORKFLOWS
+ * ============================================
+ *
+ * - project.created → sync the new client's competitors
+ * - context.updated (competitors changed) → sync the client's competitors
+ * - project.deleted → unlink the client from its competitors
+ * - competitor.research.requested → research the competitor, add a snapshot
+ *
+ * Syncing reads the client as it is when the handler runs, so a retried or
+ * late sync never writes stale competitors. Syncs run one at a time per
+ * organization because clients of one organization share competitor records.
+ * Research is skipped when the organization used up its monthly AI budget
+ * after the run was requested.
+ */
+
+import { inngest } from "@/inngest/client";
+import { EventName } from "@/modules/events";
+import { subscriptionsService } from "@/modules/subscriptions";
+import { logger } from "@/shared/utils/logger";
+import { competitorsService } from "./application/service";
+
+const log = logger.child({ module: "competitors-inngest" });
+
+/**
+ * Sync the competitors of a new client
+ */
+export const syncCompetitorsOnProjectCreated = inngest.createFunction(
+  {
+    id: "competitors-sync-on-project-created",
+    name: "Sync competitors of created client",
+    concurrency: { limit: 1, key: "event.data.organization_id" },
+    retries: 3,
+  },
+  { event: EventName.PROJECT_CREATED },
+  async ({ event, step }) => {
+    const { client_id } = event.data;
+
+    return step.run("sync-client-competitors", () =>
+      competitorsService.syncClientCompetitorsById(client_id)
+    );
+  }
+);
+
+/**
+ * Sync the competitors of a client whose competitors changed
+ */
+export const syncCompetitorsOnContextUpdated = inngest.createFunction(
+  {
+    id: "competitors-sync-on-context-updated",
+    name: "Sync competitors of updated client",
+    concurrency: { limit: 1, key: "event.data.organization_id" },
+    retries: 3,
+  },
+  { event: EventName.CONTEXT_UPDATED },
+  async ({ event, step }) => {
+    const { client_id, changed_fields } = event.data;
+
+    if (!changed_fields.some((path) => path.startsWith("competitors"))) {
+      return { skipped: true };
+    }
+
+    return step.run("sync-client-competitors", () =>
+      competitorsService.syncClientCompetitorsById(client_id)
+    );
+  }
+);
+
+/**
+ * Unlink a deleted client from its competitors
+ */
+export const unlinkCompetitorsOnProjectDeleted = inngest.createFunction(
+  {
+    id: "competitors-unlink-on-project-deleted",
+    name: "Unlink competitors of deleted client",
+    concurrency: { limit: 1, key: "event.data.organization_id" },
+    retries: 3,
+  },
+  { event: EventName.PROJECT_DELETED },
+  async ({ event, step }) => {
+    const { client_id } = event.data;
+
+    const unlinked = await step.run("unlink-client", () =>
+      competitorsService.unlinkClient(client_id)
+    );
+
+    return { client_id, unlinked };
+  }
+);
+
+/**
+ * Research a competitor and record a snapshot
+ */
+export const runCompetitorResearch = inngest.createFunction(
+  {
+    id: "competitors-run-research",
+    name: "Research competitor",
+    // Repeated requests for one competitor collapse into one run at a time
+    concurrency: { limit: 1, key: "event.data.competitor_id" },
+    retries: 2,
+  },
+  { event: EventName.COMPETITOR_RESEARCH_REQUESTED },
+  async ({ event, step }) => {
+    const { competitor_id, organization_id, source_route, metadata } =
+      event.data;
+
+    log.info("Handling competitor.research.requested", {
+      competitorId: competitor_id,
+      eventId: metadata.eventId,
+    });
+
+    // The budget may have run out while the run was queued
+    const withinBudget = await step.run("check-ai-budget", async () =>
+      organization_id
+        ? subscriptionsService.checkLimit(
+            organization_id,
+            "ai_budget_usd_per_month"
+          )
+        : true
+    );
+
+    if (!withinBudget) {
+      log.warn("Competitor research skipped - AI budget reached", {
+        competitorId: competitor_id,
+        organizationId: organization_id,
+      });
+      return { competitor_id, skipped: true };
+    }
+
+    const competitor = await step.run("research-competitor", () =>
+      competitorsService.researchCompetitor(competitor_id, source_route)
+    );
+
+    return {
+      competitor_id,
+      snapshots: competitor.snapshots.length,
+    };
+  }
+);
@@ -0,0 +1,51 @@
+/**
+ * Events Module - Public API
+ *
+ * ============================================
+ * BARREL EXPORT
+ * ============================================
+ *
+ * Domain event contract shared by producers (module services) and
+ * consumers (Inngest functions).
+ *
+ * DIRECTORY STRUCTURE:
+ * ```
+ * events/
+ *   schema.ts     - Event names and Zod payload schemas
+ *   registry.ts   - EVENT_REGISTRY and derived event types
+ *   publisher.ts  - publishEvent / buildEvent (validated sending)
+ *   index.ts      - This file
+ * ```
+ */
+
+// ============================================
+// EVENT SCHEMAS & TYPES
+// ============================================
+
+export * from "./schema";
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export {
+  EVENT_REGISTRY,
+  isRegisteredEvent,
+  type AppEvent,
+  type AppEventName,
+  type AppEventByName,
+  type EventDefinition,
+  type InngestEventData,
+  type InngestEventPayload,
+  type InngestEventMap,
+} from "./registry";
+
+// ============================================
+// PUBLISHING
+// ============================================
+
+export {
+  publishEvent,
+  buildEvent,
+  type PublishEventMetadata,
+} from "./publisher";
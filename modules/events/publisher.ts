@@ -0,0 +1,122 @@
+/**
+ * Events Module - Event Publisher
+ *
+ * ============================================
+ * VALIDATED EVENT PUBLISHING
+ * ============================================
+ *
+ * The only way application code should emit domain events. Payloads are
+ * validated against the registry schema before anything is sent, so a
+ * producer can never put an event on the bus that its consumers can't read.
+ *
+ * USAGE:
+ * ```typescript
+ * await publishEvent(
+ *   EventName.PLAN_GENERATED,
+ *   { plan_id, client_id, version: 1, calendar_items: 30 },
+ *   { projectId: client_id, userId, source: "strategy-module" }
+ * );
+ * ```
+ *
+ * Inside Inngest functions, use buildEvent() + toInngestEvent() with
+ * step.sendEvent() so the send is memoized as a step.
+ */
+
+import { inngest, toInngestEvent } from "@/inngest/client";
+import {
+  createEvent,
+  type BaseEventMetadata,
+} from "@/shared/types/inngest.types";
+import { ExternalServiceError, ValidationError } from "@/shared/utils/errors";
+import { logger } from "@/shared/utils/logger";
+import {
+  EVENT_REGISTRY,
+  type AppEvent,
+  type AppEventByName,
+  type AppEventName,
+} from "./registry";
+
+const log = logger.child({ module: "events" });
+
+/**
+ * Metadata accepted by publishEvent - the rest is filled in by createEvent
+ */
+export type PublishEventMetadata = Partial<BaseEventMetadata> &
+  Pick<BaseEventMetadata, "projectId" | "source">;
+
+/**
+ * Validate a payload against the registry schema and build the event
+ *
+ * @param name - Registered event name
+ * @param data - Event payload
+ * @param meta - Event metadata (projectId and source are required)
+ * @returns The validated event, with parsed (trimmed/defaulted) data
+ * @throws ValidationError if the payload does not match the event schema
+ */
+export function buildEvent<TName extends AppEventName>(
+  name: TName,
+  data: AppEventByName<TName>["data"],
+  meta: PublishEventMetadata
+): AppEventByName<TName> {
+  const definition = EVENT_REGISTRY[name] as {
+    schema: (typeof EVENT_REGISTRY)[AppEventName]["schema"];
+  };
+  const result = definition.schema.safeParse(data);
+
+  if (!result.success) {
+    log.warn("Refused to build invalid event", {
+      event: name,
+      source: meta.source,
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+
+    throw new ValidationError(`Invalid payload for event ${name}`, {
+      event: name,
+      errors: result.error.issues.map((issue) => ({
+        path: issue.path.length > 0 ? issue.path.join(".") : "root",
+        message: issue.message,
+      })),
+    });
+  }
+
+  return createEvent(name, result.data, meta) as AppEventByName<TName>;
+}
+
+/**
+ * Validate and send a domain event to Inngest
+ *
+ * @param name - Registered event name
+ * @param data - Event payload
+ * @param meta - Event metadata (projectId and source are required)
+ * @returns The event that was sent
+ * @throws ValidationError if the payload does not match the event schema
+ * @throws ExternalServiceError if Inngest rejects the event
+ */
+export async function publishEvent<TName extends AppEventName>(
+  name: TName,
+  data: AppEventByName<TName>["data"],
+  meta: PublishEventMetadata
+): Promise<AppEventByName<TName>> {
+  const event = buildEvent(name, data, meta);
+
+  try {
+    await inngest.send(toInngestEvent(event as AppEvent));
+  } catch (error) {
+    throw new ExternalServiceError("Inngest", `Failed to send ${name}`, {
+      eventId: event.metadata.eventId,
+      cause: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  log.info("Event published", {
+    event: name,
+    eventId: event.metadata.eventId,
+    projectId: event.metadata.projectId,
+    correlationId: event.metadata.correlationId,
+  });
+
+  return event;
+}
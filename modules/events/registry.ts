@@ -0,0 +1,188 @@
+/**
+ * Events Module - Event Registry
+ *
+ * ============================================
+ * CENTRAL EVENT REGISTRY
+ * ============================================
+ *
+ * Single list of every domain event and its payload schema. The Inngest
+ * client derives its typed event map from here, so sending or handling an
+ * unknown event - or one with the wrong payload - fails at compile time,
+ * and publishEvent() validates payloads against the same schemas at runtime.
+ *
+ * ADDING AN EVENT:
+ * 1. Add the name to EventName and a data schema + event type in schema.ts
+ * 2. Register the schema in EVENT_REGISTRY and the event type in AppEvent
+ * 3. Register consumer functions in inngest/functions/<event>.ts
+ *
+ * WIRE FORMAT:
+ * Inngest events only carry `name`, `data` and `id`, so BaseEvent metadata
+ * travels inside `data.metadata` (see toInngestEvent in inngest/client.ts).
+ */
+
+import type { z } from "zod";
+import type { BaseEventMetadata } from "@/shared/types/inngest.types";
+import {
+  EventName,
+  ProjectCreatedDataSchema,
+  ProjectDeletedDataSchema,
+  ContextUpdatedDataSchema,
+  ContextDriftedDataSchema,
+  ResearchRequestedDataSchema,
+  CompetitorResearchRequestedDataSchema,
+  PlanGeneratedDataSchema,
+  TaskCreatedDataSchema,
+  TaskExecutedDataSchema,
+  AnalyticsUpdatedDataSchema,
+  SubscriptionTrialExpiringDataSchema,
+  SubscriptionTrialExpiredDataSchema,
+  SubscriptionLimitReachedDataSchema,
+  type ProjectCreatedEvent,
+  type ProjectDeletedEvent,
+  type ContextUpdatedEvent,
+  type ContextDriftedEvent,
+  type ResearchRequestedEvent,
+  type CompetitorResearchRequestedEvent,
+  type PlanGeneratedEvent,
+  type TaskCreatedEvent,
+  type TaskExecutedEvent,
+  type AnalyticsUpdatedEvent,
+  type SubscriptionTrialExpiringEvent,
+  type SubscriptionTrialExpiredEvent,
+  type SubscriptionLimitReachedEvent,
+} from "./schema";
+
+/**
+ * Union of all domain events
+ */
+export type AppEvent =
+  | ProjectCreatedEvent
+  | ProjectDeletedEvent
+  | ContextUpdatedEvent
+  | ContextDriftedEvent
+  | ResearchRequestedEvent
+  | CompetitorResearchRequestedEvent
+  | PlanGeneratedEvent
+  | TaskCreatedEvent
+  | TaskExecutedEvent
+  | AnalyticsUpdatedEvent
+  | SubscriptionTrialExpiringEvent
+  | SubscriptionTrialExpiredEvent
+  | SubscriptionLimitReachedEvent;
+
+/**
+ * Union of all domain event names
+ */
+export type AppEventName = AppEvent["name"];
+
+/**
+ * Look up an event type by name
+ */
+export type AppEventByName<TName extends AppEventName> = Extract<
+  AppEvent,
+  { name: TName }
+>;
+
+/**
+ * Registry entry - payload schema plus a description for docs and logs
+ */
+export interface EventDefinition<TName extends AppEventName> {
+  schema: z.ZodType<AppEventByName<TName>["data"]>;
+  description: string;
+}
+
+/**
+ * Payload schema for every domain event
+ * The mapped type makes a missing or mismatched schema a compile error.
+ */
+export const EVENT_REGISTRY: {
+  [TName in AppEventName]: EventDefinition<TName>;
+} = {
+  [EventName.PROJECT_CREATED]: {
+    schema: ProjectCreatedDataSchema,
+    description: "A client (project) was created",
+  },
+  [EventName.PROJECT_DELETED]: {
+    schema: ProjectDeletedDataSchema,
+    description: "A client (project) was deleted",
+  },
+  [EventName.CONTEXT_UPDATED]: {
+    schema: ContextUpdatedDataSchema,
+    description: "A client's business context changed",
+  },
+  [EventName.CONTEXT_DRIFTED]: {
+    schema: ContextDriftedDataSchema,
+    description: "Re-research found a material change in a client's market",
+  },
+  [EventName.RESEARCH_REQUESTED]: {
+    schema: ResearchRequestedDataSchema,
+    description: "Website research was queued as a background job",
+  },
+  [EventName.COMPETITOR_RESEARCH_REQUESTED]: {
+    schema: CompetitorResearchRequestedDataSchema,
+    description: "Research of a tracked competitor was requested",
+  },
+  [EventName.PLAN_GENERATED]: {
+    schema: PlanGeneratedDataSchema,
+    description: "A plan was stored with new content",
+  },
+  [EventName.TASK_CREATED]: {
+    schema: TaskCreatedDataSchema,
+    description: "A task was scheduled",
+  },
+  [EventName.TASK_EXECUTED]: {
+    schema: TaskExecutedDataSchema,
+    description: "A task finished executing",
+  },
+  [EventName.ANALYTICS_UPDATED]: {
+    schema: AnalyticsUpdatedDataSchema,
+    description: "New metrics were recorded for a client",
+  },
+  [EventName.SUBSCRIPTION_TRIAL_EXPIRING]: {
+    schema: SubscriptionTrialExpiringDataSchema,
+    description: "A trial ends soon",
+  },
+  [EventName.SUBSCRIPTION_TRIAL_EXPIRED]: {
+    schema: SubscriptionTrialExpiredDataSchema,
+    description: "A trial ended and was downgraded to free",
+  },
+  [EventName.SUBSCRIPTION_LIMIT_REACHED]: {
+    schema: SubscriptionLimitReachedDataSchema,
+    description: "An organization's usage reached a tier limit",
+  },
+};
+
+/**
+ * Check whether a string is a registered event name
+ */
+export function isRegisteredEvent(name: string): name is AppEventName {
+  return Object.prototype.hasOwnProperty.call(EVENT_REGISTRY, name);
+}
+
+/**
+ * Event payload as sent to Inngest - domain data plus BaseEvent metadata
+ */
+export type InngestEventData<TEvent extends AppEvent> = TEvent["data"] & {
+  metadata: BaseEventMetadata;
+};
+
+/**
+ * Event as sent to Inngest (distributes over unions of events)
+ */
+export type InngestEventPayload<TEvent extends AppEvent> =
+  TEvent extends AppEvent
+    ? {
+        id: string;
+        name: TEvent["name"];
+        data: InngestEventData<TEvent>;
+      }
+    : never;
+
+/**
+ * Inngest event map (name → payload), used by EventSchemas.fromRecord
+ */
+export type InngestEventMap = {
+  [TEvent in AppEvent as TEvent["name"]]: {
+    data: InngestEventData<TEvent>;
+  };
+};
@@ -0,0 +1,329 @@
+/**
+ * Events Module - Event Schemas
+ *
+ * ============================================
+ * SHARED EVENT CONTRACT
+ * ============================================
+ *
+ * Zod schemas for the payloads of the domain events that drive the
+ * event-driven workflows (project → context → plan → tasks → analytics).
+ * Payload types are inferred from the schemas, so the compile-time contract
+ * and the runtime check in publishEvent() cannot drift apart. Every event
+ * extends BaseEvent from shared/types/inngest.types.ts.
+ *
+ * CONVENTIONS:
+ * - Names use dot notation: `<entity>.<past-tense action>`
+ * - Payload fields are snake_case, like the domain entities
+ * - Payloads carry identifiers and small facts, not whole entities;
+ *   consumers load what they need
+ *
+ * DEPENDENCIES:
+ * ✅ CAN import: zod, @/shared/types/inngest.types
+ * ✅ CAN import: module domain types (enums only)
+ * ❌ CANNOT import: module services, infrastructure
+ *
+ * WHO CAN IMPORT THIS:
+ * ✅ modules/events/registry.ts - To build the event map
+ * ✅ modules/* - Producers and consumers of events
+ * ✅ inngest/* - Inngest client and functions
+ */
+
+import { z } from "zod";
+import type { BaseEvent } from "@/shared/types/inngest.types";
+import { TaskStatus } from "@/modules/tasks/domain/types";
+import { ContextDriftCategoryValues } from "@/modules/clients/domain/types";
+
+// ============================================
+// EVENT NAMES
+// ============================================
+
+/**
+ * Domain event names (dot notation: `<entity>.<past-tense action>`)
+ */
+export enum EventName {
+  PROJECT_CREATED = "project.created",
+  PROJECT_DELETED = "project.deleted",
+  CONTEXT_UPDATED = "context.updated",
+  CONTEXT_DRIFTED = "client.context.drifted",
+  RESEARCH_REQUESTED = "research.requested",
+  COMPETITOR_RESEARCH_REQUESTED = "competitor.research.requested",
+  PLAN_GENERATED = "plan.generated",
+  TASK_CREATED = "task.created",
+  TASK_EXECUTED = "task.executed",
+  ANALYTICS_UPDATED = "analytics.updated",
+  SUBSCRIPTION_TRIAL_EXPIRING = "subscription.trial.expiring",
+  SUBSCRIPTION_TRIAL_EXPIRED = "subscription.trial.expired",
+  SUBSCRIPTION_LIMIT_REACHED = "subscription.limit.reached",
+}
+
+// ============================================
+// SHARED FIELDS
+// ============================================
+
+/**
+ * Every payload names the project (client) it belongs to
+ */
+const ProjectScopedSchema = z.object({
+  client_id: z.string().min(1, "Client ID is required"),
+  organization_id: z.string().optional(),
+});
+
+// ============================================
+// PROJECT EVENTS
+// ============================================
+
+/**
+ * project.created - A client (project) was created
+ */
+export const ProjectCreatedDataSchema = ProjectScopedSchema.extend({
+  name: z.string().min(1),
+  website: z.string().optional(),
+});
+
+export type ProjectCreatedData = z.infer<typeof ProjectCreatedDataSchema>;
+
+export type ProjectCreatedEvent = BaseEvent<
+  EventName.PROJECT_CREATED,
+  ProjectCreatedData
+>;
+
+/**
+ * project.deleted - A client (project) was soft deleted
+ */
+export const ProjectDeletedDataSchema = ProjectScopedSchema;
+
+export type ProjectDeletedData = z.infer<typeof ProjectDeletedDataSchema>;
+
+export type ProjectDeletedEvent = BaseEvent<
+  EventName.PROJECT_DELETED,
+  ProjectDeletedData
+>;
+
+/**
+ * context.updated - A client's business context changed
+ * changed_fields lists the dot-separated paths that changed
+ */
+export const ContextUpdatedDataSchema = ProjectScopedSchema.extend({
+  changed_fields: z.array(z.string().min(1)).min(1),
+});
+
+export type ContextUpdatedData = z.infer<typeof ContextUpdatedDataSchema>;
+
+export type ContextUpdatedEvent = BaseEvent<
+  EventName.CONTEXT_UPDATED,
+  ContextUpdatedData
+>;
+
+/**
+ * client.context.drifted - Scheduled re-research found a material change
+ * to the client's competitors, positioning or pricing messaging
+ */
+export const ContextDriftedDataSchema = ProjectScopedSchema.extend({
+  changes: z
+    .array(
+      z.object({
+        category: z.enum(ContextDriftCategoryValues),
+        subject: z.string().min(1),
+        before: z.string().optional(),
+        after: z.string().optional(),
+      })
+    )
+    .min(1),
+});
+
+export type ContextDriftedData = z.infer<typeof ContextDriftedDataSchema>;
+
+export type ContextDriftedEvent = BaseEvent<
+  EventName.CONTEXT_DRIFTED,
+  ContextDriftedData
+>;
+
+// ============================================
+// RESEARCH EVENTS
+// ============================================
+
+/**
+ * research.requested - Website research was queued as a background job
+ * There is no client yet; the job creates it when research completes.
+ */
+export const ResearchRequestedDataSchema = z.object({
+  job_id: z.string().min(1, "Research job ID is required"),
+  website_url: z.string().url(),
+  organization_id: z.string().optional(),
+  // API route the research was requested from, for usage metering
+  source_route: z.string().optional(),
+});
+
+export type ResearchRequestedData = z.infer<typeof ResearchRequestedDataSchema>;
+
+export type ResearchRequestedEvent = BaseEvent<
+  EventName.RESEARCH_REQUESTED,
+  ResearchRequestedData
+>;
+
+/**
+ * competitor.research.requested - Research of a tracked competitor was
+ * requested; the run adds a snapshot to the competitor's history
+ */
+export const CompetitorResearchRequestedDataSchema = z.object({
+  competitor_id: z.string().min(1, "Competitor ID is required"),
+  organization_id: z.string().optional(),
+  // API route the research was requested from, for usage metering
+  source_route: z.string().optional(),
+});
+
+export type CompetitorResearchRequestedData = z.infer<
+  typeof CompetitorResearchRequestedDataSchema
+>;
+
+export type CompetitorResearchRequestedEvent = BaseEvent<
+  EventName.COMPETITOR_RESEARCH_REQUESTED,
+  CompetitorResearchRequestedData
+>;
+
+// ============================================
+// STRATEGY EVENTS
+// ============================================
+
+/**
+ * plan.generated - A plan was stored with new content
+ */
+export const PlanGeneratedDataSchema = ProjectScopedSchema.extend({
+  plan_id: z.string().min(1),
+  version: z.number().int().min(1),
+  calendar_items: z.number().int().nonnegative(),
+});
+
+export type PlanGeneratedData = z.infer<typeof PlanGeneratedDataSchema>;
+
+export type PlanGeneratedEvent = BaseEvent<
+  EventName.PLAN_GENERATED,
+  PlanGeneratedData
+>;
+
+// ============================================
+// TASK EVENTS
+// ============================================
+
+/**
+ * task.created - A task was scheduled
+ */
+export const TaskCreatedDataSchema = ProjectScopedSchema.extend({
+  task_id: z.string().min(1),
+  plan_id: z.string().optional(),
+  plan_item_id: z.string().optional(),
+});
+
+export type TaskCreatedData = z.infer<typeof TaskCreatedDataSchema>;
+
+export type TaskCreatedEvent = BaseEvent<
+  EventName.TASK_CREATED,
+  TaskCreatedData
+>;
+
+/**
+ * task.executed - A task finished executing, successfully or not
+ */
+export const TaskExecutedDataSchema = ProjectScopedSchema.extend({
+  task_id: z.string().min(1),
+  plan_id: z.string().optional(),
+  status: z.enum([TaskStatus.DONE, TaskStatus.FAILED]),
+  duration_ms: z.number().nonnegative().optional(),
+  output_url: z.string().url().optional(),
+  error: z.string().optional(),
+});
+
+export type TaskExecutedData = z.infer<typeof TaskExecutedDataSchema>;
+
+export type TaskExecutedEvent = BaseEvent<
+  EventName.TASK_EXECUTED,
+  TaskExecutedData
+>;
+
+// ============================================
+// ANALYTICS EVENTS
+// ============================================
+
+/**
+ * analytics.updated - New metrics were recorded for a client
+ */
+export const AnalyticsUpdatedDataSchema = ProjectScopedSchema.extend({
+  source: z.string().min(1),
+  metrics: z.record(z.string(), z.number()),
+  period_start: z.string().datetime().optional(),
+  period_end: z.string().datetime().optional(),
+});
+
+export type AnalyticsUpdatedData = z.infer<typeof AnalyticsUpdatedDataSchema>;
+
+export type AnalyticsUpdatedEvent = BaseEvent<
+  EventName.ANALYTICS_UPDATED,
+  AnalyticsUpdatedData
+>;
+
+// ============================================
+// SUBSCRIPTION EVENTS
+// ============================================
+
+/**
+ * Subscription events belong to an organization, not a project
+ */
+const OrganizationScopedSchema = z.object({
+  organization_id: z.string().min(1, "Organization ID is required"),
+});
+
+/**
+ * subscription.trial.expiring - A trial ends soon (sent once per trial)
+ */
+export const SubscriptionTrialExpiringDataSchema =
+  OrganizationScopedSchema.extend({
+    trial_ends_at: z.string().datetime(),
+    days_remaining: z.number().int().nonnegative(),
+  });
+
+export type SubscriptionTrialExpiringData = z.infer<
+  typeof SubscriptionTrialExpiringDataSchema
+>;
+
+export type SubscriptionTrialExpiringEvent = BaseEvent<
+  EventName.SUBSCRIPTION_TRIAL_EXPIRING,
+  SubscriptionTrialExpiringData
+>;
+
+/**
+ * subscription.trial.expired - A trial ended and was downgraded to free
+ */
+export const SubscriptionTrialExpiredDataSchema =
+  OrganizationScopedSchema.extend({
+    trial_ends_at: z.string().datetime(),
+  });
+
+export type SubscriptionTrialExpiredData = z.infer<
+  typeof SubscriptionTrialExpiredDataSchema
+>;
+
+export type SubscriptionTrialExpiredEvent = BaseEvent<
+  EventName.SUBSCRIPTION_TRIAL_EXPIRED,
+  SubscriptionTrialExpiredData
+>;
+
+/**
+ * subscription.limit.reached - Usage reached a tier limit
+ * Sent when usage crosses the limit, so once per limit per usage period.
+ */
+export const SubscriptionLimitReachedDataSchema =
+  OrganizationScopedSchema.extend({
+    limit_type: z.string().min(1),
+    usage: z.number().nonnegative(),
+    limit: z.number().nonnegative(),
+    tier: z.string().min(1),
+  });
+
+export type SubscriptionLimitReachedData = z.infer<
+  typeof SubscriptionLimitReachedDataSchema
+>;
+
+export type SubscriptionLimitReachedEvent = BaseEvent<
+  EventName.SUBSCRIPTION_LIMIT_REACHED,
+  SubscriptionLimitReachedData
+>;
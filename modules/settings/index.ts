@@ -0,0 +1,24 @@
+/**
+ * Settings Module - Public API
+ *
+ * Organization settings (one record per organization, defaults otherwise).
+ */
+
+export type { IOrganizationSettings } from "./types";
+
+export {
+  DEFAULT_RESEARCH_REVIEW_THRESHOLD,
+  OrganizationSettingsFieldsSchema,
+  UpdateOrganizationSettingsSchema,
+  OrganizationSettingsResponseSchema,
+  type OrganizationSettingsFields,
+  type UpdateOrganizationSettingsInput,
+  type OrganizationSettingsResponse,
+} from "./validation";
+
+export {
+  OrganizationSettingsService,
+  organizationSettingsService,
+} from "./service";
+
+export { ORGANIZATION_SETTINGS_MODEL_NAME } from "./schema";
@@ -0,0 +1,60 @@
+/**
+ * Settings Module - Mongoose Schema
+ *
+ * Uses automatic schema generation from Zod via mergeWithBaseFields().
+ * Only the service imports this file.
+ */
+
+import mongoose, { Schema, Model, InferSchemaType } from "mongoose";
+import { modelRegistry } from "@/shared/db/model.registry";
+import {
+  baseUserEntityDefinition,
+  IMongooseDocument,
+} from "@/shared/db/base.schema.types";
+import { mergeWithBaseFields } from "@/shared/db/schema.builder";
+import { OrganizationSettingsFieldsSchema } from "./validation";
+
+/**
+ * Model name constant - used by repository factory
+ */
+export const ORGANIZATION_SETTINGS_MODEL_NAME = "OrganizationSettings";
+
+const organizationSettingsDefinition = mergeWithBaseFields(
+  OrganizationSettingsFieldsSchema,
+  baseUserEntityDefinition
+);
+
+const OrganizationSettingsSchema = new Schema(organizationSettingsDefinition, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+  },
+  collection: "organization_settings",
+  versionKey: false,
+});
+
+// One settings record per organization
+OrganizationSettingsSchema.index(
+  { organization_id: 1 },
+  { unique: true, partialFilterExpression: { is_deleted: false } }
+);
+
+export type OrganizationSettingsDocument = IMongooseDocument<
+  InferSchemaType<typeof OrganizationSettingsSchema>
+>;
+
+const OrganizationSettingsModel =
+  (mongoose.models[
+    ORGANIZATION_SETTINGS_MODEL_NAME
+  ] as Model<OrganizationSettingsDocument>) ||
+  mongoose.model<OrganizationSettingsDocument>(
+    ORGANIZATION_SETTINGS_MODEL_NAME,
+    OrganizationSettingsSchema
+  );
+
+modelRegistry.register<OrganizationSettingsDocument>(
+  ORGANIZATION_SETTINGS_MODEL_NAME,
+  OrganizationSettingsModel
+);
+
+export default OrganizationSettingsModel;
@@ -0,0 +1,117 @@
+/**
+ * Settings Module - Service
+ *
+ * Reads and saves organization settings. Reads never write: organizations
+ * without saved settings get the defaults until someone saves a change.
+ */
+
+import { RepositoryFactory } from "@/shared/db/repository.factory";
+import { IRepository } from "@/shared/db/repository.interface";
+import { logger } from "@/shared/utils/logger";
+import { ORGANIZATION_SETTINGS_MODEL_NAME } from "./schema";
+import { IOrganizationSettings } from "./types";
+import {
+  DEFAULT_RESEARCH_REVIEW_THRESHOLD,
+  OrganizationSettingsResponse,
+  UpdateOrganizationSettingsInput,
+} from "./validation";
+
+const log = logger.child({ module: "settings-service" });
+
+/**
+ * Organization Settings Service
+ */
+export class OrganizationSettingsService {
+  private _repository: IRepository<IOrganizationSettings, any> | null = null;
+
+  /**
+   * Lazily created repository (models load before first use)
+   */
+  private get repository(): IRepository<IOrganizationSettings, any> {
+    if (!this._repository) {
+      this._repository = RepositoryFactory.create<any>(
+        ORGANIZATION_SETTINGS_MODEL_NAME
+      );
+    }
+    return this._repository;
+  }
+
+  /**
+   * Get an organization's settings, falling back to the defaults
+   */
+  async getForOrganization(
+    organizationId: string
+  ): Promise<OrganizationSettingsResponse> {
+    const settings = await this.repository.findOne({
+      organization_id: organizationId,
+    });
+
+    return {
+      organization_id: organizationId,
+      research_review_threshold:
+        settings?.research_review_threshold ??
+        DEFAULT_RESEARCH_REVIEW_THRESHOLD,
+      updated_at: settings?.updated_at,
+      updated_by: settings?.updated_by,
+    };
+  }
+
+  /**
+   * Save changes to an organization's settings
+   * The first save creates the organization's record.
+   *
+   * @param organizationId - Organization to update
+   * @param input - Settings to change
+   * @param userId - User saving the change
+   */
+  async updateForOrganization(
+    organizationId: string,
+    input: UpdateOrganizationSettingsInput,
+    userId: string
+  ): Promise<OrganizationSettingsResponse> {
+    const existing = await this.repository.findOne({
+      organization_id: organizationId,
+    });
+
+    if (existing) {
+      await this.repository.updateById(String(existing._id), {
+        ...input,
+        updated_by: userId,
+      });
+    } else {
+      await this.repository.create({
+        research_review_threshold: DEFAULT_RESEARCH_REVIEW_THRESHOLD,
+        ...input,
+        organization_id: organizationId,
+        user_id: userId,
+        created_by: userId,
+        updated_by: userId,
+      });
+    }
+
+    log.info("Organization settings updated", {
+      organizationId,
+      fields: Object.keys(input),
+    });
+
+    return this.getForOrganization(organizationId);
+  }
+
+  /**
+   * Research confidence below which new research-created clients need review
+   * Clients without an organization use the default.
+   */
+  async getResearchReviewThreshold(organizationId?: string): Promise<number> {
+    if (!organizationId) {
+      return DEFAULT_RESEARCH_REVIEW_THRESHOLD;
+    }
+
+    const settings = await this.getForOrganization(organizationId);
+    return settings.research_review_threshold;
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const organizationSettingsService = new OrganizationSettingsService();
@@ -0,0 +1,19 @@
+/**
+ * Settings Module - Types
+ *
+ * Organization settings: how the app behaves for every member of an
+ * organization. One record per organization; organizations that never
+ * saved settings get the defaults.
+ */
+
+import { IEntity, DatabaseId } from "@/shared/types/repository.types";
+import { OrganizationSettingsFields } from "./validation";
+
+/**
+ * Organization settings entity
+ * user_id is the user who first saved the organization's settings.
+ */
+export type IOrganizationSettings = IEntity<DatabaseId> &
+  OrganizationSettingsFields & {
+    user_id: string;
+  };
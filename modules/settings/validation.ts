@@ -0,0 +1,61 @@
+/**
+ * Settings Module - Validation Schemas
+ *
+ * Zod schemas for organization settings. The fields schema also generates
+ * the Mongoose schema (see ./schema.ts).
+ */
+
+import { z } from "zod";
+
+/**
+ * Research confidence below which a research-created client needs review
+ * before plans can be generated for it
+ */
+export const DEFAULT_RESEARCH_REVIEW_THRESHOLD = 0.6;
+
+/**
+ * Organization settings fields
+ */
+export const OrganizationSettingsFieldsSchema = z.object({
+  organization_id: z.string().min(1, "Organization ID is required"),
+  research_review_threshold: z
+    .number()
+    .min(0, "Threshold must be between 0 and 1")
+    .max(1, "Threshold must be between 0 and 1")
+    .default(DEFAULT_RESEARCH_REVIEW_THRESHOLD),
+});
+
+export type OrganizationSettingsFields = z.infer<
+  typeof OrganizationSettingsFieldsSchema
+>;
+
+/**
+ * Update organization settings
+ * Only the settings sent are changed.
+ */
+export const UpdateOrganizationSettingsSchema = z
+  .object({
+    research_review_threshold: z
+      .number()
+      .min(0, "Threshold must be between 0 and 1")
+      .max(1, "Threshold must be between 0 and 1"),
+  })
+  .partial();
+
+export type UpdateOrganizationSettingsInput = z.infer<
+  typeof UpdateOrganizationSettingsSchema
+>;
+
+/**
+ * Organization settings response
+ * Organizations that never saved settings get the defaults (no updated_at).
+ */
+export const OrganizationSettingsResponseSchema =
+  OrganizationSettingsFieldsSchema.extend({
+    updated_at: z.date().optional(),
+    updated_by: z.string().optional(),
+  });
+
+export type OrganizationSettingsResponse = z.infer<
+  typeof OrganizationSettingsResponseSchema
+>;
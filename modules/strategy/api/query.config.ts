@@ -0,0 +1,141 @@
+/**
+ * Plan Query Configuration
+ *
+ * ============================================
+ * API LAYER - Query Parsing Configuration
+ * ============================================
+ *
+ * Configuration for UniversalQueryParser to enable filtering, sorting,
+ * and searching on Plan entities.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/types (IPlan for type checking)
+ * ✅ CAN import: @/shared/utils/query.parser (query utilities)
+ * ❌ CANNOT import: ../infrastructure/schema (database implementation)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { IPlan } from "../domain/types";
+import {
+  StrictQueryParserConfig,
+  FilterOperator,
+  baseFilterableFields,
+} from "@/shared/utils/query.parser";
+
+/**
+ * Fields excluded from direct filtering
+ * These are nested objects or arrays that need special handling
+ */
+type ExcludedPlanFields =
+  | "summary"
+  | "pillars"
+  | "channels"
+  | "calendar"
+  | "kpis"
+  | "generation_metadata"
+  | "created_by_propel_auth_org_id"
+  | "is_deleted"
+  | "deleted_at"
+  | "deleted_by"
+  | "created_by"
+  | "updated_by";
+
+/**
+ * Plan Query Parser Configuration
+ *
+ * Supports filtering by:
+ * - Client, status and version
+ * - Plan start date
+ * - User ownership (user_id, organization_id)
+ * - Audit fields (created_at, updated_at)
+ */
+export const planQueryConfig: StrictQueryParserConfig<
+  IPlan,
+  ExcludedPlanFields
+> = {
+  searchFields: {
+    textFields: ["title", "summary"],
+    exactFields: ["client_id"],
+  },
+
+  filterableFields: {
+    client_id: {
+      field: "client_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    title: {
+      field: "title",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.CONTAINS],
+      allowMultiple: false,
+    },
+    status: {
+      field: "status",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    version: {
+      field: "version",
+      type: "number",
+      operators: [
+        FilterOperator.EQUALS,
+        FilterOperator.GREATER_THAN,
+        FilterOperator.GREATER_THAN_OR_EQUAL,
+        FilterOperator.LESS_THAN,
+        FilterOperator.LESS_THAN_OR_EQUAL,
+      ],
+      allowMultiple: false,
+    },
+    start_date: {
+      field: "start_date",
+      type: "date",
+      operators: [
+        FilterOperator.EQUALS,
+        FilterOperator.GREATER_THAN,
+        FilterOperator.GREATER_THAN_OR_EQUAL,
+        FilterOperator.LESS_THAN,
+        FilterOperator.LESS_THAN_OR_EQUAL,
+      ],
+      allowMultiple: false,
+    },
+
+    // User ownership
+    user_id: {
+      field: "user_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    organization_id: {
+      field: "organization_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+
+    // Audit fields (inherited from base - already snake_case)
+    ...baseFilterableFields,
+  },
+
+  excludedFields: [
+    "summary",
+    "pillars",
+    "channels",
+    "calendar",
+    "kpis",
+    "generation_metadata",
+    "created_by_propel_auth_org_id",
+    "is_deleted",
+    "deleted_at",
+    "deleted_by",
+    "created_by",
+    "updated_by",
+  ],
+
+  defaultSort: "-created_at",
+  defaultPageSize: 20,
+  maxPageSize: 100,
+} as any;
@@ -0,0 +1,66 @@
+/**
+ * Plan Response DTO
+ *
+ * ============================================
+ * API LAYER - Response Data Transfer Objects
+ * ============================================
+ *
+ * Handles conversion from domain entities to API responses.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/types (IPlan - domain entity)
+ * ✅ CAN import: ./validation (API contract types)
+ * ✅ CAN import: @/shared/api (BaseResponseDTO)
+ * ❌ CANNOT import: ../infrastructure/schema (PlanDocument, mongoose)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { BaseResponseDTO } from "@/shared/api/base.response.dto";
+import { IPlan, IPlanVersion } from "../domain/types";
+import { PlanResponse, PlanVersionResponse } from "./validation";
+
+/**
+ * Plan Response DTO
+ * Uses MongoDB transformation helper from BaseResponseDTO (_id → id)
+ */
+class PlanResponseDTOClass extends BaseResponseDTO<IPlan, PlanResponse> {
+  /**
+   * Transform IPlan domain entity to PlanResponse
+   */
+  protected transform(entity: IPlan): PlanResponse {
+    return this.transformMongoEntity(entity) as PlanResponse;
+  }
+}
+
+/**
+ * Singleton instance for use across the application
+ */
+export const PlanResponseDTO = new PlanResponseDTOClass();
+
+/**
+ * Convenience functions (optional - can use PlanResponseDTO directly)
+ */
+export const toPlanResponse = (entity: IPlan): PlanResponse =>
+  PlanResponseDTO.fromEntity(entity);
+
+export const toPlanResponses = (entities: IPlan[]): PlanResponse[] =>
+  PlanResponseDTO.fromEntities(entities);
+
+/**
+ * Plan Version Response DTO
+ * plan_id is stored as a database identifier, so it is normalised to a string
+ */
+class PlanVersionResponseDTOClass extends BaseResponseDTO<
+  IPlanVersion,
+  PlanVersionResponse
+> {
+  protected transform(entity: IPlanVersion): PlanVersionResponse {
+    const base = this.transformMongoEntity(entity);
+    return {
+      ...base,
+      plan_id: this.convertId(entity.plan_id),
+    } as PlanVersionResponse;
+  }
+}
+
+export const PlanVersionResponseDTO = new PlanVersionResponseDTOClass();
@@ -0,0 +1,225 @@
+/**
+ * Strategy Module - API Validation Schemas
+ *
+ * ============================================
+ * API LAYER - Input/Output Validation
+ * ============================================
+ *
+ * Defines Zod schemas for API request validation, AI structured output
+ * and response typing. Reuses domain Zod schemas from schema.definition.ts.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/schema.definition (Zod schemas)
+ * ✅ CAN import: ../domain/types (enums for validation)
+ * ✅ CAN import: @/shared/validation (base validation utilities)
+ * ✅ CAN import: zod (validation library)
+ * ❌ CANNOT import: ../infrastructure/schema (database types)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { z } from "zod";
+import {
+  PillarSchema,
+  ChannelStrategySchema,
+  CalendarItemSchema,
+  KPISchema,
+  GenerationMetadataSchema,
+} from "../domain/schema.definition";
+import {
+  IPlanDiff,
+  PLAN_DURATION_DAYS,
+  PlanStatusValues,
+} from "../domain/types";
+import {
+  createResponseSchema,
+  createInputSchema,
+} from "@/shared/validation/base.validation";
+import { BrandedZodType } from "@/shared/types";
+
+/**
+ * ============================================================================
+ * Brand Symbols for Nominal Typing
+ * ============================================================================
+ */
+
+export const GeneratePlanBrand = Symbol("GeneratePlanBrand");
+export const CreatePlanBrand = Symbol("CreatePlanBrand");
+export const UpdatePlanBrand = Symbol("UpdatePlanBrand");
+export const RollbackPlanBrand = Symbol("RollbackPlanBrand");
+
+/**
+ * ============================================================================
+ * Plan Generation Input
+ * ============================================================================
+ */
+
+/**
+ * Request body for generating a plan from a client's context
+ */
+export const GeneratePlanSchema = z.object({
+  client_id: z.string().min(1, "Client ID is required"),
+  start_date: z.coerce.date().optional(),
+  instructions: z
+    .string()
+    .trim()
+    .max(2000, "Instructions must be 2000 characters or fewer")
+    .optional(),
+});
+
+export type GeneratePlanInput = BrandedZodType<
+  z.infer<typeof GeneratePlanSchema>,
+  typeof GeneratePlanBrand
+>;
+
+/**
+ * ============================================================================
+ * AI-Generated Plan Schema (Structured Output from AI)
+ * ============================================================================
+ *
+ * ⚡ SCHEMA REUSE: Composes domain schemas. Calendar items omit item_id,
+ * which is assigned by PlanFactory so identifiers stay stable and unique.
+ */
+
+export const AIGeneratedCalendarItemSchema = CalendarItemSchema.omit({
+  item_id: true,
+});
+
+export const AIGeneratedPlanSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string(),
+  pillars: z.array(PillarSchema).min(1),
+  channels: z.array(ChannelStrategySchema).min(1),
+  calendar: z
+    .array(AIGeneratedCalendarItemSchema)
+    .min(
+      PLAN_DURATION_DAYS / 2,
+      "Calendar must schedule work across the full plan duration"
+    ),
+  kpis: z.array(KPISchema).min(1),
+});
+
+export type AIGeneratedPlan = z.infer<typeof AIGeneratedPlanSchema>;
+
+/**
+ * ============================================================================
+ * Manual Plan Creation / Update Schemas
+ * ============================================================================
+ */
+
+/**
+ * Calendar item accepted from API callers
+ * item_id is optional - new items get one assigned by PlanFactory
+ */
+export const EditableCalendarItemSchema = CalendarItemSchema.extend({
+  item_id: z.string().min(1).optional(),
+});
+
+// Plan-specific fields (without user_id/organization_id - added by helper)
+const PlanInputFieldsSchema = z.object({
+  client_id: z.string().min(1, "Client ID is required"),
+  title: z.string().min(1, "Plan title is required").trim(),
+  summary: z.string().trim().optional(),
+  status: z.enum(PlanStatusValues).optional(),
+  start_date: z.coerce.date().optional(),
+  pillars: z.array(PillarSchema).optional(),
+  channels: z.array(ChannelStrategySchema).optional(),
+  calendar: z.array(EditableCalendarItemSchema).optional(),
+  kpis: z.array(KPISchema).optional(),
+});
+
+// Use helper to add user_id and organization_id
+export const CreatePlanSchema = createInputSchema(PlanInputFieldsSchema);
+
+export type CreatePlanInput = BrandedZodType<
+  z.infer<typeof CreatePlanSchema>,
+  typeof CreatePlanBrand
+>;
+
+export const UpdatePlanSchema = CreatePlanSchema.partial().omit({
+  user_id: true,
+  organization_id: true,
+  client_id: true,
+});
+
+export type UpdatePlanInput = BrandedZodType<
+  z.infer<typeof UpdatePlanSchema>,
+  typeof UpdatePlanBrand
+>;
+
+/**
+ * ============================================================================
+ * Versioning Schemas
+ * ============================================================================
+ */
+
+/**
+ * Request body for rolling a plan back to an earlier version
+ */
+export const RollbackPlanSchema = z.object({
+  version: z.number().int().min(1, "Version must be a positive integer"),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type RollbackPlanInput = BrandedZodType<
+  z.infer<typeof RollbackPlanSchema>,
+  typeof RollbackPlanBrand
+>;
+
+/**
+ * Query parameters for diffing two plan versions
+ */
+export const PlanVersionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1, "from must be a positive integer"),
+  to: z.coerce.number().int().min(1, "to must be a positive integer"),
+});
+
+export type PlanVersionDiffQuery = z.infer<typeof PlanVersionDiffQuerySchema>;
+
+/**
+ * ============================================================================
+ * Response Schemas
+ * ============================================================================
+ */
+
+/**
+ * Plan-specific response fields (without base audit fields)
+ */
+const PlanResponseFieldsSchema = z.object({
+  client_id: z.string(),
+  title: z.string(),
+  summary: z.string().optional(),
+  status: z.string(),
+  version: z.number(),
+  start_date: z.date().optional(),
+  pillars: z.array(PillarSchema),
+  channels: z.array(ChannelStrategySchema),
+  calendar: z.array(CalendarItemSchema),
+  kpis: z.array(KPISchema),
+  generation_metadata: GenerationMetadataSchema.optional(),
+});
+
+/**
+ * Plan response schema (extends base - automatically includes id, audit fields, user ownership)
+ */
+export const PlanResponseSchema = createResponseSchema(
+  PlanResponseFieldsSchema
+);
+
+export type PlanResponse = z.infer<typeof PlanResponseSchema>;
+
+/**
+ * Plan version response schema (full snapshot plus version metadata)
+ */
+export const PlanVersionResponseSchema = PlanResponseSchema.extend({
+  plan_id: z.string(),
+  change_type: z.string(),
+  change_note: z.string().optional(),
+  restored_from_version: z.number().optional(),
+});
+
+export type PlanVersionResponse = z.infer<typeof PlanVersionResponseSchema>;
+
+/**
+ * Structured diff between two plan versions
+ */
+export type PlanDiffResponse = IPlanDiff;
@@ -0,0 +1,183 @@
+/**
+ * Plan Factory
+ *
+ * ============================================
+ * APPLICATION LAYER - Data Transformation
+ * ============================================
+ *
+ * Handles transformations between API contracts, AI output and domain entities.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/types (IPlan, enums)
+ * ✅ CAN import: ../api/validation (API input types)
+ * ✅ CAN import: @/shared/db/base.factory (base factory pattern)
+ * ❌ CANNOT import: ../infrastructure/schema (PlanDocument, mongoose)
+ * ❌ CANNOT import: Database-specific types
+ *
+ * This factory:
+ * - Converts API requests → Domain entities
+ * - Converts AI-generated plans → Domain entities
+ * - Assigns stable identifiers to calendar items
+ */
+
+import { randomUUID } from "crypto";
+import { BaseFactory } from "@/shared/db/base.factory";
+import {
+  IPlan,
+  ICalendarItem,
+  IGenerationMetadata,
+  PlanStatus,
+} from "../domain/types";
+import {
+  AIGeneratedPlan,
+  CreatePlanInput,
+  UpdatePlanInput,
+} from "../api/validation";
+
+/**
+ * Context required to turn an AI-generated plan into a plan entity
+ */
+export interface PlanGenerationContext {
+  client_id: string;
+  user_id: string;
+  organization_id?: string;
+  start_date?: Date;
+  generation_metadata: IGenerationMetadata;
+}
+
+/**
+ * PlanFactory
+ *
+ * Extends BaseFactory to provide Plan-specific transformations.
+ */
+export class PlanFactory extends BaseFactory<
+  IPlan,
+  CreatePlanInput,
+  UpdatePlanInput
+> {
+  /**
+   * Map request fields to entity fields
+   * API and domain both use snake_case, so this is a direct pass-through
+   *
+   * @param request - Plan request data (create or update)
+   * @returns Mapped entity fields in snake_case
+   */
+  protected mapRequestToEntity(
+    request: Partial<CreatePlanInput> | UpdatePlanInput
+  ): Partial<IPlan> {
+    return request as Partial<IPlan>;
+  }
+
+  /**
+   * Apply business logic during plan creation
+   * Manually created plans start as drafts at version 1
+   *
+   * @param request - Original creation request
+   * @param userId - User creating the plan
+   * @param orgId - Organization ID
+   * @returns Business-specific entity fields
+   */
+  protected applyCreateBusinessLogic(
+    request: CreatePlanInput,
+    _userId: string,
+    _orgId: string
+  ): Partial<IPlan> {
+    // Mark parameters as intentionally unused in this implementation
+    void _userId;
+    void _orgId;
+    return {
+      status: request.status ?? PlanStatus.DRAFT,
+      version: 1,
+      calendar: this.assignCalendarItemIds(request.calendar ?? []),
+    };
+  }
+
+  /**
+   * Apply business logic during plan updates
+   * Hand-edited calendars keep existing item IDs; new items get one assigned
+   *
+   * @param request - Update request
+   * @param userId - User updating the plan
+   * @returns Business-specific entity fields
+   */
+  protected applyUpdateBusinessLogic(
+    request: UpdatePlanInput,
+    _userId: string
+  ): Partial<IPlan> {
+    // Mark parameters as intentionally unused in this implementation
+    void _userId;
+    if (!request.calendar) {
+      return {};
+    }
+    return {
+      calendar: this.assignCalendarItemIds(request.calendar),
+    };
+  }
+
+  /**
+   * Create plan entity from AI-generated output
+   * This is a specialized factory method outside the base factory pattern
+   *
+   * @param generated - Structured plan returned by the AI
+   * @param context - Client, ownership and generation metadata
+   * @returns Complete plan entity ready for creation
+   */
+  createFromAIGeneration(
+    generated: AIGeneratedPlan,
+    context: PlanGenerationContext
+  ): IPlan {
+    const now = new Date();
+
+    return {
+      // Base entity fields (required)
+      _id: "", // Will be set by database
+      created_by: context.user_id,
+      updated_by: context.user_id,
+      created_at: now,
+      updated_at: now,
+      is_deleted: false,
+      created_by_propel_auth_org_id: context.organization_id,
+
+      // User ownership (required)
+      user_id: context.user_id,
+      organization_id: context.organization_id,
+
+      // Plan overview
+      client_id: context.client_id,
+      title: generated.title,
+      summary: generated.summary,
+      status: PlanStatus.DRAFT,
+      version: 1,
+      start_date: context.start_date ?? now,
+
+      // Strategy content
+      pillars: generated.pillars,
+      channels: generated.channels,
+      calendar: this.assignCalendarItemIds(
+        [...generated.calendar].sort((a, b) => a.day - b.day)
+      ),
+      kpis: generated.kpis,
+
+      generation_metadata: context.generation_metadata,
+    };
+  }
+
+  /**
+   * Assign a stable item_id to calendar items that don't have one yet
+   * Existing identifiers are preserved so items can be tracked across edits
+   *
+   * @param items - Calendar items with or without identifiers
+   * @returns Calendar items with guaranteed identifiers
+   */
+  assignCalendarItemIds(
+    items: Array<Omit<ICalendarItem, "item_id"> & { item_id?: string }>
+  ): ICalendarItem[] {
+    return items.map((item) => ({
+      ...item,
+      item_id: item.item_id || randomUUID(),
+    }));
+  }
+}
+
+// Export singleton instance
+export const planFactory = new PlanFactory();
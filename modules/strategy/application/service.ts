@@ -0,0 +1,1100 @@
+/**
+ * Strategy Module - Service Layer
+ *
+ * ============================================
+ * APPLICATION LAYER - Business Logic
+ * ============================================
+ *
+ * Turns a client's context ("truth file") into a persisted 30-day growth plan
+ * and keeps an immutable version history of every plan change.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/types (IPlan, enums)
+ * ✅ CAN import: ../api/* (validation, response DTOs)
+ * ✅ CAN import: ./factory (same layer)
+ * ✅ CAN import: @/modules/clients, @/modules/tasks (public barrels only)
+ * ✅ CAN import: @/shared/services, @/shared/ai-sdk, @/shared/utils
+ * ⚠️  CAN import: PLAN_MODEL_NAME constant from ../infrastructure/schema (only the constant!)
+ * ⚠️  CAN import: PLAN_VERSION_MODEL_NAME, PLAN_VERSIONS_COLLECTION constants from ../infrastructure/plan-version.schema
+ * ❌ CANNOT import: PlanDocument, mongoose types from ../infrastructure/schema
+ */
+
+import { BaseService } from "@/shared/services/base.service";
+import { RepositoryFactory } from "@/shared/db/repository.factory";
+import { IRepository } from "@/shared/db/repository.interface";
+import { EntityFilter } from "@/shared/types/repository.types";
+import {
+  IPlan,
+  IPlanDiff,
+  IPlanVersion,
+  PLAN_DURATION_DAYS,
+  PlanChangeType,
+  PlanStatus,
+} from "../domain/types";
+import { diffPlans } from "../domain/plan-diff";
+import { PLAN_MODEL_NAME } from "../infrastructure/schema";
+import {
+  PLAN_VERSION_MODEL_NAME,
+  PLAN_VERSIONS_COLLECTION,
+} from "../infrastructure/plan-version.schema";
+import {
+  AIGeneratedPlan,
+  AIGeneratedPlanSchema,
+  CreatePlanInput,
+  GeneratePlanInput,
+  PlanResponse,
+  PlanVersionResponse,
+  UpdatePlanInput,
+} from "../api/validation";
+import {
+  generateStructuredOutput,
+  streamStructuredOutput,
+  AIProvider,
+  AIModel,
+  TemperaturePreset,
+  MaxTokensPreset,
+  StreamEventType,
+  type GenerateStructuredResult,
+  type GenerateStructuredStreamResult,
+  type StreamEvent,
+  type AIUsageContext,
+} from "@/shared/ai-sdk";
+import { clientsService, type ClientResponse } from "@/modules/clients";
+import { tasksService, type IPlanExpansionResult } from "@/modules/tasks";
+import { EventName, publishEvent } from "@/modules/events";
+import { createIdempotencyKey } from "@/shared/types/inngest.types";
+import { logger } from "@/shared/utils/logger";
+import {
+  NotFoundError,
+  ExternalServiceError,
+  ValidationError,
+  DatabaseError,
+  ConflictError,
+} from "@/shared/utils/errors";
+import { planFactory } from "./factory";
+import { PlanResponseDTO, PlanVersionResponseDTO } from "../api/response";
+
+const log = logger.child({ module: "strategy-service" });
+
+/**
+ * AI configuration used for plan generation
+ */
+const PLAN_GENERATION_CONFIG = {
+  provider: AIProvider.GOOGLE,
+  model: AIModel.GEMINI_2_5_PRO,
+  temperature: TemperaturePreset.BALANCED, // 0.5 - creative but grounded
+  maxTokens: MaxTokensPreset.EXTENDED, // 30-day calendars are long
+};
+
+/**
+ * AI usage context for a plan generated for an organization
+ */
+function planUsageContext(
+  clientId: string,
+  userId: string,
+  orgId?: string,
+  sourceRoute?: string
+): AIUsageContext | undefined {
+  return orgId
+    ? {
+        organization_id: orgId,
+        user_id: userId,
+        client_id: clientId,
+        source_route: sourceRoute,
+      }
+    : undefined;
+}
+
+/**
+ * Duplicate key error from a unique index (create wraps it as the cause)
+ */
+const isDuplicateKeyError = (error: unknown): boolean => {
+  const { code, cause } = (error ?? {}) as {
+    code?: number;
+    cause?: { code?: number };
+  };
+  return code === 11000 || cause?.code === 11000;
+};
+
+/**
+ * Token usage reported by the AI SDK for a plan generation
+ */
+type PlanGenerationUsage = GenerateStructuredResult<AIGeneratedPlan>["usage"];
+
+/**
+ * Result of a streaming plan generation
+ * eventStream emits START/PROGRESS/PARTIAL events while the AI writes the
+ * plan, then COMPLETE (with the stored plan in metadata.plan) once persisted.
+ */
+export interface PlanGenerationStream {
+  eventStream: ReadableStream<StreamEvent<AIGeneratedPlan>>;
+  /** Resolves with the stored plan once the stream has finished */
+  planPromise: Promise<PlanResponse>;
+  usage: Promise<PlanGenerationUsage>;
+}
+
+/**
+ * Plan fields that make up the plan content - changing any of them
+ * produces a new plan version
+ */
+const PLAN_CONTENT_FIELDS = [
+  "title",
+  "summary",
+  "start_date",
+  "pillars",
+  "channels",
+  "calendar",
+  "kpis",
+] as const;
+
+/**
+ * Options for plan generation (everything except the client ID)
+ */
+export type GeneratePlanOptions = Partial<
+  Pick<GeneratePlanInput, "start_date" | "instructions">
+> & {
+  /** API route the plan was requested from, for usage metering */
+  source_route?: string;
+};
+
+/**
+ * Strategy Service
+ * Handles AI-powered growth plan generation and plan storage
+ */
+export class StrategyService extends BaseService<
+  IPlan,
+  CreatePlanInput,
+  UpdatePlanInput,
+  PlanResponse
+> {
+  constructor() {
+    super(PLAN_MODEL_NAME);
+  }
+
+  private _versionRepository: IRepository<any, any> | null = null;
+
+  /**
+   * Lazily created repository for immutable plan versions
+   * Mirrors BaseService's lazy repository so models load before first use
+   */
+  private get versionRepository(): IRepository<any, any> {
+    if (!this._versionRepository) {
+      this._versionRepository = RepositoryFactory.create<any>(
+        PLAN_VERSION_MODEL_NAME
+      );
+    }
+    return this._versionRepository;
+  }
+
+  /**
+   * ========================================================================
+   * Abstract Method Implementations (Required by BaseService)
+   * ========================================================================
+   */
+
+  /**
+   * Map domain entity to API response format
+   * Delegates to PlanResponseDTO for clean transformation
+   */
+  protected mapEntityToResponse(entity: IPlan): PlanResponse {
+    return PlanResponseDTO.fromEntity(entity);
+  }
+
+  /**
+   * Prepare entity data for creation
+   * Delegates to PlanFactory for clean transformation
+   */
+  protected prepareEntityForCreate(
+    request: CreatePlanInput,
+    userId: string,
+    orgId: string
+  ): IPlan {
+    return planFactory.createFromRequest(request, userId, orgId);
+  }
+
+  /**
+   * Prepare entity data for update
+   * Delegates to PlanFactory for clean transformation
+   */
+  protected prepareEntityForUpdate(
+    request: UpdatePlanInput,
+    userId: string
+  ): Partial<IPlan> {
+    return planFactory.updateFromRequest(request, userId);
+  }
+
+  /**
+   * Field mappings used when cloning a plan into the versions collection
+   * The version's author is whoever last updated the plan
+   */
+  protected getCloneFieldMappings(): Record<string, string> {
+    return {
+      plan_id: "_id",
+      created_by: "updated_by",
+      updated_by: "updated_by",
+    };
+  }
+
+  /**
+   * Fallback audit fields for cloned versions (used when the plan has no updated_by)
+   */
+  protected prepareCloneStaticFields(userId: string): Record<string, any> {
+    return {
+      created_by: userId,
+      updated_by: userId,
+    };
+  }
+
+  /**
+   * ========================================================================
+   * AI-Powered Plan Generation
+   * ========================================================================
+   */
+
+  /**
+   * Generate a 30-day growth plan from a client's context and persist it
+   * Regenerating for a client that already has a plan replaces its content
+   * and bumps the plan version.
+   *
+   * @param clientId - Client to generate the plan for
+   * @param userId - User requesting the plan
+   * @param orgId - Organization ID
+   * @param options - Optional start date, strategist instructions and source
+   *   route
+   * @returns The stored plan
+   */
+  async generatePlan(
+    clientId: string,
+    userId: string,
+    orgId?: string,
+    options: GeneratePlanOptions = {}
+  ): Promise<PlanResponse> {
+    log.info("Generating growth plan", { clientId, userId });
+
+    // Step 1: Load the client's truth file (throws NotFoundError) - its
+    // research must be confirmed if it needed review (throws ConflictError)
+    const client = await clientsService.getClientContext(clientId);
+    clientsService.assertResearchReviewed(client);
+
+    // Step 2: Ask the AI for a structured plan
+    const prompt = this.buildPlanPrompt(client, options.instructions);
+
+    let generated: AIGeneratedPlan;
+    let usage: PlanGenerationUsage;
+
+    try {
+      const result = await generateStructuredOutput({
+        prompt,
+        schema: AIGeneratedPlanSchema,
+        config: {
+          ...PLAN_GENERATION_CONFIG,
+          schemaName: "GrowthPlan",
+          schemaDescription: `A ${PLAN_DURATION_DAYS}-day marketing growth plan`,
+        },
+        usageContext: planUsageContext(
+          clientId,
+          userId,
+          orgId,
+          options.source_route
+        ),
+      });
+      generated = result.object;
+      usage = result.usage;
+    } catch (error) {
+      log.error("AI plan generation failed", { clientId, error });
+
+      throw new ExternalServiceError(
+        "AI Plan Generation",
+        `Failed to generate plan: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        {
+          clientId,
+          originalError: error,
+        }
+      );
+    }
+
+    log.info("AI plan generation completed", {
+      clientId,
+      pillars: generated.pillars.length,
+      calendarItems: generated.calendar.length,
+      totalTokens: usage.totalTokens,
+    });
+
+    // Step 3: Persist as a versioned plan
+    return this.storeGeneratedPlan(generated, client, userId, orgId, {
+      start_date: options.start_date,
+      usage,
+    });
+  }
+
+  /**
+   * Stream a 30-day growth plan from a client's context
+   * Emits progress as pillars and calendar weeks fill in, and persists the
+   * final plan (same versioning as generatePlan) when the stream ends.
+   *
+   * @param clientId - Client to generate the plan for
+   * @param userId - User requesting the plan
+   * @param orgId - Organization ID
+   * @param options - Optional start date, strategist instructions and source
+   *   route
+   * @returns Event stream plus promises for the stored plan and token usage
+   */
+  async streamGeneratePlan(
+    clientId: string,
+    userId: string,
+    orgId?: string,
+    options: GeneratePlanOptions = {}
+  ): Promise<PlanGenerationStream> {
+    log.info("Starting streaming plan generation", { clientId, userId });
+
+    // Load the client's truth file before opening the stream (throws
+    // NotFoundError, or ConflictError if its research needs review)
+    const client = await clientsService.getClientContext(clientId);
+    clientsService.assertResearchReviewed(client);
+    const prompt = this.buildPlanPrompt(client, options.instructions);
+
+    let streamResult: GenerateStructuredStreamResult<AIGeneratedPlan>;
+
+    try {
+      streamResult = await streamStructuredOutput({
+        prompt,
+        schema: AIGeneratedPlanSchema,
+        config: {
+          ...PLAN_GENERATION_CONFIG,
+          schemaName: "GrowthPlan",
+          schemaDescription: `A ${PLAN_DURATION_DAYS}-day marketing growth plan`,
+        },
+        usageContext: planUsageContext(
+          clientId,
+          userId,
+          orgId,
+          options.source_route
+        ),
+      });
+    } catch (error) {
+      log.error("Failed to initiate streaming plan generation", {
+        clientId,
+        error,
+      });
+
+      throw new ExternalServiceError(
+        "AI Plan Generation",
+        `Failed to start streaming plan generation: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        {
+          clientId,
+          originalError: error,
+        }
+      );
+    }
+
+    // Persist once the AI has produced the complete plan
+    const planPromise = Promise.all([
+      streamResult.objectPromise,
+      streamResult.usage,
+    ]).then(([generated, usage]) => {
+      log.info("Streaming plan generation completed", {
+        clientId,
+        pillars: generated.pillars.length,
+        calendarItems: generated.calendar.length,
+        totalTokens: usage.totalTokens,
+      });
+
+      return this.storeGeneratedPlan(generated, client, userId, orgId, {
+        start_date: options.start_date,
+        usage,
+      });
+    });
+
+    // Avoid unhandled rejections when the consumer only reads the event stream
+    planPromise.catch((error) => {
+      log.error("Streaming plan generation failed", { clientId, error });
+    });
+
+    const partialReader = streamResult.partialObjectStream.getReader();
+
+    const eventStream = new ReadableStream<StreamEvent<AIGeneratedPlan>>({
+      async start(controller) {
+        controller.enqueue({
+          type: StreamEventType.START,
+          message: `🧭 Drafting a ${PLAN_DURATION_DAYS}-day plan for ${client.company.name}...`,
+          step: "pillars",
+          progress: 0,
+        });
+
+        let pillarCount = 0;
+        let calendarWeek = 0;
+
+        try {
+          while (true) {
+            const { done, value: partial } = await partialReader.read();
+            if (done) break;
+
+            // Progress milestones: each new pillar, then each calendar week
+            const pillars = partial.pillars?.length ?? 0;
+            if (pillars > pillarCount) {
+              pillarCount = pillars;
+              controller.enqueue({
+                type: StreamEventType.PROGRESS,
+                message: `🏛️ Pillar ${pillarCount} defined`,
+                step: "pillars",
+                progress: Math.min(5 + pillarCount * 5, 25),
+              });
+            }
+
+            const latestDay = Math.max(
+              0,
+              ...(partial.calendar ?? []).map((item) => item?.day ?? 0)
+            );
+            const week = Math.ceil(latestDay / 7);
+            if (week > calendarWeek) {
+              calendarWeek = week;
+              controller.enqueue({
+                type: StreamEventType.PROGRESS,
+                message: `📅 Scheduling week ${calendarWeek}...`,
+                step: "calendar",
+                progress: Math.min(
+                  25 + Math.round((latestDay / PLAN_DURATION_DAYS) * 60),
+                  85
+                ),
+              });
+            }
+
+            controller.enqueue({
+              type: StreamEventType.PARTIAL,
+              message: "Processing...",
+              data: partial,
+            });
+          }
+
+          controller.enqueue({
+            type: StreamEventType.PROGRESS,
+            message: "💾 Saving plan...",
+            step: "persist",
+            progress: 90,
+          });
+
+          const plan = await planPromise;
+
+          controller.enqueue({
+            type: StreamEventType.COMPLETE,
+            message: "✅ Plan ready!",
+            step: "complete",
+            progress: 100,
+            metadata: { plan },
+          });
+        } catch (error) {
+          controller.enqueue({
+            type: StreamEventType.ERROR,
+            message: "Plan generation failed",
+            error: {
+              message: error instanceof Error ? error.message : "Unknown error",
+            },
+          });
+        } finally {
+          partialReader.releaseLock();
+          controller.close();
+        }
+      },
+    });
+
+    return {
+      eventStream,
+      planPromise,
+      usage: streamResult.usage,
+    };
+  }
+
+  /**
+   * Persist an AI-generated plan for a client
+   * Creates version 1 for a new client, otherwise replaces the current plan
+   * content and increments its version.
+   *
+   * @throws ConflictError if another change to the client's plan landed
+   *   first (e.g. two generations at once)
+   * @param generated - Structured plan returned by the AI
+   * @param client - Client the plan was generated for
+   * @param userId - User requesting the plan
+   * @param orgId - Organization ID
+   * @param details - Start date and token usage of the generation
+   * @returns The stored plan
+   */
+  async storeGeneratedPlan(
+    generated: AIGeneratedPlan,
+    client: ClientResponse,
+    userId: string,
+    orgId: string | undefined,
+    details: {
+      start_date?: Date;
+      usage?: PlanGenerationUsage;
+    } = {}
+  ): Promise<PlanResponse> {
+    const planData = planFactory.createFromAIGeneration(generated, {
+      client_id: client.id,
+      user_id: userId,
+      organization_id: orgId ?? client.organization_id,
+      start_date: details.start_date,
+      generation_metadata: {
+        provider: PLAN_GENERATION_CONFIG.provider,
+        model: PLAN_GENERATION_CONFIG.model,
+        generated_at: new Date(),
+        prompt_tokens: details.usage?.promptTokens,
+        completion_tokens: details.usage?.completionTokens,
+        total_tokens: details.usage?.totalTokens,
+        context_confidence: client.research_metadata.confidence,
+      },
+    });
+
+    const existingPlan = await this.repository.findOne({
+      client_id: client.id,
+      is_deleted: false,
+    });
+
+    if (!existingPlan) {
+      const { _id, ...createData } = planData;
+      void _id;
+
+      let createdPlan: IPlan;
+      try {
+        createdPlan = await this.repository.create(createData);
+      } catch (error) {
+        // Another generation created the client's plan meanwhile
+        if (isDuplicateKeyError(error)) {
+          throw new ConflictError(
+            "A plan was generated for this client at the same time - reload and retry",
+            { clientId: client.id }
+          );
+        }
+        throw error;
+      }
+
+      await this.snapshotPlanVersion(
+        createdPlan,
+        userId,
+        PlanChangeType.GENERATED
+      );
+
+      log.info("Plan created", {
+        planId: String(createdPlan._id),
+        clientId: client.id,
+        version: createdPlan.version,
+      });
+
+      const plan = this.mapEntityToResponse(createdPlan);
+      await this.scheduleTasks(plan, userId, orgId);
+
+      return plan;
+    }
+
+    const updatedPlan = await this.writeNextPlanVersion(existingPlan, {
+      title: planData.title,
+      summary: planData.summary,
+      status: PlanStatus.DRAFT,
+      start_date: planData.start_date,
+      pillars: planData.pillars,
+      channels: planData.channels,
+      calendar: planData.calendar,
+      kpis: planData.kpis,
+      generation_metadata: planData.generation_metadata,
+      updated_by: userId,
+    });
+
+    await this.snapshotPlanVersion(
+      updatedPlan,
+      userId,
+      PlanChangeType.REGENERATED
+    );
+
+    log.info("Plan regenerated", {
+      planId: String(updatedPlan._id),
+      clientId: client.id,
+      version: updatedPlan.version,
+    });
+
+    const plan = this.mapEntityToResponse(updatedPlan);
+    await this.scheduleTasks(plan, userId, orgId);
+
+    return plan;
+  }
+
+  /**
+   * Build the plan generation prompt from the client's context
+   * Only the strategy-relevant parts of the context are included
+   */
+  private buildPlanPrompt(
+    client: ClientResponse,
+    instructions?: string
+  ): string {
+    const context = {
+      company: client.company,
+      product: client.product,
+      icp: client.icp,
+      business_goals: client.business_goals,
+      brand_voice: client.brand_voice,
+      competitors: client.competitors,
+      current_metrics: client.current_metrics,
+      content_inventory: client.content_inventory,
+      tech_stack: client.tech_stack,
+      resources: client.resources,
+      conversion_funnel: client.conversion_funnel,
+    };
+
+    return `You are a senior growth strategist building a ${PLAN_DURATION_DAYS}-day marketing plan for an early-stage company.
+
+**CLIENT CONTEXT (JSON):**
+${JSON.stringify(context, null, 2)}
+
+**RESEARCH CONFIDENCE:** ${
+      client.research_metadata.confidence ?? "unknown"
+    } (0-1). Treat low-confidence context as a hypothesis, not a fact.
+
+**BUILD THE PLAN:**
+
+### 1. PILLARS (3-5)
+- Strategic themes the content and campaigns are organised around
+- Each pillar must tie back to the ICP's pain points or the business goals
+- Give each pillar a short unique name, a description, an objective and 3-6 topics
+
+### 2. CHANNELS
+- Pick channels the team can realistically run with its current resources
+- Mark 1-2 channels as "primary", the rest "secondary" or "experimental"
+- Explain the rationale, a cadence (e.g. "3x/week") and concrete tactics
+
+### 3. ${PLAN_DURATION_DAYS}-DAY CALENDAR
+- Schedule work across days 1-${PLAN_DURATION_DAYS}; every week must have items
+- Each item references exactly one pillar by name and one of the chosen channels
+- Give each item an actionable title, a description, a content type and estimated hours
+- Respect team capacity: don't schedule more hours than the team can deliver
+
+### 4. KPIs (3-6)
+- Measurable targets for the ${PLAN_DURATION_DAYS}-day period
+- Use current metrics as baselines where available
+- Targets must be ambitious but achievable for the company's stage
+
+**RULES:**
+- Be specific to this company - no generic marketing advice
+- Never invent facts about the company; base assumptions on the context above
+- Title the plan and summarise the overall strategy in 2-3 sentences
+${instructions ? `\n**STRATEGIST INSTRUCTIONS:**\n${instructions}\n` : ""}
+Return complete JSON matching the schema.`;
+  }
+
+  /**
+   * ========================================================================
+   * Plan Management Methods
+   * ========================================================================
+   */
+
+  /**
+   * Get plan by ID
+   */
+  async getPlan(planId: string): Promise<PlanResponse> {
+    log.debug("Fetching plan", { planId });
+
+    const plan = await this.repository.findById(planId);
+
+    if (!plan) {
+      throw new NotFoundError(`Plan not found with ID: ${planId}`);
+    }
+
+    return this.mapEntityToResponse(plan);
+  }
+
+  /**
+   * Find plans by client
+   */
+  async getPlansByClient(clientId: string): Promise<PlanResponse[]> {
+    log.debug("Finding plans by client", { clientId });
+
+    const [plans] = await this.repository.find({
+      client_id: clientId,
+    });
+
+    return plans.map((p) => this.mapEntityToResponse(p));
+  }
+
+  /**
+   * Find plans by organization
+   */
+  async findPlansByOrganization(
+    organizationId: string
+  ): Promise<PlanResponse[]> {
+    log.debug("Finding plans by organization", { organizationId });
+
+    const [plans] = await this.repository.find({
+      organization_id: organizationId,
+    });
+
+    return plans.map((p) => this.mapEntityToResponse(p));
+  }
+
+  /**
+   * Hand-edit a plan
+   * Content changes bump the plan version and store a new snapshot;
+   * status-only changes update the plan in place.
+   *
+   * @param planId - Plan to edit
+   * @param updates - Fields to change
+   * @param userId - User making the edit
+   * @returns The updated plan
+   * @throws ConflictError if the plan's content changed since it was read
+   */
+  async updatePlan(
+    planId: string,
+    updates: UpdatePlanInput,
+    userId: string
+  ): Promise<PlanResponse> {
+    log.info("Updating plan", { planId });
+
+    const existingPlan = await this.repository.findById(planId);
+
+    if (!existingPlan) {
+      throw new NotFoundError(`Plan not found with ID: ${planId}`);
+    }
+
+    const updateData = this.prepareEntityForUpdate(updates, userId);
+    const changesContent = PLAN_CONTENT_FIELDS.some(
+      (field) => updates[field] !== undefined
+    );
+
+    updateData.updated_by = userId;
+
+    const updatedPlan = changesContent
+      ? await this.writeNextPlanVersion(existingPlan, updateData)
+      : await this.repository.updateById(planId, updateData);
+
+    if (!updatedPlan) {
+      throw new NotFoundError(`Plan not found after update with ID: ${planId}`);
+    }
+
+    if (changesContent) {
+      await this.snapshotPlanVersion(
+        updatedPlan,
+        userId,
+        PlanChangeType.EDITED
+      );
+    }
+
+    log.info("Plan updated", {
+      planId,
+      version: updatedPlan.version,
+      newVersion: changesContent,
+    });
+
+    const plan = this.mapEntityToResponse(updatedPlan);
+    if (updates.calendar !== undefined) {
+      await this.scheduleTasks(plan, userId);
+    }
+
+    return plan;
+  }
+
+  /**
+   * ========================================================================
+   * Plan Versioning
+   * ========================================================================
+   */
+
+  /**
+   * Write a change that makes a new plan version
+   * Conditional on the version the change was based on, so two concurrent
+   * changes can't both write the next version (and the second one's
+   * snapshot can't fail after the plan was already overwritten).
+   *
+   * @throws ConflictError if the plan changed since it was read
+   */
+  private async writeNextPlanVersion(
+    existingPlan: IPlan,
+    update: Partial<IPlan>
+  ): Promise<IPlan> {
+    const updatedPlan = await this.repository.updateOne(
+      { _id: existingPlan._id, version: existingPlan.version } as any,
+      { ...update, version: existingPlan.version + 1 }
+    );
+
+    if (!updatedPlan) {
+      throw new ConflictError(
+        `Plan changed while it was being updated (version ${existingPlan.version} is no longer current) - reload and retry`,
+        { planId: String(existingPlan._id), version: existingPlan.version }
+      );
+    }
+
+    return updatedPlan;
+  }
+
+  /**
+   * Store an immutable snapshot of the plan's current state
+   * Clones the plan document into the versions collection via
+   * BaseService.cloneToCollection, so every plan field is carried over.
+   */
+  private async snapshotPlanVersion(
+    plan: IPlan,
+    userId: string,
+    changeType: PlanChangeType,
+    details: { change_note?: string; restored_from_version?: number } = {}
+  ): Promise<void> {
+    const staticFields: Record<string, any> = {
+      ...this.prepareCloneStaticFields(userId),
+      change_type: changeType,
+    };
+
+    // $literal keeps user-provided text from being read as a field path
+    if (details.change_note) {
+      staticFields.change_note = { $literal: details.change_note };
+    }
+    if (details.restored_from_version) {
+      staticFields.restored_from_version = details.restored_from_version;
+    }
+
+    const result = await this.cloneToCollection(
+      PLAN_VERSIONS_COLLECTION,
+      userId,
+      { _id: plan._id } as EntityFilter<IPlan>,
+      {
+        staticFields,
+        excludeFields: ["deleted_at", "deleted_by"],
+      }
+    );
+
+    if (result.errors.length > 0 || result.insertedCount === 0) {
+      log.error("Failed to store plan version", {
+        planId: String(plan._id),
+        version: plan.version,
+        errors: result.errors,
+      });
+
+      throw new DatabaseError("Failed to store plan version", {
+        planId: String(plan._id),
+        version: plan.version,
+        errors: result.errors,
+      });
+    }
+
+    log.debug("Plan version stored", {
+      planId: String(plan._id),
+      version: plan.version,
+      changeType,
+    });
+  }
+
+  /**
+   * Load a single stored version of a plan
+   */
+  private async findPlanVersion(
+    planId: string,
+    version: number
+  ): Promise<IPlanVersion> {
+    const snapshot = await this.versionRepository.findOne({
+      plan_id: planId,
+      version,
+    });
+
+    if (!snapshot) {
+      throw new NotFoundError(`Plan version ${version} for plan ${planId}`);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * List all stored versions of a plan, newest first
+   */
+  async getPlanVersions(planId: string): Promise<PlanVersionResponse[]> {
+    log.debug("Fetching plan versions", { planId });
+
+    const [versions] = await this.versionRepository.find(
+      { plan_id: planId },
+      { sort: { version: -1 } }
+    );
+
+    return PlanVersionResponseDTO.fromEntities(versions);
+  }
+
+  /**
+   * Get a single stored version of a plan
+   */
+  async getPlanVersion(
+    planId: string,
+    version: number
+  ): Promise<PlanVersionResponse> {
+    const snapshot = await this.findPlanVersion(planId, version);
+    return PlanVersionResponseDTO.fromEntity(snapshot);
+  }
+
+  /**
+   * Structured diff between two stored versions of a plan
+   *
+   * @param planId - Plan the versions belong to
+   * @param fromVersion - Baseline version
+   * @param toVersion - Version to compare against the baseline
+   * @returns Pillars added/removed, calendar items moved, KPI targets changed
+   */
+  async diffPlanVersions(
+    planId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<IPlanDiff> {
+    log.debug("Diffing plan versions", { planId, fromVersion, toVersion });
+
+    const [from, to] = await Promise.all([
+      this.findPlanVersion(planId, fromVersion),
+      this.findPlanVersion(planId, toVersion),
+    ]);
+
+    return diffPlans(from, to);
+  }
+
+  /**
+   * Roll a plan back to the content of an earlier version
+   * The rollback itself is recorded as a new version, so history is never
+   * rewritten and the rollback can be undone the same way.
+   *
+   * @param planId - Plan to roll back
+   * @param targetVersion - Version whose content should be restored
+   * @param userId - User performing the rollback
+   * @param note - Optional reason, stored on the new version
+   * @returns The updated plan
+   * @throws ConflictError if the plan changed since it was read
+   */
+  async rollbackPlan(
+    planId: string,
+    targetVersion: number,
+    userId: string,
+    note?: string
+  ): Promise<PlanResponse> {
+    log.info("Rolling back plan", { planId, targetVersion });
+
+    const existingPlan = await this.repository.findById(planId);
+
+    if (!existingPlan) {
+      throw new NotFoundError(`Plan not found with ID: ${planId}`);
+    }
+
+    if (existingPlan.version === targetVersion) {
+      throw new ValidationError(`Plan is already at version ${targetVersion}`, {
+        planId,
+        targetVersion,
+      });
+    }
+
+    const snapshot = await this.findPlanVersion(planId, targetVersion);
+
+    const updatedPlan = await this.writeNextPlanVersion(existingPlan, {
+      title: snapshot.title,
+      summary: snapshot.summary,
+      start_date: snapshot.start_date,
+      pillars: snapshot.pillars,
+      channels: snapshot.channels,
+      calendar: snapshot.calendar,
+      kpis: snapshot.kpis,
+      generation_metadata: snapshot.generation_metadata,
+      updated_by: userId,
+    });
+
+    await this.snapshotPlanVersion(
+      updatedPlan,
+      userId,
+      PlanChangeType.ROLLBACK,
+      {
+        change_note: note,
+        restored_from_version: targetVersion,
+      }
+    );
+
+    log.info("Plan rolled back", {
+      planId,
+      restoredFrom: targetVersion,
+      version: updatedPlan.version,
+    });
+
+    const plan = this.mapEntityToResponse(updatedPlan);
+    await this.scheduleTasks(plan, userId);
+
+    return plan;
+  }
+
+  /**
+   * ========================================================================
+   * Task Scheduling
+   * ========================================================================
+   */
+
+  /**
+   * Expand a plan's calendar into tasks
+   * Safe to call repeatedly - items that already have a task are skipped.
+   * Open tasks for items no longer on the plan are cancelled.
+   *
+   * @param planId - Plan to expand
+   * @param userId - User requesting the expansion (becomes the task owner)
+   * @param orgId - Organization ID
+   * @returns Counts of created, skipped and cancelled tasks
+   */
+  async expandPlanTasks(
+    planId: string,
+    userId: string,
+    orgId?: string
+  ): Promise<IPlanExpansionResult> {
+    const plan = await this.getPlan(planId);
+    return tasksService.expandPlanToTasks(plan, userId, orgId);
+  }
+
+  /**
+   * Schedule tasks for a freshly saved plan
+   * Publishes plan.generated so the tasks module expands the plan durably.
+   * If the event can't be sent the plan is expanded inline instead. The plan
+   * is already stored, so a failure here is logged rather than failing the
+   * save; expandPlanTasks can be re-run to catch up.
+   */
+  private async scheduleTasks(
+    plan: PlanResponse,
+    userId: string,
+    orgId?: string
+  ): Promise<void> {
+    try {
+      await publishEvent(
+        EventName.PLAN_GENERATED,
+        {
+          plan_id: plan.id,
+          client_id: plan.client_id,
+          organization_id: orgId ?? plan.organization_id,
+          version: plan.version,
+          calendar_items: plan.calendar.length,
+        },
+        {
+          projectId: plan.client_id,
+          userId,
+          source: "strategy-module",
+          idempotencyKey: createIdempotencyKey(
+            plan.client_id,
+            "plan",
+            plan.id,
+            `v${plan.version}`
+          ),
+        }
+      );
+      return;
+    } catch (error) {
+      log.warn("Failed to publish plan.generated, expanding inline", {
+        planId: plan.id,
+        error,
+      });
+    }
+
+    try {
+      await tasksService.expandPlanToTasks(plan, userId, orgId);
+    } catch (error) {
+      log.error("Failed to schedule tasks for plan", {
+        planId: plan.id,
+        error,
+      });
+    }
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const strategyService = new StrategyService();
@@ -0,0 +1,175 @@
+/**
+ * Strategy Module - Plan Diff
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Computes a structured diff between two plan versions so strategists can
+ * see what changed: pillars added/removed, calendar items moved and KPI
+ * targets changed.
+ *
+ * MATCHING RULES:
+ * - Pillars match by name (case/whitespace-insensitive)
+ * - Calendar items match by item_id first, then by title + channel
+ *   (regenerated plans get fresh item_ids but often keep the same items)
+ * - KPIs match by metric, falling back to name
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types (domain types)
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import {
+  ICalendarItem,
+  ICalendarItemMove,
+  IKPI,
+  IKPITargetChange,
+  IPillar,
+  IPlanDiff,
+} from "./types";
+
+/**
+ * The parts of a plan that take part in a diff
+ */
+export interface DiffablePlan {
+  version: number;
+  pillars?: IPillar[];
+  calendar?: ICalendarItem[];
+  kpis?: IKPI[];
+}
+
+/**
+ * Normalize a string for identity comparisons
+ */
+const normalizeKey = (value: string | undefined): string =>
+  (value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Split two lists into added/removed/matched pairs using a key function
+ */
+function matchByKey<T>(
+  fromItems: T[],
+  toItems: T[],
+  keyOf: (item: T) => string
+): { added: T[]; removed: T[]; matched: Array<[T, T]> } {
+  const remaining = new Map<string, T[]>();
+  for (const item of fromItems) {
+    const key = keyOf(item);
+    remaining.set(key, [...(remaining.get(key) ?? []), item]);
+  }
+
+  const added: T[] = [];
+  const matched: Array<[T, T]> = [];
+
+  for (const item of toItems) {
+    const candidates = remaining.get(keyOf(item));
+    const previous = candidates?.shift();
+    if (previous) {
+      matched.push([previous, item]);
+    } else {
+      added.push(item);
+    }
+  }
+
+  const removed = [...remaining.values()].flat();
+
+  return { added, removed, matched };
+}
+
+/**
+ * Diff pillars by name
+ */
+function diffPillars(from: IPillar[], to: IPillar[]): IPlanDiff["pillars"] {
+  const { added, removed } = matchByKey(from, to, (pillar) =>
+    normalizeKey(pillar.name)
+  );
+  return { added, removed };
+}
+
+/**
+ * Diff calendar items, reporting items whose day changed as moved
+ */
+function diffCalendar(
+  from: ICalendarItem[],
+  to: ICalendarItem[]
+): IPlanDiff["calendar"] {
+  // Pass 1: stable identifiers
+  const byId = matchByKey(from, to, (item) => item.item_id);
+
+  // Pass 2: title + channel for items whose identifiers changed
+  const byContent = matchByKey(
+    byId.removed,
+    byId.added,
+    (item) => `${normalizeKey(item.title)}|${item.channel}`
+  );
+
+  const moved: ICalendarItemMove[] = [...byId.matched, ...byContent.matched]
+    .filter(([previous, current]) => previous.day !== current.day)
+    .map(([previous, current]) => ({
+      item_id: current.item_id,
+      title: current.title,
+      from_day: previous.day,
+      to_day: current.day,
+    }))
+    .sort((a, b) => a.to_day - b.to_day);
+
+  return {
+    added: byContent.added,
+    removed: byContent.removed,
+    moved,
+  };
+}
+
+/**
+ * Diff KPIs, reporting target changes for KPIs present in both versions
+ */
+function diffKPIs(from: IKPI[], to: IKPI[]): IPlanDiff["kpis"] {
+  const { added, removed, matched } = matchByKey(from, to, (kpi) =>
+    normalizeKey(kpi.metric || kpi.name)
+  );
+
+  const target_changed: IKPITargetChange[] = matched
+    .filter(([previous, current]) => previous.target !== current.target)
+    .map(([previous, current]) => ({
+      name: current.name,
+      metric: current.metric,
+      from_target: previous.target,
+      to_target: current.target,
+    }));
+
+  return { added, removed, target_changed };
+}
+
+/**
+ * Compute the structured diff between two plan versions
+ *
+ * @param from - Older version (the baseline)
+ * @param to - Newer version
+ * @returns Structured diff
+ */
+export function diffPlans(from: DiffablePlan, to: DiffablePlan): IPlanDiff {
+  const pillars = diffPillars(from.pillars ?? [], to.pillars ?? []);
+  const calendar = diffCalendar(from.calendar ?? [], to.calendar ?? []);
+  const kpis = diffKPIs(from.kpis ?? [], to.kpis ?? []);
+
+  const has_changes = [
+    pillars.added,
+    pillars.removed,
+    calendar.added,
+    calendar.removed,
+    calendar.moved,
+    kpis.added,
+    kpis.removed,
+    kpis.target_changed,
+  ].some((changes) => changes.length > 0);
+
+  return {
+    from_version: from.version,
+    to_version: to.version,
+    has_changes,
+    pillars,
+    calendar,
+    kpis,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Strategy Module - Schema Definitions (Zod)
+ *
+ * ============================================
+ * SINGLE SOURCE OF TRUTH - ZOD SCHEMAS
+ * ============================================
+ *
+ * This file defines the COMPLETE plan structure using Zod schemas.
+ * These schemas serve three purposes simultaneously:
+ *
+ * 1. **TypeScript Types** - Inferred via z.infer<>
+ * 2. **Mongoose Schema** - Generated via zodToMongoose()
+ * 3. **Runtime Validation** - Reused by API and AI structured output schemas
+ *
+ * DEPENDENCIES:
+ * ✅ CAN import: zod, enums from ./types
+ * ❌ CANNOT import: mongoose, infrastructure, services
+ *
+ * WHO CAN IMPORT THIS:
+ * ✅ domain/types.ts - For type inference
+ * ✅ infrastructure/schema.ts - For Mongoose schema generation
+ * ✅ api/validation.ts - For API validation
+ * ✅ application/* - For business logic validation
+ */
+
+import { z } from "zod";
+import {
+  PLAN_DURATION_DAYS,
+  PlanStatus,
+  PlanStatusValues,
+  PlanChannelValues,
+  ChannelPriorityValues,
+  PlanChangeTypeValues,
+} from "./types";
+
+// ============================================
+// NESTED DOMAIN SCHEMAS
+// ============================================
+
+/**
+ * Strategic content pillar schema
+ */
+export const PillarSchema = z.object({
+  name: z.string().min(1, "Pillar name is required").trim(),
+  description: z.string().trim(),
+  objective: z.string().trim().optional(),
+  topics: z.array(z.string().trim()).optional().default([]),
+});
+
+/**
+ * Channel allocation schema
+ */
+export const ChannelStrategySchema = z.object({
+  channel: z.enum(PlanChannelValues),
+  priority: z.enum(ChannelPriorityValues),
+  rationale: z.string().trim(),
+  cadence: z.string().trim().optional(),
+  tactics: z.array(z.string().trim()).optional().default([]),
+});
+
+/**
+ * Calendar item schema
+ */
+export const CalendarItemSchema = z.object({
+  item_id: z.string().min(1),
+  day: z.number().int().min(1).max(PLAN_DURATION_DAYS),
+  title: z.string().min(1, "Calendar item title is required").trim(),
+  description: z.string().trim().optional(),
+  pillar: z.string().trim(),
+  channel: z.enum(PlanChannelValues),
+  content_type: z.string().trim().optional(),
+  estimated_hours: z.number().nonnegative().optional(),
+});
+
+/**
+ * KPI schema
+ */
+export const KPISchema = z.object({
+  name: z.string().min(1, "KPI name is required").trim(),
+  metric: z.string().trim(),
+  target: z.number().nonnegative(),
+  baseline: z.number().nonnegative().optional(),
+  unit: z.string().trim().optional(),
+});
+
+/**
+ * AI generation metadata schema
+ */
+export const GenerationMetadataSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  generated_at: z.coerce.date(),
+  prompt_tokens: z.number().nonnegative().optional(),
+  completion_tokens: z.number().nonnegative().optional(),
+  total_tokens: z.number().nonnegative().optional(),
+  context_confidence: z.number().min(0).max(1).optional(),
+});
+
+// ============================================
+// COMPLETE PLAN SCHEMA
+// ============================================
+
+/**
+ * Complete Plan Fields Schema (Domain-Specific Only)
+ *
+ * Base entity fields (created_at, is_deleted, etc.) are added separately
+ * at the infrastructure layer to maintain clean separation.
+ *
+ * USAGE:
+ * - Mongoose: mergeWithBaseFields(PlanFieldsSchema, baseUserEntityDefinition)
+ * - API Validation: Reuse nested schemas as needed
+ * - TypeScript: z.infer<typeof PlanFieldsSchema>
+ */
+export const PlanFieldsSchema = z.object({
+  // User ownership (required at infrastructure layer, not here)
+  user_id: z.string().min(1),
+  organization_id: z.string().optional(),
+
+  // Client this plan was generated for
+  client_id: z.string().min(1),
+
+  // Plan overview
+  title: z.string().min(1, "Plan title is required").trim(),
+  summary: z.string().trim().optional(),
+  status: z.enum(PlanStatusValues).default(PlanStatus.DRAFT),
+  version: z.number().int().min(1).default(1),
+  start_date: z.coerce.date().optional(),
+
+  // Strategy content
+  pillars: z.array(PillarSchema).optional().default([]),
+  channels: z.array(ChannelStrategySchema).optional().default([]),
+  calendar: z.array(CalendarItemSchema).optional().default([]),
+  kpis: z.array(KPISchema).optional().default([]),
+
+  // AI generation metadata
+  generation_metadata: GenerationMetadataSchema.optional(),
+});
+
+/**
+ * Infer TypeScript type from schema
+ * This is the pure domain type without base entity fields
+ */
+export type PlanFields = z.infer<typeof PlanFieldsSchema>;
+
+// ============================================
+// PLAN VERSION SCHEMA
+// ============================================
+
+/**
+ * Plan Version Fields Schema
+ *
+ * A version is a full copy of the plan fields plus snapshot metadata.
+ * Snapshots are produced by cloning the plan document, so every plan
+ * field is carried over automatically.
+ */
+export const PlanVersionFieldsSchema = PlanFieldsSchema.extend({
+  plan_id: z.string().min(1),
+  change_type: z.enum(PlanChangeTypeValues),
+  change_note: z.string().trim().optional(),
+  restored_from_version: z.number().int().min(1).optional(),
+});
+
+export type PlanVersionFields = z.infer<typeof PlanVersionFieldsSchema>;
@@ -0,0 +1,243 @@
+/**
+ * Strategy Module - Domain Types
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * This file contains ONLY domain types and interfaces for growth plans.
+ * A plan is the 30-day strategy generated from a client's "truth file"
+ * (the context built by ClientsService) and is owned by a single client.
+ *
+ * TYPE INFERENCE STRATEGY:
+ * - Enums are defined here for use in validation
+ * - Simple interfaces kept for documentation purposes
+ * - IPlan is INFERRED from Zod schema (schema.definition.ts)
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: @/shared/types/repository.types (IEntity, DatabaseId)
+ * ✅ CAN import: ./schema.definition (Zod schemas for type inference)
+ * ✅ CAN import: Pure TypeScript types, enums, interfaces
+ * ❌ CANNOT import: mongoose, Database-specific types
+ * ❌ CANNOT import: ../infrastructure/* (schema, repository)
+ * ❌ CANNOT import: ../api/* (validation, DTOs)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { IEntity, DatabaseId } from "@/shared/types/repository.types";
+import { z } from "zod";
+import { PlanFieldsSchema, PlanVersionFieldsSchema } from "./schema.definition";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Number of days covered by a generated plan calendar
+ */
+export const PLAN_DURATION_DAYS = 30;
+
+// ============================================
+// ENUMS - Business Domain Enums
+// ============================================
+
+/**
+ * Plan lifecycle status
+ */
+export enum PlanStatus {
+  DRAFT = "draft",
+  ACTIVE = "active",
+  COMPLETED = "completed",
+}
+
+export const PlanStatusValues = Object.values(PlanStatus);
+
+/**
+ * Marketing channels a plan can allocate effort to
+ */
+export enum PlanChannel {
+  SEO = "seo",
+  BLOG = "blog",
+  LINKEDIN = "linkedin",
+  TWITTER = "twitter",
+  EMAIL = "email",
+  PAID_ADS = "paid_ads",
+  COMMUNITY = "community",
+  PARTNERSHIPS = "partnerships",
+  PR = "pr",
+  VIDEO = "video",
+}
+
+export const PlanChannelValues = Object.values(PlanChannel);
+
+/**
+ * Relative priority of a channel within a plan
+ */
+export enum ChannelPriority {
+  PRIMARY = "primary",
+  SECONDARY = "secondary",
+  EXPERIMENTAL = "experimental",
+}
+
+export const ChannelPriorityValues = Object.values(ChannelPriority);
+
+/**
+ * What produced a stored plan version
+ */
+export enum PlanChangeType {
+  GENERATED = "generated",
+  REGENERATED = "regenerated",
+  EDITED = "edited",
+  ROLLBACK = "rollback",
+}
+
+export const PlanChangeTypeValues = Object.values(PlanChangeType);
+
+// ============================================
+// DOMAIN INTERFACES - Database Agnostic
+// ============================================
+
+/**
+ * Strategic content pillar (theme the plan is organised around)
+ */
+export interface IPillar {
+  name: string;
+  description: string;
+  objective?: string;
+  topics?: string[];
+}
+
+/**
+ * Channel allocation within the plan
+ */
+export interface IChannelStrategy {
+  channel: PlanChannel;
+  priority: ChannelPriority;
+  rationale: string;
+  cadence?: string; // e.g., "2x/week"
+  tactics?: string[];
+}
+
+/**
+ * Single scheduled item on the 30-day calendar
+ */
+export interface ICalendarItem {
+  item_id: string; // Stable identifier (survives edits and regenerations)
+  day: number; // 1-30, relative to plan start_date
+  title: string;
+  description?: string;
+  pillar: string; // Name of the pillar this item supports
+  channel: PlanChannel;
+  content_type?: string; // e.g., "blog post", "linkedin carousel"
+  estimated_hours?: number;
+}
+
+/**
+ * Measurable target the plan is accountable for
+ */
+export interface IKPI {
+  name: string;
+  metric: string; // e.g., "monthly_traffic", "leads"
+  target: number;
+  baseline?: number;
+  unit?: string; // e.g., "visits", "%", "signups"
+}
+
+/**
+ * Metadata about the AI generation that produced the plan
+ */
+export interface IGenerationMetadata {
+  provider: string;
+  model: string;
+  generated_at: Date;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  context_confidence?: number; // Client research confidence at generation time
+}
+
+/**
+ * Calendar item that kept its identity between versions but changed day
+ */
+export interface ICalendarItemMove {
+  item_id: string;
+  title: string;
+  from_day: number;
+  to_day: number;
+}
+
+/**
+ * KPI whose target changed between versions
+ */
+export interface IKPITargetChange {
+  name: string;
+  metric: string;
+  from_target: number;
+  to_target: number;
+}
+
+/**
+ * Structured diff between two plan versions
+ */
+export interface IPlanDiff {
+  from_version: number;
+  to_version: number;
+  has_changes: boolean;
+  pillars: {
+    added: IPillar[];
+    removed: IPillar[];
+  };
+  calendar: {
+    added: ICalendarItem[];
+    removed: ICalendarItem[];
+    moved: ICalendarItemMove[];
+  };
+  kpis: {
+    added: IKPI[];
+    removed: IKPI[];
+    target_changed: IKPITargetChange[];
+  };
+}
+
+// ============================================
+// ROOT DOMAIN ENTITY - TYPE INFERRED FROM ZOD
+// ============================================
+
+/**
+ * IPlan - Database-Agnostic Growth Plan Entity
+ *
+ * Inferred from PlanFieldsSchema (schema.definition.ts), extended with
+ * base entity fields. `version` is incremented every time the plan content
+ * changes (regeneration, hand edit, rollback); each version is also stored
+ * as an immutable IPlanVersion snapshot.
+ *
+ * @extends IEntity<DatabaseId> - Inherits: _id, created_by, updated_by, created_at, updated_at, is_deleted
+ */
+export type IPlan = Omit<
+  z.infer<typeof PlanFieldsSchema>,
+  keyof IEntity<DatabaseId> | "user_id" | "organization_id"
+> &
+  IEntity<DatabaseId> & {
+    user_id: string;
+    organization_id?: string;
+    deleted_at?: Date;
+    deleted_by?: string;
+  };
+
+/**
+ * IPlanVersion - Immutable snapshot of a plan at a given version
+ *
+ * Snapshots are written every time plan content changes (generation,
+ * hand edit, rollback) and are never updated afterwards. `created_by` is
+ * the user who produced that version.
+ *
+ * @extends IEntity<DatabaseId> - Inherits: _id, created_by, updated_by, created_at, updated_at, is_deleted
+ */
+export type IPlanVersion = Omit<
+  z.infer<typeof PlanVersionFieldsSchema>,
+  keyof IEntity<DatabaseId> | "user_id" | "organization_id"
+> &
+  IEntity<DatabaseId> & {
+    user_id: string;
+    organization_id?: string;
+  };
@@ -0,0 +1,121 @@
+/**
+ * Strategy Module - Public API
+ *
+ * ============================================
+ * BARREL EXPORT WITH ARCHITECTURAL BOUNDARIES
+ * ============================================
+ *
+ * Controls what is exported from the strategy module.
+ *
+ * DIRECTORY STRUCTURE:
+ * ```
+ * strategy/
+ *   domain/          - IPlan, IPlanVersion, plan enums, plan diff, Zod schema definitions
+ *   application/     - StrategyService, PlanFactory
+ *   infrastructure/  - Mongoose schema (NOT exported!)
+ *   api/             - Validation schemas, response DTOs, query config
+ *   index.ts         - This file (controlled exports)
+ * ```
+ */
+
+// ============================================
+// DOMAIN LAYER
+// ============================================
+
+export type {
+  IPlan,
+  IPillar,
+  IChannelStrategy,
+  ICalendarItem,
+  IKPI,
+  IGenerationMetadata,
+  IPlanVersion,
+  IPlanDiff,
+  ICalendarItemMove,
+  IKPITargetChange,
+} from "./domain/types";
+
+export {
+  PLAN_DURATION_DAYS,
+  PlanStatus,
+  PlanChannel,
+  ChannelPriority,
+  PlanStatusValues,
+  PlanChannelValues,
+  ChannelPriorityValues,
+  PlanChangeType,
+  PlanChangeTypeValues,
+} from "./domain/types";
+
+export { diffPlans, type DiffablePlan } from "./domain/plan-diff";
+
+// ============================================
+// APPLICATION LAYER
+// ============================================
+
+export {
+  StrategyService,
+  strategyService,
+  type GeneratePlanOptions,
+  type PlanGenerationStream,
+} from "./application/service";
+
+export {
+  PlanFactory,
+  planFactory,
+  type PlanGenerationContext,
+} from "./application/factory";
+
+// ============================================
+// API LAYER
+// ============================================
+
+export {
+  // Input schemas
+  GeneratePlanSchema,
+  CreatePlanSchema,
+  UpdatePlanSchema,
+  EditableCalendarItemSchema,
+  RollbackPlanSchema,
+  PlanVersionDiffQuerySchema,
+
+  // Output schemas
+  PlanResponseSchema,
+  PlanVersionResponseSchema,
+  AIGeneratedPlanSchema,
+
+  // TypeScript types inferred from schemas
+  type GeneratePlanInput,
+  type CreatePlanInput,
+  type UpdatePlanInput,
+  type RollbackPlanInput,
+  type PlanVersionDiffQuery,
+  type PlanResponse,
+  type PlanVersionResponse,
+  type PlanDiffResponse,
+  type AIGeneratedPlan,
+} from "./api/validation";
+
+export {
+  PlanResponseDTO,
+  toPlanResponse,
+  toPlanResponses,
+  PlanVersionResponseDTO,
+} from "./api/response";
+
+export { planQueryConfig } from "./api/query.config";
+
+// ============================================
+// INFRASTRUCTURE LAYER
+// ============================================
+
+export { PLAN_MODEL_NAME } from "./infrastructure/schema";
+export {
+  PLAN_VERSION_MODEL_NAME,
+  PLAN_VERSIONS_COLLECTION,
+} from "./infrastructure/plan-version.schema";
+
+// ❌ DO NOT EXPORT:
+// - PlanDocument (Mongoose-specific type)
+// - PlanModel (Mongoose model)
+// - PlanVersionDocument / PlanVersionModel
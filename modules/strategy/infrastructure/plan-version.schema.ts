@@ -0,0 +1,107 @@
+/**
+ * Strategy Module - Plan Version Mongoose Schema
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Database Implementation
+ * ============================================
+ *
+ * Immutable plan snapshots. Documents are written by cloning the plan
+ * document into this collection (BaseRepository.cloneToCollection) and are
+ * never updated afterwards.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: mongoose, Mongoose types, @/shared/db/base.schema.types
+ * ✅ CAN import: Domain schema definition (for zodToMongoose conversion)
+ * ⚠️  CAN export: PLAN_VERSION_MODEL_NAME, PLAN_VERSIONS_COLLECTION constants (safe - just strings)
+ * ❌ CANNOT be imported by: Services, factories, API routes (except the constants)
+ * ❌ CANNOT export: IPlanVersion (use ../domain/types for that)
+ */
+
+import mongoose, { Schema, Model, InferSchemaType } from "mongoose";
+import { modelRegistry } from "@/shared/db/model.registry";
+import {
+  baseUserEntityDefinition,
+  IMongooseDocument,
+} from "@/shared/db/base.schema.types";
+import { mergeWithBaseFields } from "@/shared/db/schema.builder";
+import { PlanVersionFieldsSchema } from "../domain/schema.definition";
+
+// ============================================
+// CONSTANTS - Safe to export everywhere
+// ============================================
+
+/**
+ * Model name constant - used by repository factory
+ */
+export const PLAN_VERSION_MODEL_NAME = "PlanVersion";
+
+/**
+ * Collection name - used as the cloneToCollection target
+ */
+export const PLAN_VERSIONS_COLLECTION = "plan_versions";
+
+// ============================================
+// MONGOOSE SCHEMA GENERATION - AUTOMATIC FROM ZOD
+// ============================================
+
+const planVersionDefinition = {
+  ...mergeWithBaseFields(PlanVersionFieldsSchema, baseUserEntityDefinition),
+
+  // Snapshots copy the plan's _id, so store it with the same type.
+  // Mongoose then casts string IDs in queries to ObjectId.
+  plan_id: { type: Schema.Types.ObjectId, required: true },
+};
+
+const PlanVersionSchema = new Schema(planVersionDefinition, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+  },
+  collection: PLAN_VERSIONS_COLLECTION,
+  versionKey: false,
+});
+
+// ============================================
+// INDEXES - Performance Optimization
+// ============================================
+
+/**
+ * One snapshot per plan version - a duplicate snapshot fails instead of
+ * silently creating a second history entry
+ */
+PlanVersionSchema.index({ plan_id: 1, version: -1 }, { unique: true });
+PlanVersionSchema.index({ client_id: 1, created_at: -1 });
+
+// ============================================
+// TYPE INFERENCE - Mongoose Document Type
+// ============================================
+
+/**
+ * PlanVersionDocument - Mongoose-specific document type
+ * ONLY use in repository implementations and infrastructure code.
+ */
+export type PlanVersionDocument = IMongooseDocument<
+  InferSchemaType<typeof PlanVersionSchema>
+>;
+
+// ============================================
+// MODEL CREATION & REGISTRATION
+// ============================================
+
+const PlanVersionModel =
+  (mongoose.models[PLAN_VERSION_MODEL_NAME] as Model<PlanVersionDocument>) ||
+  mongoose.model<PlanVersionDocument>(
+    PLAN_VERSION_MODEL_NAME,
+    PlanVersionSchema
+  );
+
+modelRegistry.register<PlanVersionDocument>(
+  PLAN_VERSION_MODEL_NAME,
+  PlanVersionModel
+);
+
+/**
+ * Export the Mongoose model
+ * ONLY use this in repository implementations!
+ */
+export default PlanVersionModel;
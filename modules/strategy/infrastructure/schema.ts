@@ -0,0 +1,118 @@
+/**
+ * Strategy Module - Mongoose Schema
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Database Implementation
+ * ============================================
+ *
+ * This file contains ONLY Mongoose-specific schema and document definitions.
+ * Uses automatic schema generation from Zod via mergeWithBaseFields().
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: mongoose, Mongoose types, @/shared/db/base.schema.types
+ * ✅ CAN import: Domain schema definition (for zodToMongoose conversion)
+ * ⚠️  CAN export: PLAN_MODEL_NAME constant (safe - just a string)
+ * ⚠️  CAN export: PlanDocument type (Mongoose-specific - for repository only)
+ * ❌ CANNOT be imported by: Services, factories, API routes
+ * ❌ CANNOT export: IPlan (use ../domain/types for that)
+ */
+
+import mongoose, { Schema, Model, InferSchemaType } from "mongoose";
+import { modelRegistry } from "@/shared/db/model.registry";
+import {
+  baseUserEntityDefinition,
+  IMongooseDocument,
+} from "@/shared/db/base.schema.types";
+import { mergeWithBaseFields } from "@/shared/db/schema.builder";
+import { PlanFieldsSchema } from "../domain/schema.definition";
+
+// ============================================
+// MODEL NAME CONSTANT - Safe to export everywhere
+// ============================================
+
+/**
+ * Model name constant - used by repository factory
+ * This is safe to export and use in application layer as it's just a string
+ */
+export const PLAN_MODEL_NAME = "Plan";
+
+// ============================================
+// MONGOOSE SCHEMA GENERATION - AUTOMATIC FROM ZOD
+// ============================================
+
+/**
+ * Plan Schema Definition - AUTO-GENERATED from Zod
+ * Merges PlanFieldsSchema with the base audit/soft-delete fields
+ */
+const planDefinition = mergeWithBaseFields(
+  PlanFieldsSchema,
+  baseUserEntityDefinition
+);
+
+/**
+ * Create the Mongoose Schema from the auto-generated definition
+ */
+const PlanSchema = new Schema(planDefinition, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+  },
+  collection: "plans",
+  versionKey: false,
+});
+
+// ============================================
+// INDEXES - Performance Optimization
+// ============================================
+
+PlanSchema.index({ client_id: 1, is_deleted: 1 });
+PlanSchema.index({ organization_id: 1, is_deleted: 1 });
+PlanSchema.index({ status: 1 });
+PlanSchema.index({ created_at: -1 });
+
+/**
+ * One live plan per client - concurrent first generations can't both create
+ * one. Deleted plans don't count.
+ */
+PlanSchema.index(
+  { client_id: 1 },
+  { unique: true, partialFilterExpression: { is_deleted: false } }
+);
+
+// ============================================
+// TYPE INFERENCE - Mongoose Document Type
+// ============================================
+
+/**
+ * PlanDocument - Mongoose-specific document type
+ *
+ * IMPORTANT: Only use in repository implementations and infrastructure code.
+ * Services and business logic should use IPlan from ../domain/types instead!
+ */
+export type PlanDocument = IMongooseDocument<
+  InferSchemaType<typeof PlanSchema>
+>;
+
+// ============================================
+// MODEL CREATION & REGISTRATION
+// ============================================
+
+/**
+ * Create or retrieve the Plan Mongoose model
+ * Handles hot module replacement in development
+ */
+const PlanModel =
+  (mongoose.models[PLAN_MODEL_NAME] as Model<PlanDocument>) ||
+  mongoose.model<PlanDocument>(PLAN_MODEL_NAME, PlanSchema);
+
+/**
+ * Register the model with the central registry
+ * This allows the repository factory to find the model by name
+ */
+modelRegistry.register<PlanDocument>(PLAN_MODEL_NAME, PlanModel);
+
+/**
+ * Export the Mongoose model
+ * ONLY use this in repository implementations!
+ */
+export default PlanModel;
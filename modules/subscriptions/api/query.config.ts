@@ -25,7 +25,7 @@ import {
  */
 type ExcludedSubscriptionFields = Exclude<
   keyof ISubscription,
-  | "limits"
+  | "limit_overrides"
   | "usage"
   | "metadata"
   | "created_by_propel_auth_org_id"
@@ -194,7 +194,7 @@ export const subscriptionQueryConfig: StrictQueryParserConfig<
   },
 
   excludedFields: [
-    "limits",
+    "limit_overrides",
     "usage",
     "metadata",
     "created_by_propel_auth_org_id",
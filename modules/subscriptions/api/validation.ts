@@ -19,7 +19,14 @@ import {
   SubscriptionStatusValues,
   BillingCycleValues,
   SubscriptionTier,
+  BillingCycle,
+  FeatureValues,
 } from "../domain/types";
+import {
+  UsageGroupBy,
+  UsageGroupByValues,
+  UsageMetricValues,
+} from "../domain/usage";
 import {
   createResponseSchema,
   createInputSchema,
@@ -83,6 +90,64 @@ export const IncrementUsageInputSchema = z.object({
 
 export type IncrementUsageInput = z.infer<typeof IncrementUsageInputSchema>;
 
+/**
+ * Start checkout for a paid tier
+ */
+export const CreateCheckoutSessionInputSchema = z.object({
+  tier: z
+    .enum(SubscriptionTierValues)
+    .refine((tier) => tier !== SubscriptionTier.FREE, {
+      message: "Checkout is only available for paid tiers",
+    }),
+  billing_cycle: z.enum(BillingCycleValues).default(BillingCycle.MONTHLY),
+  success_url: z.string().url(),
+  cancel_url: z.string().url(),
+});
+
+export type CreateCheckoutSessionInput = z.infer<
+  typeof CreateCheckoutSessionInputSchema
+>;
+
+/**
+ * Open the customer portal
+ */
+export const CreatePortalSessionInputSchema = z.object({
+  return_url: z.string().url(),
+});
+
+export type CreatePortalSessionInput = z.infer<
+  typeof CreatePortalSessionInputSchema
+>;
+
+/**
+ * Usage report query (?from=&to=&group_by=)
+ * Defaults to the current calendar month, grouped by metric.
+ */
+export const UsageReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  group_by: z.enum(UsageGroupByValues).default(UsageGroupBy.METRIC),
+});
+
+export type UsageReportQuery = z.infer<typeof UsageReportQuerySchema>;
+
+/**
+ * Per-organization limit overrides (e.g. a custom Enterprise deal)
+ * A limit set to null goes back to the tier's limit; -1 means unlimited.
+ */
+export const LimitOverridesInputSchema = z
+  .object({
+    projects: z.number().min(-1).nullable(),
+    users: z.number().min(-1).nullable(),
+    api_calls_per_month: z.number().min(-1).nullable(),
+    storage_gb: z.number().min(-1).nullable(),
+    ai_budget_usd_per_month: z.number().min(-1).nullable(),
+  })
+  .partial()
+  .strict();
+
+export type LimitOverridesInput = z.infer<typeof LimitOverridesInputSchema>;
+
 // ============================================
 // RESPONSE SCHEMAS
 // ============================================
@@ -96,17 +161,20 @@ const SubscriptionResponseFieldsSchema = z.object({
   status: z.string(),
   trial_started_at: z.date().optional(),
   trial_ends_at: z.date().optional(),
+  trial_reminder_sent_at: z.date().optional(),
   billing_cycle: z.string(),
   current_period_start: z.date().optional(),
   current_period_end: z.date().optional(),
   stripe_customer_id: z.string().optional(),
   stripe_subscription_id: z.string().optional(),
-  limits: z
+  billing_event_at: z.date().optional(),
+  limit_overrides: z
     .object({
       projects: z.number().optional(),
       users: z.number().optional(),
       api_calls_per_month: z.number().optional(),
       storage_gb: z.number().optional(),
+      ai_budget_usd_per_month: z.number().optional(),
     })
     .optional(),
   usage: z.object({
@@ -114,6 +182,8 @@ const SubscriptionResponseFieldsSchema = z.object({
     users_count: z.number(),
     api_calls_count: z.number(),
     storage_used_gb: z.number(),
+    ai_tokens_count: z.number(),
+    ai_cost_usd: z.number(),
   }),
   usage_reset_at: z.date().optional(),
   usage_period_start: z.date().optional(),
@@ -153,3 +223,66 @@ export const FeatureAccessResponseSchema = z.object({
 });
 
 export type FeatureAccessResponse = z.infer<typeof FeatureAccessResponseSchema>;
+
+/**
+ * Hosted billing page (checkout or customer portal)
+ */
+export const BillingSessionResponseSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+});
+
+export type BillingSessionResponse = z.infer<
+  typeof BillingSessionResponseSchema
+>;
+
+/**
+ * Usage report - ledger totals for a period
+ */
+export const UsageReportResponseSchema = z.object({
+  organization_id: z.string(),
+  from: z.date(),
+  to: z.date(),
+  group_by: z.enum(UsageGroupByValues),
+  rows: z.array(
+    z.object({
+      metric: z.enum(UsageMetricValues),
+      day: z.string().optional(),
+      user_id: z.string().optional(),
+      quantity: z.number(),
+      events: z.number().int(),
+    })
+  ),
+  totals: z.record(z.string(), z.number()),
+});
+
+export type UsageReportResponse = z.infer<typeof UsageReportResponseSchema>;
+
+/**
+ * An effective limit with the organization's usage against it
+ */
+const EntitlementLimitSchema = z.object({
+  limit: z.number(), // -1 = unlimited
+  usage: z.number(),
+  remaining: z.number(), // -1 = unlimited
+  overridden: z.boolean(), // Set for this organization, not by its tier
+});
+
+/**
+ * Entitlements - the features and limits an organization has right now
+ */
+export const EntitlementsResponseSchema = z.object({
+  organization_id: z.string(),
+  tier: z.enum(SubscriptionTierValues),
+  status: z.enum(SubscriptionStatusValues),
+  features: z.array(z.enum(FeatureValues)),
+  limits: z.object({
+    projects: EntitlementLimitSchema,
+    users: EntitlementLimitSchema,
+    api_calls_per_month: EntitlementLimitSchema,
+    storage_gb: EntitlementLimitSchema,
+    ai_budget_usd_per_month: EntitlementLimitSchema,
+  }),
+});
+
+export type EntitlementsResponse = z.infer<typeof EntitlementsResponseSchema>;
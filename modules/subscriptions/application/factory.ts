@@ -22,7 +22,7 @@ import {
   SubscriptionStatus,
   BillingCycle,
 } from "../domain/types";
-import { TIER_LIMITS } from "../domain/tier-limits";
+import { getTierConfig } from "../domain/tier-limits";
 import {
   CreateSubscriptionInput,
   UpdateSubscriptionInput,
@@ -62,7 +62,7 @@ export class SubscriptionFactory extends BaseFactory<
     void _orgId;
 
     const tier = request.tier || SubscriptionTier.FREE;
-    const tierConfig = TIER_LIMITS[tier];
+    const tierConfig = getTierConfig(tier);
 
     // Calculate trial dates
     const now = new Date();
@@ -77,17 +77,15 @@ export class SubscriptionFactory extends BaseFactory<
       billing_cycle: BillingCycle.MONTHLY, // Default to monthly billing
       trial_started_at: trialDays > 0 ? now : undefined,
       trial_ends_at: trialDays > 0 ? trialEndsAt : undefined,
-      limits: {
-        projects: tierConfig.limits.projects,
-        users: tierConfig.limits.users,
-        api_calls_per_month: tierConfig.limits.api_calls_per_month,
-        storage_gb: tierConfig.limits.storage_gb,
-      },
+      // Limits come from the tier catalogue - no overrides to start with
+      limit_overrides: {},
       usage: {
         projects_count: 0,
         users_count: 0,
         api_calls_count: 0,
         storage_used_gb: 0,
+        ai_tokens_count: 0,
+        ai_cost_usd: 0,
       },
       usage_period_start: now,
       usage_reset_at: now,
@@ -119,23 +117,17 @@ export class SubscriptionFactory extends BaseFactory<
   }
 
   /**
-   * Update tier and adjust limits
+   * Update tier
+   * Limit overrides were agreed for the old tier, so they're cleared.
    */
   updateTier(
     _existingSubscription: ISubscription,
     newTier: SubscriptionTier,
     userId: string
   ): Partial<ISubscription> {
-    const tierConfig = TIER_LIMITS[newTier];
-
     return {
       tier: newTier,
-      limits: {
-        projects: tierConfig.limits.projects,
-        users: tierConfig.limits.users,
-        api_calls_per_month: tierConfig.limits.api_calls_per_month,
-        storage_gb: tierConfig.limits.storage_gb,
-      },
+      limit_overrides: {},
       updated_by: userId,
     };
   }
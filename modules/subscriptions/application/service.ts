@@ -11,36 +11,128 @@
  * ✅ CAN import: ../domain/types
  * ✅ CAN import: ../api/validation
  * ✅ CAN import: ./factory
- * ✅ CAN import: SUBSCRIPTION_MODEL_NAME constant
+ * ✅ CAN import: SUBSCRIPTION_MODEL_NAME, USAGE_EVENT_MODEL_NAME constants
+ * ✅ CAN import: BillingProviderFactory (payment provider)
+ * ✅ CAN import: idempotencyStore (billing events are applied once)
+ * ✅ CAN import: loadTierCatalogueFromEnv (tier catalogue configuration)
+ * ✅ CAN import: aiSdkService (registers itself as the AI usage recorder)
  * ❌ CANNOT import: SubscriptionDocument
  */
 
 import { BaseService } from "@/shared/services/base.service";
 import {
+  Feature,
   ISubscription,
+  ISubscriptionLimits,
   SubscriptionTier,
   SubscriptionStatus,
 } from "../domain/types";
 import { SUBSCRIPTION_MODEL_NAME } from "../infrastructure/schema";
+import { USAGE_EVENT_MODEL_NAME } from "../infrastructure/usage-event.schema";
+import { RepositoryFactory } from "@/shared/db/repository.factory";
+import { IRepository } from "@/shared/db/repository.interface";
 import {
   CreateSubscriptionInput,
   UpdateSubscriptionInput,
   SubscriptionResponse,
+  CreateCheckoutSessionInput,
+  CreatePortalSessionInput,
+  BillingSessionResponse,
+  UsageReportQuery,
+  UsageReportResponse,
+  EntitlementsResponse,
+  LimitOverridesInput,
 } from "../api/validation";
+import { IBillingEvent, getBillingChanges } from "../domain/billing";
 import {
-  TIER_LIMITS,
+  TRIAL_REMINDER_DAYS,
+  UsageType,
+  getLimitReached,
+  getNextUsageResetAt,
+} from "../domain/lifecycle";
+import {
+  IUsageEvent,
+  MONTHLY_USAGE_METRICS,
+  USAGE_COUNTER_FIELDS,
+  UsageContext,
+  UsageGroupBy,
+  UsageMetric,
+  UsageMetricValues,
+  UsageReportRow,
+  resolveUsageReportPeriod,
+  totalUsageByMetric,
+} from "../domain/usage";
+import { EventName, publishEvent } from "@/modules/events";
+import { createIdempotencyKey } from "@/shared/types/inngest.types";
+import { BillingProviderFactory } from "../infrastructure/billing";
+import { loadTierCatalogueFromEnv } from "../infrastructure/tier-catalogue";
+import { aiSdkService, type AIUsageRecord } from "@/shared/ai-sdk";
+import {
+  LimitType,
+  getEffectiveLimit,
+  getEffectiveLimits,
+  getTierCatalogue,
+  getTierFeatures,
+  setTierCatalogue,
   tierHasFeature,
   tierIsAtLeast,
-  getTierLimit,
   isWithinLimit,
 } from "../domain/tier-limits";
-import { NotFoundError, ValidationError } from "@/shared/utils/errors";
+import { idempotencyStore } from "@/shared/idempotency";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/shared/utils/errors";
 import { logger } from "@/shared/utils/logger";
 import { subscriptionFactory } from "./factory";
 import { SubscriptionResponseDTO } from "../api/response";
 
 const log = logger.child({ module: "subscriptions-service" });
 
+/**
+ * Recorded as updated_by for changes made by billing webhooks
+ */
+const BILLING_WEBHOOK_USER = "billing-webhook";
+
+/**
+ * How long handled billing event IDs are remembered - Stripe retries failed
+ * deliveries for up to three days
+ */
+const BILLING_EVENT_IDEMPOTENCY_PERIOD = "7d";
+
+/**
+ * getNextUsageResetAt as an aggregation expression, so the due date can be
+ * filtered on before the batch limit: the anniversary day (capped at the
+ * month's length) in the month after the last reset, at the same time
+ */
+const LAST_USAGE_RESET_AT = { $ifNull: ["$usage_reset_at", "$created_at"] };
+const NEXT_USAGE_RESET_AT = {
+  $dateFromParts: {
+    year: { $year: LAST_USAGE_RESET_AT },
+    month: { $add: [{ $month: LAST_USAGE_RESET_AT }, 1] },
+    day: {
+      $min: [
+        { $dayOfMonth: "$created_at" },
+        {
+          // Day 0 of the month after next is the next month's last day
+          $dayOfMonth: {
+            $dateFromParts: {
+              year: { $year: LAST_USAGE_RESET_AT },
+              month: { $add: [{ $month: LAST_USAGE_RESET_AT }, 2] },
+              day: 0,
+            },
+          },
+        },
+      ],
+    },
+    hour: { $hour: LAST_USAGE_RESET_AT },
+    minute: { $minute: LAST_USAGE_RESET_AT },
+    second: { $second: LAST_USAGE_RESET_AT },
+    millisecond: { $millisecond: LAST_USAGE_RESET_AT },
+  },
+};
+
 /**
  * SubscriptionsService
  *
@@ -56,6 +148,21 @@ export class SubscriptionsService extends BaseService<
     super(SUBSCRIPTION_MODEL_NAME);
   }
 
+  private _usageRepository: IRepository<IUsageEvent, any> | null = null;
+
+  /**
+   * Lazily created repository for the append-only usage ledger
+   * Mirrors BaseService's lazy repository so models load before first use
+   */
+  private get usageRepository(): IRepository<IUsageEvent, any> {
+    if (!this._usageRepository) {
+      this._usageRepository = RepositoryFactory.create<any>(
+        USAGE_EVENT_MODEL_NAME
+      );
+    }
+    return this._usageRepository;
+  }
+
   /**
    * ========================================================================
    * Abstract Method Implementations
@@ -202,6 +309,47 @@ export class SubscriptionsService extends BaseService<
     return this.mapEntityToResponse(updated);
   }
 
+  /**
+   * Set an organization's limit overrides (e.g. a custom Enterprise deal)
+   * Merged into the existing overrides; a null limit removes its override.
+   */
+  async setLimitOverrides(
+    propelAuthOrgId: string,
+    overrides: LimitOverridesInput,
+    userId: string
+  ): Promise<SubscriptionResponse> {
+    log.info("Setting limit overrides", { propelAuthOrgId, overrides });
+
+    const subscription = await this.getByOrganization(propelAuthOrgId);
+    if (!subscription) {
+      throw new NotFoundError("Subscription not found");
+    }
+
+    const limitOverrides: ISubscriptionLimits = {
+      ...subscription.limit_overrides,
+    };
+    for (const [limitType, limit] of Object.entries(overrides) as Array<
+      [LimitType, number | null | undefined]
+    >) {
+      if (limit === null) {
+        delete limitOverrides[limitType];
+      } else if (limit !== undefined) {
+        limitOverrides[limitType] = limit;
+      }
+    }
+
+    const updated = await this.repository.updateById(subscription.id, {
+      limit_overrides: limitOverrides,
+      updated_by: userId,
+    });
+
+    if (!updated) {
+      throw new NotFoundError("Subscription not found after update");
+    }
+
+    return this.mapEntityToResponse(updated);
+  }
+
   /**
    * ========================================================================
    * Payment Wall - Feature Access
@@ -213,7 +361,7 @@ export class SubscriptionsService extends BaseService<
    */
   async checkFeatureAccess(
     propelAuthOrgId: string,
-    feature: string
+    feature: Feature
   ): Promise<boolean> {
     const subscription = await this.getByOrganization(propelAuthOrgId);
 
@@ -226,10 +374,7 @@ export class SubscriptionsService extends BaseService<
     }
 
     // Trial or expired subscriptions have limited access
-    if (
-      subscription.status === SubscriptionStatus.EXPIRED ||
-      subscription.status === SubscriptionStatus.CANCELLED
-    ) {
+    if (!this.hasFeatureAccess(subscription)) {
       log.warn("Subscription not active, denying feature access", {
         propelAuthOrgId,
         feature,
@@ -251,6 +396,17 @@ export class SubscriptionsService extends BaseService<
     return hasAccess;
   }
 
+  /**
+   * Whether a subscription's features are available (not expired or
+   * cancelled)
+   */
+  private hasFeatureAccess(subscription: SubscriptionResponse): boolean {
+    return (
+      subscription.status !== SubscriptionStatus.EXPIRED &&
+      subscription.status !== SubscriptionStatus.CANCELLED
+    );
+  }
+
   /**
    * Check if tier meets minimum requirement
    */
@@ -279,7 +435,7 @@ export class SubscriptionsService extends BaseService<
    */
   async checkLimit(
     propelAuthOrgId: string,
-    limitType: "projects" | "users" | "api_calls_per_month" | "storage_gb"
+    limitType: LimitType
   ): Promise<boolean> {
     const subscription = await this.getByOrganization(propelAuthOrgId);
 
@@ -293,13 +449,18 @@ export class SubscriptionsService extends BaseService<
 
     const tier = subscription.tier as SubscriptionTier;
     const currentUsage = this.getCurrentUsage(subscription, limitType);
-    const withinLimit = isWithinLimit(tier, limitType, currentUsage);
+    const withinLimit = isWithinLimit(
+      tier,
+      limitType,
+      currentUsage,
+      subscription.limit_overrides
+    );
 
     log.debug("Limit check", {
       propelAuthOrgId,
       limitType,
       currentUsage,
-      limit: getTierLimit(tier, limitType),
+      limit: getEffectiveLimit(tier, limitType, subscription.limit_overrides),
       withinLimit,
     });
 
@@ -318,22 +479,128 @@ export class SubscriptionsService extends BaseService<
         return subscription.usage.projects_count;
       case "users":
         return subscription.usage.users_count;
+      case "api_calls":
       case "api_calls_per_month":
         return subscription.usage.api_calls_count;
+      case "storage":
       case "storage_gb":
         return subscription.usage.storage_used_gb;
+      case "ai_tokens":
+        return subscription.usage.ai_tokens_count ?? 0;
+      case "ai_cost_usd":
+      case "ai_budget_usd_per_month":
+        return subscription.usage.ai_cost_usd ?? 0;
       default:
         return 0;
     }
   }
 
   /**
-   * Increment usage counter
+   * Get an organization's effective features and limits
+   * Expired and cancelled subscriptions keep their limits but no features.
+   */
+  async getEntitlements(
+    propelAuthOrgId: string
+  ): Promise<EntitlementsResponse> {
+    const subscription = await this.getByOrganization(propelAuthOrgId);
+    if (!subscription) {
+      throw new NotFoundError("Subscription not found");
+    }
+
+    const tier = subscription.tier as SubscriptionTier;
+    const overrides = subscription.limit_overrides ?? {};
+    const effectiveLimits = getEffectiveLimits(tier, overrides);
+
+    const limits = {} as EntitlementsResponse["limits"];
+    for (const limitType of Object.keys(effectiveLimits) as LimitType[]) {
+      const limit = effectiveLimits[limitType];
+      const usage = this.getCurrentUsage(subscription, limitType);
+
+      limits[limitType] = {
+        limit,
+        usage,
+        remaining: limit === -1 ? -1 : Math.max(0, limit - usage),
+        overridden: typeof overrides[limitType] === "number",
+      };
+    }
+
+    return {
+      organization_id: propelAuthOrgId,
+      tier,
+      status: subscription.status as SubscriptionStatus,
+      features: this.hasFeatureAccess(subscription)
+        ? getTierFeatures(tier)
+        : [],
+      limits,
+    };
+  }
+
+  /**
+   * Organizations whose clients get scheduled re-research, by refresh age
+   * Tiers without research_refresh_days and organizations that used up
+   * their monthly AI budget are left out, so callers can query only clients
+   * that are actually due.
+   *
+   * @returns Organization IDs per refresh age (days)
+   */
+  async findResearchRefreshOrganizations(): Promise<
+    Array<{ refresh_days: number; organization_ids: string[] }>
+  > {
+    const refreshDaysByTier = new Map<SubscriptionTier, number>();
+    for (const [tier, config] of Object.entries(getTierCatalogue())) {
+      if (config.research_refresh_days !== null) {
+        refreshDaysByTier.set(
+          tier as SubscriptionTier,
+          config.research_refresh_days
+        );
+      }
+    }
+
+    if (refreshDaysByTier.size === 0) {
+      return [];
+    }
+
+    const [subscriptions] = await this.repository.find({
+      tier: { $in: [...refreshDaysByTier.keys()] },
+    });
+
+    const organizationsByDays = new Map<number, string[]>();
+    for (const entity of subscriptions) {
+      const subscription = this.mapEntityToResponse(entity);
+      const tier = subscription.tier as SubscriptionTier;
+      const withinBudget = isWithinLimit(
+        tier,
+        "ai_budget_usd_per_month",
+        this.getCurrentUsage(subscription, "ai_budget_usd_per_month"),
+        subscription.limit_overrides
+      );
+      if (!withinBudget) continue;
+
+      const refreshDays = refreshDaysByTier.get(tier) as number;
+      organizationsByDays.set(refreshDays, [
+        ...(organizationsByDays.get(refreshDays) ?? []),
+        subscription.propel_auth_org_id,
+      ]);
+    }
+
+    return [...organizationsByDays].map(([refresh_days, organization_ids]) => ({
+      refresh_days,
+      organization_ids,
+    }));
+  }
+
+  /**
+   * Record usage in the ledger and increment its cached counter
+   * Publishes subscription.limit.reached when the increment reaches a limit.
+   *
+   * @param context - Who and what the usage came from (user, client, source
+   *   route, AI model), kept on the usage event for itemized reports
    */
   async incrementUsage(
     propelAuthOrgId: string,
-    usageType: "projects" | "users" | "api_calls" | "storage",
-    amount: number = 1
+    usageType: UsageType,
+    amount: number = 1,
+    context: UsageContext = {}
   ): Promise<void> {
     log.debug("Incrementing usage", { propelAuthOrgId, usageType, amount });
 
@@ -345,39 +612,364 @@ export class SubscriptionsService extends BaseService<
       return;
     }
 
-    const usageField = `usage.${usageType}_count`;
-
-    await this.repository.atomicUpdate(subscription.id, {
-      [usageField]: amount,
+    // The ledger is the record of usage - write it before the cached counter
+    await this.usageRepository.create({
+      organization_id: propelAuthOrgId,
+      metric: usageType as UsageMetric,
+      quantity: amount,
+      occurred_at: new Date(),
+      ...context,
+      created_by: context.user_id ?? "system",
     });
 
+    const usageField = `usage.${
+      USAGE_COUNTER_FIELDS[usageType as UsageMetric]
+    }`;
+
+    await this.repository.updateById(subscription.id, {
+      $inc: { [usageField]: amount },
+    } as any);
+
     log.debug("Usage incremented", { propelAuthOrgId, usageType, amount });
+
+    const tier = subscription.tier as SubscriptionTier;
+    const usageBefore = this.getCurrentUsage(subscription, usageType);
+    const reached = getLimitReached(
+      tier,
+      usageType,
+      usageBefore,
+      amount,
+      subscription.limit_overrides
+    );
+
+    if (reached) {
+      await this.publishLimitReached(subscription, {
+        ...reached,
+        usage: usageBefore + amount,
+      });
+    }
+  }
+
+  /**
+   * Record an AI call's tokens and estimated cost
+   * Registered as aiSdkService's usage recorder. Reaching the AI budget
+   * publishes subscription.limit.reached; checkLimit with
+   * "ai_budget_usd_per_month" then refuses further AI work.
+   */
+  async recordAIUsage(record: AIUsageRecord): Promise<void> {
+    const context: UsageContext = {
+      user_id: record.user_id,
+      client_id: record.client_id,
+      source_route: record.source_route,
+      ai_model: record.model,
+      ai_provider: record.provider,
+    };
+
+    await this.incrementUsage(
+      record.organization_id,
+      UsageMetric.AI_TOKENS,
+      record.total_tokens,
+      {
+        ...context,
+        input_tokens: record.input_tokens,
+        output_tokens: record.output_tokens,
+      }
+    );
+    await this.incrementUsage(
+      record.organization_id,
+      UsageMetric.AI_COST,
+      record.estimated_cost_usd,
+      context
+    );
+  }
+
+  /**
+   * Notify that an organization reached a limit
+   * Usage is already counted, so a failed send is logged, not thrown.
+   */
+  private async publishLimitReached(
+    subscription: SubscriptionResponse,
+    reached: { limit_type: string; limit: number; usage: number }
+  ): Promise<void> {
+    const periodStart =
+      subscription.usage_reset_at ?? subscription.created_at ?? new Date();
+
+    try {
+      await publishEvent(
+        EventName.SUBSCRIPTION_LIMIT_REACHED,
+        {
+          organization_id: subscription.propel_auth_org_id,
+          tier: subscription.tier,
+          ...reached,
+        },
+        {
+          // Subscriptions span clients - the organization stands in for the project
+          projectId: subscription.propel_auth_org_id,
+          source: "subscriptions-module",
+          idempotencyKey: createIdempotencyKey(
+            subscription.propel_auth_org_id,
+            "limit",
+            reached.limit_type,
+            new Date(periodStart).toISOString()
+          ),
+        }
+      );
+    } catch (error) {
+      log.warn("Failed to publish subscription.limit.reached", {
+        propelAuthOrgId: subscription.propel_auth_org_id,
+        limitType: reached.limit_type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
   /**
    * Reset monthly usage counters
+   * Only the monthly counters are set, and only while the period being reset
+   * is still current - increments made meanwhile to the other counters are
+   * kept, and a repeated or concurrent reset of the same period is a no-op.
+   *
+   * @param resetAt - When the reset is due (the organization's anniversary),
+   *   so late runs don't move the next one
    */
-  async resetMonthlyUsage(propelAuthOrgId: string): Promise<void> {
-    log.info("Resetting monthly usage", { propelAuthOrgId });
+  async resetMonthlyUsage(
+    propelAuthOrgId: string,
+    resetAt: Date = new Date()
+  ): Promise<void> {
+    log.info("Resetting monthly usage", { propelAuthOrgId, resetAt });
 
     const subscription = await this.getByOrganization(propelAuthOrgId);
     if (!subscription) {
       return;
     }
 
-    await this.repository.updateById(subscription.id, {
-      usage: {
-        projects_count: subscription.usage.projects_count, // Keep projects
-        users_count: subscription.usage.users_count, // Keep users
-        api_calls_count: 0, // Reset API calls
-        storage_used_gb: subscription.usage.storage_used_gb, // Keep storage
-      },
-      usage_reset_at: new Date(),
-    });
+    const lastResetAt = subscription.usage_reset_at
+      ? new Date(subscription.usage_reset_at)
+      : undefined;
+    if (lastResetAt && lastResetAt >= resetAt) {
+      log.info("Monthly usage already reset", { propelAuthOrgId, resetAt });
+      return;
+    }
+
+    const updated = await this.repository.updateOne(
+      {
+        _id: subscription.id,
+        usage_reset_at: lastResetAt ?? { $exists: false },
+      } as any,
+      {
+        $set: {
+          "usage.api_calls_count": 0,
+          "usage.ai_tokens_count": 0,
+          "usage.ai_cost_usd": 0,
+          usage_reset_at: resetAt,
+          usage_period_start: resetAt,
+        },
+      } as any
+    );
+
+    if (!updated) {
+      log.info("Monthly usage reset by another run", { propelAuthOrgId });
+      return;
+    }
 
     log.info("Monthly usage reset", { propelAuthOrgId });
   }
 
+  /**
+   * Rebuild an organization's usage counters from the ledger
+   * Monthly metrics count from the start of the current usage period, the
+   * others from the beginning.
+   */
+  async rebuildUsageCounters(
+    propelAuthOrgId: string
+  ): Promise<SubscriptionResponse> {
+    const subscription = await this.getByOrganization(propelAuthOrgId);
+    if (!subscription) {
+      throw new NotFoundError("Subscription not found");
+    }
+
+    const periodStart = new Date(
+      subscription.usage_period_start ??
+        subscription.usage_reset_at ??
+        subscription.created_at
+    );
+
+    const [allTime, currentPeriod] = await Promise.all([
+      this.sumUsageByMetric(propelAuthOrgId),
+      this.sumUsageByMetric(propelAuthOrgId, periodStart),
+    ]);
+
+    const usage = { ...subscription.usage };
+    for (const metric of UsageMetricValues) {
+      const totals = MONTHLY_USAGE_METRICS.includes(metric)
+        ? currentPeriod
+        : allTime;
+      usage[USAGE_COUNTER_FIELDS[metric]] = totals[metric] ?? 0;
+    }
+
+    const updated = await this.repository.updateById(subscription.id, {
+      usage,
+    });
+    if (!updated) {
+      throw new NotFoundError("Subscription not found after update");
+    }
+
+    log.info("Usage counters rebuilt from ledger", { propelAuthOrgId, usage });
+
+    return this.mapEntityToResponse(updated);
+  }
+
+  /**
+   * Usage report for a period, from the ledger
+   *
+   * @throws ValidationError if the period is invalid or too long
+   */
+  async getUsageReport(
+    propelAuthOrgId: string,
+    query: UsageReportQuery
+  ): Promise<UsageReportResponse> {
+    const period = resolveUsageReportPeriod(query.from, query.to, new Date());
+    if ("error" in period) {
+      throw new ValidationError(period.error);
+    }
+
+    const rows = await this.aggregateUsage(
+      propelAuthOrgId,
+      period.from,
+      period.to,
+      query.group_by
+    );
+
+    return {
+      organization_id: propelAuthOrgId,
+      from: period.from,
+      to: period.to,
+      group_by: query.group_by,
+      rows,
+      totals: totalUsageByMetric(rows),
+    };
+  }
+
+  /**
+   * Sum ledger quantities per metric from a time onwards
+   */
+  private async sumUsageByMetric(
+    propelAuthOrgId: string,
+    from?: Date
+  ): Promise<Partial<Record<UsageMetric, number>>> {
+    const rows = await this.aggregateUsage(
+      propelAuthOrgId,
+      from,
+      undefined,
+      UsageGroupBy.METRIC
+    );
+    return totalUsageByMetric(rows);
+  }
+
+  /**
+   * Group ledger events of a period (from inclusive, to exclusive)
+   */
+  private async aggregateUsage(
+    propelAuthOrgId: string,
+    from: Date | undefined,
+    to: Date | undefined,
+    groupBy: UsageGroupBy
+  ): Promise<UsageReportRow[]> {
+    if (!this.usageRepository.aggregate) {
+      throw new Error(
+        "Usage reports need a repository that supports aggregation"
+      );
+    }
+
+    const occurredAt: Record<string, Date> = {};
+    if (from) occurredAt.$gte = from;
+    if (to) occurredAt.$lt = to;
+
+    const groupId: Record<string, unknown> = { metric: "$metric" };
+    if (groupBy === UsageGroupBy.DAY) {
+      groupId.day = {
+        $dateToString: { format: "%Y-%m-%d", date: "$occurred_at" },
+      };
+    }
+    if (groupBy === UsageGroupBy.USER) {
+      groupId.user_id = "$user_id";
+    }
+
+    const results: Array<{
+      _id: { metric: UsageMetric; day?: string; user_id?: string | null };
+      quantity: number;
+      events: number;
+    }> = await this.usageRepository.aggregate([
+      {
+        $match: {
+          organization_id: propelAuthOrgId,
+          ...(from || to ? { occurred_at: occurredAt } : {}),
+        },
+      },
+      {
+        $group: {
+          _id: groupId,
+          quantity: { $sum: "$quantity" },
+          events: { $sum: 1 },
+        },
+      },
+      { $sort: { "_id.day": 1, "_id.user_id": 1, "_id.metric": 1 } },
+    ]);
+
+    return results.map(({ _id, quantity, events }) => ({
+      metric: _id.metric,
+      ...(_id.day ? { day: _id.day } : {}),
+      ...(_id.user_id ? { user_id: _id.user_id } : {}),
+      quantity,
+      events,
+    }));
+  }
+
+  /**
+   * When an organization's usage next resets (monthly, on the day of the
+   * month its subscription was created)
+   */
+  getNextUsageResetAt(subscription: SubscriptionResponse): Date {
+    const createdAt = new Date(subscription.created_at);
+    const lastResetAt = subscription.usage_reset_at
+      ? new Date(subscription.usage_reset_at)
+      : createdAt;
+
+    return getNextUsageResetAt(lastResetAt, createdAt.getUTCDate());
+  }
+
+  /**
+   * Subscriptions whose usage reset is due, most overdue first
+   *
+   * @param now - Resets due at or before this time
+   * @param limit - Most subscriptions returned
+   */
+  async findUsageResetsDue(
+    now: Date,
+    limit: number
+  ): Promise<SubscriptionResponse[]> {
+    // No month is shorter than 28 days - nothing reset more recently is due
+    const candidatesBefore = new Date(now.getTime() - 28 * 24 * 60 * 60 * 1000);
+
+    const [subscriptions] = await this.repository.find(
+      {
+        $or: [
+          { usage_reset_at: { $lte: candidatesBefore } },
+          {
+            usage_reset_at: { $exists: false },
+            created_at: { $lte: candidatesBefore },
+          },
+        ],
+        $expr: { $lte: [NEXT_USAGE_RESET_AT, now] },
+      } as any,
+      { sort: { usage_reset_at: 1, created_at: 1 }, limit }
+    );
+
+    return subscriptions.map((subscription) =>
+      this.mapEntityToResponse(subscription)
+    );
+  }
+
   /**
    * ========================================================================
    * Trial Management
@@ -402,23 +994,327 @@ export class SubscriptionsService extends BaseService<
   }
 
   /**
-   * Expire trial and downgrade to free tier
+   * Trials ending at or before a time, soonest first
    */
-  async expireTrial(propelAuthOrgId: string): Promise<void> {
-    log.info("Expiring trial", { propelAuthOrgId });
+  async findTrialsEndingBefore(
+    endsBefore: Date,
+    limit: number
+  ): Promise<SubscriptionResponse[]> {
+    const [subscriptions] = await this.repository.find(
+      {
+        status: SubscriptionStatus.TRIAL,
+        trial_ends_at: { $lte: endsBefore },
+      },
+      { sort: { trial_ends_at: 1 }, limit }
+    );
+
+    return subscriptions.map((subscription) =>
+      this.mapEntityToResponse(subscription)
+    );
+  }
+
+  /**
+   * Trials due their reminder (not reminded yet, ending within
+   * TRIAL_REMINDER_DAYS), soonest first
+   * Reminded and ended trials are filtered out by the query, so they can't
+   * fill the batch and starve trials still due.
+   *
+   * @param now - Trials ending after this time
+   * @param limit - Most subscriptions returned
+   */
+  async findTrialRemindersDue(
+    now: Date,
+    limit: number
+  ): Promise<SubscriptionResponse[]> {
+    const [subscriptions] = await this.repository.find(
+      {
+        status: SubscriptionStatus.TRIAL,
+        trial_reminder_sent_at: { $exists: false },
+        trial_ends_at: {
+          $gt: now,
+          $lte: new Date(
+            now.getTime() + TRIAL_REMINDER_DAYS * 24 * 60 * 60 * 1000
+          ),
+        },
+      },
+      { sort: { trial_ends_at: 1 }, limit }
+    );
+
+    return subscriptions.map((subscription) =>
+      this.mapEntityToResponse(subscription)
+    );
+  }
 
+  /**
+   * Record that an organization was reminded its trial ends soon
+   */
+  async markTrialReminderSent(propelAuthOrgId: string): Promise<void> {
     const subscription = await this.getByOrganization(propelAuthOrgId);
     if (!subscription) {
       return;
     }
 
+    await this.repository.updateById(subscription.id, {
+      trial_reminder_sent_at: new Date(),
+    });
+  }
+
+  /**
+   * Expire trial and downgrade to free tier
+   * Subscriptions no longer on trial (paid meanwhile) are left alone.
+   *
+   * @returns Whether the trial was expired
+   */
+  async expireTrial(propelAuthOrgId: string): Promise<boolean> {
+    log.info("Expiring trial", { propelAuthOrgId });
+
+    const subscription = await this.getByOrganization(propelAuthOrgId);
+    if (!subscription || subscription.status !== SubscriptionStatus.TRIAL) {
+      return false;
+    }
+
     await this.repository.updateById(subscription.id, {
       status: SubscriptionStatus.EXPIRED,
       tier: SubscriptionTier.FREE,
-      limits: TIER_LIMITS[SubscriptionTier.FREE].limits,
+      limit_overrides: {}, // Overrides don't carry over to the free tier
     });
 
     log.info("Trial expired, downgraded to free", { propelAuthOrgId });
+
+    return true;
+  }
+
+  /**
+   * ========================================================================
+   * Billing
+   * ========================================================================
+   */
+
+  /**
+   * Start checkout for a paid tier
+   * Organizations that paid before check out as the same customer.
+   */
+  async createCheckoutSession(
+    propelAuthOrgId: string,
+    input: CreateCheckoutSessionInput,
+    customerEmail?: string
+  ): Promise<BillingSessionResponse> {
+    if (input.tier === SubscriptionTier.FREE) {
+      throw new ValidationError("Checkout is only available for paid tiers");
+    }
+
+    const subscription = await this.getByOrganization(propelAuthOrgId);
+    if (!subscription) {
+      throw new NotFoundError("Subscription not found");
+    }
+
+    const session = await BillingProviderFactory.get().createCheckoutSession({
+      organization_id: propelAuthOrgId,
+      tier: input.tier,
+      billing_cycle: input.billing_cycle,
+      customer_id: subscription.stripe_customer_id,
+      customer_email: customerEmail,
+      success_url: input.success_url,
+      cancel_url: input.cancel_url,
+    });
+
+    log.info("Checkout session created", {
+      propelAuthOrgId,
+      tier: input.tier,
+      sessionId: session.id,
+    });
+
+    return session;
+  }
+
+  /**
+   * Open the customer portal of an organization that has paid
+   */
+  async createPortalSession(
+    propelAuthOrgId: string,
+    input: CreatePortalSessionInput
+  ): Promise<BillingSessionResponse> {
+    const subscription = await this.getByOrganization(propelAuthOrgId);
+    if (!subscription) {
+      throw new NotFoundError("Subscription not found");
+    }
+
+    if (!subscription.stripe_customer_id) {
+      throw new ValidationError(
+        "Organization has no billing account yet - check out a paid tier first"
+      );
+    }
+
+    return BillingProviderFactory.get().createPortalSession({
+      customer_id: subscription.stripe_customer_id,
+      return_url: input.return_url,
+    });
+  }
+
+  /**
+   * Verify and apply a billing webhook
+   *
+   * @param payload - Raw request body, exactly as received
+   * @param signature - Provider's signature header
+   * @returns The updated subscription, or null if the webhook changed nothing
+   * @throws ValidationError if the signature doesn't match
+   */
+  async handleBillingWebhook(
+    payload: string,
+    signature: string
+  ): Promise<SubscriptionResponse | null> {
+    const event = await BillingProviderFactory.get().constructWebhookEvent(
+      payload,
+      signature
+    );
+
+    if (!event) {
+      return null;
+    }
+
+    return this.applyBillingEvent(event);
+  }
+
+  /**
+   * Apply a verified billing event to the subscription it belongs to
+   * Each event ID is applied once - redelivered events are ignored.
+   *
+   * @returns The updated subscription, or null if the event changed nothing
+   * @throws ConflictError if the same event is being applied concurrently
+   *   (the provider retries it)
+   */
+  async applyBillingEvent(
+    event: IBillingEvent
+  ): Promise<SubscriptionResponse | null> {
+    const key = `billing-event:${event.id}`;
+    const claim = await idempotencyStore.claim<boolean>(key, {
+      period: BILLING_EVENT_IDEMPOTENCY_PERIOD,
+    });
+
+    if (claim.state === "completed") {
+      log.info("Billing event already handled", { eventId: event.id });
+      return null;
+    }
+
+    if (claim.state === "in_progress") {
+      throw new ConflictError("Billing event is already being applied", {
+        eventId: event.id,
+      });
+    }
+
+    let updated: SubscriptionResponse | null;
+    try {
+      updated = await this.applyBillingChanges(event);
+    } catch (error) {
+      await idempotencyStore.release(key).catch((releaseError) =>
+        log.error("Failed to release billing event", {
+          eventId: event.id,
+          error: releaseError,
+        })
+      );
+      throw error;
+    }
+
+    await idempotencyStore.complete(key, true);
+    return updated;
+  }
+
+  /**
+   * Write a billing event's changes to its subscription
+   * Events older than the last one applied are ignored, so out-of-order
+   * deliveries can't roll a change back. The check and the write are one
+   * conditional update. Tier changes use the factory's tier update so the
+   * new tier's limits apply.
+   */
+  private async applyBillingChanges(
+    event: IBillingEvent
+  ): Promise<SubscriptionResponse | null> {
+    const entity = await this.findForBillingEvent(event);
+    if (!entity) {
+      log.warn("No subscription found for billing event", {
+        eventId: event.id,
+        type: event.type,
+        organizationId: event.organization_id,
+        customerId: event.customer_id,
+      });
+      return null;
+    }
+
+    const { tier, ...changes } = getBillingChanges(event);
+    const occurredAt = event.occurred_at;
+
+    const update: Partial<ISubscription> = {
+      ...(tier && tier !== entity.tier
+        ? subscriptionFactory.updateTier(entity, tier, BILLING_WEBHOOK_USER)
+        : {}),
+      ...changes,
+      ...(occurredAt ? { billing_event_at: occurredAt } : {}),
+      updated_by: BILLING_WEBHOOK_USER,
+    };
+
+    const updated = await this.repository.updateOne(
+      {
+        _id: entity._id,
+        ...(occurredAt
+          ? {
+              $or: [
+                { billing_event_at: { $exists: false } },
+                { billing_event_at: { $lte: occurredAt } },
+              ],
+            }
+          : {}),
+      } as any,
+      update
+    );
+
+    if (!updated) {
+      log.warn("Ignoring billing event older than the last one applied", {
+        eventId: event.id,
+        type: event.type,
+        occurredAt,
+        subscriptionId: String(entity._id),
+        lastAppliedAt: entity.billing_event_at,
+      });
+      return null;
+    }
+
+    log.info("Billing event applied", {
+      eventId: event.id,
+      type: event.type,
+      subscriptionId: String(entity._id),
+      tier: updated.tier,
+      status: updated.status,
+    });
+
+    return this.mapEntityToResponse(updated);
+  }
+
+  /**
+   * Find a billing event's subscription by organization, then provider
+   * subscription, then provider customer
+   */
+  private async findForBillingEvent(
+    event: IBillingEvent
+  ): Promise<ISubscription | null> {
+    const filters: Record<string, string>[] = [];
+    if (event.organization_id) {
+      filters.push({ propel_auth_org_id: event.organization_id });
+    }
+    if (event.subscription_id) {
+      filters.push({ stripe_subscription_id: event.subscription_id });
+    }
+    if (event.customer_id) {
+      filters.push({ stripe_customer_id: event.customer_id });
+    }
+
+    for (const filter of filters) {
+      const [subscriptions] = await this.repository.find(filter);
+      if (subscriptions.length > 0) {
+        return subscriptions[0];
+      }
+    }
+
+    return null;
   }
 }
 
@@ -426,3 +1322,11 @@ export class SubscriptionsService extends BaseService<
  * Export singleton instance
  */
 export const subscriptionsService = new SubscriptionsService();
+
+// Use the configured tier catalogue (throws if it's invalid)
+setTierCatalogue(loadTierCatalogueFromEnv());
+
+// Meter AI calls against each organization's AI budget
+aiSdkService.setUsageRecorder((record) =>
+  subscriptionsService.recordAIUsage(record)
+);
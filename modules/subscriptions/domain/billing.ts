@@ -0,0 +1,180 @@
+/**
+ * Subscriptions Module - Billing
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * The contract between subscriptions and a payment provider (Stripe in
+ * production, an in-memory fake in tests and local development), and how
+ * billing events change a subscription.
+ *
+ * Providers translate their webhooks into IBillingEvent, so subscriptions
+ * never see provider payloads:
+ * - checkout.completed → active, on the tier and cycle bought
+ * - subscription.updated → status, tier, cycle and period as billed
+ * - subscription.cancelled → cancelled, back on the free tier
+ * - payment.failed → past_due (the provider keeps retrying)
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types
+ * ❌ CANNOT import: mongoose, infrastructure, application, api
+ */
+
+import {
+  BillingCycle,
+  ISubscription,
+  SubscriptionStatus,
+  SubscriptionTier,
+} from "./types";
+
+// ============================================
+// ENUMS
+// ============================================
+
+/**
+ * Provider-independent billing events that change a subscription
+ */
+export enum BillingEventType {
+  CHECKOUT_COMPLETED = "checkout.completed",
+  SUBSCRIPTION_UPDATED = "subscription.updated",
+  SUBSCRIPTION_CANCELLED = "subscription.cancelled",
+  PAYMENT_FAILED = "payment.failed",
+}
+
+export const BillingEventTypeValues = Object.values(BillingEventType);
+
+// ============================================
+// DOMAIN INTERFACES
+// ============================================
+
+/**
+ * A verified billing event, translated from the provider's webhook
+ * Subscriptions are found by organization, then provider subscription,
+ * then provider customer - whichever the event carries.
+ */
+export interface IBillingEvent {
+  /** Provider event ID */
+  id: string;
+  type: BillingEventType;
+  /** When the provider created the event - deliveries can arrive out of order */
+  occurred_at?: Date;
+  organization_id?: string;
+  customer_id?: string;
+  subscription_id?: string;
+  tier?: SubscriptionTier;
+  billing_cycle?: BillingCycle;
+  status?: SubscriptionStatus;
+  current_period_start?: Date;
+  current_period_end?: Date;
+}
+
+/**
+ * Checkout for a paid tier
+ */
+export interface CheckoutSessionParams {
+  organization_id: string;
+  tier: SubscriptionTier;
+  billing_cycle: BillingCycle;
+  /** Existing provider customer, if the organization paid before */
+  customer_id?: string;
+  customer_email?: string;
+  success_url: string;
+  cancel_url: string;
+}
+
+/**
+ * Hosted page to send the buyer to
+ */
+export interface BillingSession {
+  id: string;
+  url: string;
+}
+
+/**
+ * Customer portal (invoices, payment methods, plan changes, cancellation)
+ */
+export interface PortalSessionParams {
+  customer_id: string;
+  return_url: string;
+}
+
+/**
+ * Payment provider
+ */
+export interface BillingProvider {
+  readonly name: string;
+
+  createCheckoutSession(params: CheckoutSessionParams): Promise<BillingSession>;
+
+  createPortalSession(params: PortalSessionParams): Promise<BillingSession>;
+
+  /**
+   * Verify a webhook's signature and translate it
+   *
+   * @param payload - Raw request body, exactly as received
+   * @param signature - Signature header sent with it
+   * @returns The billing event, or null for events subscriptions ignore
+   * @throws ValidationError if the signature doesn't match
+   */
+  constructWebhookEvent(
+    payload: string,
+    signature: string
+  ): Promise<IBillingEvent | null>;
+}
+
+// ============================================
+// SUBSCRIPTION CHANGES
+// ============================================
+
+/**
+ * Subscription fields a billing event changes
+ * Tier changes are applied separately (they reset the tier's limits).
+ */
+export type BillingChanges = Partial<
+  Pick<
+    ISubscription,
+    | "tier"
+    | "status"
+    | "billing_cycle"
+    | "stripe_customer_id"
+    | "stripe_subscription_id"
+    | "current_period_start"
+    | "current_period_end"
+  >
+>;
+
+/**
+ * Work out how a billing event changes a subscription
+ * Fields the event doesn't carry are left out.
+ */
+export function getBillingChanges(event: IBillingEvent): BillingChanges {
+  const changes: BillingChanges = {
+    stripe_customer_id: event.customer_id,
+    stripe_subscription_id: event.subscription_id,
+    billing_cycle: event.billing_cycle,
+    current_period_start: event.current_period_start,
+    current_period_end: event.current_period_end,
+    tier: event.tier,
+    status: event.status,
+  };
+
+  switch (event.type) {
+    case BillingEventType.CHECKOUT_COMPLETED:
+      changes.status = SubscriptionStatus.ACTIVE;
+      break;
+    case BillingEventType.SUBSCRIPTION_CANCELLED:
+      changes.status = SubscriptionStatus.CANCELLED;
+      changes.tier = SubscriptionTier.FREE;
+      break;
+    case BillingEventType.PAYMENT_FAILED:
+      changes.status = SubscriptionStatus.PAST_DUE;
+      break;
+    case BillingEventType.SUBSCRIPTION_UPDATED:
+      break;
+  }
+
+  return Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as BillingChanges;
+}
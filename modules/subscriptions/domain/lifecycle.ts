@@ -0,0 +1,132 @@
+/**
+ * Subscriptions Module - Lifecycle
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * When trials get their reminder and expire, when each organization's
+ * monthly usage resets, and when usage reaches a tier limit.
+ *
+ * RULES:
+ * - A trial is reminded once, TRIAL_REMINDER_DAYS before trial_ends_at,
+ *   and expires (downgraded to free) once trial_ends_at has passed
+ * - Usage resets one month after the last reset (or after the subscription
+ *   was created), on the day of the month the subscription was created.
+ *   Days a month doesn't have (31st) fall on its last day, without moving
+ *   later resets.
+ * - A limit is reached when an increment takes usage from below the limit
+ *   to the limit or beyond, so it's reported once per usage period
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types, ./tier-limits, ./usage
+ * ❌ CANNOT import: mongoose, infrastructure, application, api
+ */
+
+import { LimitType, getEffectiveLimit } from "./tier-limits";
+import { ISubscriptionLimits, SubscriptionTier } from "./types";
+import { UsageMetric } from "./usage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days before trial_ends_at that organizations are reminded
+ */
+export const TRIAL_REMINDER_DAYS = 3;
+
+/**
+ * Usage counters incrementUsage accepts (UsageMetric values)
+ */
+export type UsageType = `${UsageMetric}`;
+
+/**
+ * The tier limit each usage counter is checked against
+ * AI tokens have no limit of their own - AI spend is capped by cost.
+ */
+export const USAGE_LIMIT_TYPES: Partial<Record<UsageType, LimitType>> = {
+  projects: "projects",
+  users: "users",
+  api_calls: "api_calls_per_month",
+  storage: "storage_gb",
+  ai_cost_usd: "ai_budget_usd_per_month",
+};
+
+/**
+ * Check whether a trial is due its reminder
+ */
+export function isTrialReminderDue(
+  trialEndsAt: Date,
+  now: Date,
+  reminderDays: number = TRIAL_REMINDER_DAYS
+): boolean {
+  return (
+    trialEndsAt > now &&
+    trialEndsAt.getTime() - now.getTime() <= reminderDays * DAY_MS
+  );
+}
+
+/**
+ * Whole days left in a trial, rounded up (a trial ending later today has 1)
+ */
+export function getTrialDaysRemaining(trialEndsAt: Date, now: Date): number {
+  return Math.max(
+    0,
+    Math.ceil((trialEndsAt.getTime() - now.getTime()) / DAY_MS)
+  );
+}
+
+/**
+ * When an organization's usage next resets
+ *
+ * @param lastResetAt - usage_reset_at, or the subscription's created_at if
+ *   usage never reset
+ * @param anniversaryDay - Day of the month usage resets on (the day the
+ *   subscription was created)
+ * @returns The anniversary in the month after lastResetAt, at the same time
+ */
+export function getNextUsageResetAt(
+  lastResetAt: Date,
+  anniversaryDay: number = lastResetAt.getUTCDate()
+): Date {
+  const next = new Date(lastResetAt);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+
+  const daysInMonth = new Date(
+    Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  next.setUTCDate(Math.min(anniversaryDay, daysInMonth));
+
+  return next;
+}
+
+/**
+ * Check whether an increment takes usage to a tier limit
+ *
+ * @param overrides - The organization's limit overrides, if any
+ * @returns The limit reached, or null (not reached, already past it,
+ *   unlimited, or a counter without a limit)
+ */
+export function getLimitReached(
+  tier: SubscriptionTier,
+  usageType: UsageType,
+  usageBefore: number,
+  amount: number,
+  overrides?: ISubscriptionLimits
+): { limit_type: LimitType; limit: number } | null {
+  const limitType = USAGE_LIMIT_TYPES[usageType];
+  if (!limitType) {
+    return null;
+  }
+
+  const limit = getEffectiveLimit(tier, limitType, overrides);
+
+  // -1 means unlimited
+  if (limit === -1) {
+    return null;
+  }
+
+  return usageBefore < limit && usageBefore + amount >= limit
+    ? { limit_type: limitType, limit }
+    : null;
+}
@@ -1,29 +1,48 @@
 /**
- * Subscription Tier Limits Configuration
+ * Subscription Tier Catalogue
  *
  * Defines feature limits and access for each subscription tier.
  * Used by SubscriptionsService for payment walls and limit enforcement.
+ *
+ * DEFAULT_TIER_CATALOGUE applies unless a catalogue is configured (see
+ * infrastructure/tier-catalogue). Organizations can override single limits
+ * (ISubscription.limit_overrides) - the effective limits are the tier's limits with
+ * the overrides applied.
  */
 
-import { SubscriptionTier } from "./types";
+import {
+  Feature,
+  FeatureValues,
+  ISubscriptionLimits,
+  SubscriptionTier,
+} from "./types";
 
 // ============================================
-// TIER LIMITS
+// TIER CATALOGUE
 // ============================================
 
+export interface TierLimits {
+  projects: number; // -1 = unlimited
+  users: number;
+  api_calls_per_month: number;
+  storage_gb: number;
+  ai_budget_usd_per_month: number; // Estimated AI spend (see shared/ai-sdk/pricing)
+}
+
+export type LimitType = keyof TierLimits;
+
 export interface TierConfig {
   name: string;
-  limits: {
-    projects: number; // -1 = unlimited
-    users: number;
-    api_calls_per_month: number;
-    storage_gb: number;
-  };
-  features: string[]; // "*" means all features
+  limits: TierLimits;
+  features: Feature[] | "*"; // "*" means all features
   trial_days?: number;
+  // Age (days) at which client research is re-run on schedule; null = never
+  research_refresh_days: number | null;
 }
 
-export const TIER_LIMITS: Record<SubscriptionTier, TierConfig> = {
+export type TierCatalogue = Record<SubscriptionTier, TierConfig>;
+
+export const DEFAULT_TIER_CATALOGUE: TierCatalogue = {
   [SubscriptionTier.FREE]: {
     name: "Free",
     limits: {
@@ -31,9 +50,11 @@ export const TIER_LIMITS: Record<SubscriptionTier, TierConfig> = {
       users: 2,
       api_calls_per_month: 100,
       storage_gb: 1,
+      ai_budget_usd_per_month: 1,
     },
-    features: ["basic_projects", "manual_context"],
+    features: [Feature.BASIC_PROJECTS, Feature.MANUAL_CONTEXT],
     trial_days: 0,
+    research_refresh_days: null,
   },
 
   [SubscriptionTier.STARTER]: {
@@ -43,9 +64,16 @@ export const TIER_LIMITS: Record<SubscriptionTier, TierConfig> = {
       users: 5,
       api_calls_per_month: 1000,
       storage_gb: 10,
+      ai_budget_usd_per_month: 20,
     },
-    features: ["basic_projects", "manual_context", "analytics", "export_data"],
+    features: [
+      Feature.BASIC_PROJECTS,
+      Feature.MANUAL_CONTEXT,
+      Feature.ANALYTICS,
+      Feature.EXPORT_DATA,
+    ],
     trial_days: 14,
+    research_refresh_days: null,
   },
 
   [SubscriptionTier.PRO]: {
@@ -55,17 +83,19 @@ export const TIER_LIMITS: Record<SubscriptionTier, TierConfig> = {
       users: 15,
       api_calls_per_month: 10000,
       storage_gb: 50,
+      ai_budget_usd_per_month: 100,
     },
     features: [
-      "basic_projects",
-      "manual_context",
-      "analytics",
-      "export_data",
-      "ai_research",
-      "automation",
-      "priority_support",
+      Feature.BASIC_PROJECTS,
+      Feature.MANUAL_CONTEXT,
+      Feature.ANALYTICS,
+      Feature.EXPORT_DATA,
+      Feature.AI_RESEARCH,
+      Feature.AUTOMATION,
+      Feature.PRIORITY_SUPPORT,
     ],
     trial_days: 14,
+    research_refresh_days: 30,
   },
 
   [SubscriptionTier.ENTERPRISE]: {
@@ -75,31 +105,58 @@ export const TIER_LIMITS: Record<SubscriptionTier, TierConfig> = {
       users: -1,
       api_calls_per_month: -1,
       storage_gb: 500,
+      ai_budget_usd_per_month: 1000, // Capped even on enterprise
     },
-    features: ["*"], // all features
+    features: "*", // all features
     trial_days: 30,
+    research_refresh_days: 7,
   },
 };
 
+let tierCatalogue: TierCatalogue = DEFAULT_TIER_CATALOGUE;
+
+/**
+ * Get the tier catalogue in use
+ */
+export function getTierCatalogue(): TierCatalogue {
+  return tierCatalogue;
+}
+
+/**
+ * Use a tier catalogue (null restores DEFAULT_TIER_CATALOGUE)
+ */
+export function setTierCatalogue(catalogue: TierCatalogue | null): void {
+  tierCatalogue = catalogue ?? DEFAULT_TIER_CATALOGUE;
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
+/**
+ * Get a tier's configuration from the catalogue in use
+ */
+export function getTierConfig(tier: SubscriptionTier): TierConfig {
+  return tierCatalogue[tier];
+}
+
+/**
+ * Get every feature a tier has access to
+ */
+export function getTierFeatures(tier: SubscriptionTier): Feature[] {
+  const { features } = getTierConfig(tier);
+
+  return features === "*" ? [...FeatureValues] : features;
+}
+
 /**
  * Check if a tier has access to a specific feature
  */
 export function tierHasFeature(
   tier: SubscriptionTier,
-  feature: string
+  feature: Feature
 ): boolean {
-  const config = TIER_LIMITS[tier];
-
-  // Enterprise has all features
-  if (config.features[0] === "*") {
-    return true;
-  }
-
-  return config.features.includes(feature);
+  return getTierFeatures(tier).includes(feature);
 }
 
 /**
@@ -124,20 +181,61 @@ export function tierIsAtLeast(
  */
 export function getTierLimit(
   tier: SubscriptionTier,
-  limitType: keyof TierConfig["limits"]
+  limitType: LimitType
 ): number {
-  return TIER_LIMITS[tier].limits[limitType];
+  return getTierConfig(tier).limits[limitType];
+}
+
+/**
+ * Get an organization's limits - its tier's limits with its overrides
+ */
+export function getEffectiveLimits(
+  tier: SubscriptionTier,
+  overrides: ISubscriptionLimits = {}
+): TierLimits {
+  const limits = { ...getTierConfig(tier).limits };
+
+  for (const limitType of Object.keys(limits) as LimitType[]) {
+    const override = overrides[limitType];
+    if (typeof override === "number") {
+      limits[limitType] = override;
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Get an organization's limit for a specific resource type
+ */
+export function getEffectiveLimit(
+  tier: SubscriptionTier,
+  limitType: LimitType,
+  overrides?: ISubscriptionLimits
+): number {
+  return getEffectiveLimits(tier, overrides)[limitType];
+}
+
+/**
+ * Get the age (days) at which a tier's client research is refreshed
+ * Returns null for tiers without scheduled re-research.
+ */
+export function getResearchRefreshDays(tier: SubscriptionTier): number | null {
+  return getTierConfig(tier).research_refresh_days;
 }
 
 /**
  * Check if usage is within limits for a tier
+ *
+ * @param overrides - The organization's limit overrides, if any
  */
 export function isWithinLimit(
   tier: SubscriptionTier,
-  limitType: keyof TierConfig["limits"],
-  currentUsage: number
+  limitType: LimitType,
+  currentUsage: number,
+  overrides?: ISubscriptionLimits
 ): boolean {
-  const limit = getTierLimit(tier, limitType);
+  const limit = getEffectiveLimit(tier, limitType, overrides);
 
   // -1 means unlimited
   if (limit === -1) {
@@ -54,28 +54,48 @@ export enum BillingCycle {
 
 export const BillingCycleValues = Object.values(BillingCycle);
 
+/**
+ * Features tiers are entitled to
+ */
+export enum Feature {
+  BASIC_PROJECTS = "basic_projects",
+  MANUAL_CONTEXT = "manual_context",
+  ANALYTICS = "analytics",
+  EXPORT_DATA = "export_data",
+  AI_RESEARCH = "ai_research",
+  AUTOMATION = "automation",
+  PRIORITY_SUPPORT = "priority_support",
+}
+
+export const FeatureValues = Object.values(Feature);
+
 // ============================================
 // DOMAIN INTERFACES
 // ============================================
 
 /**
- * Feature limits configuration
+ * Per-organization limit overrides (e.g., custom Enterprise deals)
+ * Limits left out come from the tier catalogue.
  */
 export interface ISubscriptionLimits {
   projects?: number;
   users?: number;
   api_calls_per_month?: number;
   storage_gb?: number;
+  ai_budget_usd_per_month?: number;
 }
 
 /**
  * Current usage tracking
+ * Cached from the usage ledger (see ./usage) for fast limit checks.
  */
 export interface ISubscriptionUsage {
   projects_count: number;
   users_count: number;
   api_calls_count: number;
   storage_used_gb: number;
+  ai_tokens_count: number;
+  ai_cost_usd: number;
 }
 
 // ============================================
@@ -101,6 +121,7 @@ export interface ISubscription extends IEntity<DatabaseId> {
   // Trial management
   trial_started_at?: Date;
   trial_ends_at?: Date;
+  trial_reminder_sent_at?: Date;
 
   // Billing
   billing_cycle: BillingCycle;
@@ -110,9 +131,10 @@ export interface ISubscription extends IEntity<DatabaseId> {
   // Payment provider (Stripe)
   stripe_customer_id?: string;
   stripe_subscription_id?: string;
+  billing_event_at?: Date; // When the last applied billing event occurred
 
-  // Limits and usage
-  limits?: ISubscriptionLimits;
+  // Limit overrides and usage
+  limit_overrides?: ISubscriptionLimits;
   usage: ISubscriptionUsage;
 
   // Usage tracking
@@ -0,0 +1,187 @@
+/**
+ * Subscriptions Module - Usage Ledger
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Every unit of metered usage is an append-only usage event. Events are
+ * never updated or deleted, so a month's usage can be audited, disputed and
+ * itemized. ISubscription.usage counters are a cache of the ledger, kept for
+ * fast limit checks and rebuilt from it on demand.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: @/shared/types/repository.types, ./types
+ * ❌ CANNOT import: mongoose, infrastructure, application, api
+ */
+
+import { IEntity, DatabaseId } from "@/shared/types/repository.types";
+import { ISubscriptionUsage } from "./types";
+
+// ============================================
+// ENUMS
+// ============================================
+
+/**
+ * Metered usage
+ */
+export enum UsageMetric {
+  PROJECTS = "projects",
+  USERS = "users",
+  API_CALLS = "api_calls",
+  STORAGE = "storage",
+  /** AI input + output tokens */
+  AI_TOKENS = "ai_tokens",
+  /** Estimated AI spend in USD */
+  AI_COST = "ai_cost_usd",
+}
+
+export const UsageMetricValues = Object.values(UsageMetric);
+
+/**
+ * How usage reports are grouped (always per metric within each group)
+ */
+export enum UsageGroupBy {
+  METRIC = "metric",
+  DAY = "day",
+  USER = "user",
+}
+
+export const UsageGroupByValues = Object.values(UsageGroupBy);
+
+/**
+ * Longest period one usage report covers
+ */
+export const MAX_USAGE_REPORT_DAYS = 366;
+
+/**
+ * The ISubscription.usage counter caching each metric
+ */
+export const USAGE_COUNTER_FIELDS: Record<
+  UsageMetric,
+  keyof ISubscriptionUsage
+> = {
+  [UsageMetric.PROJECTS]: "projects_count",
+  [UsageMetric.USERS]: "users_count",
+  [UsageMetric.API_CALLS]: "api_calls_count",
+  [UsageMetric.STORAGE]: "storage_used_gb",
+  [UsageMetric.AI_TOKENS]: "ai_tokens_count",
+  [UsageMetric.AI_COST]: "ai_cost_usd",
+};
+
+/**
+ * Metrics whose counters start again each usage period
+ * The others (projects, users, storage) are totals that carry over.
+ */
+export const MONTHLY_USAGE_METRICS: UsageMetric[] = [
+  UsageMetric.API_CALLS,
+  UsageMetric.AI_TOKENS,
+  UsageMetric.AI_COST,
+];
+
+// ============================================
+// DOMAIN INTERFACES
+// ============================================
+
+/**
+ * IUsageEvent - One unit of metered usage (append-only)
+ */
+export interface IUsageEvent extends IEntity<DatabaseId> {
+  organization_id: string;
+  metric: UsageMetric;
+  /** Negative for releases (a project deleted, storage freed) */
+  quantity: number;
+  occurred_at: Date;
+  user_id?: string;
+  client_id?: string;
+  /** API route the usage came from, e.g. "POST /api/clients" */
+  source_route?: string;
+  /** AI model the usage was billed for */
+  ai_model?: string;
+  ai_provider?: string;
+  /** Token split of AI usage */
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/**
+ * Who and what usage is recorded for (everything but the metric)
+ */
+export interface UsageContext {
+  user_id?: string;
+  client_id?: string;
+  source_route?: string;
+  ai_model?: string;
+  ai_provider?: string;
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/**
+ * One line of a usage report
+ */
+export interface UsageReportRow {
+  metric: UsageMetric;
+  /** UTC day (YYYY-MM-DD), when grouped by day */
+  day?: string;
+  /** When grouped by user; usage without a user has none */
+  user_id?: string;
+  quantity: number;
+  events: number;
+}
+
+// ============================================
+// REPORTING
+// ============================================
+
+/**
+ * Start of the UTC calendar month a date falls in
+ */
+export function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Resolve a usage report's period (from inclusive, to exclusive)
+ * Defaults to the current calendar month (UTC) up to now. Without from, the
+ * report starts at the beginning of the month `to` ends in, so
+ * `to=2026-02-01` reports January.
+ *
+ * @returns The period, or an error message if it's invalid
+ */
+export function resolveUsageReportPeriod(
+  from: Date | undefined,
+  to: Date | undefined,
+  now: Date
+): { from: Date; to: Date } | { error: string } {
+  const periodTo = to ?? now;
+  const periodFrom = from ?? startOfUtcMonth(new Date(periodTo.getTime() - 1));
+
+  if (periodFrom >= periodTo) {
+    return { error: "from must be before to" };
+  }
+
+  const days = (periodTo.getTime() - periodFrom.getTime()) / 86_400_000;
+  if (days > MAX_USAGE_REPORT_DAYS) {
+    return {
+      error: `Usage reports cover at most ${MAX_USAGE_REPORT_DAYS} days`,
+    };
+  }
+
+  return { from: periodFrom, to: periodTo };
+}
+
+/**
+ * Total quantity per metric across report rows
+ */
+export function totalUsageByMetric(
+  rows: UsageReportRow[]
+): Partial<Record<UsageMetric, number>> {
+  const totals: Partial<Record<UsageMetric, number>> = {};
+
+  for (const row of rows) {
+    totals[row.metric] = (totals[row.metric] ?? 0) + row.quantity;
+  }
+
+  return totals;
+}
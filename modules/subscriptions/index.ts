@@ -25,17 +25,66 @@ export {
   SubscriptionTierValues,
   SubscriptionStatusValues,
   BillingCycleValues,
+  Feature,
+  FeatureValues,
 } from "./domain/types";
 
 export {
-  TIER_LIMITS,
+  DEFAULT_TIER_CATALOGUE,
+  getTierCatalogue,
+  setTierCatalogue,
+  getTierConfig,
+  getTierFeatures,
   tierHasFeature,
   tierIsAtLeast,
   getTierLimit,
+  getEffectiveLimits,
+  getEffectiveLimit,
   isWithinLimit,
+  getResearchRefreshDays,
   type TierConfig,
+  type TierLimits,
+  type LimitType,
+  type TierCatalogue,
 } from "./domain/tier-limits";
 
+export {
+  TRIAL_REMINDER_DAYS,
+  USAGE_LIMIT_TYPES,
+  isTrialReminderDue,
+  getTrialDaysRemaining,
+  getNextUsageResetAt,
+  getLimitReached,
+  type UsageType,
+} from "./domain/lifecycle";
+
+export {
+  UsageMetric,
+  UsageMetricValues,
+  UsageGroupBy,
+  UsageGroupByValues,
+  MAX_USAGE_REPORT_DAYS,
+  USAGE_COUNTER_FIELDS,
+  MONTHLY_USAGE_METRICS,
+  resolveUsageReportPeriod,
+  totalUsageByMetric,
+  type IUsageEvent,
+  type UsageContext,
+  type UsageReportRow,
+} from "./domain/usage";
+
+export {
+  BillingEventType,
+  BillingEventTypeValues,
+  getBillingChanges,
+  type IBillingEvent,
+  type BillingProvider,
+  type BillingSession,
+  type BillingChanges,
+  type CheckoutSessionParams,
+  type PortalSessionParams,
+} from "./domain/billing";
+
 // ============================================
 // APPLICATION LAYER
 // ============================================
@@ -58,15 +107,29 @@ export {
   CreateSubscriptionInputSchema,
   UpdateSubscriptionInputSchema,
   IncrementUsageInputSchema,
+  CreateCheckoutSessionInputSchema,
+  CreatePortalSessionInputSchema,
+  UsageReportQuerySchema,
+  LimitOverridesInputSchema,
   SubscriptionResponseSchema,
+  BillingSessionResponseSchema,
+  UsageReportResponseSchema,
   LimitCheckResponseSchema,
   FeatureAccessResponseSchema,
+  EntitlementsResponseSchema,
   type CreateSubscriptionInput,
   type UpdateSubscriptionInput,
   type IncrementUsageInput,
+  type CreateCheckoutSessionInput,
+  type CreatePortalSessionInput,
+  type UsageReportQuery,
+  type LimitOverridesInput,
   type SubscriptionResponse,
+  type BillingSessionResponse,
+  type UsageReportResponse,
   type LimitCheckResponse,
   type FeatureAccessResponse,
+  type EntitlementsResponse,
 } from "./api/validation";
 
 export {
@@ -82,7 +145,24 @@ export { subscriptionQueryConfig } from "./api/query.config";
 // ============================================
 
 export { SUBSCRIPTION_MODEL_NAME } from "./infrastructure/schema";
+export { USAGE_EVENT_MODEL_NAME } from "./infrastructure/usage-event.schema";
+
+export {
+  BillingProviderFactory,
+  FakeBillingProvider,
+  StripeBillingProvider,
+  type BillingProviderType,
+} from "./infrastructure/billing";
+
+export {
+  TIER_CATALOGUE_ENV,
+  TierCatalogueConfigSchema,
+  buildTierCatalogue,
+  loadTierCatalogueFromEnv,
+  type TierCatalogueConfig,
+} from "./infrastructure/tier-catalogue";
 
 // ❌ DO NOT EXPORT:
 // - SubscriptionDocument (Mongoose-specific type)
 // - SubscriptionModel (Mongoose model)
+// - UsageEventDocument, UsageEventModel
@@ -0,0 +1,125 @@
+/**
+ * Subscriptions Module - Fake Billing Provider
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Payment Provider
+ * ============================================
+ *
+ * In-memory billing provider for tests and local development. Nothing leaves
+ * the process: sessions are recorded and get local URLs, and webhooks are
+ * billing events as JSON, signed with an HMAC of the payload.
+ *
+ * The webhook secret must be configured - anyone who knows it can sign
+ * billing events, so there is no built-in default.
+ *
+ * Usage:
+ *   const billing = new FakeBillingProvider(process.env.FAKE_BILLING_WEBHOOK_SECRET);
+ *   const payload = JSON.stringify({ id: "evt_1", type: "payment.failed", ... });
+ *   await billing.constructWebhookEvent(payload, billing.sign(payload));
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../../domain
+ * ❌ CANNOT be imported by: API routes
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { ValidationError } from "@/shared/utils/errors";
+import {
+  BillingEventTypeValues,
+  BillingProvider,
+  BillingSession,
+  CheckoutSessionParams,
+  IBillingEvent,
+  PortalSessionParams,
+} from "../../domain/billing";
+
+/**
+ * FakeBillingProvider
+ */
+export class FakeBillingProvider implements BillingProvider {
+  readonly name = "fake";
+
+  /** Checkout sessions created, oldest first */
+  readonly checkoutSessions: Array<CheckoutSessionParams & BillingSession> = [];
+
+  /** Portal sessions created, oldest first */
+  readonly portalSessions: Array<PortalSessionParams & BillingSession> = [];
+
+  private readonly webhookSecret: string;
+
+  /**
+   * @param webhookSecret - Secret webhooks are signed with
+   * @throws Error if no webhook secret is given
+   */
+  constructor(
+    webhookSecret: string | undefined,
+    private readonly baseUrl: string = "http://localhost:3000/billing/fake"
+  ) {
+    if (!webhookSecret) {
+      throw new Error(
+        "FakeBillingProvider requires a webhook secret (FAKE_BILLING_WEBHOOK_SECRET)"
+      );
+    }
+    this.webhookSecret = webhookSecret;
+  }
+
+  async createCheckoutSession(
+    params: CheckoutSessionParams
+  ): Promise<BillingSession> {
+    const id = `cs_fake_${randomUUID()}`;
+    const session = { id, url: `${this.baseUrl}/checkout/${id}` };
+
+    this.checkoutSessions.push({ ...params, ...session });
+    return session;
+  }
+
+  async createPortalSession(
+    params: PortalSessionParams
+  ): Promise<BillingSession> {
+    const id = `bps_fake_${randomUUID()}`;
+    const session = { id, url: `${this.baseUrl}/portal/${id}` };
+
+    this.portalSessions.push({ ...params, ...session });
+    return session;
+  }
+
+  async constructWebhookEvent(
+    payload: string,
+    signature: string
+  ): Promise<IBillingEvent | null> {
+    const expected = Buffer.from(this.sign(payload));
+    const received = Buffer.from(signature);
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new ValidationError("Invalid billing webhook signature");
+    }
+
+    const event = JSON.parse(payload) as IBillingEvent;
+    if (!BillingEventTypeValues.includes(event.type)) {
+      return null;
+    }
+
+    return {
+      ...event,
+      occurred_at: event.occurred_at ? new Date(event.occurred_at) : undefined,
+      current_period_start: event.current_period_start
+        ? new Date(event.current_period_start)
+        : undefined,
+      current_period_end: event.current_period_end
+        ? new Date(event.current_period_end)
+        : undefined,
+    };
+  }
+
+  /**
+   * Signature the fake expects for a webhook payload
+   */
+  sign(payload: string): string {
+    return createHmac("sha256", this.webhookSecret)
+      .update(payload)
+      .digest("hex");
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Billing Provider Factory
+ *
+ * Picks the payment provider subscriptions bill through.
+ *
+ * Configuration:
+ *   Set BILLING_PROVIDER environment variable to:
+ *   - "stripe" (default) - Stripe, configured by STRIPE_* variables
+ *   - "fake" - In-memory provider for tests and local development. Needs
+ *     FAKE_BILLING_WEBHOOK_SECRET and is refused when NODE_ENV=production.
+ */
+
+import { BillingProvider } from "../../domain/billing";
+import { FakeBillingProvider } from "./fake.provider";
+import {
+  StripeBillingProvider,
+  getStripeConfigFromEnv,
+} from "./stripe.provider";
+
+/**
+ * Supported billing providers
+ */
+export type BillingProviderType = "stripe" | "fake";
+
+/**
+ * BillingProviderFactory
+ *
+ * Creates the configured provider once, on first use.
+ */
+export class BillingProviderFactory {
+  private static provider: BillingProvider | null = null;
+
+  /**
+   * Get the configured billing provider
+   */
+  static get(): BillingProvider {
+    if (!this.provider) {
+      this.provider = this.create(
+        (process.env.BILLING_PROVIDER as BillingProviderType) || "stripe"
+      );
+    }
+    return this.provider;
+  }
+
+  /**
+   * Use a specific provider instance (useful for testing)
+   */
+  static set(provider: BillingProvider | null): void {
+    this.provider = provider;
+  }
+
+  private static create(type: BillingProviderType): BillingProvider {
+    switch (type) {
+      case "stripe":
+        return new StripeBillingProvider(getStripeConfigFromEnv());
+
+      case "fake":
+        // Webhooks decide tiers - never accept fake ones in production
+        if (process.env.NODE_ENV === "production") {
+          throw new Error(
+            "The fake billing provider can't be used in production"
+          );
+        }
+        return new FakeBillingProvider(process.env.FAKE_BILLING_WEBHOOK_SECRET);
+
+      default:
+        throw new Error(
+          `Unsupported billing provider: ${type}. ` +
+            `Supported providers: stripe, fake`
+        );
+    }
+  }
+}
+
+export { FakeBillingProvider } from "./fake.provider";
+export {
+  StripeBillingProvider,
+  getStripeConfigFromEnv,
+  type StripeBillingProviderConfig,
+} from "./stripe.provider";
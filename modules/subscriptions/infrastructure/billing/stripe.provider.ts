@@ -0,0 +1,294 @@
+/**
+ * Subscriptions Module - Stripe Billing Provider
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Payment Provider
+ * ============================================
+ *
+ * Stripe Checkout for paid tiers, the Stripe customer portal, and
+ * signature-verified Stripe webhooks.
+ *
+ * Configuration:
+ *   STRIPE_SECRET_KEY - API key
+ *   STRIPE_WEBHOOK_SECRET - Signing secret of the webhook endpoint
+ *   STRIPE_PRICE_<TIER>_<CYCLE> - Price ID per paid tier and cycle,
+ *     e.g. STRIPE_PRICE_PRO_MONTHLY, STRIPE_PRICE_STARTER_YEARLY
+ *
+ * The organization ID travels as the checkout's client_reference_id and in
+ * subscription metadata, so every webhook can be traced back to it. Tiers
+ * are read from the subscription's price, falling back to metadata.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: stripe, ../../domain
+ * ❌ CANNOT be imported by: API routes
+ */
+
+import Stripe from "stripe";
+import { ValidationError } from "@/shared/utils/errors";
+import {
+  BillingEventType,
+  BillingProvider,
+  BillingSession,
+  CheckoutSessionParams,
+  IBillingEvent,
+  PortalSessionParams,
+} from "../../domain/billing";
+import {
+  BillingCycle,
+  BillingCycleValues,
+  SubscriptionStatus,
+  SubscriptionTier,
+  SubscriptionTierValues,
+} from "../../domain/types";
+
+/**
+ * Stripe subscription statuses subscriptions follow
+ * Others (incomplete, paused) leave the status as it is.
+ */
+const STRIPE_STATUS_MAP: Partial<
+  Record<Stripe.Subscription.Status, SubscriptionStatus>
+> = {
+  active: SubscriptionStatus.ACTIVE,
+  trialing: SubscriptionStatus.TRIAL,
+  past_due: SubscriptionStatus.PAST_DUE,
+  unpaid: SubscriptionStatus.PAST_DUE,
+  canceled: SubscriptionStatus.CANCELLED,
+  incomplete_expired: SubscriptionStatus.EXPIRED,
+};
+
+export interface StripeBillingProviderConfig {
+  secretKey: string;
+  webhookSecret: string;
+  /** Price ID per paid tier and cycle */
+  prices: Partial<
+    Record<SubscriptionTier, Partial<Record<BillingCycle, string>>>
+  >;
+}
+
+/**
+ * Read the Stripe configuration from the environment
+ */
+export function getStripeConfigFromEnv(): StripeBillingProviderConfig {
+  const prices: StripeBillingProviderConfig["prices"] = {};
+
+  for (const tier of SubscriptionTierValues) {
+    for (const cycle of BillingCycleValues) {
+      const priceId =
+        process.env[
+          `STRIPE_PRICE_${tier.toUpperCase()}_${cycle.toUpperCase()}`
+        ];
+      if (priceId) {
+        prices[tier] = { ...prices[tier], [cycle]: priceId };
+      }
+    }
+  }
+
+  return {
+    secretKey: process.env.STRIPE_SECRET_KEY || "",
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || "",
+    prices,
+  };
+}
+
+/**
+ * Stripe ID of an expandable field
+ */
+function getId(
+  value: string | { id: string } | null | undefined
+): string | undefined {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value.id;
+}
+
+function toTier(value: string | undefined): SubscriptionTier | undefined {
+  return SubscriptionTierValues.find((tier) => tier === value);
+}
+
+function toBillingCycle(value: string | undefined): BillingCycle | undefined {
+  return BillingCycleValues.find((cycle) => cycle === value);
+}
+
+function fromUnixTime(seconds: number | undefined): Date | undefined {
+  return seconds ? new Date(seconds * 1000) : undefined;
+}
+
+/**
+ * StripeBillingProvider
+ */
+export class StripeBillingProvider implements BillingProvider {
+  readonly name = "stripe";
+
+  private readonly stripe: Stripe;
+
+  constructor(private readonly config: StripeBillingProviderConfig) {
+    if (!config.secretKey) {
+      throw new Error("STRIPE_SECRET_KEY is not configured");
+    }
+    this.stripe = new Stripe(config.secretKey);
+  }
+
+  async createCheckoutSession(
+    params: CheckoutSessionParams
+  ): Promise<BillingSession> {
+    const price = this.config.prices[params.tier]?.[params.billing_cycle];
+    if (!price) {
+      throw new ValidationError(
+        `No Stripe price configured for ${params.tier} (${params.billing_cycle})`
+      );
+    }
+
+    const metadata = {
+      organization_id: params.organization_id,
+      tier: params.tier,
+      billing_cycle: params.billing_cycle,
+    };
+
+    const session = await this.stripe.checkout.sessions.create({
+      mode: "subscription",
+      line_items: [{ price, quantity: 1 }],
+      client_reference_id: params.organization_id,
+      customer: params.customer_id,
+      customer_email: params.customer_id ? undefined : params.customer_email,
+      success_url: params.success_url,
+      cancel_url: params.cancel_url,
+      metadata,
+      subscription_data: { metadata },
+    });
+
+    if (!session.url) {
+      throw new Error("Stripe returned a checkout session without a URL");
+    }
+
+    return { id: session.id, url: session.url };
+  }
+
+  async createPortalSession(
+    params: PortalSessionParams
+  ): Promise<BillingSession> {
+    const session = await this.stripe.billingPortal.sessions.create({
+      customer: params.customer_id,
+      return_url: params.return_url,
+    });
+
+    return { id: session.id, url: session.url };
+  }
+
+  async constructWebhookEvent(
+    payload: string,
+    signature: string
+  ): Promise<IBillingEvent | null> {
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(
+        payload,
+        signature,
+        this.config.webhookSecret
+      );
+    } catch (error) {
+      throw new ValidationError("Invalid Stripe webhook signature", {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const billingEvent = this.fromEvent(event);
+
+    return billingEvent
+      ? { ...billingEvent, occurred_at: fromUnixTime(event.created) }
+      : null;
+  }
+
+  /**
+   * Translate a Stripe event (null if it doesn't affect subscriptions)
+   */
+  private fromEvent(event: Stripe.Event): IBillingEvent | null {
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = event.data.object;
+        if (session.mode !== "subscription") return null;
+
+        return {
+          id: event.id,
+          type: BillingEventType.CHECKOUT_COMPLETED,
+          organization_id:
+            session.client_reference_id ??
+            session.metadata?.organization_id ??
+            undefined,
+          customer_id: getId(session.customer),
+          subscription_id: getId(session.subscription),
+          tier: toTier(session.metadata?.tier),
+          billing_cycle: toBillingCycle(session.metadata?.billing_cycle),
+        };
+      }
+
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+        return this.fromSubscription(
+          event.id,
+          BillingEventType.SUBSCRIPTION_UPDATED,
+          event.data.object
+        );
+
+      case "customer.subscription.deleted":
+        return this.fromSubscription(
+          event.id,
+          BillingEventType.SUBSCRIPTION_CANCELLED,
+          event.data.object
+        );
+
+      case "invoice.payment_failed": {
+        const invoice = event.data.object;
+        const subscriptionId = getId(
+          invoice.parent?.subscription_details?.subscription
+        );
+        // One-off invoices don't affect the subscription
+        if (!subscriptionId) return null;
+
+        return {
+          id: event.id,
+          type: BillingEventType.PAYMENT_FAILED,
+          organization_id:
+            invoice.parent?.subscription_details?.metadata?.organization_id,
+          customer_id: getId(invoice.customer),
+          subscription_id: subscriptionId,
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private fromSubscription(
+    eventId: string,
+    type: BillingEventType,
+    subscription: Stripe.Subscription
+  ): IBillingEvent {
+    const item = subscription.items.data[0];
+    const priceTier = item ? this.getTierForPrice(item.price.id) : undefined;
+    const interval = item?.price.recurring?.interval;
+
+    return {
+      id: eventId,
+      type,
+      organization_id: subscription.metadata?.organization_id,
+      customer_id: getId(subscription.customer),
+      subscription_id: subscription.id,
+      tier: priceTier ?? toTier(subscription.metadata?.tier),
+      billing_cycle:
+        interval === "year"
+          ? BillingCycle.YEARLY
+          : interval === "month"
+          ? BillingCycle.MONTHLY
+          : undefined,
+      status: STRIPE_STATUS_MAP[subscription.status],
+      current_period_start: fromUnixTime(item?.current_period_start),
+      current_period_end: fromUnixTime(item?.current_period_end),
+    };
+  }
+
+  private getTierForPrice(priceId: string): SubscriptionTier | undefined {
+    return SubscriptionTierValues.find((tier) =>
+      Object.values(this.config.prices[tier] ?? {}).includes(priceId)
+    );
+  }
+}
@@ -74,6 +74,7 @@ const subscriptionDefinition = {
   // Trial management
   trial_started_at: { type: Date },
   trial_ends_at: { type: Date, index: true },
+  trial_reminder_sent_at: { type: Date },
 
   // Billing cycle
   billing_cycle: {
@@ -87,13 +88,18 @@ const subscriptionDefinition = {
   // Payment provider integration (Stripe)
   stripe_customer_id: { type: String, index: true, sparse: true },
   stripe_subscription_id: { type: String, sparse: true },
+  // Older billing events than this are ignored
+  billing_event_at: { type: Date },
 
-  // Feature limits per tier
-  limits: {
+  // Per-organization overrides of the tier's limits. Subscriptions created
+  // before overrides existed also hold a copy of their tier's limits at the
+  // time in `limits` - that field is no longer read.
+  limit_overrides: {
     projects: { type: Number },
     users: { type: Number },
     api_calls_per_month: { type: Number },
     storage_gb: { type: Number },
+    ai_budget_usd_per_month: { type: Number },
   },
 
   // Current usage (resets monthly)
@@ -102,6 +108,8 @@ const subscriptionDefinition = {
     users_count: { type: Number, default: 0 },
     api_calls_count: { type: Number, default: 0 },
     storage_used_gb: { type: Number, default: 0 },
+    ai_tokens_count: { type: Number, default: 0 },
+    ai_cost_usd: { type: Number, default: 0 },
   },
 
   // Usage tracking metadata
@@ -0,0 +1,128 @@
+/**
+ * Subscriptions Module - Tier Catalogue Configuration
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Configuration
+ * ============================================
+ *
+ * Loads the tier catalogue from configuration.
+ *
+ * Configuration:
+ *   Set SUBSCRIPTION_TIER_CATALOGUE to JSON keyed by tier. Each tier
+ *   changes only what it lists; the rest comes from DEFAULT_TIER_CATALOGUE:
+ *   {"pro": {"limits": {"projects": 50}, "features": ["ai_research"]}}
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: Domain types and catalogue from ../domain
+ * ❌ CANNOT import: application, api
+ */
+
+import { z } from "zod";
+import { FeatureValues, SubscriptionTier } from "../domain/types";
+import { DEFAULT_TIER_CATALOGUE, TierCatalogue } from "../domain/tier-limits";
+
+/**
+ * Environment variable holding the tier catalogue (JSON)
+ */
+export const TIER_CATALOGUE_ENV = "SUBSCRIPTION_TIER_CATALOGUE";
+
+/**
+ * A limit: a count, or -1 for unlimited
+ */
+const LimitSchema = z.number().min(-1);
+
+/**
+ * One tier's configuration - every field is optional
+ */
+const TierConfigSchema = z
+  .object({
+    name: z.string().min(1),
+    limits: z
+      .object({
+        projects: LimitSchema,
+        users: LimitSchema,
+        api_calls_per_month: LimitSchema,
+        storage_gb: LimitSchema,
+        ai_budget_usd_per_month: LimitSchema,
+      })
+      .partial()
+      .strict(),
+    features: z.union([z.literal("*"), z.array(z.enum(FeatureValues))]),
+    trial_days: z.number().int().min(0),
+    research_refresh_days: z.number().int().positive().nullable(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Tier catalogue configuration - tiers left out keep their defaults
+ */
+export const TierCatalogueConfigSchema = z
+  .object({
+    [SubscriptionTier.FREE]: TierConfigSchema,
+    [SubscriptionTier.STARTER]: TierConfigSchema,
+    [SubscriptionTier.PRO]: TierConfigSchema,
+    [SubscriptionTier.ENTERPRISE]: TierConfigSchema,
+  })
+  .partial()
+  .strict();
+
+export type TierCatalogueConfig = z.infer<typeof TierCatalogueConfigSchema>;
+
+/**
+ * Build a tier catalogue from configuration over a base catalogue
+ *
+ * @throws Error if the configuration is invalid
+ */
+export function buildTierCatalogue(
+  config: unknown,
+  base: TierCatalogue = DEFAULT_TIER_CATALOGUE
+): TierCatalogue {
+  const parsed = TierCatalogueConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid tier catalogue: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ")}`
+    );
+  }
+
+  const catalogue = { ...base };
+
+  for (const [tier, overrides] of Object.entries(parsed.data) as Array<
+    [SubscriptionTier, NonNullable<TierCatalogueConfig[SubscriptionTier]>]
+  >) {
+    catalogue[tier] = {
+      ...base[tier],
+      ...overrides,
+      limits: { ...base[tier].limits, ...overrides.limits },
+    };
+  }
+
+  return catalogue;
+}
+
+/**
+ * Load the tier catalogue from SUBSCRIPTION_TIER_CATALOGUE
+ * Without it, DEFAULT_TIER_CATALOGUE applies.
+ *
+ * @throws Error if the variable isn't valid JSON or a valid catalogue -
+ *   a misconfigured catalogue must not silently fall back to the defaults
+ */
+export function loadTierCatalogueFromEnv(
+  env: Record<string, string | undefined> = process.env
+): TierCatalogue {
+  const raw = env[TIER_CATALOGUE_ENV];
+  if (!raw) {
+    return DEFAULT_TIER_CATALOGUE;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(raw);
+  } catch {
+    throw new Error(`${TIER_CATALOGUE_ENV} is not valid JSON`);
+  }
+
+  return buildTierCatalogue(config);
+}
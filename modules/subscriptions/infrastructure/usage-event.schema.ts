@@ -0,0 +1,104 @@
+/**
+ * Subscriptions Module - Usage Event Mongoose Schema
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Database Implementation
+ * ============================================
+ *
+ * Append-only usage ledger. Events are only ever inserted; reports and
+ * counter rebuilds aggregate them.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: mongoose, @/shared/db/base.schema.types
+ * ✅ CAN import: Domain enums from ../domain/usage
+ * ⚠️  CAN export: USAGE_EVENT_MODEL_NAME constant (safe)
+ * ❌ CANNOT be imported by: Services, factories, API routes
+ */
+
+import mongoose, { Schema, Model, InferSchemaType } from "mongoose";
+import { modelRegistry } from "@/shared/db/model.registry";
+import {
+  baseUserEntityDefinition,
+  IMongooseDocument,
+} from "@/shared/db/base.schema.types";
+import { UsageMetricValues } from "../domain/usage";
+
+// ============================================
+// MODEL NAME CONSTANT
+// ============================================
+
+export const USAGE_EVENT_MODEL_NAME = "UsageEvent";
+
+// ============================================
+// MONGOOSE SCHEMA DEFINITION
+// ============================================
+
+/**
+ * Usage Event Schema Definition
+ */
+const usageEventDefinition = {
+  // Base entity fields
+  ...baseUserEntityDefinition,
+
+  // PropelAuth organization the usage is billed to
+  organization_id: { type: String, required: true, trim: true },
+
+  metric: { type: String, enum: UsageMetricValues, required: true },
+  quantity: { type: Number, required: true },
+  occurred_at: { type: Date, required: true },
+
+  // Who and what the usage came from - scheduled work has no user
+  user_id: { type: String },
+  client_id: { type: String },
+  source_route: { type: String },
+  ai_model: { type: String },
+  ai_provider: { type: String },
+  input_tokens: { type: Number },
+  output_tokens: { type: Number },
+};
+
+/**
+ * Create Mongoose Schema
+ */
+const UsageEventSchema = new Schema(usageEventDefinition, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+  },
+  collection: "usage_events",
+  versionKey: false,
+});
+
+// ============================================
+// INDEXES
+// ============================================
+
+UsageEventSchema.index({ organization_id: 1, occurred_at: 1 });
+UsageEventSchema.index({ organization_id: 1, metric: 1, occurred_at: 1 });
+
+// ============================================
+// TYPE INFERENCE
+// ============================================
+
+/**
+ * UsageEventDocument - Mongoose-specific document type
+ * ONLY use in repository implementations!
+ */
+export type UsageEventDocument = IMongooseDocument<
+  InferSchemaType<typeof UsageEventSchema>
+>;
+
+// ============================================
+// MODEL CREATION & REGISTRATION
+// ============================================
+
+const UsageEventModel =
+  (mongoose.models[USAGE_EVENT_MODEL_NAME] as Model<UsageEventDocument>) ||
+  mongoose.model<UsageEventDocument>(USAGE_EVENT_MODEL_NAME, UsageEventSchema);
+
+modelRegistry.register<UsageEventDocument>(
+  USAGE_EVENT_MODEL_NAME,
+  UsageEventModel
+);
+
+export default UsageEventModel;
@@ -1,22 +1,258 @@
 /**
- * Subscriptions Module - Inngest Event Handlers
+ * Subscriptions Module - Inngest Functions
  *
  * ============================================
- * EVENT-DRIVEN WORKFLOWS
+ * SCHEDULED WORKFLOWS
  * ============================================
  *
- * Placeholder for future event handlers:
- * - Trial expiration checks
- * - Usage reset (monthly)
- * - Stripe webhook processing
- * - Subscription lifecycle events
+ * - hourly cron → remind trials ending within TRIAL_REMINDER_DAYS
+ *   → subscription.trial.expiring
+ * - hourly cron → expire ended trials (downgrade to free)
+ *   → subscription.trial.expired
+ * - hourly cron → reset monthly usage on each organization's anniversary
+ *
+ * subscription.limit.reached is published by incrementUsage when usage
+ * reaches a tier limit. The trial and limit events are the notifications:
+ * delivery (email, in-app) subscribes to them.
+ *
+ * Billing webhooks are applied synchronously by POST /api/subscriptions/webhook.
+ */
+
+import { inngest, toInngestEvent } from "@/inngest/client";
+import { buildEvent, EventName } from "@/modules/events";
+import { createIdempotencyKey } from "@/shared/types/inngest.types";
+import { logger } from "@/shared/utils/logger";
+import { subscriptionsService } from "./application/service";
+import { getTrialDaysRemaining } from "./domain/lifecycle";
+
+const log = logger.child({ module: "subscriptions-inngest" });
+
+/**
+ * When trials are checked (hourly, so trials expire within the hour)
+ */
+export const TRIAL_CHECK_CRON = "TZ=UTC 0 * * * *";
+
+/**
+ * When usage resets are checked (hourly, so usage resets within the hour of
+ * the anniversary)
+ */
+export const USAGE_RESET_CRON = "TZ=UTC 30 * * * *";
+
+/**
+ * Most subscriptions handled per run - the rest are picked up next run
+ */
+export const LIFECYCLE_BATCH_SIZE = 100;
+
+/**
+ * Trial picked for a reminder or expiry, as passed between steps
+ */
+interface PickedTrial {
+  organization_id: string;
+  trial_ends_at: string;
+}
+
+/**
+ * Usage reset picked for a run, as passed between steps
+ */
+interface PickedUsageReset {
+  organization_id: string;
+  due_at: string;
+}
+
+/**
+ * Remind organizations whose trial ends soon (once per trial)
  */
+export const remindExpiringTrials = inngest.createFunction(
+  {
+    id: "subscriptions-remind-expiring-trials",
+    name: "Remind expiring trials",
+    concurrency: { limit: 1 },
+    retries: 1,
+  },
+  { cron: TRIAL_CHECK_CRON },
+  async ({ step }) => {
+    const due = await step.run(
+      "find-expiring-trials",
+      async (): Promise<PickedTrial[]> => {
+        const subscriptions = await subscriptionsService.findTrialRemindersDue(
+          new Date(),
+          LIFECYCLE_BATCH_SIZE
+        );
+
+        return subscriptions.flatMap((subscription) =>
+          subscription.trial_ends_at
+            ? [
+                {
+                  organization_id: subscription.propel_auth_org_id,
+                  trial_ends_at: new Date(
+                    subscription.trial_ends_at
+                  ).toISOString(),
+                },
+              ]
+            : []
+        );
+      }
+    );
+
+    for (const trial of due) {
+      const trialEndsAt = trial.trial_ends_at;
+
+      await step.sendEvent(
+        `emit-trial-expiring-${trial.organization_id}`,
+        toInngestEvent(
+          buildEvent(
+            EventName.SUBSCRIPTION_TRIAL_EXPIRING,
+            {
+              organization_id: trial.organization_id,
+              trial_ends_at: trialEndsAt,
+              days_remaining: getTrialDaysRemaining(
+                new Date(trialEndsAt),
+                new Date()
+              ),
+            },
+            {
+              // Subscriptions span clients - the organization stands in for the project
+              projectId: trial.organization_id,
+              source: "subscriptions-module",
+              idempotencyKey: createIdempotencyKey(
+                trial.organization_id,
+                "trial",
+                "expiring",
+                trialEndsAt
+              ),
+            }
+          )
+        )
+      );
+
+      await step.run(`mark-reminded-${trial.organization_id}`, () =>
+        subscriptionsService.markTrialReminderSent(trial.organization_id)
+      );
+    }
+
+    log.info("Expiring trials reminded", { reminded: due.length });
+
+    return { reminded: due.length };
+  }
+);
+
+/**
+ * Downgrade trials that ended to the free tier
+ */
+export const expireEndedTrials = inngest.createFunction(
+  {
+    id: "subscriptions-expire-ended-trials",
+    name: "Expire ended trials",
+    concurrency: { limit: 1 },
+    retries: 1,
+  },
+  { cron: TRIAL_CHECK_CRON },
+  async ({ step }) => {
+    const ended = await step.run(
+      "find-ended-trials",
+      async (): Promise<PickedTrial[]> => {
+        const subscriptions = await subscriptionsService.findTrialsEndingBefore(
+          new Date(),
+          LIFECYCLE_BATCH_SIZE
+        );
+
+        return subscriptions.flatMap((subscription) =>
+          subscription.trial_ends_at
+            ? [
+                {
+                  organization_id: subscription.propel_auth_org_id,
+                  trial_ends_at: new Date(
+                    subscription.trial_ends_at
+                  ).toISOString(),
+                },
+              ]
+            : []
+        );
+      }
+    );
+
+    let expired = 0;
+
+    for (const trial of ended) {
+      const wasExpired = await step.run(`expire-${trial.organization_id}`, () =>
+        subscriptionsService.expireTrial(trial.organization_id)
+      );
+
+      if (!wasExpired) {
+        continue;
+      }
+
+      expired++;
+      await step.sendEvent(
+        `emit-trial-expired-${trial.organization_id}`,
+        toInngestEvent(
+          buildEvent(
+            EventName.SUBSCRIPTION_TRIAL_EXPIRED,
+            {
+              organization_id: trial.organization_id,
+              trial_ends_at: trial.trial_ends_at,
+            },
+            {
+              projectId: trial.organization_id,
+              source: "subscriptions-module",
+              idempotencyKey: createIdempotencyKey(
+                trial.organization_id,
+                "trial",
+                "expired",
+                trial.trial_ends_at
+              ),
+            }
+          )
+        )
+      );
+    }
+
+    log.info("Ended trials expired", { found: ended.length, expired });
+
+    return { found: ended.length, expired };
+  }
+);
+
+/**
+ * Reset monthly usage of organizations whose anniversary has come
+ */
+export const resetMonthlyUsageOnAnniversary = inngest.createFunction(
+  {
+    id: "subscriptions-reset-monthly-usage",
+    name: "Reset monthly usage on anniversary",
+    concurrency: { limit: 1 },
+    retries: 1,
+  },
+  { cron: USAGE_RESET_CRON },
+  async ({ step }) => {
+    const due = await step.run(
+      "find-usage-resets-due",
+      async (): Promise<PickedUsageReset[]> => {
+        const subscriptions = await subscriptionsService.findUsageResetsDue(
+          new Date(),
+          LIFECYCLE_BATCH_SIZE
+        );
+
+        return subscriptions.map((subscription) => ({
+          organization_id: subscription.propel_auth_org_id,
+          due_at: subscriptionsService
+            .getNextUsageResetAt(subscription)
+            .toISOString(),
+        }));
+      }
+    );
+
+    for (const subscription of due) {
+      await step.run(`reset-${subscription.organization_id}`, () =>
+        subscriptionsService.resetMonthlyUsage(
+          subscription.organization_id,
+          new Date(subscription.due_at)
+        )
+      );
+    }
 
-// TODO: Implement Inngest functions for:
-// 1. subscription.trial.expiring - Notify before trial ends
-// 2. subscription.trial.expired - Downgrade to free tier
-// 3. subscription.usage.reset - Reset monthly API call counter
-// 4. subscription.limit.reached - Notify when limit reached
-// 5. stripe.webhook.received - Process Stripe events
+    log.info("Monthly usage reset", { reset: due.length });
 
-export {};
+    return { reset: due.length };
+  }
+);
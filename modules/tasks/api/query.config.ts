@@ -0,0 +1,205 @@
+/**
+ * Task Query Configuration
+ *
+ * ============================================
+ * API LAYER - Query Parsing Configuration
+ * ============================================
+ *
+ * Configuration for UniversalQueryParser to enable filtering, sorting,
+ * and searching on Task entities.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/types (ITask for type checking)
+ * ✅ CAN import: @/shared/utils/query.parser (query utilities)
+ * ❌ CANNOT import: ../infrastructure/schema (database implementation)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { ITask } from "../domain/types";
+import {
+  StrictQueryParserConfig,
+  FilterOperator,
+  baseFilterableFields,
+} from "@/shared/utils/query.parser";
+
+/**
+ * Fields excluded from direct filtering
+ * These are free text, nested arrays or internal audit fields
+ */
+type ExcludedTaskFields =
+  | "description"
+  | "status_history"
+  | "idempotency_key"
+  | "created_by_propel_auth_org_id"
+  | "is_deleted"
+  | "deleted_at"
+  | "deleted_by"
+  | "created_by"
+  | "updated_by";
+
+/**
+ * Date filter operators shared by the scheduling fields
+ */
+const dateOperators = [
+  FilterOperator.EQUALS,
+  FilterOperator.GREATER_THAN,
+  FilterOperator.GREATER_THAN_OR_EQUAL,
+  FilterOperator.LESS_THAN,
+  FilterOperator.LESS_THAN_OR_EQUAL,
+];
+
+/**
+ * Task Query Parser Configuration
+ *
+ * Supports filtering by:
+ * - Client, status, priority, channel and content type
+ * - Owner and schedule (due date, started/completed dates)
+ * - Source plan, calendar item and pillar
+ * - User ownership (user_id, organization_id)
+ * - Audit fields (created_at, updated_at)
+ *
+ * Supports searching across:
+ * - Task title and description
+ */
+export const taskQueryConfig: StrictQueryParserConfig<
+  ITask,
+  ExcludedTaskFields
+> = {
+  searchFields: {
+    textFields: ["title", "description"],
+  },
+
+  filterableFields: {
+    client_id: {
+      field: "client_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    title: {
+      field: "title",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.CONTAINS],
+      allowMultiple: false,
+    },
+    status: {
+      field: "status",
+      type: "string",
+      operators: [
+        FilterOperator.EQUALS,
+        FilterOperator.NOT_EQUALS,
+        FilterOperator.IN,
+      ],
+      allowMultiple: true,
+    },
+    priority: {
+      field: "priority",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    channel: {
+      field: "channel",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    content_type: {
+      field: "content_type",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    estimated_hours: {
+      field: "estimated_hours",
+      type: "number",
+      operators: [
+        FilterOperator.EQUALS,
+        FilterOperator.GREATER_THAN,
+        FilterOperator.GREATER_THAN_OR_EQUAL,
+        FilterOperator.LESS_THAN,
+        FilterOperator.LESS_THAN_OR_EQUAL,
+      ],
+      allowMultiple: false,
+    },
+
+    // Scheduling and ownership
+    owner_id: {
+      field: "owner_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    due_date: {
+      field: "due_date",
+      type: "date",
+      operators: dateOperators,
+      allowMultiple: false,
+    },
+    started_at: {
+      field: "started_at",
+      type: "date",
+      operators: dateOperators,
+      allowMultiple: false,
+    },
+    completed_at: {
+      field: "completed_at",
+      type: "date",
+      operators: dateOperators,
+      allowMultiple: false,
+    },
+
+    // Strategy plan back-references
+    plan_id: {
+      field: "plan_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    plan_item_id: {
+      field: "plan_item_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    pillar: {
+      field: "pillar",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+
+    // User ownership
+    user_id: {
+      field: "user_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+    organization_id: {
+      field: "organization_id",
+      type: "string",
+      operators: [FilterOperator.EQUALS, FilterOperator.IN],
+      allowMultiple: true,
+    },
+
+    // Audit fields (inherited from base - already snake_case)
+    ...baseFilterableFields,
+  },
+
+  excludedFields: [
+    "description",
+    "status_history",
+    "idempotency_key",
+    "created_by_propel_auth_org_id",
+    "is_deleted",
+    "deleted_at",
+    "deleted_by",
+    "created_by",
+    "updated_by",
+  ],
+
+  defaultSort: "due_date",
+  defaultPageSize: 20,
+  maxPageSize: 100,
+} as any;
@@ -0,0 +1,47 @@
+/**
+ * Task Response DTO
+ *
+ * ============================================
+ * API LAYER - Response Data Transfer Objects
+ * ============================================
+ *
+ * Handles conversion from domain entities to API responses.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/types (ITask - domain entity)
+ * ✅ CAN import: ./validation (API contract types)
+ * ✅ CAN import: @/shared/api (BaseResponseDTO)
+ * ❌ CANNOT import: ../infrastructure/schema (TaskDocument, mongoose)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { BaseResponseDTO } from "@/shared/api/base.response.dto";
+import { ITask } from "../domain/types";
+import { TaskResponse } from "./validation";
+
+/**
+ * Task Response DTO
+ * Uses MongoDB transformation helper from BaseResponseDTO (_id → id)
+ */
+class TaskResponseDTOClass extends BaseResponseDTO<ITask, TaskResponse> {
+  /**
+   * Transform ITask domain entity to TaskResponse
+   */
+  protected transform(entity: ITask): TaskResponse {
+    return this.transformMongoEntity(entity) as TaskResponse;
+  }
+}
+
+/**
+ * Singleton instance for use across the application
+ */
+export const TaskResponseDTO = new TaskResponseDTOClass();
+
+/**
+ * Convenience functions (optional - can use TaskResponseDTO directly)
+ */
+export const toTaskResponse = (entity: ITask): TaskResponse =>
+  TaskResponseDTO.fromEntity(entity);
+
+export const toTaskResponses = (entities: ITask[]): TaskResponse[] =>
+  TaskResponseDTO.fromEntities(entities);
@@ -0,0 +1,136 @@
+/**
+ * Tasks Module - API Validation Schemas
+ *
+ * ============================================
+ * API LAYER - Input/Output Validation
+ * ============================================
+ *
+ * Defines Zod schemas for API request validation and response typing.
+ * Reuses domain Zod schemas from schema.definition.ts.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/schema.definition (Zod schemas)
+ * ✅ CAN import: ../domain/types (enums for validation)
+ * ✅ CAN import: @/shared/validation (base validation utilities)
+ * ✅ CAN import: zod (validation library)
+ * ❌ CANNOT import: ../infrastructure/schema (database types)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { z } from "zod";
+import { TaskStatusChangeSchema } from "../domain/schema.definition";
+import {
+  TaskStatus,
+  TaskStatusValues,
+  TaskPriorityValues,
+} from "../domain/types";
+import {
+  createResponseSchema,
+  createInputSchema,
+} from "@/shared/validation/base.validation";
+import { BrandedZodType } from "@/shared/types";
+
+/**
+ * ============================================================================
+ * Brand Symbols for Nominal Typing
+ * ============================================================================
+ */
+
+export const CreateTaskBrand = Symbol("CreateTaskBrand");
+export const UpdateTaskBrand = Symbol("UpdateTaskBrand");
+export const TransitionTaskStatusBrand = Symbol("TransitionTaskStatusBrand");
+
+/**
+ * ============================================================================
+ * Task Creation / Update Schemas
+ * ============================================================================
+ */
+
+// Task-specific fields (without user_id/organization_id - added by helper)
+const TaskInputFieldsSchema = z.object({
+  client_id: z.string().min(1, "Client ID is required"),
+  title: z.string().min(1, "Task title is required").trim(),
+  description: z.string().trim().optional(),
+  channel: z.string().trim().optional(),
+  content_type: z.string().trim().optional(),
+  priority: z.enum(TaskPriorityValues).optional(),
+  estimated_hours: z.number().nonnegative().optional(),
+  owner_id: z.string().optional(),
+  due_date: z.coerce.date().optional(),
+  pillar: z.string().trim().optional(),
+  // New tasks may only start as a draft or go straight to the queue
+  status: z.enum([TaskStatus.DRAFT, TaskStatus.QUEUED]).optional(),
+});
+
+// Use helper to add user_id and organization_id
+export const CreateTaskSchema = createInputSchema(TaskInputFieldsSchema);
+
+export type CreateTaskInput = BrandedZodType<
+  z.infer<typeof CreateTaskSchema>,
+  typeof CreateTaskBrand
+>;
+
+/**
+ * Task updates never change status - use TransitionTaskStatusSchema
+ */
+export const UpdateTaskSchema = CreateTaskSchema.partial().omit({
+  user_id: true,
+  organization_id: true,
+  client_id: true,
+  status: true,
+});
+
+export type UpdateTaskInput = BrandedZodType<
+  z.infer<typeof UpdateTaskSchema>,
+  typeof UpdateTaskBrand
+>;
+
+/**
+ * Request body for moving a task to another status
+ */
+export const TransitionTaskStatusSchema = z.object({
+  status: z.enum(TaskStatusValues),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export type TransitionTaskStatusInput = BrandedZodType<
+  z.infer<typeof TransitionTaskStatusSchema>,
+  typeof TransitionTaskStatusBrand
+>;
+
+/**
+ * ============================================================================
+ * Response Schemas
+ * ============================================================================
+ */
+
+/**
+ * Task-specific response fields (without base audit fields)
+ */
+const TaskResponseFieldsSchema = z.object({
+  client_id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  channel: z.string().optional(),
+  content_type: z.string().optional(),
+  priority: z.string(),
+  estimated_hours: z.number().optional(),
+  owner_id: z.string().optional(),
+  due_date: z.date().optional(),
+  plan_id: z.string().optional(),
+  plan_item_id: z.string().optional(),
+  pillar: z.string().optional(),
+  status: z.string(),
+  status_history: z.array(TaskStatusChangeSchema),
+  started_at: z.date().optional(),
+  completed_at: z.date().optional(),
+});
+
+/**
+ * Task response schema (extends base - automatically includes id, audit fields, user ownership)
+ */
+export const TaskResponseSchema = createResponseSchema(
+  TaskResponseFieldsSchema
+);
+
+export type TaskResponse = z.infer<typeof TaskResponseSchema>;
@@ -0,0 +1,159 @@
+/**
+ * Task Factory
+ *
+ * ============================================
+ * APPLICATION LAYER - Data Transformation
+ * ============================================
+ *
+ * Handles transformations between API contracts and domain entities.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/types (ITask, enums)
+ * ✅ CAN import: ../api/validation (API input types)
+ * ✅ CAN import: @/shared/db/base.factory (base factory pattern)
+ * ❌ CANNOT import: ../infrastructure/schema (TaskDocument, mongoose)
+ * ❌ CANNOT import: Database-specific types
+ *
+ * This factory:
+ * - Converts API requests → Domain entities
+ * - Converts strategy plan calendar items → Domain entities
+ * - Sets the initial lifecycle state of new tasks
+ */
+
+import { BaseFactory } from "@/shared/db/base.factory";
+import { createIdempotencyKey } from "@/shared/types/inngest.types";
+import {
+  IPlanTaskItem,
+  IPlanTaskSource,
+  ITask,
+  TaskPriority,
+  TaskStatus,
+} from "../domain/types";
+import { CreateTaskInput, UpdateTaskInput } from "../api/validation";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Context required to turn plan calendar items into task entities
+ */
+export interface PlanTaskContext {
+  plan: IPlanTaskSource;
+  user_id: string;
+  organization_id?: string;
+  owner_id?: string;
+}
+
+/**
+ * TaskFactory
+ *
+ * Extends BaseFactory to provide Task-specific transformations.
+ */
+export class TaskFactory extends BaseFactory<
+  ITask,
+  CreateTaskInput,
+  UpdateTaskInput
+> {
+  /**
+   * Map request fields to entity fields
+   * API and domain both use snake_case, so this is a direct pass-through
+   *
+   * @param request - Task request data (create or update)
+   * @returns Mapped entity fields in snake_case
+   */
+  protected mapRequestToEntity(
+    request: Partial<CreateTaskInput> | UpdateTaskInput
+  ): Partial<ITask> {
+    return request as Partial<ITask>;
+  }
+
+  /**
+   * Apply business logic during task creation
+   * New tasks start as drafts (or queued) with an empty status history
+   *
+   * @param request - Original creation request
+   * @param userId - User creating the task
+   * @param orgId - Organization ID
+   * @returns Business-specific entity fields
+   */
+  protected applyCreateBusinessLogic(
+    request: CreateTaskInput,
+    _userId: string,
+    _orgId: string
+  ): Partial<ITask> {
+    // Mark parameters as intentionally unused in this implementation
+    void _userId;
+    void _orgId;
+    return {
+      status: request.status ?? TaskStatus.DRAFT,
+      priority: request.priority ?? TaskPriority.MEDIUM,
+      status_history: [],
+    };
+  }
+
+  /**
+   * Idempotency key for the task created from a plan calendar item
+   * The client is the project; the same item always maps to the same key.
+   *
+   * @param clientId - Client (project) the plan belongs to
+   * @param planItemId - Calendar item identifier
+   * @returns Idempotency key
+   */
+  createPlanItemKey(clientId: string, planItemId: string): string {
+    return createIdempotencyKey(clientId, "task", planItemId, "create");
+  }
+
+  /**
+   * Create task entity from a plan calendar item
+   * This is a specialized factory method outside the base factory pattern
+   *
+   * @param item - Calendar item to schedule
+   * @param context - Source plan and ownership
+   * @returns Complete task entity ready for creation
+   */
+  createFromPlanItem(item: IPlanTaskItem, context: PlanTaskContext): ITask {
+    const now = new Date();
+    const { plan } = context;
+    const startDate = new Date(plan.start_date ?? plan.created_at ?? now);
+
+    return {
+      // Base entity fields (required)
+      _id: "", // Will be set by database
+      created_by: context.user_id,
+      updated_by: context.user_id,
+      created_at: now,
+      updated_at: now,
+      is_deleted: false,
+      created_by_propel_auth_org_id: context.organization_id,
+
+      // User ownership (required)
+      user_id: context.user_id,
+      organization_id: context.organization_id,
+
+      // Task details
+      client_id: plan.client_id,
+      title: item.title,
+      description: item.description,
+      channel: item.channel,
+      content_type: item.content_type,
+      priority: TaskPriority.MEDIUM,
+      estimated_hours: item.estimated_hours,
+
+      // Scheduling: calendar day 1 is the plan start date
+      owner_id: context.owner_id ?? context.user_id,
+      due_date: new Date(startDate.getTime() + (item.day - 1) * DAY_IN_MS),
+
+      // Plan back-reference
+      plan_id: plan.id,
+      plan_item_id: item.item_id,
+      pillar: item.pillar,
+      idempotency_key: this.createPlanItemKey(plan.client_id, item.item_id),
+
+      // Lifecycle
+      status: TaskStatus.QUEUED,
+      status_history: [],
+    };
+  }
+}
+
+// Export singleton instance
+export const taskFactory = new TaskFactory();
@@ -0,0 +1,475 @@
+/**
+ * Tasks Service
+ *
+ * ============================================
+ * APPLICATION LAYER - Business Logic Orchestration
+ * ============================================
+ *
+ * Manages tasks - the executable units of work behind a growth plan - and
+ * enforces the task status state machine.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ../domain/* (ITask, enums, status machine)
+ * ✅ CAN import: ../api/* (validation, response DTOs, query config)
+ * ✅ CAN import: ./factory (same layer)
+ * ✅ CAN import: @/shared/services, @/shared/utils
+ * ⚠️  CAN import: TASK_MODEL_NAME constant from ../infrastructure/schema (only the constant!)
+ * ❌ CANNOT import: TaskDocument, mongoose types from ../infrastructure/schema
+ */
+
+import { BaseService } from "@/shared/services/base.service";
+import { IPaginationResponse } from "@/shared/types";
+import {
+  IPlanExpansionResult,
+  IPlanTaskSource,
+  ITask,
+  ITaskStatusChange,
+  TERMINAL_TASK_STATUSES,
+  TaskStatus,
+} from "../domain/types";
+import {
+  canTransitionTaskStatus,
+  getAllowedTaskTransitions,
+  isTerminalTaskStatus,
+} from "../domain/status-machine";
+import { TASK_MODEL_NAME } from "../infrastructure/schema";
+import {
+  CreateTaskInput,
+  TaskResponse,
+  UpdateTaskInput,
+} from "../api/validation";
+import { taskQueryConfig } from "../api/query.config";
+import { logger } from "@/shared/utils/logger";
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from "@/shared/utils/errors";
+import {
+  UniversalQueryParser,
+  QueryValidationError,
+} from "@/shared/utils/query.parser";
+import { taskFactory } from "./factory";
+import { TaskResponseDTO } from "../api/response";
+
+const log = logger.child({ module: "tasks-service" });
+
+/**
+ * Tasks Service
+ * Handles task CRUD, list/filter queries and status transitions
+ */
+export class TasksService extends BaseService<
+  ITask,
+  CreateTaskInput,
+  UpdateTaskInput,
+  TaskResponse
+> {
+  private readonly queryParser = new UniversalQueryParser<ITask>(
+    taskQueryConfig
+  );
+
+  constructor() {
+    super(TASK_MODEL_NAME);
+  }
+
+  /**
+   * ========================================================================
+   * Abstract Method Implementations (Required by BaseService)
+   * ========================================================================
+   */
+
+  /**
+   * Map domain entity to API response format
+   * Delegates to TaskResponseDTO for clean transformation
+   */
+  protected mapEntityToResponse(entity: ITask): TaskResponse {
+    return TaskResponseDTO.fromEntity(entity);
+  }
+
+  /**
+   * Prepare entity data for creation
+   * Delegates to TaskFactory for clean transformation
+   */
+  protected prepareEntityForCreate(
+    request: CreateTaskInput,
+    userId: string,
+    orgId: string
+  ): ITask {
+    return taskFactory.createFromRequest(request, userId, orgId);
+  }
+
+  /**
+   * Prepare entity data for update
+   * Delegates to TaskFactory for clean transformation
+   */
+  protected prepareEntityForUpdate(
+    request: UpdateTaskInput,
+    userId: string
+  ): Partial<ITask> {
+    return taskFactory.updateFromRequest(request, userId);
+  }
+
+  /**
+   * ========================================================================
+   * CRUD Operations
+   * ========================================================================
+   */
+
+  /**
+   * Create a task
+   */
+  async createTask(
+    request: CreateTaskInput,
+    userId: string,
+    orgId: string
+  ): Promise<TaskResponse> {
+    log.info("Creating task", {
+      user_id: userId,
+      client_id: request.client_id,
+    });
+
+    const taskData = this.prepareEntityForCreate(request, userId, orgId);
+    const createdTask = await this.repository.create(taskData);
+
+    log.info("Task created", {
+      taskId: String(createdTask._id),
+    });
+
+    return this.mapEntityToResponse(createdTask);
+  }
+
+  /**
+   * Get task by ID
+   */
+  async getTask(taskId: string): Promise<TaskResponse> {
+    log.debug("Fetching task", { taskId });
+
+    const task = await this.repository.findById(taskId);
+
+    if (!task) {
+      throw new NotFoundError(`Task not found with ID: ${taskId}`);
+    }
+
+    return this.mapEntityToResponse(task);
+  }
+
+  /**
+   * Update task details
+   * Status is not editable here - use transitionStatus
+   */
+  async updateTask(
+    taskId: string,
+    updates: UpdateTaskInput,
+    userId: string
+  ): Promise<TaskResponse> {
+    log.info("Updating task", { taskId });
+
+    const existingTask = await this.repository.findById(taskId);
+
+    if (!existingTask) {
+      throw new NotFoundError(`Task not found with ID: ${taskId}`);
+    }
+
+    if (isTerminalTaskStatus(existingTask.status)) {
+      throw new ConflictError(
+        `Task is ${existingTask.status} and can no longer be edited`,
+        { taskId, status: existingTask.status }
+      );
+    }
+
+    const updateData = this.prepareEntityForUpdate(updates, userId);
+    updateData.updated_by = userId;
+
+    const updatedTask = await this.repository.updateById(taskId, updateData);
+
+    if (!updatedTask) {
+      throw new NotFoundError(`Task not found after update with ID: ${taskId}`);
+    }
+
+    log.info("Task updated", { taskId });
+
+    return this.mapEntityToResponse(updatedTask);
+  }
+
+  /**
+   * List tasks for an organization using query string filters
+   * Supports every filter in taskQueryConfig plus search, sort and pagination.
+   *
+   * @param searchParams - Raw query parameters from the request
+   * @param organizationId - Organization the tasks belong to (always enforced)
+   * @returns Paginated tasks
+   */
+  async findTasks(
+    searchParams: URLSearchParams,
+    organizationId: string
+  ): Promise<IPaginationResponse<TaskResponse>> {
+    let parsed;
+
+    try {
+      parsed = this.queryParser.parse(searchParams);
+    } catch (error) {
+      if (error instanceof QueryValidationError) {
+        throw new ValidationError(error.message, {
+          field: error.field,
+          value: error.value,
+          expected: error.expectedType,
+        });
+      }
+      throw error;
+    }
+
+    log.debug("Finding tasks", {
+      organizationId,
+      filters: parsed.filters,
+    });
+
+    return this.findAll(
+      { ...parsed.filters, organization_id: organizationId },
+      {
+        sort: parsed.sort,
+        skip: parsed.pagination.skip,
+        limit: parsed.pagination.page_size,
+      }
+    );
+  }
+
+  /**
+   * ========================================================================
+   * Plan Expansion
+   * ========================================================================
+   */
+
+  /**
+   * Expand a strategy plan's calendar into scheduled tasks
+   * Every calendar item becomes a queued task due on its calendar day, with a
+   * back-reference to the plan, item and pillar. New tasks are written with a
+   * single insertMany.
+   *
+   * Idempotent: each item is keyed by
+   * createIdempotencyKey(client_id, "task", item_id, "create"). Items that
+   * already have a task - including soft-deleted ones, so deleted tasks are
+   * not resurrected - are skipped.
+   *
+   * Open tasks of the plan whose item is no longer on the calendar (removed
+   * by an edit or a regeneration) are cancelled.
+   *
+   * @param plan - Plan to expand
+   * @param userId - User saving the plan (becomes the task owner)
+   * @param orgId - Organization ID
+   * @returns Counts of created, skipped and cancelled tasks, and the new
+   *   task IDs
+   */
+  async expandPlanToTasks(
+    plan: IPlanTaskSource,
+    userId: string,
+    orgId?: string
+  ): Promise<IPlanExpansionResult> {
+    const organizationId = orgId ?? plan.organization_id;
+
+    log.info("Expanding plan into tasks", {
+      planId: plan.id,
+      calendarItems: plan.calendar.length,
+    });
+
+    const keyedItems = plan.calendar.map((item) => ({
+      item,
+      key: taskFactory.createPlanItemKey(plan.client_id, item.item_id),
+    }));
+
+    // Skip items whose task already exists (the unique index covers races)
+    const keys = keyedItems.map(({ key }) => key);
+    const [existingTasks] = await this.repository.find(
+      { idempotency_key: { $in: keys } } as any,
+      { limit: keys.length }
+    );
+    const existingKeys = new Set(
+      existingTasks.map((task: ITask) => task.idempotency_key)
+    );
+
+    const newTasks = keyedItems
+      .filter(({ key }) => !existingKeys.has(key))
+      .map(({ item }) =>
+        taskFactory.createFromPlanItem(item, {
+          plan,
+          user_id: userId,
+          organization_id: organizationId,
+        })
+      )
+      // Let the database assign identifiers
+      .map(({ _id, ...task }) => {
+        void _id;
+        return task as ITask;
+      });
+
+    let insertedTasks: ITask[] = [];
+
+    if (newTasks.length > 0) {
+      try {
+        insertedTasks = await this.repository.insertMany(newTasks, {
+          ordered: false,
+        });
+      } catch (error) {
+        // Duplicate keys mean the task already exists (soft-deleted or
+        // created concurrently) - keep whatever was inserted
+        const bulkError = error as { code?: number; insertedDocs?: ITask[] };
+        if (bulkError.code !== 11000) {
+          throw error;
+        }
+        insertedTasks = bulkError.insertedDocs ?? [];
+      }
+    }
+
+    const cancelled = await this.cancelRemovedPlanTasks(plan, userId);
+
+    const result: IPlanExpansionResult = {
+      plan_id: plan.id,
+      total_items: plan.calendar.length,
+      created: insertedTasks.length,
+      skipped: plan.calendar.length - insertedTasks.length,
+      cancelled,
+      task_ids: insertedTasks.map((task) => String(task._id)),
+    };
+
+    log.info("Plan expanded into tasks", {
+      planId: result.plan_id,
+      created: result.created,
+      skipped: result.skipped,
+      cancelled: result.cancelled,
+    });
+
+    return result;
+  }
+
+  /**
+   * Cancel the plan's open tasks whose calendar item is no longer on it
+   * Goes through the state machine so each cancellation is in the task's
+   * status history. Tasks that change status meanwhile are left alone.
+   *
+   * @returns Number of tasks cancelled
+   */
+  private async cancelRemovedPlanTasks(
+    plan: IPlanTaskSource,
+    userId: string
+  ): Promise<number> {
+    const [orphanedTasks] = await this.repository.find({
+      plan_id: plan.id,
+      plan_item_id: { $nin: plan.calendar.map((item) => item.item_id) },
+      status: { $nin: TERMINAL_TASK_STATUSES },
+    } as any);
+
+    let cancelled = 0;
+
+    for (const task of orphanedTasks) {
+      try {
+        await this.transitionStatus(
+          String(task._id),
+          TaskStatus.CANCELLED,
+          userId,
+          "Removed from the plan"
+        );
+        cancelled++;
+      } catch (error) {
+        if (!(error instanceof ConflictError)) {
+          throw error;
+        }
+        log.warn("Could not cancel task removed from the plan", {
+          taskId: String(task._id),
+          planId: plan.id,
+        });
+      }
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * ========================================================================
+   * Status State Machine
+   * ========================================================================
+   */
+
+  /**
+   * Move a task to a new status
+   * Rejects transitions not allowed by TASK_STATUS_TRANSITIONS with a
+   * ConflictError. Records every change in status_history and stamps
+   * started_at / completed_at.
+   *
+   * The write only applies while the task still has the status the
+   * transition was checked against; losing a race with another transition
+   * is also a ConflictError (409).
+   *
+   * @param taskId - Task to transition
+   * @param status - Requested status
+   * @param userId - User making the change
+   * @param reason - Optional reason, stored in the history entry
+   * @returns The updated task
+   */
+  async transitionStatus(
+    taskId: string,
+    status: TaskStatus,
+    userId: string,
+    reason?: string
+  ): Promise<TaskResponse> {
+    const existingTask = await this.repository.findById(taskId);
+
+    if (!existingTask) {
+      throw new NotFoundError(`Task not found with ID: ${taskId}`);
+    }
+
+    const from = existingTask.status as TaskStatus;
+
+    if (!canTransitionTaskStatus(from, status)) {
+      throw new ConflictError(`Cannot move task from ${from} to ${status}`, {
+        taskId,
+        from,
+        to: status,
+        allowed: getAllowedTaskTransitions(from),
+      });
+    }
+
+    const now = new Date();
+    const change: ITaskStatusChange = {
+      from,
+      to: status,
+      changed_by: userId,
+      changed_at: now,
+      reason,
+    };
+
+    const updateData: Partial<ITask> = {
+      status,
+      status_history: [...(existingTask.status_history ?? []), change],
+      updated_by: userId,
+    };
+
+    if (status === TaskStatus.IN_PROGRESS && !existingTask.started_at) {
+      updateData.started_at = now;
+    }
+    if (status === TaskStatus.DONE) {
+      updateData.completed_at = now;
+    }
+
+    // Only write if the status is still the one checked above - a concurrent
+    // transition must not slip past the state machine
+    const updatedTask = await this.repository.updateOne(
+      { _id: existingTask._id, status: from } as any,
+      updateData
+    );
+
+    if (!updatedTask) {
+      throw new ConflictError(
+        `Task status changed while moving it to ${status} - reload and retry`,
+        { taskId, from, to: status }
+      );
+    }
+
+    log.info("Task status changed", { taskId, from, to: status });
+
+    return this.mapEntityToResponse(updatedTask);
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const tasksService = new TasksService();
@@ -0,0 +1,101 @@
+/**
+ * Tasks Module - Schema Definitions (Zod)
+ *
+ * ============================================
+ * SINGLE SOURCE OF TRUTH - ZOD SCHEMAS
+ * ============================================
+ *
+ * This file defines the COMPLETE task structure using Zod schemas.
+ * These schemas serve three purposes simultaneously:
+ *
+ * 1. **TypeScript Types** - Inferred via z.infer<>
+ * 2. **Mongoose Schema** - Generated via zodToMongoose()
+ * 3. **Runtime Validation** - Reused by API validation schemas
+ *
+ * DEPENDENCIES:
+ * ✅ CAN import: zod, enums from ./types
+ * ❌ CANNOT import: mongoose, infrastructure, services
+ *
+ * WHO CAN IMPORT THIS:
+ * ✅ domain/types.ts - For type inference
+ * ✅ infrastructure/schema.ts - For Mongoose schema generation
+ * ✅ api/validation.ts - For API validation
+ * ✅ application/* - For business logic validation
+ */
+
+import { z } from "zod";
+import {
+  TaskStatus,
+  TaskStatusValues,
+  TaskPriority,
+  TaskPriorityValues,
+} from "./types";
+
+// ============================================
+// NESTED DOMAIN SCHEMAS
+// ============================================
+
+/**
+ * Status change history entry schema
+ */
+export const TaskStatusChangeSchema = z.object({
+  from: z.enum(TaskStatusValues),
+  to: z.enum(TaskStatusValues),
+  changed_by: z.string().min(1),
+  changed_at: z.coerce.date(),
+  reason: z.string().trim().optional(),
+});
+
+// ============================================
+// COMPLETE TASK SCHEMA
+// ============================================
+
+/**
+ * Complete Task Fields Schema (Domain-Specific Only)
+ *
+ * Base entity fields (created_at, is_deleted, etc.) are added separately
+ * at the infrastructure layer to maintain clean separation.
+ *
+ * USAGE:
+ * - Mongoose: mergeWithBaseFields(TaskFieldsSchema, baseUserEntityDefinition)
+ * - API Validation: Reuse nested schemas as needed
+ * - TypeScript: z.infer<typeof TaskFieldsSchema>
+ */
+export const TaskFieldsSchema = z.object({
+  // User ownership (required at infrastructure layer, not here)
+  user_id: z.string().min(1),
+  organization_id: z.string().optional(),
+
+  // Client the work is for
+  client_id: z.string().min(1),
+
+  // Task details
+  title: z.string().min(1, "Task title is required").trim(),
+  description: z.string().trim().optional(),
+  channel: z.string().trim().optional(),
+  content_type: z.string().trim().optional(),
+  priority: z.enum(TaskPriorityValues).default(TaskPriority.MEDIUM),
+  estimated_hours: z.number().nonnegative().optional(),
+
+  // Scheduling and ownership
+  owner_id: z.string().optional(),
+  due_date: z.coerce.date().optional(),
+
+  // Back-reference to the strategy plan calendar item this task came from
+  plan_id: z.string().optional(),
+  plan_item_id: z.string().optional(),
+  pillar: z.string().trim().optional(),
+  idempotency_key: z.string().optional(),
+
+  // Lifecycle
+  status: z.enum(TaskStatusValues).default(TaskStatus.DRAFT),
+  status_history: z.array(TaskStatusChangeSchema).optional().default([]),
+  started_at: z.coerce.date().optional(),
+  completed_at: z.coerce.date().optional(),
+});
+
+/**
+ * Infer TypeScript type from schema
+ * This is the pure domain type without base entity fields
+ */
+export type TaskFields = z.infer<typeof TaskFieldsSchema>;
@@ -0,0 +1,48 @@
+/**
+ * Tasks Module - Status State Machine
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * Pure helpers around TASK_STATUS_TRANSITIONS. The service layer uses these
+ * to reject illegal transitions before anything is written.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: ./types (domain types)
+ * ❌ CANNOT import: infrastructure, api, application layers
+ */
+
+import {
+  TASK_STATUS_TRANSITIONS,
+  TERMINAL_TASK_STATUSES,
+  TaskStatus,
+} from "./types";
+
+/**
+ * Check whether a task may move from one status to another
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the transition is allowed
+ */
+export function canTransitionTaskStatus(
+  from: TaskStatus,
+  to: TaskStatus
+): boolean {
+  return TASK_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Statuses a task may move to from its current status
+ */
+export function getAllowedTaskTransitions(from: TaskStatus): TaskStatus[] {
+  return [...(TASK_STATUS_TRANSITIONS[from] ?? [])];
+}
+
+/**
+ * Check whether a status is terminal (no further transitions)
+ */
+export function isTerminalTaskStatus(status: TaskStatus): boolean {
+  return TERMINAL_TASK_STATUSES.includes(status);
+}
@@ -0,0 +1,190 @@
+/**
+ * Tasks Module - Domain Types
+ *
+ * ============================================
+ * DOMAIN LAYER - Pure Business Logic
+ * ============================================
+ *
+ * This file contains ONLY domain types and interfaces for tasks.
+ * A task is a unit of executable marketing work, usually scheduled from a
+ * strategy plan's calendar, that moves through an explicit status lifecycle.
+ *
+ * TYPE INFERENCE STRATEGY:
+ * - Enums are defined here for use in validation
+ * - Status transitions are defined here as pure data
+ * - ITask is INFERRED from Zod schema (schema.definition.ts)
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: @/shared/types/repository.types (IEntity, DatabaseId)
+ * ✅ CAN import: ./schema.definition (Zod schemas for type inference)
+ * ✅ CAN import: Pure TypeScript types, enums, interfaces
+ * ❌ CANNOT import: mongoose, Database-specific types
+ * ❌ CANNOT import: ../infrastructure/* (schema, repository)
+ * ❌ CANNOT import: ../api/* (validation, DTOs)
+ * ❌ CANNOT import: ../application/* (services, factories)
+ */
+
+import { IEntity, DatabaseId } from "@/shared/types/repository.types";
+import { z } from "zod";
+import { TaskFieldsSchema } from "./schema.definition";
+
+// ============================================
+// ENUMS - Business Domain Enums
+// ============================================
+
+/**
+ * Task lifecycle status
+ *
+ * draft → queued → in_progress → review → done
+ * Any active status can end in failed or cancelled.
+ */
+export enum TaskStatus {
+  DRAFT = "draft",
+  QUEUED = "queued",
+  IN_PROGRESS = "in_progress",
+  REVIEW = "review",
+  DONE = "done",
+  FAILED = "failed",
+  CANCELLED = "cancelled",
+}
+
+export const TaskStatusValues = Object.values(TaskStatus);
+
+/**
+ * Task priority
+ */
+export enum TaskPriority {
+  LOW = "low",
+  MEDIUM = "medium",
+  HIGH = "high",
+  URGENT = "urgent",
+}
+
+export const TaskPriorityValues = Object.values(TaskPriority);
+
+// ============================================
+// STATUS STATE MACHINE
+// ============================================
+
+/**
+ * Allowed status transitions (from → to)
+ *
+ * - review → in_progress sends work back for changes
+ * - failed → queued retries the task
+ * - done and cancelled are terminal
+ */
+export const TASK_STATUS_TRANSITIONS: Readonly<
+  Record<TaskStatus, readonly TaskStatus[]>
+> = {
+  [TaskStatus.DRAFT]: [TaskStatus.QUEUED, TaskStatus.CANCELLED],
+  [TaskStatus.QUEUED]: [
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.DRAFT,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.IN_PROGRESS]: [
+    TaskStatus.REVIEW,
+    TaskStatus.FAILED,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.REVIEW]: [
+    TaskStatus.DONE,
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.FAILED,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.DONE]: [],
+  [TaskStatus.FAILED]: [TaskStatus.QUEUED, TaskStatus.CANCELLED],
+  [TaskStatus.CANCELLED]: [],
+};
+
+/**
+ * Statuses with no outgoing transitions
+ */
+export const TERMINAL_TASK_STATUSES: readonly TaskStatus[] = [
+  TaskStatus.DONE,
+  TaskStatus.CANCELLED,
+];
+
+// ============================================
+// NESTED TYPES
+// ============================================
+
+/**
+ * Recorded status change on a task
+ */
+export interface ITaskStatusChange {
+  from: TaskStatus;
+  to: TaskStatus;
+  changed_by: string;
+  changed_at: Date;
+  reason?: string;
+}
+
+/**
+ * Calendar item of a strategy plan, as needed to schedule a task
+ */
+export interface IPlanTaskItem {
+  item_id: string;
+  day: number;
+  title: string;
+  description?: string;
+  pillar: string;
+  channel: string;
+  content_type?: string;
+  estimated_hours?: number;
+}
+
+/**
+ * Plan whose calendar is expanded into tasks
+ * Structural so the tasks module does not depend on the strategy module
+ */
+export interface IPlanTaskSource {
+  id: string;
+  client_id: string;
+  organization_id?: string;
+  start_date?: Date | string;
+  created_at?: Date | string;
+  calendar: IPlanTaskItem[];
+}
+
+/**
+ * Outcome of expanding a plan calendar into tasks
+ */
+export interface IPlanExpansionResult {
+  plan_id: string;
+  /** Calendar items on the plan */
+  total_items: number;
+  /** Tasks created by this expansion */
+  created: number;
+  /** Items that already had a task (including deleted ones) */
+  skipped: number;
+  /** Open tasks cancelled because their item is no longer on the plan */
+  cancelled: number;
+  /** IDs of the tasks created by this expansion */
+  task_ids: string[];
+}
+
+// ============================================
+// ROOT DOMAIN ENTITY - TYPE INFERRED FROM ZOD
+// ============================================
+
+/**
+ * ITask - Database-Agnostic Task Entity
+ *
+ * Inferred from TaskFieldsSchema (schema.definition.ts), extended with
+ * base entity fields. `status` must only change through the transitions
+ * in TASK_STATUS_TRANSITIONS; every change is appended to status_history.
+ *
+ * @extends IEntity<DatabaseId> - Inherits: _id, created_by, updated_by, created_at, updated_at, is_deleted
+ */
+export type ITask = Omit<
+  z.infer<typeof TaskFieldsSchema>,
+  keyof IEntity<DatabaseId> | "user_id" | "organization_id"
+> &
+  IEntity<DatabaseId> & {
+    user_id: string;
+    organization_id?: string;
+    deleted_at?: Date;
+    deleted_by?: string;
+  };
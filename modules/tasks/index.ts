@@ -0,0 +1,96 @@
+/**
+ * Tasks Module - Public API
+ *
+ * ============================================
+ * BARREL EXPORT WITH ARCHITECTURAL BOUNDARIES
+ * ============================================
+ *
+ * Controls what is exported from the tasks module.
+ *
+ * DIRECTORY STRUCTURE:
+ * ```
+ * tasks/
+ *   domain/          - ITask, task enums, status state machine, Zod schema definitions
+ *   application/     - TasksService, TaskFactory
+ *   infrastructure/  - Mongoose schema (NOT exported!)
+ *   api/             - Validation schemas, response DTOs, query config
+ *   index.ts         - This file (controlled exports)
+ * ```
+ */
+
+// ============================================
+// DOMAIN LAYER
+// ============================================
+
+export type {
+  ITask,
+  ITaskStatusChange,
+  IPlanTaskItem,
+  IPlanTaskSource,
+  IPlanExpansionResult,
+} from "./domain/types";
+
+export {
+  TaskStatus,
+  TaskPriority,
+  TaskStatusValues,
+  TaskPriorityValues,
+  TASK_STATUS_TRANSITIONS,
+  TERMINAL_TASK_STATUSES,
+} from "./domain/types";
+
+export {
+  canTransitionTaskStatus,
+  getAllowedTaskTransitions,
+  isTerminalTaskStatus,
+} from "./domain/status-machine";
+
+// ============================================
+// APPLICATION LAYER
+// ============================================
+
+export { TasksService, tasksService } from "./application/service";
+
+export {
+  TaskFactory,
+  taskFactory,
+  type PlanTaskContext,
+} from "./application/factory";
+
+// ============================================
+// API LAYER
+// ============================================
+
+export {
+  // Input schemas
+  CreateTaskSchema,
+  UpdateTaskSchema,
+  TransitionTaskStatusSchema,
+
+  // Output schemas
+  TaskResponseSchema,
+
+  // TypeScript types inferred from schemas
+  type CreateTaskInput,
+  type UpdateTaskInput,
+  type TransitionTaskStatusInput,
+  type TaskResponse,
+} from "./api/validation";
+
+export {
+  TaskResponseDTO,
+  toTaskResponse,
+  toTaskResponses,
+} from "./api/response";
+
+export { taskQueryConfig } from "./api/query.config";
+
+// ============================================
+// INFRASTRUCTURE LAYER
+// ============================================
+
+export { TASK_MODEL_NAME } from "./infrastructure/schema";
+
+// ❌ DO NOT EXPORT:
+// - TaskDocument (Mongoose-specific type)
+// - TaskModel (Mongoose model)
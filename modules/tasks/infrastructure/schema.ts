@@ -0,0 +1,124 @@
+/**
+ * Tasks Module - Mongoose Schema
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Database Implementation
+ * ============================================
+ *
+ * This file contains ONLY Mongoose-specific schema and document definitions.
+ * Uses automatic schema generation from Zod via mergeWithBaseFields().
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: mongoose, Mongoose types, @/shared/db/base.schema.types
+ * ✅ CAN import: Domain schema definition (for zodToMongoose conversion)
+ * ⚠️  CAN export: TASK_MODEL_NAME constant (safe - just a string)
+ * ⚠️  CAN export: TaskDocument type (Mongoose-specific - for repository only)
+ * ❌ CANNOT be imported by: Services, factories, API routes
+ * ❌ CANNOT export: ITask (use ../domain/types for that)
+ */
+
+import mongoose, { Schema, Model, InferSchemaType } from "mongoose";
+import { modelRegistry } from "@/shared/db/model.registry";
+import {
+  baseUserEntityDefinition,
+  IMongooseDocument,
+} from "@/shared/db/base.schema.types";
+import { mergeWithBaseFields } from "@/shared/db/schema.builder";
+import { TaskFieldsSchema } from "../domain/schema.definition";
+
+// ============================================
+// MODEL NAME CONSTANT - Safe to export everywhere
+// ============================================
+
+/**
+ * Model name constant - used by repository factory
+ * This is safe to export and use in application layer as it's just a string
+ */
+export const TASK_MODEL_NAME = "Task";
+
+// ============================================
+// MONGOOSE SCHEMA GENERATION - AUTOMATIC FROM ZOD
+// ============================================
+
+/**
+ * Task Schema Definition - AUTO-GENERATED from Zod
+ * Merges TaskFieldsSchema with the base audit/soft-delete fields
+ */
+const taskDefinition = mergeWithBaseFields(
+  TaskFieldsSchema,
+  baseUserEntityDefinition
+);
+
+/**
+ * Create the Mongoose Schema from the auto-generated definition
+ */
+const TaskSchema = new Schema(taskDefinition, {
+  timestamps: {
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+  },
+  collection: "tasks",
+  versionKey: false,
+});
+
+// ============================================
+// INDEXES - Performance Optimization
+// ============================================
+
+TaskSchema.index({ client_id: 1, is_deleted: 1 });
+TaskSchema.index({ organization_id: 1, status: 1, is_deleted: 1 });
+TaskSchema.index({ owner_id: 1, status: 1 });
+TaskSchema.index({ due_date: 1 });
+TaskSchema.index({ plan_id: 1, plan_item_id: 1 });
+
+/**
+ * Tasks expanded from a plan carry an idempotency key
+ * (`{client_id}:task:{plan_item_id}:create`), so expanding the same plan
+ * twice can never create duplicate tasks - even across soft deletes.
+ */
+TaskSchema.index(
+  { idempotency_key: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { idempotency_key: { $type: "string" } },
+  }
+);
+TaskSchema.index({ created_at: -1 });
+
+// ============================================
+// TYPE INFERENCE - Mongoose Document Type
+// ============================================
+
+/**
+ * TaskDocument - Mongoose-specific document type
+ *
+ * IMPORTANT: Only use in repository implementations and infrastructure code.
+ * Services and business logic should use ITask from ../domain/types instead!
+ */
+export type TaskDocument = IMongooseDocument<
+  InferSchemaType<typeof TaskSchema>
+>;
+
+// ============================================
+// MODEL CREATION & REGISTRATION
+// ============================================
+
+/**
+ * Create or retrieve the Task Mongoose model
+ * Handles hot module replacement in development
+ */
+const TaskModel =
+  (mongoose.models[TASK_MODEL_NAME] as Model<TaskDocument>) ||
+  mongoose.model<TaskDocument>(TASK_MODEL_NAME, TaskSchema);
+
+/**
+ * Register the model with the central registry
+ * This allows the repository factory to find the model by name
+ */
+modelRegistry.register<TaskDocument>(TASK_MODEL_NAME, TaskModel);
+
+/**
+ * Export the Mongoose model
+ * ONLY use this in repository implementations!
+ */
+export default TaskModel;
@@ -0,0 +1,84 @@
+/**
+ * Tasks Module - Inngest Event Handlers
+ *
+ * ============================================
+ * EVENT-DRIVEN WORKFLOWS
+ * ============================================
+ *
+ * - plan.generated → expand the plan calendar into tasks → task.created
+ *   (open tasks for items no longer on the plan are cancelled)
+ *
+ * StrategyService publishes plan.generated whenever a plan is stored with
+ * new content and only expands inline when publishing fails, so this handler
+ * is the normal path. It is safe to run twice because plan expansion is
+ * idempotent.
+ */
+
+import { inngest, toInngestEvent } from "@/inngest/client";
+import { buildEvent, EventName } from "@/modules/events";
+import { strategyService } from "@/modules/strategy";
+import { createIdempotencyKey } from "@/shared/types/inngest.types";
+import { logger } from "@/shared/utils/logger";
+
+const log = logger.child({ module: "tasks-inngest" });
+
+/**
+ * Create tasks for every calendar item of a generated plan
+ */
+export const createTasksFromPlan = inngest.createFunction(
+  {
+    id: "tasks-create-from-plan",
+    name: "Create tasks from generated plan",
+    // One expansion per client at a time keeps task creation ordered
+    concurrency: { limit: 1, key: "event.data.client_id" },
+    retries: 3,
+  },
+  { event: EventName.PLAN_GENERATED },
+  async ({ event, step }) => {
+    const { plan_id, client_id, organization_id, metadata } = event.data;
+    const userId = metadata.userId ?? "system";
+
+    log.info("Handling plan.generated", {
+      planId: plan_id,
+      eventId: metadata.eventId,
+      correlationId: metadata.correlationId,
+    });
+
+    const result = await step.run("expand-plan-into-tasks", () =>
+      strategyService.expandPlanTasks(plan_id, userId, organization_id)
+    );
+
+    if (result.task_ids.length > 0) {
+      await step.sendEvent(
+        "emit-task-created",
+        result.task_ids.map((taskId) =>
+          toInngestEvent(
+            buildEvent(
+              EventName.TASK_CREATED,
+              {
+                task_id: taskId,
+                client_id,
+                organization_id,
+                plan_id,
+              },
+              {
+                projectId: client_id,
+                userId,
+                source: "tasks-module",
+                correlationId: metadata.correlationId,
+                idempotencyKey: createIdempotencyKey(
+                  client_id,
+                  "task",
+                  taskId,
+                  "created"
+                ),
+              }
+            )
+          )
+        )
+      );
+    }
+
+    return result;
+  }
+);
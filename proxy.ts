@@ -9,8 +9,8 @@ export function proxy(request: NextRequest) {
 
 export const config = {
   matcher: [
-    // Match all API routes except Inngest, and all v1 routes
-    "/(v1|api/(?!inngest).*)",
+    // Match all API routes except Inngest and billing webhooks, and all v1 routes
+    "/(v1|api/(?!inngest|subscriptions/webhook).*)",
     // OPTIONAL: Don't match any static assets or OAuth callback pages
     "/((?!_next/static|_next/image|favicon.ico).*)",
   ],
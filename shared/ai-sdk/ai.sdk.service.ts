@@ -7,11 +7,14 @@ import {
   streamText as aiStreamText,
   streamObject as aiStreamObject,
 } from "ai";
-import type { LanguageModel, ModelMessage } from "ai";
+import type { LanguageModel, LanguageModelUsage, ModelMessage } from "ai";
 import { z } from "zod";
+import { logger } from "@/shared/utils/logger";
 import {
   AIModel,
   AIProvider,
+  type AIUsageContext,
+  type AIUsageRecorder,
   type ConversationMessage,
   type GenerateConfig,
   type GenerateStructuredConfig,
@@ -26,6 +29,14 @@ import {
   type WebSearchConfig,
 } from "./types";
 import { StreamEventType as EventType } from "./types";
+import { estimateAICost } from "./pricing";
+
+const log = logger.child({ module: "ai-sdk-service" });
+
+/**
+ * Token usage as returned by every AISdkService call
+ */
+type TokenUsage = GenerateTextResult["usage"];
 
 /**
  * Simplified AI SDK Service
@@ -36,10 +47,14 @@ import { StreamEventType as EventType } from "./types";
  * - Conversation history management (simplified)
  *
  * Supports: OpenAI, Anthropic (Claude), and Google (Gemini)
+ *
+ * Calls given a usageContext record their tokens and estimated cost with
+ * the usage recorder (see setUsageRecorder).
  */
 export class AISdkService {
   private defaultProvider: AIProvider;
   private defaultModel: AIModel | string;
+  private usageRecorder: AIUsageRecorder | null = null;
 
   constructor(
     defaultProvider: AIProvider = AIProvider.GOOGLE,
@@ -75,6 +90,59 @@ export class AISdkService {
     })) as ModelMessage[];
   }
 
+  /**
+   * Map AI SDK token usage to TokenUsage
+   */
+  private mapUsage(usage: LanguageModelUsage | undefined): TokenUsage {
+    const promptTokens = usage?.inputTokens ?? 0;
+    const completionTokens = usage?.outputTokens ?? 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage?.totalTokens ?? promptTokens + completionTokens,
+    };
+  }
+
+  /**
+   * Record a call's usage against its organization
+   * Skipped without a usage context or recorder. Never throws - the tokens
+   * are spent either way, so a failed record is logged instead.
+   */
+  private async recordUsage(
+    usageContext: AIUsageContext | undefined,
+    provider: AIProvider,
+    model: string,
+    usage: TokenUsage
+  ): Promise<void> {
+    if (!usageContext || !this.usageRecorder) {
+      return;
+    }
+
+    try {
+      await this.usageRecorder({
+        ...usageContext,
+        provider,
+        model,
+        input_tokens: usage.promptTokens,
+        output_tokens: usage.completionTokens,
+        total_tokens: usage.totalTokens,
+        estimated_cost_usd: estimateAICost(
+          model,
+          usage.promptTokens,
+          usage.completionTokens
+        ),
+      });
+    } catch (error) {
+      log.warn("Failed to record AI usage", {
+        organizationId: usageContext.organization_id,
+        model,
+        totalTokens: usage.totalTokens,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Generate text from a prompt (simple, no history)
    *
@@ -87,8 +155,9 @@ export class AISdkService {
   async generateText(params: {
     prompt: string;
     config?: GenerateConfig;
+    usageContext?: AIUsageContext;
   }): Promise<GenerateTextResult> {
-    const { prompt, config = {} } = params;
+    const { prompt, config = {}, usageContext } = params;
     const provider = config.provider ?? this.defaultProvider;
     const modelName = config.model ?? this.defaultModel;
 
@@ -105,14 +174,13 @@ export class AISdkService {
       maxRetries: 3,
     });
 
+    const usage = this.mapUsage(result.usage);
+    await this.recordUsage(usageContext, provider, String(modelName), usage);
+
     return {
       text: result.text,
       finishReason: result.finishReason,
-      usage: {
-        promptTokens: (result.usage as any).promptTokens || 0,
-        completionTokens: (result.usage as any).completionTokens || 0,
-        totalTokens: (result.usage as any).totalTokens || 0,
-      },
+      usage,
       rawResponse: result.response,
     };
   }
@@ -146,8 +214,9 @@ export class AISdkService {
   async generateTextWithHistory(params: {
     messages: ConversationMessage[];
     config?: GenerateConfig;
+    usageContext?: AIUsageContext;
   }): Promise<GenerateTextResult> {
-    const { messages, config = {} } = params;
+    const { messages, config = {}, usageContext } = params;
     const provider = config.provider ?? this.defaultProvider;
     const modelName = config.model ?? this.defaultModel;
 
@@ -165,14 +234,13 @@ export class AISdkService {
       maxRetries: 3,
     });
 
+    const usage = this.mapUsage(result.usage);
+    await this.recordUsage(usageContext, provider, String(modelName), usage);
+
     return {
       text: result.text,
       finishReason: result.finishReason,
-      usage: {
-        promptTokens: (result.usage as any).promptTokens || 0,
-        completionTokens: (result.usage as any).completionTokens || 0,
-        totalTokens: (result.usage as any).totalTokens || 0,
-      },
+      usage,
       rawResponse: result.response,
     };
   }
@@ -204,8 +272,9 @@ export class AISdkService {
     prompt?: string;
     messages?: ConversationMessage[];
     config?: WebSearchConfig;
+    usageContext?: AIUsageContext;
   }): Promise<GenerateWithToolsResult> {
-    const { prompt, messages, config = {} } = params;
+    const { prompt, messages, config = {}, usageContext } = params;
     const provider = config.provider ?? this.defaultProvider;
     const modelName = config.model ?? this.defaultModel;
 
@@ -305,14 +374,13 @@ export class AISdkService {
       steps.push({ type: "text", content: result.text });
     }
 
+    const usage = this.mapUsage(result.totalUsage);
+    await this.recordUsage(usageContext, provider, String(modelName), usage);
+
     return {
       text: result.text,
       finishReason: result.finishReason,
-      usage: {
-        promptTokens: (result.usage as any).promptTokens || 0,
-        completionTokens: (result.usage as any).completionTokens || 0,
-        totalTokens: (result.usage as any).totalTokens || 0,
-      },
+      usage,
       toolCalls,
       steps,
       sources,
@@ -354,8 +422,9 @@ export class AISdkService {
     messages?: ConversationMessage[];
     schema: z.ZodType<T>;
     config?: GenerateStructuredConfig;
+    usageContext?: AIUsageContext;
   }): Promise<GenerateStructuredResult<T>> {
-    const { prompt, messages, schema, config = {} } = params;
+    const { prompt, messages, schema, config = {}, usageContext } = params;
     const provider = config.provider ?? this.defaultProvider;
     const modelName = config.model ?? this.defaultModel;
 
@@ -389,14 +458,13 @@ export class AISdkService {
 
     const result = await aiGenerateObject(requestParams);
 
+    const usage = this.mapUsage(result.usage);
+    await this.recordUsage(usageContext, provider, String(modelName), usage);
+
     return {
       object: result.object as T,
       finishReason: result.finishReason,
-      usage: {
-        promptTokens: (result.usage as any).promptTokens || 0,
-        completionTokens: (result.usage as any).completionTokens || 0,
-        totalTokens: (result.usage as any).totalTokens || 0,
-      },
+      usage,
       rawResponse: result.response,
     };
   }
@@ -419,8 +487,9 @@ export class AISdkService {
     prompt?: string;
     messages?: ConversationMessage[];
     config?: GenerateConfig;
+    usageContext?: AIUsageContext;
   }): Promise<GenerateTextStreamResult> {
-    const { prompt, messages, config = {} } = params;
+    const { prompt, messages, config = {}, usageContext } = params;
     const provider = config.provider ?? this.defaultProvider;
     const modelName = config.model ?? this.defaultModel;
 
@@ -450,14 +519,17 @@ export class AISdkService {
 
     const result = aiStreamText(requestParams);
 
+    const usage = result.usage.then((usage) => this.mapUsage(usage));
+    usage.then(
+      (tokens) =>
+        this.recordUsage(usageContext, provider, String(modelName), tokens),
+      () => undefined // A failed stream surfaces through its own promises
+    );
+
     return {
       textStream: result.textStream,
       fullTextPromise: result.text,
-      usage: result.usage.then((usage: any) => ({
-        promptTokens: usage.promptTokens || 0,
-        completionTokens: usage.completionTokens || 0,
-        totalTokens: usage.totalTokens || 0,
-      })),
+      usage,
     };
   }
 
@@ -485,16 +557,18 @@ export class AISdkService {
     messages?: ConversationMessage[];
     schema: z.ZodType<T>;
     config?: WebSearchConfig & GenerateStructuredConfig;
+    usageContext?: AIUsageContext;
   }): Promise<
     GenerateStructuredResult<T> & { sources?: any; searchText: string }
   > {
-    const { prompt, messages, schema, config = {} } = params;
+    const { prompt, messages, schema, config = {}, usageContext } = params;
 
     // Step 1: Web search to get context
     const searchResult = await this.generateTextWithWebSearch({
       prompt,
       messages,
       config,
+      usageContext,
     });
 
     // Step 2: Extract structured data from the search result
@@ -502,6 +576,7 @@ export class AISdkService {
       prompt: `Based on this research, extract the structured data:\n\n${searchResult.text}`,
       schema,
       config,
+      usageContext,
     });
 
     return {
@@ -543,8 +618,9 @@ export class AISdkService {
     messages?: ConversationMessage[];
     schema: z.ZodType<T>;
     config?: GenerateStructuredConfig;
+    usageContext?: AIUsageContext;
   }): Promise<GenerateStructuredStreamResult<T>> {
-    const { prompt, messages, schema, config = {} } = params;
+    const { prompt, messages, schema, config = {}, usageContext } = params;
     const provider = config.provider ?? this.defaultProvider;
     const modelName = config.model ?? this.defaultModel;
 
@@ -578,6 +654,13 @@ export class AISdkService {
 
     const result = aiStreamObject(requestParams);
 
+    const usage = result.usage.then((usage) => this.mapUsage(usage));
+    usage.then(
+      (tokens) =>
+        this.recordUsage(usageContext, provider, String(modelName), tokens),
+      () => undefined // A failed stream surfaces through its own promises
+    );
+
     return {
       partialObjectStream: new ReadableStream<Partial<T>>({
         async start(controller) {
@@ -588,11 +671,7 @@ export class AISdkService {
         },
       }),
       objectPromise: result.object.then((obj: any) => obj as T),
-      usage: result.usage.then((usage: any) => ({
-        promptTokens: usage.promptTokens || 0,
-        completionTokens: usage.completionTokens || 0,
-        totalTokens: usage.totalTokens || 0,
-      })),
+      usage,
     };
   }
 
@@ -637,13 +716,14 @@ export class AISdkService {
     messages?: ConversationMessage[];
     schema: z.ZodType<T>;
     config?: WebSearchConfig & StreamStructuredConfig;
+    usageContext?: AIUsageContext;
   }): Promise<
     GenerateStructuredStreamResult<T> & {
       sources?: any;
       searchTextPromise: Promise<string>;
     }
   > {
-    const { prompt, messages, schema, config = {} } = params;
+    const { prompt, messages, schema, config = {}, usageContext } = params;
     const enableProgressEvents = config.enableProgressEvents ?? true;
 
     // Create a TransformStream for progress events
@@ -687,6 +767,7 @@ export class AISdkService {
         prompt,
         messages,
         config,
+        usageContext,
       });
 
       emitEvent({
@@ -725,6 +806,7 @@ export class AISdkService {
       prompt: extractionPrompt,
       schema,
       config,
+      usageContext,
     });
 
     // Create a new stream that includes progress events
@@ -799,6 +881,15 @@ export class AISdkService {
     };
   }
 
+  /**
+   * Set where AI usage is recorded (null stops recording)
+   * The subscriptions module registers itself, metering usage against each
+   * organization's AI budget.
+   */
+  setUsageRecorder(recorder: AIUsageRecorder | null): void {
+    this.usageRecorder = recorder;
+  }
+
   /**
    * Set default provider for all subsequent calls
    */
@@ -851,6 +942,7 @@ export const aiSdkService = new AISdkService();
 export async function generateText(params: {
   prompt: string;
   config?: GenerateConfig;
+  usageContext?: AIUsageContext;
 }): Promise<GenerateTextResult> {
   return aiSdkService.generateText(params);
 }
@@ -869,6 +961,7 @@ export async function generateText(params: {
 export async function generateTextWithHistory(params: {
   messages: ConversationMessage[];
   config?: GenerateConfig;
+  usageContext?: AIUsageContext;
 }): Promise<GenerateTextResult> {
   return aiSdkService.generateTextWithHistory(params);
 }
@@ -896,6 +989,7 @@ export async function generateTextWithWebSearch(params: {
   prompt?: string;
   messages?: ConversationMessage[];
   config?: WebSearchConfig;
+  usageContext?: AIUsageContext;
 }): Promise<GenerateWithToolsResult> {
   return aiSdkService.generateTextWithWebSearch(params);
 }
@@ -921,6 +1015,7 @@ export async function generateStructuredOutput<T = any>(params: {
   messages?: ConversationMessage[];
   schema: z.ZodType<T>;
   config?: GenerateStructuredConfig;
+  usageContext?: AIUsageContext;
 }): Promise<GenerateStructuredResult<T>> {
   return aiSdkService.generateStructuredOutput(params);
 }
@@ -946,6 +1041,7 @@ export async function generateStructuredOutputWithWebSearch<T = any>(params: {
   messages?: ConversationMessage[];
   schema: z.ZodType<T>;
   config?: WebSearchConfig & GenerateStructuredConfig;
+  usageContext?: AIUsageContext;
 }): Promise<
   GenerateStructuredResult<T> & { sources?: any; searchText: string }
 > {
@@ -977,6 +1073,7 @@ export async function streamText(params: {
   prompt?: string;
   messages?: ConversationMessage[];
   config?: GenerateConfig;
+  usageContext?: AIUsageContext;
 }): Promise<GenerateTextStreamResult> {
   return aiSdkService.streamText(params);
 }
@@ -1010,6 +1107,7 @@ export async function streamStructuredOutput<T = any>(params: {
   messages?: ConversationMessage[];
   schema: z.ZodType<T>;
   config?: GenerateStructuredConfig;
+  usageContext?: AIUsageContext;
 }): Promise<GenerateStructuredStreamResult<T>> {
   return aiSdkService.streamStructuredOutput(params);
 }
@@ -1058,6 +1156,7 @@ export async function streamStructuredOutputWithWebSearch<T = any>(params: {
   messages?: ConversationMessage[];
   schema: z.ZodType<T>;
   config?: WebSearchConfig & StreamStructuredConfig;
+  usageContext?: AIUsageContext;
 }): Promise<
   GenerateStructuredStreamResult<T> & {
     sources?: any;
@@ -76,8 +76,20 @@ export {
   type ToolCallResult,
   type WebSearchConfig,
   type GenerateWithToolsResult,
+  type AIUsageContext,
+  type AIUsageRecord,
+  type AIUsageRecorder,
   GenerateConfigSchema,
   ConversationMessageSchema,
 } from "./types";
 
+// Export pricing (cost estimates for usage metering)
+export {
+  AI_MODEL_PRICING,
+  UNKNOWN_MODEL_PRICING,
+  getModelPricing,
+  estimateAICost,
+  type AIModelPricing,
+} from "./pricing";
+
 export type { ModelMessage };
@@ -0,0 +1,84 @@
+/**
+ * AI Model Pricing
+ *
+ * List prices (USD per million tokens, October 2025) used to estimate what
+ * each AI call costs. Estimates cover tokens only - provider fees for web
+ * search tool calls are not included.
+ */
+
+import { AIModel } from "./types";
+
+export interface AIModelPricing {
+  input_per_million_usd: number;
+  output_per_million_usd: number;
+}
+
+export const AI_MODEL_PRICING: Record<AIModel, AIModelPricing> = {
+  [AIModel.GPT_5]: { input_per_million_usd: 1.25, output_per_million_usd: 10 },
+  [AIModel.GPT_5_MINI]: {
+    input_per_million_usd: 0.25,
+    output_per_million_usd: 2,
+  },
+  [AIModel.GPT_5_NANO]: {
+    input_per_million_usd: 0.05,
+    output_per_million_usd: 0.4,
+  },
+
+  [AIModel.CLAUDE_SONNET_4_5]: {
+    input_per_million_usd: 3,
+    output_per_million_usd: 15,
+  },
+  [AIModel.CLAUDE_OPUS_4_1]: {
+    input_per_million_usd: 15,
+    output_per_million_usd: 75,
+  },
+  [AIModel.CLAUDE_HAIKU_4_5]: {
+    input_per_million_usd: 1,
+    output_per_million_usd: 5,
+  },
+
+  // Gemini 2.5 Pro prompts over 200k tokens cost more - ours stay under
+  [AIModel.GEMINI_2_5_PRO]: {
+    input_per_million_usd: 1.25,
+    output_per_million_usd: 10,
+  },
+  [AIModel.GEMINI_2_5_FLASH]: {
+    input_per_million_usd: 0.3,
+    output_per_million_usd: 2.5,
+  },
+  [AIModel.GEMINI_2_5_FLASH_LITE]: {
+    input_per_million_usd: 0.1,
+    output_per_million_usd: 0.4,
+  },
+};
+
+/**
+ * Pricing for models missing from AI_MODEL_PRICING
+ * The most expensive listed model, so budgets never under-count.
+ */
+export const UNKNOWN_MODEL_PRICING: AIModelPricing =
+  AI_MODEL_PRICING[AIModel.CLAUDE_OPUS_4_1];
+
+/**
+ * Get a model's pricing (UNKNOWN_MODEL_PRICING if it isn't listed)
+ */
+export function getModelPricing(model: string): AIModelPricing {
+  return AI_MODEL_PRICING[model as AIModel] ?? UNKNOWN_MODEL_PRICING;
+}
+
+/**
+ * Estimate the cost of an AI call in USD (rounded to a millionth of a dollar)
+ */
+export function estimateAICost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const pricing = getModelPricing(model);
+  const cost =
+    (inputTokens * pricing.input_per_million_usd +
+      outputTokens * pricing.output_per_million_usd) /
+    1_000_000;
+
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -417,6 +417,36 @@ export interface GenerateWithToolsResult extends GenerateTextResult {
   sources?: any[];
 }
 
+/**
+ * Who an AI call is metered against
+ * Pass it to any AISdkService call to record the call's token usage.
+ */
+export interface AIUsageContext {
+  /** Organization billed for the call */
+  organization_id: string;
+  user_id?: string;
+  client_id?: string;
+  /** API route the call came from, e.g. "POST /api/strategy" */
+  source_route?: string;
+}
+
+/**
+ * Token usage and estimated cost of one AI call
+ */
+export interface AIUsageRecord extends AIUsageContext {
+  provider: AIProvider;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  estimated_cost_usd: number;
+}
+
+/**
+ * Stores AI usage records (registered with AISdkService.setUsageRecorder)
+ */
+export type AIUsageRecorder = (record: AIUsageRecord) => Promise<void>;
+
 /**
  * Zod schema for generate config validation
  */
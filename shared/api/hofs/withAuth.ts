@@ -8,6 +8,7 @@ import {
   ServerPermissions,
   type PermissionConfig,
 } from "@/shared/auth/server.permissions";
+import { runWithRequestCorrelation } from "./withCorrelation";
 
 // What your app code will receive as the 3rd arg:
 export type WithAuthProps = {
@@ -18,6 +19,7 @@ export type WithAuthProps = {
   userType: UserType;
   permissions: ServerPermissions;
   name: string;
+  correlationId: string;
 };
 
 // The inner handler type: 3 args (req, ctx, auth)
@@ -36,58 +38,60 @@ export function withAuth<
   return async (
     req: NextRequest,
     ctx: { params: Promise<P> }
-  ): Promise<Response> => {
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return NextResponse.json(
-        { message: "You must be logged in." },
-        { status: 401 }
-      );
-    }
-
-    const user = await getUserFromAuthHeader(authHeader);
-    if (!user) {
-      return NextResponse.json(
-        { message: "You must be logged in." },
-        { status: 401 }
-      );
-    }
-
-    const activeOrg = user.getActiveOrg() || user.getOrgs()[0];
-    if (!activeOrg) {
-      return NextResponse.json(
-        { message: "You must be a user with a role in an organisation." },
-        { status: 401 }
-      );
-    }
+  ): Promise<Response> =>
+    runWithRequestCorrelation(req, async (correlationId) => {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) {
+        return NextResponse.json(
+          { message: "You must be logged in." },
+          { status: 401 }
+        );
+      }
 
-    const permissions = new ServerPermissions(user, activeOrg.orgId);
+      const user = await getUserFromAuthHeader(authHeader);
+      if (!user) {
+        return NextResponse.json(
+          { message: "You must be logged in." },
+          { status: 401 }
+        );
+      }
 
-    if (permissionConfig) {
-      const hasPermission = permissions.validateConfig(permissionConfig);
-      if (!hasPermission) {
+      const activeOrg = user.getActiveOrg() || user.getOrgs()[0];
+      if (!activeOrg) {
         return NextResponse.json(
-          {
-            message: "You do not have permission to access this resource.",
-          },
-          { status: 403 }
+          { message: "You must be a user with a role in an organisation." },
+          { status: 401 }
         );
       }
-    }
 
-    const role = activeOrg.assignedRole as UserRole;
-    const userType = getUserType(role);
+      const permissions = new ServerPermissions(user, activeOrg.orgId);
+
+      if (permissionConfig) {
+        const hasPermission = permissions.validateConfig(permissionConfig);
+        if (!hasPermission) {
+          return NextResponse.json(
+            {
+              message: "You do not have permission to access this resource.",
+            },
+            { status: 403 }
+          );
+        }
+      }
+
+      const role = activeOrg.assignedRole as UserRole;
+      const userType = getUserType(role);
 
-    const authProps: WithAuthProps = {
-      user,
-      role,
-      activeOrgId: activeOrg.orgId,
-      activeOrgName: activeOrg.orgName,
-      userType,
-      permissions,
-      name: user.firstName + " " + user.lastName,
-    };
+      const authProps: WithAuthProps = {
+        user,
+        role,
+        activeOrgId: activeOrg.orgId,
+        activeOrgName: activeOrg.orgName,
+        userType,
+        permissions,
+        name: user.firstName + " " + user.lastName,
+        correlationId,
+      };
 
-    return handler(req, ctx, authProps);
-  };
+      return handler(req, ctx, authProps);
+    });
 }
@@ -0,0 +1,91 @@
+/**
+ * withCorrelation Higher-Order Function
+ *
+ * Establishes the correlation context for a request: reads (or generates)
+ * the `x-correlation-id` header, runs the handler inside the context so
+ * logs and events pick the ID up automatically, and echoes the ID in the
+ * response headers.
+ *
+ * withAuth and withDb already do this, so routes composed with them don't
+ * need it. Use it directly for routes that use neither.
+ *
+ * @example
+ * ```typescript
+ * export const GET = withCorrelation(async (req, ctx, { correlationId }) => {
+ *   return NextResponse.json({ correlationId });
+ * });
+ * ```
+ */
+
+import { NextRequest } from "next/server";
+import type {
+  CoreHandler,
+  NextRouteContext,
+} from "@/shared/types/api-hof.types";
+import {
+  CORRELATION_ID_HEADER,
+  getCorrelationId,
+  resolveCorrelationId,
+  runWithCorrelationId,
+} from "@/shared/utils/correlation.context";
+
+/**
+ * Props added by the correlation context
+ */
+export type WithCorrelationProps = {
+  correlationId: string;
+};
+
+/**
+ * Run a request handler inside a correlation context
+ * Reuses the current context when one is already established, so nesting
+ * withAuth(withDb(...)) sets up the context - and the header - only once.
+ *
+ * @param req - Incoming request
+ * @param handler - Receives the correlation ID and produces the response
+ * @returns The handler's response, with the correlation header set
+ */
+export async function runWithRequestCorrelation(
+  req: NextRequest,
+  handler: (correlationId: string) => Response | Promise<Response>
+): Promise<Response> {
+  const existing = getCorrelationId();
+  if (existing) {
+    return handler(existing);
+  }
+
+  const correlationId = resolveCorrelationId(req.headers);
+  const response = await runWithCorrelationId(correlationId, () =>
+    handler(correlationId)
+  );
+
+  try {
+    response.headers.set(CORRELATION_ID_HEADER, correlationId);
+  } catch {
+    // Some responses (e.g. proxied fetch responses) have immutable headers
+  }
+
+  return response;
+}
+
+/**
+ * Wrap a handler in a correlation context
+ *
+ * @param handler - The route handler
+ * @returns Wrapped handler - usable as a route handler or inside other HOFs
+ */
+export function withCorrelation<
+  P extends Record<string, string> = Record<string, string>,
+  TProps extends Record<string, any> = Record<string, any>
+>(
+  handler: CoreHandler<P, TProps & WithCorrelationProps>
+): (
+  req: NextRequest,
+  context: NextRouteContext<P>,
+  props?: TProps
+) => Promise<Response> {
+  return (req, context, props) =>
+    runWithRequestCorrelation(req, (correlationId) =>
+      handler(req, context, { ...(props as TProps), correlationId })
+    );
+}
@@ -3,6 +3,8 @@
  *
  * Ensures database connection is initialized before route handler executes.
  * Automatically adds database connection status to error context for debugging.
+ * Also establishes the correlation context (see withCorrelation) when the
+ * route isn't wrapped in withAuth.
  *
  * @example
  * ```typescript
@@ -20,6 +22,7 @@
 
 import { NextRequest } from "next/server";
 import { dbService } from "@/shared/db/database.service";
+import { runWithRequestCorrelation } from "./withCorrelation";
 import type {
   CoreHandler,
   NextRouteContext,
@@ -39,38 +42,40 @@ export function withDb<
     req: NextRequest,
     context: NextRouteContext<P>,
     props: TProps
-  ): Promise<Response> => {
-    try {
-      // Ensure database is connected before proceeding
-      await dbService.connect();
+  ): Promise<Response> =>
+    runWithRequestCorrelation(req, async (correlationId) => {
+      try {
+        // Ensure database is connected before proceeding
+        await dbService.connect();
 
-      // Add successful database context metadata
-      const dbMetadata = {
-        db_connection_status: "connected",
-        mongodb_database: process.env.MONGODB_DATABASE_NAME || "unknown",
-      };
+        // Add successful database context metadata
+        const dbMetadata = {
+          db_connection_status: "connected",
+          mongodb_database: process.env.MONGODB_DATABASE_NAME || "unknown",
+        };
 
-      // If props has a way to store metadata, add it
-      // Otherwise, just proceed with the handler
-      const enhancedProps = {
-        ...props,
-        _dbMetadata: dbMetadata,
-      };
+        // If props has a way to store metadata, add it
+        // Otherwise, just proceed with the handler
+        const enhancedProps = {
+          ...props,
+          correlationId,
+          _dbMetadata: dbMetadata,
+        };
 
-      return handler(req, context, enhancedProps);
-    } catch (dbError) {
-      // Enhance error with database context
-      const error = dbError as Error;
-      error.message = `Database initialization failed: ${error.message}`;
+        return handler(req, context, enhancedProps);
+      } catch (dbError) {
+        // Enhance error with database context
+        const error = dbError as Error;
+        error.message = `Database initialization failed: ${error.message}`;
 
-      // Add database error metadata
-      (error as any).dbContext = {
-        database_initialization_error: true,
-        db_connection_status: "failed",
-        mongodb_database: process.env.MONGODB_DATABASE_NAME || "unknown",
-      };
+        // Add database error metadata
+        (error as any).dbContext = {
+          database_initialization_error: true,
+          db_connection_status: "failed",
+          mongodb_database: process.env.MONGODB_DATABASE_NAME || "unknown",
+        };
 
-      throw error;
-    }
-  };
+        throw error;
+      }
+    });
 }
@@ -0,0 +1,184 @@
+/**
+ * withIdempotencyKey Higher-Order Function
+ *
+ * Makes POST routes safe to retry. When the client sends an
+ * `Idempotency-Key` header, the first request with that key runs the
+ * handler and its response is stored; repeats get the stored response back
+ * (with `Idempotent-Replayed: true`) instead of running the handler again.
+ * A repeat that arrives while the first request is still running gets a 409.
+ *
+ * Keys are scoped to the user and route, so two users (or two endpoints)
+ * can't collide. Reusing a key with a different body is rejected with a 422,
+ * even once the first request's claim has gone stale. Only successful (2xx)
+ * responses and validation errors (400) are stored - they'd be the same on a
+ * retry. Any other response (auth, limits, conflicts, 5xx) or a thrown error
+ * releases the key so the client can retry once the cause is fixed.
+ *
+ * Place it inside withAuth (for the user scope) and outside withValidation.
+ * JSON responses only - a streaming response would be read to the end
+ * before being returned.
+ *
+ * @example
+ * ```typescript
+ * export const POST = withAuth(
+ *   withDb(
+ *     withIdempotencyKey(
+ *       withValidation(WebsiteUrlInputSchema, async (req, ctx, { body }) => {
+ *         // runs at most once per Idempotency-Key
+ *       })
+ *     )
+ *   )
+ * );
+ * ```
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type {
+  CoreHandler,
+  NextRouteContext,
+} from "@/shared/types/api-hof.types";
+import {
+  createFingerprint,
+  idempotencyStore,
+  type IdempotencyOptions,
+} from "@/shared/idempotency";
+import { ConflictError, ValidationError } from "@/shared/utils/errors";
+import { logger } from "@/shared/utils/logger";
+import { createErrorResponse } from "../response.helpers";
+
+const log = logger.child({ module: "with-idempotency-key-hof" });
+
+/**
+ * Request header carrying the client's idempotency key
+ */
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+
+/**
+ * Response header set on replayed responses
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = "idempotent-replayed";
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * withIdempotencyKey configuration
+ */
+export interface IdempotencyKeyConfig
+  extends Pick<IdempotencyOptions, "period" | "lockTimeout"> {
+  /** Reject requests without an Idempotency-Key header (default: false) */
+  required?: boolean;
+}
+
+/**
+ * Response as stored on the idempotency record
+ */
+interface StoredResponse {
+  status: number;
+  body: string;
+  content_type?: string;
+}
+
+/**
+ * Whether a response is stored for replay
+ * Successes and validation errors only - other errors depend on state that
+ * can change before the client retries.
+ */
+const isStoredStatus = (status: number): boolean =>
+  (status >= 200 && status < 300) || status === 400;
+
+/**
+ * Wrap a handler so it runs at most once per Idempotency-Key
+ *
+ * @param handler - The route handler
+ * @param config - Key requirement, record period and lock timeout
+ * @returns Wrapped handler
+ */
+export function withIdempotencyKey<
+  P extends Record<string, string> = Record<string, string>,
+  TProps extends Record<string, any> = Record<string, any>
+>(
+  handler: CoreHandler<P, TProps>,
+  config: IdempotencyKeyConfig = {}
+): CoreHandler<P, TProps> {
+  return async (
+    req: NextRequest,
+    context: NextRouteContext<P>,
+    props: TProps
+  ): Promise<Response> => {
+    const idempotencyKey = req.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+
+    if (!idempotencyKey) {
+      if (config.required) {
+        return createErrorResponse(
+          new ValidationError("Idempotency-Key header is required")
+        );
+      }
+      return handler(req, context, props);
+    }
+
+    if (idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return createErrorResponse(
+        new ValidationError(
+          `Idempotency-Key must be ${MAX_IDEMPOTENCY_KEY_LENGTH} characters or fewer`
+        )
+      );
+    }
+
+    const scope = props.user?.userId ?? props.activeOrgId ?? "anonymous";
+    const key = `http:${scope}:${req.method}:${req.nextUrl.pathname}:${idempotencyKey}`;
+
+    let claim;
+    try {
+      claim = await idempotencyStore.claim<StoredResponse>(key, {
+        period: config.period,
+        lockTimeout: config.lockTimeout,
+        fingerprint: createFingerprint(await req.clone().text()),
+      });
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+
+    if (claim.state === "completed") {
+      log.info("Replaying stored response", { key });
+      return new NextResponse(claim.result.body, {
+        status: claim.result.status,
+        headers: {
+          ...(claim.result.content_type
+            ? { "Content-Type": claim.result.content_type }
+            : {}),
+          [IDEMPOTENT_REPLAYED_HEADER]: "true",
+        },
+      });
+    }
+
+    if (claim.state === "in_progress") {
+      return createErrorResponse(
+        new ConflictError(
+          "A request with this Idempotency-Key is already in progress",
+          { idempotencyKey }
+        )
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await handler(req, context, props);
+    } catch (error) {
+      await idempotencyStore.release(key);
+      throw error;
+    }
+
+    if (!isStoredStatus(response.status)) {
+      await idempotencyStore.release(key);
+      return response;
+    }
+
+    await idempotencyStore.complete<StoredResponse>(key, {
+      status: response.status,
+      body: await response.clone().text(),
+      content_type: response.headers.get("content-type") ?? undefined,
+    });
+
+    return response;
+  };
+}
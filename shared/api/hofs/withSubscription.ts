@@ -1,8 +1,13 @@
 /**
  * withSubscription Higher-Order Function
  *
- * Payment wall middleware that checks subscription tier and feature access.
- * Adds subscription data to context props.
+ * Payment wall middleware that checks subscription tier, feature access
+ * and usage limits.
+ * Adds subscription data and the route's label (sourceRoute, e.g.
+ * "POST /api/clients/[id]/research") to context props.
+ *
+ * Every successful (2xx/3xx) call is metered as an API call in the usage
+ * ledger, with the route and user it came from.
  *
  * Usage:
  * ```typescript
@@ -10,9 +15,9 @@
  *   withDB(
  *     withSubscription({
  *       requiredTier: SubscriptionTier.PRO,
- *       requiredFeature: 'ai_research'
+ *       requiredFeature: Feature.AI_RESEARCH
  *     })(
- *       async (req, params, { auth, subscription }) => {
+ *       async (req, params, { activeOrgId, subscription }) => {
  *         // handler logic
  *       }
  *     )
@@ -27,9 +32,14 @@ import {
   subscriptionsService,
   SubscriptionTier,
   SubscriptionStatus,
+  getEffectiveLimit,
+  type Feature,
+  type LimitType,
   type SubscriptionResponse,
 } from "@/modules/subscriptions";
+import type { AuthUser } from "@/shared/auth/auth.service";
 import { logger } from "@/shared/utils/logger";
+import { getSourceRoute } from "../route.helpers";
 
 const log = logger.child({ module: "with-subscription-hof" });
 
@@ -41,7 +51,10 @@ export interface SubscriptionConfig {
   requiredTier?: SubscriptionTier;
 
   /** Specific feature required */
-  requiredFeature?: string;
+  requiredFeature?: Feature;
+
+  /** Usage limit that must not be used up (e.g., the monthly AI budget) */
+  requiredLimit?: LimitType;
 
   /** Custom check function */
   customCheck?: (
@@ -57,6 +70,8 @@ export interface SubscriptionConfig {
  */
 export interface WithSubscriptionProps {
   subscription: SubscriptionResponse;
+  /** Route handling the request, for usage metering */
+  sourceRoute: string;
 }
 
 /**
@@ -74,6 +89,25 @@ function PaymentRequiredResponse(message: string, details?: unknown) {
   );
 }
 
+/**
+ * Meter an API call in the usage ledger
+ * Metering problems are logged - they never fail the request.
+ */
+async function recordApiCall(
+  orgId: string,
+  sourceRoute: string,
+  userId: string | undefined
+): Promise<void> {
+  try {
+    await subscriptionsService.incrementUsage(orgId, "api_calls", 1, {
+      user_id: userId,
+      source_route: sourceRoute,
+    });
+  } catch (error) {
+    log.warn("Failed to record API call usage", { orgId, sourceRoute, error });
+  }
+}
+
 /**
  * withSubscription HOF
  *
@@ -90,15 +124,14 @@ export function withSubscription(config: SubscriptionConfig = {}) {
       // Skip check if configured
       if (config.skip) {
         log.debug("Subscription check skipped");
-        return handler(
-          request,
-          params,
-          props as TProps & WithSubscriptionProps
-        );
+        return handler(request, params, {
+          ...props,
+          sourceRoute: getSourceRoute(request, await params.params),
+        } as TProps & WithSubscriptionProps);
       }
 
-      // Ensure auth props exist
-      if (!("auth" in props) || !props.auth) {
+      // Ensure auth props exist (withAuth passes them as props)
+      if (typeof props.activeOrgId !== "string" || !props.activeOrgId) {
         log.error("withSubscription requires withAuth to be called first");
         return NextResponse.json(
           {
@@ -110,7 +143,9 @@ export function withSubscription(config: SubscriptionConfig = {}) {
         );
       }
 
-      const auth = props.auth as { activeOrgId: string; userId: string };
+      const auth = { activeOrgId: props.activeOrgId };
+      let newProps: TProps & WithSubscriptionProps;
+      let sourceRoute: string;
 
       try {
         // Get subscription for organization
@@ -189,6 +224,34 @@ export function withSubscription(config: SubscriptionConfig = {}) {
           }
         }
 
+        // Check usage limit
+        if (config.requiredLimit) {
+          const withinLimit = await subscriptionsService.checkLimit(
+            auth.activeOrgId,
+            config.requiredLimit
+          );
+
+          if (!withinLimit) {
+            log.warn("Usage limit reached", {
+              orgId: auth.activeOrgId,
+              limitType: config.requiredLimit,
+              tier: subscription.tier,
+            });
+            return PaymentRequiredResponse(
+              `Your plan's ${config.requiredLimit} limit has been reached. Please upgrade your subscription.`,
+              {
+                limitType: config.requiredLimit,
+                limit: getEffectiveLimit(
+                  subscription.tier as SubscriptionTier,
+                  config.requiredLimit,
+                  subscription.limit_overrides
+                ),
+                currentTier: subscription.tier,
+              }
+            );
+          }
+        }
+
         // Custom check
         if (config.customCheck) {
           const passesCustomCheck = await config.customCheck(subscription);
@@ -203,18 +266,19 @@ export function withSubscription(config: SubscriptionConfig = {}) {
           }
         }
 
+        sourceRoute = getSourceRoute(request, await params.params);
+
         // Add subscription to props
-        const newProps = {
+        newProps = {
           ...props,
           subscription,
+          sourceRoute,
         } as TProps & WithSubscriptionProps;
 
         log.debug("Subscription check passed", {
           orgId: auth.activeOrgId,
           tier: subscription.tier,
         });
-
-        return handler(request, params, newProps);
       } catch (error) {
         log.error("Error in subscription check", {
           error,
@@ -230,6 +294,18 @@ export function withSubscription(config: SubscriptionConfig = {}) {
           { status: 500 }
         );
       }
+
+      const response = await handler(request, params, newProps);
+
+      if (response.status < 400) {
+        await recordApiCall(
+          auth.activeOrgId,
+          sourceRoute,
+          (props.user as AuthUser | undefined)?.userId
+        );
+      }
+
+      return response;
     };
   };
 }
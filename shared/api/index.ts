@@ -9,7 +9,17 @@ export { withAuth } from "./hofs/withAuth";
 export type { WithAuthProps } from "./hofs/withAuth";
 
 export { withSubscription } from "./hofs/withSubscription";
+export type { WithSubscriptionProps } from "./hofs/withSubscription";
 export { withDb as withDb } from "./hofs/withDb";
+export { withCorrelation } from "./hofs/withCorrelation";
+export type { WithCorrelationProps } from "./hofs/withCorrelation";
+
+export {
+  withIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+} from "./hofs/withIdempotencyKey";
+export type { IdempotencyKeyConfig } from "./hofs/withIdempotencyKey";
 
 export { withValidation, withPatchValidation } from "./hofs/withValidation";
 export type { JsonPatchOperation } from "./hofs/withValidation";
@@ -29,6 +39,9 @@ export {
   createErrorResponse,
 } from "./response.helpers";
 
+// Route Helpers
+export { getSourceRoute } from "./route.helpers";
+
 // Base Response DTO
 export { BaseResponseDTO } from "./base.response.dto";
-export type { ResponseWithId } from "./base.response.dto";
\ No newline at end of file
+export type { ResponseWithId } from "./base.response.dto";
@@ -123,7 +123,9 @@ export const ResponseHeaders = {
     "Content-Type": "application/json",
     "Access-Control-Allow-Origin": origin,
     "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Headers":
+      "Content-Type, Authorization, X-Correlation-Id",
+    "Access-Control-Expose-Headers": "X-Correlation-Id",
   }),
 
   /**
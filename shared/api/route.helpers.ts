@@ -0,0 +1,48 @@
+/**
+ * Route Helpers
+ *
+ * Identify which API route handled a request, for usage metering.
+ */
+
+import { NextRequest } from "next/server";
+
+/**
+ * Decode a path segment (as is if it isn't valid percent-encoding)
+ */
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Route a request was handled by, e.g. "POST /api/clients/[id]/research"
+ * Path segments holding a route param are replaced by the param's name, so
+ * every request to a route gets the same label.
+ *
+ * @param req - The request
+ * @param params - The route's resolved params
+ */
+export function getSourceRoute(
+  req: NextRequest,
+  params: Record<string, string | string[] | undefined> = {}
+): string {
+  const paramNames = new Map<string, string>();
+  for (const [name, value] of Object.entries(params)) {
+    if (typeof value === "string" && value) {
+      paramNames.set(value, name);
+    }
+  }
+
+  const pattern = req.nextUrl.pathname
+    .split("/")
+    .map((segment) => {
+      const name = paramNames.get(decodeSegment(segment));
+      return name ? `[${name}]` : segment;
+    })
+    .join("/");
+
+  return `${req.method} ${pattern}`;
+}
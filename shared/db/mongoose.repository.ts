@@ -392,6 +392,27 @@ export class MongooseRepository<
     return updated;
   }
 
+  /**
+   * Update the first non-deleted document matching the filter.
+   * The filter is checked and the update applied atomically.
+   * @param filter - Mongoose filter query.
+   * @param update - The update payload (Partial entity or Mongoose UpdateQuery).
+   * @returns The updated document or null if nothing matched.
+   */
+  public async updateOne(
+    filter: EntityFilter<TEntity>,
+    update: Partial<TEntity>
+  ): Promise<TEntity | null> {
+    const updated = (await this.model
+      .findOneAndUpdate(this.withNotDeleted(filter as any), update as any, {
+        new: true,
+        runValidators: true,
+      })
+      .exec()) as TEntity | null;
+
+    return updated;
+  }
+
   /**
    * Update a non-deleted document by its ID with array filters support.
    * @param id - The document's ObjectId as a string or Types.ObjectId.
@@ -147,6 +147,19 @@ export interface IRepository<TEntity extends IEntity, TId = any> {
    */
   updateById(id: TId, update: Partial<TEntity>): Promise<TEntity | null>;
 
+  /**
+   * Update the first entity matching the filter
+   * Use for conditional updates - the filter is checked and the update
+   * applied in one operation.
+   * @param filter - Filter criteria (e.g. ID and expected current state)
+   * @param update - Update data
+   * @returns Promise resolving to updated entity or null if nothing matched
+   */
+  updateOne(
+    filter: EntityFilter<TEntity>,
+    update: Partial<TEntity>
+  ): Promise<TEntity | null>;
+
   /**
    * Update entity with array filters (for nested arrays)
    * @param id - Entity ID
@@ -0,0 +1,112 @@
+/**
+ * Idempotency Record - Mongoose Schema
+ *
+ * ============================================
+ * INFRASTRUCTURE LAYER - Database Implementation
+ * ============================================
+ *
+ * One document per idempotency key. A record is written when an operation
+ * claims its key and holds the operation's result once it completes.
+ * MongoDB's TTL monitor deletes records after `expires_at`, so keys become
+ * reusable once their idempotency period has passed.
+ *
+ * ARCHITECTURAL BOUNDARIES:
+ * ✅ CAN import: mongoose
+ * ❌ CANNOT be imported by: Services, API routes - use IdempotencyStore
+ */
+
+import mongoose, { Schema, Model, InferSchemaType } from "mongoose";
+import { modelRegistry } from "@/shared/db/model.registry";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const IDEMPOTENCY_RECORD_MODEL_NAME = "IdempotencyRecord";
+
+export const IDEMPOTENCY_RECORDS_COLLECTION = "idempotency_records";
+
+/**
+ * Lifecycle of an idempotency record
+ */
+export enum IdempotencyStatus {
+  IN_PROGRESS = "in_progress",
+  COMPLETED = "completed",
+}
+
+export const IdempotencyStatusValues = Object.values(IdempotencyStatus);
+
+// ============================================
+// MONGOOSE SCHEMA
+// ============================================
+
+const IdempotencyRecordSchema = new Schema(
+  {
+    key: { type: String, required: true },
+    status: {
+      type: String,
+      enum: IdempotencyStatusValues,
+      required: true,
+    },
+    // Hash of the request that claimed the key - detects key reuse
+    fingerprint: { type: String },
+    // JSON-serializable result of the completed operation
+    result: { type: Schema.Types.Mixed },
+    // An in-progress claim older than this is treated as abandoned
+    locked_until: { type: Date, required: true },
+    expires_at: { type: Date, required: true },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+    collection: IDEMPOTENCY_RECORDS_COLLECTION,
+    versionKey: false,
+    // Results are stored as-is; don't strip empty objects
+    minimize: false,
+  }
+);
+
+// ============================================
+// INDEXES
+// ============================================
+
+/**
+ * One record per key - the unique index is what makes claiming atomic
+ */
+IdempotencyRecordSchema.index({ key: 1 }, { unique: true });
+
+/**
+ * TTL - expire records at expires_at
+ */
+IdempotencyRecordSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================
+// TYPE INFERENCE
+// ============================================
+
+export type IdempotencyRecordDocument = InferSchemaType<
+  typeof IdempotencyRecordSchema
+> &
+  mongoose.Document;
+
+// ============================================
+// MODEL CREATION & REGISTRATION
+// ============================================
+
+const IdempotencyRecordModel =
+  (mongoose.models[
+    IDEMPOTENCY_RECORD_MODEL_NAME
+  ] as Model<IdempotencyRecordDocument>) ||
+  mongoose.model<IdempotencyRecordDocument>(
+    IDEMPOTENCY_RECORD_MODEL_NAME,
+    IdempotencyRecordSchema
+  );
+
+modelRegistry.register<IdempotencyRecordDocument>(
+  IDEMPOTENCY_RECORD_MODEL_NAME,
+  IdempotencyRecordModel
+);
+
+export default IdempotencyRecordModel;
@@ -0,0 +1,266 @@
+/**
+ * Idempotency Store
+ *
+ * Durable, MongoDB-backed exactly-once execution. Replaces per-process
+ * caches, which don't survive across serverless invocations.
+ *
+ * HOW IT WORKS:
+ * 1. claim()    - Insert a record for the key. The unique index means only
+ *                 one caller can win; everyone else sees the existing record.
+ * 2. complete() - Store the operation's result on the record.
+ * 3. release()  - Delete an in-progress claim after a failure so the
+ *                 operation can be retried with the same key.
+ *
+ * A record expires after its period ("24h", "7d" - same format as
+ * InngestFunctionConfig.idempotency.period). An in-progress claim whose
+ * lock timeout has passed is treated as abandoned (e.g. the function was
+ * killed mid-operation) and can be taken over.
+ *
+ * @example
+ * ```typescript
+ * const client = await idempotencyStore.execute(
+ *   `research:${userId}:${key}`,
+ *   () => clientsService.createClientFromWebsite(url, userId, orgId),
+ *   { period: "24h" }
+ * );
+ * ```
+ *
+ * Results must be JSON-serializable - they are stored in MongoDB and
+ * returned as plain objects on replay.
+ */
+
+import { createHash } from "crypto";
+import { ConflictError, UnprocessableEntityError } from "@/shared/utils/errors";
+import { logger } from "@/shared/utils/logger";
+import IdempotencyRecordModel, {
+  IdempotencyStatus,
+} from "./idempotency.schema";
+import { parsePeriod } from "./period";
+
+const log = logger.child({ module: "idempotency-store" });
+
+/**
+ * Default record lifetime - matches Inngest's event deduplication window
+ */
+export const DEFAULT_IDEMPOTENCY_PERIOD = "24h";
+
+/**
+ * Default time after which an in-progress claim counts as abandoned
+ */
+export const DEFAULT_IDEMPOTENCY_LOCK_TIMEOUT = "5m";
+
+/**
+ * Options for claiming a key
+ */
+export interface IdempotencyOptions {
+  /** How long the record (and stored result) is kept, e.g. "24h", "7d" */
+  period?: string;
+  /** How long an in-progress claim blocks duplicates, e.g. "5m" */
+  lockTimeout?: string;
+  /** Request fingerprint - reusing a key for a different request is rejected */
+  fingerprint?: string;
+}
+
+/**
+ * Outcome of claiming a key
+ */
+export type IdempotencyClaim<T> =
+  | { state: "claimed" }
+  | { state: "completed"; result: T }
+  | { state: "in_progress" };
+
+/**
+ * Stable hash of a value, used as a request fingerprint
+ * Object keys are sorted so equal payloads hash equally.
+ *
+ * @param value - JSON-serializable value
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function createFingerprint(value: unknown): string {
+  const stable = JSON.stringify(value ?? null, (_key, current) =>
+    current && typeof current === "object" && !Array.isArray(current)
+      ? Object.keys(current)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, key) => {
+            sorted[key] = current[key];
+            return sorted;
+          }, {})
+      : current
+  );
+
+  return createHash("sha256").update(stable).digest("hex");
+}
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  (error as { code?: number })?.code === 11000;
+
+/**
+ * IdempotencyStore
+ */
+export class IdempotencyStore {
+  /**
+   * Claim a key for an operation
+   *
+   * @param key - Idempotency key
+   * @param options - Period, lock timeout and request fingerprint
+   * @returns claimed (caller should run the operation), completed (with the
+   *          stored result) or in_progress (another caller is running it)
+   * @throws UnprocessableEntityError if the key was used for a different
+   *         request
+   */
+  async claim<T>(
+    key: string,
+    options: IdempotencyOptions = {}
+  ): Promise<IdempotencyClaim<T>> {
+    const now = new Date();
+    const fresh = {
+      status: IdempotencyStatus.IN_PROGRESS,
+      fingerprint: options.fingerprint,
+      locked_until: new Date(
+        now.getTime() +
+          parsePeriod(options.lockTimeout ?? DEFAULT_IDEMPOTENCY_LOCK_TIMEOUT)
+      ),
+      expires_at: new Date(
+        now.getTime() +
+          parsePeriod(options.period ?? DEFAULT_IDEMPOTENCY_PERIOD)
+      ),
+    };
+
+    try {
+      await IdempotencyRecordModel.create({ key, ...fresh });
+      return { state: "claimed" };
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+    }
+
+    // Take over abandoned claims of the same request and expired records
+    // the TTL monitor hasn't swept yet (it runs about once a minute). An
+    // abandoned claim of a different request falls through to the
+    // fingerprint check below.
+    const takenOver = await IdempotencyRecordModel.findOneAndUpdate(
+      {
+        key,
+        $or: [
+          {
+            status: IdempotencyStatus.IN_PROGRESS,
+            locked_until: { $lte: now },
+            ...(options.fingerprint
+              ? { fingerprint: { $in: [options.fingerprint, null] } }
+              : {}),
+          },
+          { expires_at: { $lte: now } },
+        ],
+      },
+      { $set: fresh, $unset: { result: 1 } }
+    ).lean();
+
+    if (takenOver) {
+      log.warn("Took over stale idempotency record", { key });
+      return { state: "claimed" };
+    }
+
+    const existing = await IdempotencyRecordModel.findOne({ key }).lean();
+
+    if (!existing) {
+      // Released between our insert and lookup - try once more
+      return this.claim<T>(key, options);
+    }
+
+    if (
+      options.fingerprint &&
+      existing.fingerprint &&
+      existing.fingerprint !== options.fingerprint
+    ) {
+      throw new UnprocessableEntityError(
+        "Idempotency key has already been used for a different request",
+        { idempotencyKey: key }
+      );
+    }
+
+    if (existing.status === IdempotencyStatus.COMPLETED) {
+      return { state: "completed", result: existing.result as T };
+    }
+
+    return { state: "in_progress" };
+  }
+
+  /**
+   * Store the result of a claimed operation
+   *
+   * @param key - Idempotency key
+   * @param result - JSON-serializable operation result
+   */
+  async complete<T>(key: string, result: T): Promise<void> {
+    await IdempotencyRecordModel.updateOne(
+      { key, status: IdempotencyStatus.IN_PROGRESS },
+      { $set: { status: IdempotencyStatus.COMPLETED, result } }
+    );
+  }
+
+  /**
+   * Release a claim after a failed operation so it can be retried
+   *
+   * @param key - Idempotency key
+   */
+  async release(key: string): Promise<void> {
+    await IdempotencyRecordModel.deleteOne({
+      key,
+      status: IdempotencyStatus.IN_PROGRESS,
+    });
+  }
+
+  /**
+   * Run an operation at most once per key
+   * Replays the stored result for completed keys; failures release the key.
+   *
+   * @param key - Idempotency key
+   * @param operation - Operation to run
+   * @param options - Period, lock timeout and request fingerprint
+   * @returns The operation's result (stored result on replay)
+   * @throws ConflictError if the operation is already running for this key
+   * @throws UnprocessableEntityError if the key was used for a different
+   *         request
+   */
+  async execute<T>(
+    key: string,
+    operation: () => Promise<T>,
+    options: IdempotencyOptions = {}
+  ): Promise<T> {
+    const claim = await this.claim<T>(key, options);
+
+    if (claim.state === "completed") {
+      log.info("Replaying idempotent result", { key });
+      return claim.result;
+    }
+
+    if (claim.state === "in_progress") {
+      throw new ConflictError(
+        "A request with this idempotency key is already in progress",
+        { idempotencyKey: key }
+      );
+    }
+
+    let result: T;
+    try {
+      result = await operation();
+    } catch (error) {
+      await this.release(key).catch((releaseError) =>
+        log.error("Failed to release idempotency key", {
+          key,
+          error: releaseError,
+        })
+      );
+      throw error;
+    }
+
+    await this.complete(key, result);
+    return result;
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const idempotencyStore = new IdempotencyStore();
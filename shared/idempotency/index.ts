@@ -0,0 +1,17 @@
+/**
+ * Idempotency Exports
+ *
+ * Durable exactly-once execution backed by MongoDB.
+ */
+
+export {
+  IdempotencyStore,
+  idempotencyStore,
+  createFingerprint,
+  DEFAULT_IDEMPOTENCY_PERIOD,
+  DEFAULT_IDEMPOTENCY_LOCK_TIMEOUT,
+  type IdempotencyOptions,
+  type IdempotencyClaim,
+} from "./idempotency.store";
+
+export { parsePeriod, type Period } from "./period";
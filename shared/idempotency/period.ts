@@ -0,0 +1,49 @@
+/**
+ * Idempotency Periods
+ *
+ * Parses the duration strings used by InngestFunctionConfig
+ * (`idempotency.period`, `rateLimit.period`, `debounce.period`) so the
+ * idempotency store expires records on the same schedule Inngest uses.
+ *
+ * FORMAT: `<amount><unit>` where unit is one of
+ * - `s` seconds, `m` minutes, `h` hours, `d` days, `w` weeks
+ *
+ * @example
+ * parsePeriod("24h"); // → 86_400_000
+ * parsePeriod("7d");  // → 604_800_000
+ */
+
+/**
+ * Duration string, e.g. "30s", "5m", "24h", "7d"
+ */
+export type Period = `${number}${"s" | "m" | "h" | "d" | "w"}`;
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const PERIOD_PATTERN = /^(\d+)\s*([smhdw])$/;
+
+/**
+ * Convert a period string to milliseconds
+ *
+ * @param period - Duration string ("24h", "7d", ...)
+ * @returns Duration in milliseconds
+ * @throws Error if the string isn't a valid, positive period
+ */
+export function parsePeriod(period: string): number {
+  const match = PERIOD_PATTERN.exec(period.trim().toLowerCase());
+  const amount = match ? Number(match[1]) : 0;
+
+  if (!match || amount <= 0) {
+    throw new Error(
+      `Invalid period "${period}" - expected a positive duration such as "30s", "5m", "24h" or "7d"`
+    );
+  }
+
+  return amount * UNIT_MS[match[2]];
+}
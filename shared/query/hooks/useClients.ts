@@ -7,11 +7,14 @@
 
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { get, post, patch, del } from "@/shared/api/api.client";
-import {
+// Types only from the module barrel - it also exports server code
+import type {
   ClientResponse,
   CreateClientInput,
+  ResearchJobResponse,
   UpdateClientInput,
 } from "@/modules/clients";
+import { ResearchJobStatus } from "@/modules/clients/domain/types";
 
 // ============================================
 // Query Keys
@@ -24,8 +27,18 @@ export const clientKeys = {
     [...clientKeys.lists(), filters] as const,
   details: () => [...clientKeys.all, "detail"] as const,
   detail: (id: string) => [...clientKeys.details(), id] as const,
+  researchJob: (id: string) => [...clientKeys.all, "research-job", id] as const,
 };
 
+/**
+ * How often a running research job is polled
+ */
+const RESEARCH_JOB_POLL_INTERVAL_MS = 3000;
+
+const isResearchJobActive = (job?: ResearchJobResponse | null) =>
+  job?.status === ResearchJobStatus.PENDING ||
+  job?.status === ResearchJobStatus.RUNNING;
+
 // ============================================
 // Query Hooks
 // ============================================
@@ -59,26 +72,56 @@ export function useClient(id: string) {
   });
 }
 
+/**
+ * Poll a website research job until it completes or fails
+ * Refreshes the clients list once the job has created its client.
+ */
+export function useResearchJob(jobId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: clientKeys.researchJob(jobId ?? ""),
+    queryFn: async () => {
+      const response = await get<ResearchJobResponse>(
+        `v1/clients/research/jobs/${jobId}`
+      );
+
+      if (response?.status === ResearchJobStatus.COMPLETED) {
+        queryClient.invalidateQueries({ queryKey: clientKeys.lists() });
+      }
+
+      return response;
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) =>
+      isResearchJobActive(query.state.data)
+        ? RESEARCH_JOB_POLL_INTERVAL_MS
+        : false,
+  });
+}
+
 // ============================================
 // Mutation Hooks
 // ============================================
 
 /**
- * Create client from website URL (AI research)
+ * Start AI research of a website URL
+ * Returns the research job - poll it with useResearchJob for the client.
  */
 export function useCreateClientFromWebsite() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (websiteUrl: string) => {
-      const response = await post<ClientResponse>("v1/clients/research", {
+      const response = await post<ResearchJobResponse>("v1/clients/research", {
         website_url: websiteUrl,
       });
       return response;
     },
-    onSuccess: () => {
-      // Invalidate clients list to refetch
-      queryClient.invalidateQueries({ queryKey: clientKeys.lists() });
+    onSuccess: (job) => {
+      if (job) {
+        queryClient.setQueryData(clientKeys.researchJob(job.id), job);
+      }
     },
   });
 }
@@ -133,4 +176,3 @@ export function useDeleteClient() {
     },
   });
 }
-
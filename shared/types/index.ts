@@ -63,6 +63,7 @@ export {
   AuthorizationError,
   NotFoundError,
   ConflictError,
+  UnprocessableEntityError,
   RateLimitError,
   DatabaseError,
   ExternalServiceError,
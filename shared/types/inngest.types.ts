@@ -1,3 +1,9 @@
+import {
+  generateCorrelationId,
+  getCorrelationId,
+} from '@/shared/utils/correlation.context';
+import { idempotencyStore } from '@/shared/idempotency';
+
 /**
  * Base event structure that all Inngest events must extend
  * This ensures type safety and consistency across the event-driven system
@@ -81,6 +87,9 @@ export type EventName<T extends BaseEvent> = T['name'];
 
 /**
  * Utility function to create a properly typed event
+ * The correlation ID defaults to the current request's (see
+ * shared/utils/correlation.context.ts); events created outside a request
+ * start a new one.
  * @param name - Event name
  * @param data - Event payload
  * @param metadata - Event metadata (partial, will be merged with defaults)
@@ -92,6 +101,8 @@ export function createEvent<TName extends string, TData>(
 ): BaseEvent<TName, TData> {
   const timestamp = new Date().toISOString();
   const eventId = metadata.eventId || generateEventId(name, timestamp);
+  const correlationId =
+    metadata.correlationId || getCorrelationId() || generateCorrelationId();
   
   return {
     name,
@@ -102,6 +113,7 @@ export function createEvent<TName extends string, TData>(
       eventId,
       retryCount: 0,
       ...metadata,
+      correlationId,
     },
   };
 }
@@ -217,30 +229,24 @@ export interface InngestFunctionConfig {
 
 /**
  * Create a safe idempotent operation wrapper
- * This ensures operations can be safely retried without side effects
+ * This ensures operations can be safely retried without side effects.
+ * Results are stored durably (MongoDB) for the idempotency period, so
+ * retries in another invocation replay the stored result.
  * 
  * @example
  * const result = await withIdempotency(
- *   'task_123_update',
- *   async () => await updateTask(taskId, data)
+ *   createIdempotencyKey(projectId, 'task', taskId, 'update'),
+ *   async () => await updateTask(taskId, data),
+ *   { period: '24h' }
  * );
  */
 export async function withIdempotency<T>(
   idempotencyKey: string,
   operation: () => Promise<T>,
-  cache?: Map<string, T>
+  options: {
+    /** Same format as InngestFunctionConfig.idempotency.period (default: 24h) */
+    period?: NonNullable<InngestFunctionConfig['idempotency']>['period'];
+  } = {}
 ): Promise<T> {
-  // In production, you'd use Redis or similar for distributed idempotency
-  // For now, this demonstrates the pattern
-  const resultCache = cache || new Map<string, T>();
-  
-  if (resultCache.has(idempotencyKey)) {
-    return resultCache.get(idempotencyKey)!;
-  }
-  
-  const result = await operation();
-  resultCache.set(idempotencyKey, result);
-  
-  return result;
+  return idempotencyStore.execute(idempotencyKey, operation, options);
 }
-
@@ -0,0 +1,85 @@
+/**
+ * Correlation Context
+ *
+ * Carries a correlation ID through everything that runs on behalf of one
+ * request - services, repositories, AI calls, logs and published events -
+ * without threading it through every function signature.
+ *
+ * The ID comes from the `x-correlation-id` request header when the caller
+ * sends a valid one, otherwise a new one is generated. withAuth / withDb
+ * establish the context and echo the ID in the response headers; the logger
+ * and createEvent() read it from here.
+ *
+ * @example
+ * ```typescript
+ * await runWithCorrelationId("req_123", async () => {
+ *   logger.info("Inside the request"); // → "... INFO req_123 Inside the request"
+ *   getCorrelationId(); // → "req_123"
+ * });
+ * ```
+ *
+ * SERVER ONLY - uses node:async_hooks.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "crypto";
+
+/**
+ * Request/response header carrying the correlation ID
+ */
+export const CORRELATION_ID_HEADER = "x-correlation-id";
+
+/**
+ * Accepted format for caller-supplied IDs
+ * Anything else is replaced so arbitrary header content never reaches logs.
+ */
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+interface CorrelationStore {
+  correlationId: string;
+}
+
+const correlationStorage = new AsyncLocalStorage<CorrelationStore>();
+
+/**
+ * Generate a new correlation ID
+ */
+export function generateCorrelationId(): string {
+  return randomUUID();
+}
+
+/**
+ * Read the correlation ID from request headers, or generate one
+ *
+ * @param headers - Incoming request headers
+ * @returns A valid correlation ID
+ */
+export function resolveCorrelationId(headers: Headers): string {
+  const incoming = headers.get(CORRELATION_ID_HEADER)?.trim();
+
+  return incoming && CORRELATION_ID_PATTERN.test(incoming)
+    ? incoming
+    : generateCorrelationId();
+}
+
+/**
+ * Get the correlation ID of the current context
+ *
+ * @returns The correlation ID, or undefined outside a correlation context
+ */
+export function getCorrelationId(): string | undefined {
+  return correlationStorage.getStore()?.correlationId;
+}
+
+/**
+ * Run a function inside a correlation context
+ * Everything the function awaits - including work started from it - sees
+ * the same correlation ID.
+ *
+ * @param correlationId - Correlation ID for the context
+ * @param fn - Function to run
+ * @returns The function's result
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlationStorage.run({ correlationId }, fn);
+}
@@ -0,0 +1,156 @@
+/**
+ * CSV Parser
+ *
+ * Minimal RFC 4180 parser for uploads: quoted fields, escaped quotes ("")
+ * and line breaks inside quotes, CRLF or LF line endings and a leading BOM.
+ * The first row is the header; every following row becomes an object keyed
+ * by header. Blank lines are skipped. formatCsv writes the same format.
+ *
+ * Fields a spreadsheet would run as a formula (starting with =, +, -, @,
+ * tab or CR) are written with a leading ' so they open as text; parseCsv
+ * removes it again so exports re-import unchanged.
+ *
+ * @example
+ * ```typescript
+ * parseCsv('company.name,company.website\nAcme,https://acme.com');
+ * // [{ "company.name": "Acme", "company.website": "https://acme.com" }]
+ * ```
+ */
+
+import { ValidationError } from "./errors";
+
+/**
+ * Leading characters that make spreadsheets treat a field as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Prefix formula-like fields with ' so spreadsheets show them as text
+ * Plain numbers (e.g. -5) can't run and are left as they are.
+ */
+const escapeFormula = (value: string): string =>
+  FORMULA_PREFIX.test(value) && !Number.isFinite(Number(value))
+    ? `'${value}`
+    : value;
+
+/**
+ * Undo escapeFormula
+ */
+const unescapeFormula = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+
+/**
+ * Split CSV text into rows of fields
+ *
+ * @param text - CSV text
+ * @returns Rows of raw field values
+ * @throws ValidationError on an unterminated quoted field
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ValidationError("Invalid CSV: unterminated quoted field");
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Parse CSV text with a header row into records
+ *
+ * @param text - CSV text
+ * @returns One record per data row, keyed by (trimmed) header
+ * @throws ValidationError on malformed CSV
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsvRows(text);
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+
+  return rows.map((fields, index) => {
+    if (fields.length > columns.length) {
+      throw new ValidationError(
+        `Invalid CSV: row ${index + 1} has more fields than the header`
+      );
+    }
+
+    return columns.reduce<Record<string, string>>((record, column, i) => {
+      record[column] = unescapeFormula(fields[i] ?? "");
+      return record;
+    }, {});
+  });
+};
+
+/**
+ * Escape formula-like fields, then quote a field when it holds a separator,
+ * quote or line break
+ */
+const formatField = (raw: string): string => {
+  const value = escapeFormula(raw);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Write records as CSV with a header row
+ *
+ * @param columns - Header, in column order
+ * @param records - Records keyed by column (missing values are empty)
+ * @returns CSV text with CRLF line endings
+ */
+export const formatCsv = (
+  columns: string[],
+  records: Record<string, string>[]
+): string =>
+  [columns, ...records.map((record) => columns.map((c) => record[c] ?? ""))]
+    .map((fields) => fields.map(formatField).join(","))
+    .join("\r\n") + "\r\n";
@@ -153,6 +153,21 @@ export class ConflictError extends BaseError {
   }
 }
 
+/**
+ * UnprocessableEntityError (422)
+ *
+ * Thrown when a well-formed request can't be processed (e.g. an
+ * idempotency key reused for a different request)
+ */
+export class UnprocessableEntityError extends BaseError {
+  constructor(
+    message: string = "Unprocessable entity",
+    metadata?: Record<string, unknown>
+  ) {
+    super(message, 422, true, metadata);
+  }
+}
+
 /**
  * DatabaseError (500)
  *
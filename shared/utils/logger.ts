@@ -1,3 +1,5 @@
+import { getCorrelationId } from "./correlation.context";
+
 type LogLevel = "debug" | "info" | "warn" | "error";
 
 interface LoggerOptions {
@@ -10,7 +12,9 @@ class Logger {
 
   private formatMessage(level: LogLevel, message: string): string {
     const timestamp = new Date().toISOString();
-    const correlationIdPrefix = this.options.correlationId ? `${this.options.correlationId} ` : "";
+    // Explicit child() option wins; otherwise use the current request's ID
+    const correlationId = this.options.correlationId ?? getCorrelationId();
+    const correlationIdPrefix = correlationId ? `${correlationId} ` : "";
     const modulePrefix = this.options.module ? `[${this.options.module}] ` : "";
     return `${timestamp} ${level.toUpperCase()} ${correlationIdPrefix}${modulePrefix}${message}`;
   }
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Client Context Changes
+ *
+ * Tests the changed field paths published with context.updated.
+ */
+
+import { getChangedContextPaths, type ClientContext } from "@/modules/clients";
+
+const baseContext: ClientContext = {
+  company: {
+    name: "Acme",
+    website: "https://acme.com",
+    industry: "SaaS",
+  },
+  icp: {
+    description: "Mid-market finance teams",
+    pain_points: ["manual reconciliation"],
+    target_industries: [],
+  },
+  brand_voice: {
+    tone: "confident",
+    keywords: [],
+  },
+  competitors: [],
+};
+
+describe("Clients - Context Changes", () => {
+  it("should report nothing when the context is unchanged", () => {
+    expect(
+      getChangedContextPaths(baseContext, structuredClone(baseContext))
+    ).toEqual([]);
+  });
+
+  it("should report leaf paths of changed nested fields", () => {
+    const after: ClientContext = {
+      ...baseContext,
+      icp: { ...baseContext.icp!, description: "Enterprise finance teams" },
+      brand_voice: { ...baseContext.brand_voice!, tone: "friendly" },
+    };
+
+    expect(getChangedContextPaths(baseContext, after)).toEqual([
+      "icp.description",
+      "brand_voice.tone",
+    ]);
+  });
+
+  it("should report arrays as a whole", () => {
+    const after: ClientContext = {
+      ...baseContext,
+      icp: {
+        ...baseContext.icp!,
+        pain_points: ["manual reconciliation", "slow month-end close"],
+      },
+    };
+
+    expect(getChangedContextPaths(baseContext, after)).toEqual([
+      "icp.pain_points",
+    ]);
+  });
+
+  it("should report added and removed sections", () => {
+    const after: ClientContext = {
+      ...baseContext,
+      product: { description: "Close automation", features: [] },
+    };
+    delete after.brand_voice;
+
+    expect(getChangedContextPaths(baseContext, after)).toEqual([
+      "product",
+      "brand_voice",
+    ]);
+  });
+
+  it("should ignore subdocument _id keys", () => {
+    const before: ClientContext = {
+      ...baseContext,
+      competitors: [
+        { _id: "a1", name: "Globex", strengths: [], weaknesses: [] } as never,
+      ],
+    };
+    const after: ClientContext = {
+      ...baseContext,
+      competitors: [
+        { _id: "b2", name: "Globex", strengths: [], weaknesses: [] } as never,
+      ],
+    };
+
+    expect(getChangedContextPaths(before, after)).toEqual([]);
+  });
+
+  it("should report changed fields inside arrays of objects by index", () => {
+    const globex = { name: "Globex", strengths: [], weaknesses: [] };
+    const initech = { name: "Initech", strengths: [], weaknesses: [] };
+    const before: ClientContext = {
+      ...baseContext,
+      competitors: [globex, initech],
+    };
+    const after: ClientContext = {
+      ...baseContext,
+      competitors: [globex, { ...initech, strengths: ["pricing"] }],
+    };
+
+    expect(getChangedContextPaths(before, after)).toEqual([
+      "competitors[1].strengths",
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Client Context Drift
+ *
+ * Tests the material changes reported by scheduled re-research.
+ */
+
+import {
+  buildResearchBaseline,
+  ContextDriftCategory,
+  detectContextDrift,
+  textSimilarity,
+  type IResearchBaseline,
+} from "@/modules/clients";
+
+const previous: IResearchBaseline = {
+  company_description:
+    "Month-end close automation for mid-market finance teams",
+  value_proposition: "Close the books in days, not weeks",
+  pricing_summary: "Per-seat subscription with a free trial",
+  competitors: [
+    { name: "Globex", positioning: "Enterprise ERP suite with close module" },
+  ],
+};
+
+describe("Clients - Context Drift", () => {
+  it("should build a baseline from the researched context", () => {
+    expect(
+      buildResearchBaseline({
+        company: {
+          name: "Acme",
+          website: "https://acme.com",
+          description: "  Close automation  ",
+        },
+        product: { features: [], value_proposition: "" },
+        competitors: [
+          { name: "Globex", strengths: [], weaknesses: [] },
+          { name: " ", strengths: [], weaknesses: [] },
+        ],
+      })
+    ).toEqual({
+      company_description: "Close automation",
+      value_proposition: undefined,
+      pricing_summary: undefined,
+      competitors: [{ name: "Globex", positioning: undefined }],
+    });
+  });
+
+  it("should ignore rewording of the same facts", () => {
+    const reworded: IResearchBaseline = {
+      ...previous,
+      company_description:
+        "Automation of month-end close for finance teams in the mid-market",
+      competitors: [{ ...previous.competitors[0], name: "globex" }],
+    };
+
+    expect(
+      textSimilarity(
+        previous.company_description!,
+        reworded.company_description!
+      )
+    ).toBeGreaterThanOrEqual(0.5);
+    expect(detectContextDrift(previous, reworded)).toEqual([]);
+  });
+
+  it("should report repositioning, pricing changes and new competitors", () => {
+    const current: IResearchBaseline = {
+      ...previous,
+      pricing_summary: "Usage-based pricing billed per transaction",
+      competitors: [
+        { name: "Globex", positioning: "AI agents for accounts payable" },
+        { name: "Initech", positioning: "Spreadsheet add-in" },
+      ],
+    };
+
+    expect(detectContextDrift(previous, current)).toEqual([
+      {
+        category: ContextDriftCategory.PRICING,
+        subject: "product.pricing_summary",
+        before: previous.pricing_summary,
+        after: current.pricing_summary,
+      },
+      {
+        category: ContextDriftCategory.COMPETITORS,
+        subject: "Globex",
+        before: "Enterprise ERP suite with close module",
+        after: "AI agents for accounts payable",
+      },
+      {
+        category: ContextDriftCategory.COMPETITORS,
+        subject: "Initech",
+        before: undefined,
+        after: "Spreadsheet add-in",
+      },
+    ]);
+  });
+
+  it("should not report fields the new research left empty", () => {
+    expect(
+      detectContextDrift(previous, {
+        company_description: undefined,
+        value_proposition: undefined,
+        pricing_summary: undefined,
+        competitors: [],
+      })
+    ).toEqual([]);
+  });
+});
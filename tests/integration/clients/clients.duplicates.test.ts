@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Duplicate Clients
+ *
+ * Tests website domain normalization (how duplicates are detected) and
+ * merging a duplicate client into the one that is kept.
+ */
+
+import { mergeClientContexts, normalizeWebsiteDomain } from "@/modules/clients";
+import type { ClientContext } from "@/modules/clients";
+
+describe("Clients - Duplicate Detection", () => {
+  it("should normalize websites of the same company to one domain", () => {
+    const variants = [
+      "https://acme.com",
+      "http://www.acme.com/",
+      "https://WWW.Acme.com/en?ref=ads#pricing",
+      "acme.com",
+      "https://acme.com:8443/home",
+      "https://acme.com./",
+    ];
+
+    expect(new Set(variants.map(normalizeWebsiteDomain))).toEqual(
+      new Set(["acme.com"])
+    );
+  });
+
+  it("should keep subdomains other than www apart", () => {
+    expect(normalizeWebsiteDomain("https://app.acme.com")).toBe("app.acme.com");
+    expect(normalizeWebsiteDomain("https://acme.co.uk")).toBe("acme.co.uk");
+  });
+
+  it("should not normalize values that aren't websites", () => {
+    expect(normalizeWebsiteDomain("")).toBeUndefined();
+    expect(normalizeWebsiteDomain("   ")).toBeUndefined();
+    expect(normalizeWebsiteDomain(undefined)).toBeUndefined();
+    expect(normalizeWebsiteDomain("not a url")).toBeUndefined();
+  });
+});
+
+describe("Clients - Merging Duplicates", () => {
+  const target: ClientContext = {
+    company: {
+      name: "Acme",
+      website: "https://acme.com",
+      industry: "",
+    },
+    product: {
+      description: "Close management software",
+      features: ["Reconciliation"],
+    },
+    competitors: [{ name: "Globex", strengths: ["Brand"], weaknesses: [] }],
+  };
+
+  const source: ClientContext = {
+    company: {
+      name: "Acme Inc",
+      website: "https://www.acme.com/en",
+      industry: "Fintech",
+    },
+    product: {
+      description: "Accounting automation",
+      features: ["reconciliation", "Close checklist"],
+    },
+    icp: {
+      description: "Finance teams at mid-market companies",
+      pain_points: [],
+      target_industries: [],
+    },
+    competitors: [
+      { name: "globex", strengths: ["Price"], weaknesses: [] },
+      { name: "Initech", strengths: [], weaknesses: ["Support"] },
+    ],
+  };
+
+  it("should keep the target's values and fill its gaps from the source", () => {
+    const { context } = mergeClientContexts(target, source);
+
+    expect(context.company).toEqual({
+      name: "Acme",
+      website: "https://acme.com",
+      industry: "Fintech",
+    });
+    expect(context.product?.description).toBe("Close management software");
+    expect(context.icp).toEqual(source.icp);
+  });
+
+  it("should add list items the target doesn't have", () => {
+    const { context } = mergeClientContexts(target, source);
+
+    expect(context.product?.features).toEqual([
+      "Reconciliation",
+      "Close checklist",
+    ]);
+    expect(context.competitors).toEqual([
+      { name: "Globex", strengths: ["Brand"], weaknesses: [] },
+      { name: "Initech", strengths: [], weaknesses: ["Support"] },
+    ]);
+  });
+
+  it("should report the paths filled from the source", () => {
+    const { filled_paths } = mergeClientContexts(target, source);
+
+    expect(filled_paths).toEqual([
+      "company.industry",
+      "product.features",
+      "icp.description",
+      "competitors[1].name",
+      "competitors[1].weaknesses",
+    ]);
+    expect(mergeClientContexts(target, target).filled_paths).toEqual([]);
+  });
+});
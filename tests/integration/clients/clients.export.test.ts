@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Client Export
+ *
+ * Tests the CSV and markdown brief renderings behind
+ * GET /api/clients/:id/export, including escaping formula-like CSV fields.
+ */
+
+import {
+  csvRecordToClientRow,
+  renderClientBrief,
+  toClientCsvRecords,
+  type ExportableClient,
+} from "@/modules/clients";
+import { formatCsv, parseCsv } from "@/shared/utils/csv.parser";
+
+const client: ExportableClient = {
+  id: "client_1",
+  company: {
+    name: "Acme",
+    website: "https://acme.com",
+    industry: "Fintech",
+    description: "Month-end close automation",
+  },
+  product: {
+    features: ["Reconciliation", "Close checklist"],
+    value_proposition: "Close the books in days, not weeks",
+  },
+  icp: {
+    pain_points: ["Manual spreadsheets"],
+    target_industries: [],
+  },
+  competitors: [
+    {
+      name: "Globex",
+      positioning: "Enterprise ERP suite, with a close module",
+      strengths: [],
+      weaknesses: ["Slow onboarding"],
+    },
+  ],
+  current_mrr: 12000,
+};
+
+describe("Clients - Export", () => {
+  it("should flatten clients into import-compatible CSV columns", () => {
+    const { columns, records } = toClientCsvRecords([client]);
+
+    expect(columns).toEqual([
+      "id",
+      "company.description",
+      "company.industry",
+      "company.name",
+      "company.website",
+      "product.features",
+      "product.value_proposition",
+      "icp.pain_points",
+      "current_mrr",
+      "competitors[0].name",
+      "competitors[0].positioning",
+      "competitors[0].weaknesses",
+    ]);
+    expect(records[0]["product.features"]).toBe(
+      "Reconciliation; Close checklist"
+    );
+  });
+
+  it("should round-trip an export through the import mapping", () => {
+    const { columns, records } = toClientCsvRecords([client]);
+    const [record] = parseCsv(formatCsv(columns, records));
+    const { id, ...context } = client;
+
+    expect(id).toBe(record.id);
+    expect(csvRecordToClientRow(record)).toEqual({
+      ...context,
+      // Empty lists are not exported
+      icp: { pain_points: ["Manual spreadsheets"] },
+      competitors: [
+        {
+          name: "Globex",
+          positioning: "Enterprise ERP suite, with a close module",
+          weaknesses: ["Slow onboarding"],
+        },
+      ],
+    });
+  });
+
+  it("should write formula-like fields as text and read them back", () => {
+    const values = ['=HYPERLINK("x")', "+1 555 0100", "-cmd", "@SUM(A1)"];
+    const csv = formatCsv(
+      ["value"],
+      [...values, "-5", "Acme"].map((value) => ({ value }))
+    );
+
+    expect(csv.split("\r\n").slice(1, -1)).toEqual([
+      `"'=HYPERLINK(""x"")"`,
+      "'+1 555 0100",
+      "'-cmd",
+      "'@SUM(A1)",
+      // Plain numbers can't run as formulas
+      "-5",
+      "Acme",
+    ]);
+    expect(parseCsv(csv).map((record) => record.value)).toEqual([
+      ...values,
+      "-5",
+      "Acme",
+    ]);
+  });
+
+  it("should render a client brief without empty sections", () => {
+    const brief = renderClientBrief(client);
+
+    expect(brief).toMatch(/^# Acme - Client Brief\n/);
+    expect(brief).toContain("- **Website:** https://acme.com");
+    expect(brief).toContain("## Product");
+    expect(brief).toContain("- Reconciliation");
+    expect(brief).toContain("## Ideal Customer Profile");
+    expect(brief).toContain("### Globex");
+    expect(brief).toContain("- **Weaknesses:** Slow onboarding");
+    expect(brief).not.toContain("## Brand Voice");
+    expect(brief).not.toContain("## Conversion Funnel");
+    expect(brief).not.toMatch(/\n{3,}/);
+  });
+});
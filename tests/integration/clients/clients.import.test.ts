@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Bulk Client Import
+ *
+ * Tests CSV parsing, mapping CSV records onto client rows and row
+ * validation for POST /api/clients/import.
+ */
+
+import {
+  csvRecordToClientRow,
+  getWebsiteOnlyRowUrl,
+  ImportClientRowSchema,
+  ImportClientsSchema,
+} from "@/modules/clients";
+import { parseCsv } from "@/shared/utils/csv.parser";
+import { ValidationError } from "@/shared/utils/errors";
+
+describe("Clients - Bulk Import", () => {
+  it("should parse quoted fields, escaped quotes and blank lines", () => {
+    const records = parseCsv(
+      "\uFEFFcompany.name,company.description\r\n" +
+        '"Acme, Inc","The ""close"" platform\nfor finance"\r\n' +
+        "\r\n" +
+        "Globex,\n"
+    );
+
+    expect(records).toEqual([
+      {
+        "company.name": "Acme, Inc",
+        "company.description": 'The "close" platform\nfor finance',
+      },
+      { "company.name": "Globex", "company.description": "" },
+    ]);
+  });
+
+  it("should reject malformed CSV", () => {
+    expect(() => parseCsv('company.name\n"Acme')).toThrow(ValidationError);
+    expect(() => parseCsv("company.name\nAcme,extra")).toThrow(ValidationError);
+  });
+
+  it("should map CSV records onto typed client rows", () => {
+    const row = csvRecordToClientRow({
+      "company.name": " Acme ",
+      "company.website": "https://acme.com",
+      "product.features": "Reconciliation; Close checklist;",
+      current_mrr: "12000",
+      "competitors[0].name": "Globex",
+      "icp.description": "",
+      unknown_column: "ignored",
+      "__proto__.polluted": "yes",
+    });
+
+    expect(row).toEqual({
+      company: { name: "Acme", website: "https://acme.com" },
+      product: { features: ["Reconciliation", "Close checklist"] },
+      current_mrr: 12000,
+      competitors: [{ name: "Globex" }],
+    });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(ImportClientRowSchema.safeParse(row).success).toBe(true);
+  });
+
+  it("should report invalid rows field by field", () => {
+    const row = csvRecordToClientRow({
+      "company.website": "not a url",
+      current_mrr: "lots",
+    });
+    const result = ImportClientRowSchema.safeParse(row);
+
+    expect(result.success).toBe(false);
+    const paths = result.error!.issues.map((issue) => issue.path.join("."));
+    expect(paths).toEqual(
+      expect.arrayContaining(["company.name", "company.website", "current_mrr"])
+    );
+  });
+
+  it("should recognise website-only rows", () => {
+    expect(
+      getWebsiteOnlyRowUrl({ company: { website: "https://acme.com" } })
+    ).toBe("https://acme.com");
+    expect(
+      getWebsiteOnlyRowUrl({
+        company: { name: "Acme", website: "https://acme.com" },
+      })
+    ).toBeUndefined();
+  });
+
+  it("should require exactly one of rows or csv", () => {
+    expect(ImportClientsSchema.safeParse({ csv: "company.name" }).success).toBe(
+      true
+    );
+    expect(ImportClientsSchema.safeParse({}).success).toBe(false);
+    expect(
+      ImportClientsSchema.safeParse({ csv: "a", rows: [{ a: 1 }] }).success
+    ).toBe(false);
+  });
+});
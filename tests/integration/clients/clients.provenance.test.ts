@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Client Field Provenance
+ *
+ * Tests recording and looking up where context field values came from.
+ */
+
+import {
+  getContextValuePaths,
+  getFieldProvenance,
+  getManualPaths,
+  ProvenanceSource,
+  recordProvenance,
+  type IFieldProvenance,
+} from "@/modules/clients";
+
+const researchedAt = new Date("2026-01-01T00:00:00Z");
+const editedAt = new Date("2026-02-01T00:00:00Z");
+
+const aiProvenance: IFieldProvenance[] = recordProvenance(
+  [],
+  ["company.name", "icp", "competitors"],
+  { source: ProvenanceSource.AI, updated_at: researchedAt, confidence: 0.7 }
+);
+
+describe("Clients - Field Provenance", () => {
+  it("should list the leaf paths of a context", () => {
+    expect(
+      getContextValuePaths({
+        company: {
+          name: "Acme",
+          website: "https://acme.com",
+          industry: "SaaS",
+        },
+        icp: {
+          description: "Finance teams",
+          pain_points: ["manual reconciliation"],
+          target_industries: [],
+        },
+        competitors: [{ name: "Globex", strengths: [], weaknesses: [] }],
+      })
+    ).toEqual([
+      "company.industry",
+      "company.name",
+      "company.website",
+      "icp.description",
+      "icp.pain_points",
+      "competitors[0].name",
+    ]);
+  });
+
+  it("should resolve a path to its most specific entry", () => {
+    const provenance = recordProvenance(aiProvenance, ["icp.description"], {
+      source: ProvenanceSource.MANUAL,
+      updated_at: editedAt,
+      updated_by: "user-1",
+    });
+
+    expect(getFieldProvenance(provenance, "icp.description")).toMatchObject({
+      source: ProvenanceSource.MANUAL,
+      updated_by: "user-1",
+    });
+    expect(getFieldProvenance(provenance, "icp.pain_points")).toMatchObject({
+      path: "icp",
+      source: ProvenanceSource.AI,
+    });
+    expect(
+      getFieldProvenance(provenance, "product.description")
+    ).toBeUndefined();
+  });
+
+  it("should replace entries below a recorded path", () => {
+    const edited = recordProvenance(
+      aiProvenance,
+      ["competitors[0].strengths"],
+      {
+        source: ProvenanceSource.MANUAL,
+        updated_at: editedAt,
+      }
+    );
+    const rewritten = recordProvenance(edited, ["competitors"], {
+      source: ProvenanceSource.AI,
+      updated_at: editedAt,
+    });
+
+    expect(getManualPaths(edited)).toEqual(["competitors[0].strengths"]);
+    expect(getManualPaths(rewritten)).toEqual([]);
+    expect(rewritten.map((entry) => entry.path)).toEqual([
+      "company.name",
+      "icp",
+      "competitors",
+    ]);
+  });
+
+  it("should not match sibling paths that share a prefix", () => {
+    const provenance = recordProvenance([], ["icp"], {
+      source: ProvenanceSource.MANUAL,
+      updated_at: editedAt,
+    });
+
+    expect(getFieldProvenance(provenance, "icp_notes")).toBeUndefined();
+  });
+});
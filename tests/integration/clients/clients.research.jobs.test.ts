@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Client Research Jobs
+ *
+ * Tests the research.requested payload that queues a job and the job
+ * status contract returned to pollers.
+ */
+
+import { buildEvent, EventName } from "@/modules/events";
+import {
+  ResearchJobResponseSchema,
+  ResearchJobStatus,
+} from "@/modules/clients";
+import { ValidationError } from "@/shared/utils/errors";
+
+const metadata = {
+  projectId: "job_1",
+  userId: "user_1",
+  source: "test",
+  idempotencyKey: "research-job:job_1",
+};
+
+describe("Clients - Research Jobs", () => {
+  it("should build a research.requested event for a job", () => {
+    const event = buildEvent(
+      EventName.RESEARCH_REQUESTED,
+      {
+        job_id: "job_1",
+        website_url: "https://acme.com",
+        organization_id: "org_1",
+      },
+      metadata
+    );
+
+    expect(event.name).toBe("research.requested");
+    expect(event.data.job_id).toBe("job_1");
+    expect(event.metadata.idempotencyKey).toBe("research-job:job_1");
+  });
+
+  it("should refuse research requests without a valid website", () => {
+    expect(() =>
+      buildEvent(
+        EventName.RESEARCH_REQUESTED,
+        { job_id: "job_1", website_url: "not a url" },
+        metadata
+      )
+    ).toThrow(ValidationError);
+  });
+
+  it("should describe running and completed jobs", () => {
+    const now = new Date();
+
+    const running = ResearchJobResponseSchema.parse({
+      id: "job_1",
+      website_url: "https://acme.com",
+      status: ResearchJobStatus.RUNNING,
+      partial_result: { company: { name: "Acme" } },
+      attempts: 1,
+      started_at: now,
+      created_at: now,
+      updated_at: now,
+    });
+
+    expect(running.client_id).toBeUndefined();
+    expect(running.partial_result).toEqual({ company: { name: "Acme" } });
+
+    const completed = ResearchJobResponseSchema.parse({
+      ...running,
+      status: ResearchJobStatus.COMPLETED,
+      client_id: "client_1",
+      completed_at: now,
+    });
+
+    expect(completed.client_id).toBe("client_1");
+    expect(() =>
+      ResearchJobResponseSchema.parse({ ...running, status: "queued" })
+    ).toThrow();
+  });
+});
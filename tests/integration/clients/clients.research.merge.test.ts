@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Client Re-Research Merge
+ *
+ * Tests the field-by-field proposal built when a client is re-researched.
+ */
+
+import {
+  buildResearchMergeProposal,
+  ProvenanceSource,
+  recordProvenance,
+  ResearchChangeType,
+  type ClientContext,
+} from "@/modules/clients";
+
+const researchedAt = new Date("2026-01-01T00:00:00Z");
+
+const currentContext: ClientContext = {
+  company: {
+    name: "Acme",
+    website: "https://acme.com",
+    industry: "SaaS",
+  },
+  icp: {
+    description: "Mid-market finance teams",
+    pain_points: ["manual reconciliation"],
+    target_industries: [],
+  },
+  competitors: [{ name: "Globex", strengths: [], weaknesses: [] }],
+};
+
+const aiProvenance = recordProvenance([], ["company", "icp", "competitors"], {
+  source: ProvenanceSource.AI,
+  updated_at: researchedAt,
+});
+
+describe("Clients - Re-Research Merge", () => {
+  it("should propose nothing when research matches the current context", () => {
+    expect(
+      buildResearchMergeProposal(
+        currentContext,
+        structuredClone(currentContext),
+        aiProvenance
+      )
+    ).toEqual([]);
+  });
+
+  it("should classify new and changed fields", () => {
+    const researched: ClientContext = {
+      ...currentContext,
+      company: { ...currentContext.company!, description: "Close software" },
+      icp: { ...currentContext.icp!, description: "Enterprise finance teams" },
+    };
+
+    expect(
+      buildResearchMergeProposal(currentContext, researched, aiProvenance)
+    ).toEqual([
+      {
+        path: "company.description",
+        type: ResearchChangeType.NEW,
+        current_value: undefined,
+        proposed_value: "Close software",
+        current_source: ProvenanceSource.AI,
+      },
+      {
+        path: "icp.description",
+        type: ResearchChangeType.CHANGED,
+        current_value: "Mid-market finance teams",
+        proposed_value: "Enterprise finance teams",
+        current_source: ProvenanceSource.AI,
+      },
+    ]);
+  });
+
+  it("should flag changes to manually edited fields as conflicts", () => {
+    const provenance = recordProvenance(
+      aiProvenance,
+      ["competitors[0].strengths"],
+      { source: ProvenanceSource.MANUAL, updated_at: new Date() }
+    );
+    const researched: ClientContext = {
+      ...currentContext,
+      competitors: [
+        { name: "Globex", strengths: ["brand"], weaknesses: ["pricing"] },
+        { name: "Initech", strengths: [], weaknesses: [] },
+      ],
+    };
+
+    const changes = buildResearchMergeProposal(
+      currentContext,
+      researched,
+      provenance
+    );
+
+    expect(changes.map(({ path, type }) => ({ path, type }))).toEqual([
+      { path: "competitors[0].strengths", type: ResearchChangeType.CONFLICT },
+      { path: "competitors[0].weaknesses", type: ResearchChangeType.NEW },
+      { path: "competitors[1]", type: ResearchChangeType.NEW },
+    ]);
+  });
+
+  it("should not propose removing fields the research left empty", () => {
+    const researched: ClientContext = {
+      company: currentContext.company,
+      icp: { ...currentContext.icp!, pain_points: [] },
+    };
+
+    expect(
+      buildResearchMergeProposal(currentContext, researched, aiProvenance)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Research Review
+ *
+ * Tests when low-confidence research-created clients need review, and that
+ * plan generation is refused until their research is confirmed.
+ */
+
+import {
+  AIExtractedContextSchema,
+  ClientReviewStatus,
+  buildResearchReview,
+  clientsService,
+  getLowConfidenceSections,
+  isAwaitingResearchReview,
+} from "@/modules/clients";
+import type { ClientResponse } from "@/modules/clients";
+import {
+  DEFAULT_RESEARCH_REVIEW_THRESHOLD,
+  UpdateOrganizationSettingsSchema,
+} from "@/modules/settings";
+import { ConflictError } from "@/shared/utils/errors";
+
+const clientWithReview = (review_status?: ClientReviewStatus): ClientResponse =>
+  ({
+    id: "client-1",
+    research_metadata: {
+      status: "completed",
+      source: "ai",
+      confidence: 0.4,
+      review_status,
+      review_threshold: 0.6,
+    },
+  } as ClientResponse);
+
+describe("Clients - Research Review", () => {
+  it("should need review when confidence is below the threshold", () => {
+    expect(buildResearchReview(0.4, 0.6)).toEqual({
+      review_threshold: 0.6,
+      review_status: ClientReviewStatus.NEEDS_REVIEW,
+    });
+    expect(buildResearchReview(0.6, 0.6).review_status).toBeUndefined();
+    expect(buildResearchReview(0.9, 0.6).review_status).toBeUndefined();
+  });
+
+  it("should treat research without confidence as unconfident", () => {
+    expect(buildResearchReview(undefined, 0.1).review_status).toBe(
+      ClientReviewStatus.NEEDS_REVIEW
+    );
+    // A threshold of 0 turns review off
+    expect(buildResearchReview(undefined, 0).review_status).toBeUndefined();
+  });
+
+  it("should list sections below the threshold, least confident first", () => {
+    expect(
+      getLowConfidenceSections(
+        { company: 0.9, icp: 0.5, competitors: 0.2, tech_stack: 0.6 },
+        0.6
+      )
+    ).toEqual(["competitors", "icp"]);
+    expect(getLowConfidenceSections(undefined, 0.6)).toEqual([]);
+  });
+
+  it("should block plan generation only while review is pending", () => {
+    const pending = clientWithReview(ClientReviewStatus.NEEDS_REVIEW);
+
+    expect(isAwaitingResearchReview(pending.research_metadata)).toBe(true);
+    expect(() => clientsService.assertResearchReviewed(pending)).toThrow(
+      ConflictError
+    );
+
+    for (const status of [ClientReviewStatus.CONFIRMED, undefined]) {
+      expect(() =>
+        clientsService.assertResearchReviewed(clientWithReview(status))
+      ).not.toThrow();
+    }
+  });
+
+  it("should accept per-section confidence from research", () => {
+    const result = AIExtractedContextSchema.safeParse({
+      company: { name: "Acme" },
+      confidence: {
+        overall: 0.7,
+        factual: 0.8,
+        inferred: 0.6,
+        sections: { company: 0.9, competitors: 0.3 },
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.confidence.sections?.competitors).toBe(0.3);
+
+    expect(
+      AIExtractedContextSchema.safeParse({
+        company: { name: "Acme" },
+        confidence: {
+          overall: 0.7,
+          factual: 0.8,
+          inferred: 0.6,
+          sections: { icp: 1.5 },
+        },
+      }).success
+    ).toBe(false);
+  });
+
+  it("should validate the organization review threshold", () => {
+    expect(DEFAULT_RESEARCH_REVIEW_THRESHOLD).toBeGreaterThan(0);
+    expect(
+      UpdateOrganizationSettingsSchema.safeParse({
+        research_review_threshold: 0.75,
+      }).success
+    ).toBe(true);
+    expect(
+      UpdateOrganizationSettingsSchema.safeParse({
+        research_review_threshold: 2,
+      }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Resumable Research Streams
+ *
+ * Tests the event ids and replay used to resume a streamed research after
+ * a reconnect (Last-Event-ID).
+ */
+
+import {
+  formatResearchEventId,
+  getResearchEventsAfter,
+  parseResearchEventId,
+  type IResearchStreamEvent,
+} from "@/modules/clients";
+import { StreamEventType } from "@/shared/ai-sdk";
+
+const event = (
+  seq: number,
+  type: StreamEventType,
+  data?: Record<string, unknown>
+): IResearchStreamEvent => ({ seq, type, data });
+
+describe("Clients - Resumable Research Streams", () => {
+  it("should round-trip event ids", () => {
+    const id = formatResearchEventId("665f1c2e9b1e8a0012345678", 7);
+
+    expect(id).toBe("665f1c2e9b1e8a0012345678:7");
+    expect(parseResearchEventId(id)).toEqual({
+      job_id: "665f1c2e9b1e8a0012345678",
+      seq: 7,
+    });
+  });
+
+  it("should ignore missing or malformed Last-Event-IDs", () => {
+    expect(parseResearchEventId(null)).toBeNull();
+    expect(parseResearchEventId("   ")).toBeNull();
+    expect(parseResearchEventId("job_1")).toBeNull();
+    expect(parseResearchEventId(":3")).toBeNull();
+    expect(parseResearchEventId("job_1:abc")).toBeNull();
+    expect(parseResearchEventId("job_1:-1")).toBeNull();
+  });
+
+  it("should replay missed events in order with only the latest partial", () => {
+    const job = {
+      events: [
+        event(1, StreamEventType.START),
+        event(2, StreamEventType.SEARCH),
+        event(3, StreamEventType.PROGRESS),
+      ],
+      latest_partial: event(6, StreamEventType.PARTIAL, {
+        company: { name: "Acme" },
+      }),
+    };
+
+    expect(getResearchEventsAfter(job, 0).map(({ seq }) => seq)).toEqual([
+      1, 2, 3, 6,
+    ]);
+    expect(getResearchEventsAfter(job, 4)).toEqual([job.latest_partial]);
+    expect(getResearchEventsAfter(job, 6)).toEqual([]);
+  });
+
+  it("should place the latest partial before later buffered events", () => {
+    const job = {
+      events: [
+        event(1, StreamEventType.START),
+        event(9, StreamEventType.COMPLETE, { company: { name: "Acme Inc" } }),
+      ],
+      latest_partial: event(8, StreamEventType.PARTIAL),
+    };
+
+    expect(getResearchEventsAfter(job, 1).map(({ type }) => type)).toEqual([
+      StreamEventType.PARTIAL,
+      StreamEventType.COMPLETE,
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Competitor Tracking
+ *
+ * Tests how a client's competitors are matched to tracked competitors and
+ * when an observation becomes a new snapshot in the competitor's history.
+ */
+
+import {
+  appendCompetitorSnapshot,
+  createCompetitorSnapshot,
+  getCompetitorMatchKey,
+  isSameObservation,
+  CompetitorSnapshotSource,
+  MAX_COMPETITOR_SNAPSHOTS,
+} from "@/modules/competitors";
+import type { ICompetitorSnapshot } from "@/modules/competitors";
+import { EmployeeSize } from "@/modules/clients/domain/types";
+import { CompetitorResearchRequestedDataSchema } from "@/modules/events";
+
+const observation = {
+  positioning: "Project management for agencies",
+  strengths: ["Integrations", "Pricing"],
+  weaknesses: ["Reporting"],
+  estimated_monthly_traffic: 120000,
+  employee_size: EmployeeSize.MEDIUM,
+};
+
+const snapshotAt = (
+  day: number,
+  overrides: Partial<ICompetitorSnapshot> = {}
+): ICompetitorSnapshot => ({
+  ...createCompetitorSnapshot(
+    observation,
+    CompetitorSnapshotSource.CLIENT_CONTEXT,
+    {
+      captured_at: new Date(Date.UTC(2026, 0, day)),
+      client_id: "client-1",
+    }
+  ),
+  ...overrides,
+});
+
+describe("Competitors - Tracking", () => {
+  it("should match competitors by website domain, then by name", () => {
+    expect(
+      getCompetitorMatchKey({ name: "Acme", website: "https://www.acme.com/" })
+    ).toBe("acme.com");
+    expect(
+      getCompetitorMatchKey({ name: "Acme Inc", website: "acme.com/pricing" })
+    ).toBe("acme.com");
+    expect(getCompetitorMatchKey({ name: "  Acme   Inc " })).toBe(
+      "name:acme inc"
+    );
+    expect(getCompetitorMatchKey({ name: "Acme", website: "n/a" })).toBe(
+      "name:acme"
+    );
+  });
+
+  it("should treat reordered or recased lists as the same observation", () => {
+    expect(
+      isSameObservation(observation, {
+        ...observation,
+        strengths: ["pricing", "integrations "],
+      })
+    ).toBe(true);
+    expect(
+      isSameObservation(observation, {
+        ...observation,
+        estimated_monthly_traffic: 150000,
+      })
+    ).toBe(false);
+  });
+
+  it("should only append snapshots that change the latest observation", () => {
+    const history = [snapshotAt(1)];
+
+    expect(appendCompetitorSnapshot(history, snapshotAt(2))).toBeNull();
+
+    const changed = appendCompetitorSnapshot(
+      history,
+      snapshotAt(2, { estimated_monthly_traffic: 150000 })
+    );
+    expect(changed).toHaveLength(2);
+    expect(changed?.[1].estimated_monthly_traffic).toBe(150000);
+  });
+
+  it("should compare against the latest snapshot of the same source and client", () => {
+    const history = [
+      snapshotAt(1),
+      snapshotAt(2, {
+        source: CompetitorSnapshotSource.COMPETITOR_RESEARCH,
+        client_id: undefined,
+        estimated_monthly_traffic: 90000,
+        confidence: 0.8,
+      }),
+    ];
+
+    // Same as what client-1 said last time - research in between doesn't count
+    expect(appendCompetitorSnapshot(history, snapshotAt(3))).toBeNull();
+
+    // Another client saying the same thing is its own observation
+    expect(
+      appendCompetitorSnapshot(
+        history,
+        snapshotAt(3, { client_id: "client-2" })
+      )
+    ).toHaveLength(3);
+  });
+
+  it("should keep at most MAX_COMPETITOR_SNAPSHOTS, dropping the oldest", () => {
+    const history = Array.from({ length: MAX_COMPETITOR_SNAPSHOTS }, (_, i) =>
+      snapshotAt(1, { estimated_monthly_traffic: i })
+    );
+
+    const appended = appendCompetitorSnapshot(
+      history,
+      snapshotAt(2, { estimated_monthly_traffic: -1 })
+    );
+
+    expect(appended).toHaveLength(MAX_COMPETITOR_SNAPSHOTS);
+    expect(appended?.[0].estimated_monthly_traffic).toBe(1);
+    expect(appended?.at(-1)?.estimated_monthly_traffic).toBe(-1);
+  });
+
+  it("should validate competitor.research.requested payloads", () => {
+    expect(
+      CompetitorResearchRequestedDataSchema.safeParse({
+        competitor_id: "competitor-1",
+        organization_id: "org-1",
+      }).success
+    ).toBe(true);
+    expect(
+      CompetitorResearchRequestedDataSchema.safeParse({ competitor_id: "" })
+        .success
+    ).toBe(false);
+  });
+});
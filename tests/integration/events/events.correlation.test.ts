@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Correlation ID Propagation
+ *
+ * Tests that the correlation ID from the request header reaches handler
+ * props, events built during the request and the response headers.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withCorrelation } from "@/shared/api";
+import { buildEvent, EventName } from "@/modules/events";
+import {
+  CORRELATION_ID_HEADER,
+  getCorrelationId,
+  runWithCorrelationId,
+} from "@/shared/utils/correlation.context";
+
+const context = { params: Promise.resolve({}) };
+
+const buildTaskCreated = () =>
+  buildEvent(
+    EventName.TASK_CREATED,
+    { task_id: "task_1", client_id: "client_1" },
+    { projectId: "client_1", source: "test" }
+  );
+
+describe("Events - Correlation ID Propagation", () => {
+  it("should stamp events with the current correlation ID", () => {
+    const event = runWithCorrelationId("corr_123", buildTaskCreated);
+
+    expect(event.metadata.correlationId).toBe("corr_123");
+  });
+
+  it("should start a new correlation ID outside a request", () => {
+    expect(getCorrelationId()).toBeUndefined();
+    expect(buildTaskCreated().metadata.correlationId).toBeTruthy();
+  });
+
+  it("should use the request header and echo it in the response", async () => {
+    const handler = withCorrelation(async (_req, _ctx, { correlationId }) => {
+      const event = buildTaskCreated();
+      return NextResponse.json({
+        correlationId,
+        eventCorrelationId: event.metadata.correlationId,
+      });
+    });
+
+    const response = await handler(
+      new NextRequest("http://localhost/api/test", {
+        headers: { [CORRELATION_ID_HEADER]: "req-abc.1" },
+      }),
+      context
+    );
+    const body = await response.json();
+
+    expect(response.headers.get(CORRELATION_ID_HEADER)).toBe("req-abc.1");
+    expect(body).toEqual({
+      correlationId: "req-abc.1",
+      eventCorrelationId: "req-abc.1",
+    });
+  });
+
+  it("should replace missing or malformed header values", async () => {
+    const handler = withCorrelation(async (_req, _ctx, { correlationId }) =>
+      NextResponse.json({ correlationId })
+    );
+
+    const response = await handler(
+      new NextRequest("http://localhost/api/test", {
+        headers: { [CORRELATION_ID_HEADER]: "bad id <script>" },
+      }),
+      context
+    );
+    const { correlationId } = await response.json();
+
+    expect(correlationId).not.toContain("bad id");
+    expect(response.headers.get(CORRELATION_ID_HEADER)).toBe(correlationId);
+  });
+});
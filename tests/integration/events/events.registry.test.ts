@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Event Registry
+ *
+ * Tests that every domain event is registered and that payloads are
+ * validated before an event is built.
+ */
+
+import {
+  EVENT_REGISTRY,
+  EventName,
+  buildEvent,
+  isRegisteredEvent,
+} from "@/modules/events";
+import { toInngestEvent } from "@/inngest/client";
+import { ValidationError } from "@/shared/utils/errors";
+
+describe("Events - Registry", () => {
+  it("should register a schema for every event name", () => {
+    for (const name of Object.values(EventName)) {
+      expect(isRegisteredEvent(name)).toBe(true);
+      expect(EVENT_REGISTRY[name].schema).toBeDefined();
+    }
+    expect(isRegisteredEvent("plan.deleted")).toBe(false);
+  });
+
+  it("should build a valid event with metadata", () => {
+    const event = buildEvent(
+      EventName.PLAN_GENERATED,
+      {
+        plan_id: "plan_1",
+        client_id: "client_1",
+        version: 2,
+        calendar_items: 30,
+      },
+      {
+        projectId: "client_1",
+        userId: "user_1",
+        source: "test",
+        idempotencyKey: "client_1:plan:plan_1:v2",
+      }
+    );
+
+    expect(event.name).toBe("plan.generated");
+    expect(event.data.version).toBe(2);
+    expect(event.metadata.projectId).toBe("client_1");
+    expect(event.metadata.eventId).toBeTruthy();
+  });
+
+  it("should refuse payloads that fail validation", () => {
+    expect(() =>
+      buildEvent(
+        EventName.TASK_EXECUTED,
+        {
+          task_id: "task_1",
+          client_id: "client_1",
+          // Only done/failed are valid execution outcomes
+          status: "queued" as never,
+        },
+        { projectId: "client_1", source: "test" }
+      )
+    ).toThrow(ValidationError);
+
+    expect(() =>
+      buildEvent(
+        EventName.CONTEXT_UPDATED,
+        { client_id: "client_1", changed_fields: [] },
+        { projectId: "client_1", source: "test" }
+      )
+    ).toThrow(ValidationError);
+  });
+
+  it("should map events to the Inngest wire format", () => {
+    const event = buildEvent(
+      EventName.TASK_CREATED,
+      { task_id: "task_1", client_id: "client_1" },
+      {
+        projectId: "client_1",
+        source: "test",
+        idempotencyKey: "client_1:task:task_1:created",
+      }
+    );
+
+    const payload = toInngestEvent(event);
+
+    expect(payload.id).toBe("client_1:task:task_1:created");
+    expect(payload.name).toBe("task.created");
+    expect(payload.data.task_id).toBe("task_1");
+    expect(payload.data.metadata.eventId).toBe(event.metadata.eventId);
+  });
+});
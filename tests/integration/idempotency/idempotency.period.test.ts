@@ -0,0 +1,43 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Idempotency Periods and Fingerprints
+ *
+ * Tests period parsing (InngestFunctionConfig format) and request
+ * fingerprinting used by the idempotency store.
+ */
+
+import { createFingerprint, parsePeriod } from "@/shared/idempotency";
+
+describe("Idempotency - Periods", () => {
+  it("should parse Inngest period strings", () => {
+    expect(parsePeriod("30s")).toBe(30 * 1000);
+    expect(parsePeriod("5m")).toBe(5 * 60 * 1000);
+    expect(parsePeriod("24h")).toBe(24 * 60 * 60 * 1000);
+    expect(parsePeriod("7d")).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parsePeriod("2w")).toBe(14 * 24 * 60 * 60 * 1000);
+  });
+
+  it("should reject invalid periods", () => {
+    for (const period of ["", "24", "h", "0h", "-1d", "1.5h", "1y"]) {
+      expect(() => parsePeriod(period)).toThrow(/Invalid period/);
+    }
+  });
+});
+
+describe("Idempotency - Fingerprints", () => {
+  it("should ignore object key order", () => {
+    expect(createFingerprint({ a: 1, b: { c: 2, d: [1, 2] } })).toBe(
+      createFingerprint({ b: { d: [1, 2], c: 2 }, a: 1 })
+    );
+  });
+
+  it("should distinguish different payloads", () => {
+    expect(createFingerprint({ website_url: "https://a.com" })).not.toBe(
+      createFingerprint({ website_url: "https://b.com" })
+    );
+    expect(createFingerprint([1, 2])).not.toBe(createFingerprint([2, 1]));
+  });
+});
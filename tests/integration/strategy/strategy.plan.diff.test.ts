@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Strategy Plan Diff
+ *
+ * Tests the structured diff between two plan versions.
+ */
+
+import { diffPlans, PlanChannel } from "@/modules/strategy";
+import type { DiffablePlan } from "@/modules/strategy";
+
+describe("Strategy - Plan Diff", () => {
+  const baseline: DiffablePlan = {
+    version: 1,
+    pillars: [
+      {
+        name: "Founder-led content",
+        description: "Share build-in-public stories",
+      },
+      { name: "SEO", description: "Rank for category keywords" },
+    ],
+    calendar: [
+      {
+        item_id: "item-1",
+        day: 1,
+        title: "Launch post",
+        pillar: "Founder-led content",
+        channel: PlanChannel.LINKEDIN,
+      },
+      {
+        item_id: "item-2",
+        day: 3,
+        title: "Keyword research",
+        pillar: "SEO",
+        channel: PlanChannel.SEO,
+      },
+    ],
+    kpis: [
+      { name: "Signups", metric: "weekly_signups", target: 50 },
+      { name: "Traffic", metric: "organic_sessions", target: 1000 },
+    ],
+  };
+
+  it("should report no changes for identical versions", () => {
+    const diff = diffPlans(baseline, { ...baseline, version: 2 });
+
+    expect(diff.from_version).toBe(1);
+    expect(diff.to_version).toBe(2);
+    expect(diff.has_changes).toBe(false);
+  });
+
+  it("should report pillars, moved calendar items and KPI target changes", () => {
+    const diff = diffPlans(baseline, {
+      version: 2,
+      pillars: [
+        baseline.pillars![0],
+        { name: "Community", description: "Grow a founder community" },
+      ],
+      calendar: [
+        // Same item, new identifier (regenerated) and moved to day 5
+        {
+          item_id: "item-9",
+          day: 5,
+          title: "Launch Post",
+          pillar: "Founder-led content",
+          channel: PlanChannel.LINKEDIN,
+        },
+        { ...baseline.calendar![1], day: 4 },
+      ],
+      kpis: [
+        { name: "Signups", metric: "weekly_signups", target: 75 },
+        baseline.kpis![1],
+      ],
+    });
+
+    expect(diff.has_changes).toBe(true);
+    expect(diff.pillars.added.map((p) => p.name)).toEqual(["Community"]);
+    expect(diff.pillars.removed.map((p) => p.name)).toEqual(["SEO"]);
+
+    expect(diff.calendar.added).toHaveLength(0);
+    expect(diff.calendar.removed).toHaveLength(0);
+    expect(diff.calendar.moved).toEqual([
+      { item_id: "item-2", title: "Keyword research", from_day: 3, to_day: 4 },
+      { item_id: "item-9", title: "Launch Post", from_day: 1, to_day: 5 },
+    ]);
+
+    expect(diff.kpis.target_changed).toEqual([
+      {
+        name: "Signups",
+        metric: "weekly_signups",
+        from_target: 50,
+        to_target: 75,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Strategy Plan Generation
+ *
+ * Tests generating and persisting a 30-day growth plan from a client's context.
+ */
+
+import { clientsService } from "@/modules/clients/application/service";
+import { strategyService } from "@/modules/strategy/application/service";
+import { PLAN_DURATION_DAYS, PlanStatus } from "@/modules/strategy";
+import type { CreateClientInput } from "@/modules/clients";
+
+describe("Strategy - Plan Generation", () => {
+  // 180-second timeout for AI + database operations
+  const TEST_TIMEOUT = 180000;
+  const mockUserId = "test-user-123";
+  const mockOrgId = "test-org-456";
+
+  it(
+    "should generate a versioned 30-day plan from client context",
+    async () => {
+      const client = await clientsService.createClient(
+        {
+          user_id: mockUserId,
+          organization_id: mockOrgId,
+          company: {
+            name: "Airstride",
+            industry: "Marketing Technology",
+            website: "https://airstride.ai",
+            description: "AI growth marketing platform for early-stage founders",
+          },
+          icp: {
+            description: "Technical founders without a marketing team",
+            pain_points: ["No time for marketing", "Unclear channel strategy"],
+            target_industries: ["SaaS"],
+          },
+        } as CreateClientInput,
+        mockUserId,
+        mockOrgId
+      );
+
+      console.log("🧭 Generating growth plan...");
+      const startTime = Date.now();
+
+      const plan = await strategyService.generatePlan(
+        client.id,
+        mockUserId,
+        mockOrgId
+      );
+
+      const duration = Date.now() - startTime;
+
+      console.log(`✅ Plan generated in ${(duration / 1000).toFixed(2)}s`);
+      console.log(`  Plan ID: ${plan.id}`);
+      console.log(`  Title: ${plan.title}`);
+      console.log(`  Pillars: ${plan.pillars.length}`);
+      console.log(`  Channels: ${plan.channels.length}`);
+      console.log(`  Calendar items: ${plan.calendar.length}`);
+      console.log(`  KPIs: ${plan.kpis.length}`);
+
+      expect(plan.client_id).toBe(client.id);
+      expect(plan.organization_id).toBe(mockOrgId);
+      expect(plan.status).toBe(PlanStatus.DRAFT);
+      expect(plan.version).toBe(1);
+      expect(plan.pillars.length).toBeGreaterThan(0);
+      expect(plan.channels.length).toBeGreaterThan(0);
+      expect(plan.kpis.length).toBeGreaterThan(0);
+
+      // Calendar items have stable IDs and stay within the plan window
+      for (const item of plan.calendar) {
+        expect(item.item_id).toBeTruthy();
+        expect(item.day).toBeGreaterThanOrEqual(1);
+        expect(item.day).toBeLessThanOrEqual(PLAN_DURATION_DAYS);
+      }
+
+      // Regenerating bumps the version on the same plan document
+      const regenerated = await strategyService.generatePlan(
+        client.id,
+        mockUserId,
+        mockOrgId
+      );
+
+      console.log(`  Regenerated version: ${regenerated.version}`);
+
+      expect(regenerated.id).toBe(plan.id);
+      expect(regenerated.version).toBe(2);
+    },
+    TEST_TIMEOUT
+  );
+});
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Strategy Plan Generation - Streaming with Progress Events
+ *
+ * Tests streaming a 30-day growth plan and persisting it when the stream ends.
+ */
+
+import { clientsService } from "@/modules/clients/application/service";
+import { strategyService } from "@/modules/strategy/application/service";
+import { StreamEventType } from "@/shared/ai-sdk";
+import type { CreateClientInput } from "@/modules/clients";
+
+describe("Strategy - Plan Generation Streaming", () => {
+  // 180-second timeout for AI streaming + database operations
+  const TEST_TIMEOUT = 180000;
+  const mockUserId = "test-user-123";
+  const mockOrgId = "test-org-456";
+
+  it(
+    "should stream progress events and store the plan on completion",
+    async () => {
+      const client = await clientsService.createClient(
+        {
+          user_id: mockUserId,
+          organization_id: mockOrgId,
+          company: {
+            name: "Airstride",
+            industry: "Marketing Technology",
+            website: "https://airstride.ai",
+            description:
+              "AI growth marketing platform for early-stage founders",
+          },
+          icp: {
+            description: "Technical founders without a marketing team",
+            pain_points: ["No time for marketing", "Unclear channel strategy"],
+            target_industries: ["SaaS"],
+          },
+        } as CreateClientInput,
+        mockUserId,
+        mockOrgId
+      );
+
+      console.log("\n🧭 Streaming growth plan...");
+
+      const streamResult = await strategyService.streamGeneratePlan(
+        client.id,
+        mockUserId,
+        mockOrgId
+      );
+
+      const eventTypes: string[] = [];
+      let storedPlan: any = null;
+
+      const eventReader = streamResult.eventStream.getReader();
+      try {
+        while (true) {
+          const { done, value: event } = await eventReader.read();
+          if (done) break;
+
+          eventTypes.push(event.type);
+          if (event.type !== StreamEventType.PARTIAL) {
+            console.log(`  [${event.type}] ${event.message || ""}`);
+          }
+
+          if (event.type === StreamEventType.COMPLETE) {
+            storedPlan = event.metadata?.plan;
+          }
+        }
+      } finally {
+        eventReader.releaseLock();
+      }
+
+      // START first, COMPLETE last, with progress and partials in between
+      expect(eventTypes[0]).toBe(StreamEventType.START);
+      expect(eventTypes[eventTypes.length - 1]).toBe(StreamEventType.COMPLETE);
+      expect(eventTypes).toContain(StreamEventType.PROGRESS);
+      expect(eventTypes).toContain(StreamEventType.PARTIAL);
+
+      // The plan is persisted when the stream ends
+      expect(storedPlan).toBeDefined();
+      expect(storedPlan.client_id).toBe(client.id);
+      expect(storedPlan.version).toBe(1);
+
+      const plan = await streamResult.planPromise;
+      const fetched = await strategyService.getPlan(plan.id);
+      expect(fetched.calendar.length).toBe(plan.calendar.length);
+    },
+    TEST_TIMEOUT
+  );
+});
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: AI Usage Metering
+ *
+ * Tests AI cost estimates and how AI usage counts against each tier's
+ * monthly AI budget.
+ */
+
+import {
+  MONTHLY_USAGE_METRICS,
+  SubscriptionTier,
+  getTierConfig,
+  USAGE_COUNTER_FIELDS,
+  UsageMetric,
+  getLimitReached,
+  isWithinLimit,
+} from "@/modules/subscriptions";
+import {
+  AIModel,
+  AI_MODEL_PRICING,
+  UNKNOWN_MODEL_PRICING,
+  estimateAICost,
+} from "@/shared/ai-sdk";
+
+describe("Subscriptions - AI Usage Metering", () => {
+  it("should estimate cost from the model's list prices", () => {
+    const pricing = AI_MODEL_PRICING[AIModel.GEMINI_2_5_PRO];
+
+    expect(estimateAICost(AIModel.GEMINI_2_5_PRO, 1_000_000, 0)).toBe(
+      pricing.input_per_million_usd
+    );
+    expect(estimateAICost(AIModel.GEMINI_2_5_PRO, 0, 1_000_000)).toBe(
+      pricing.output_per_million_usd
+    );
+    expect(estimateAICost(AIModel.GEMINI_2_5_FLASH_LITE, 0, 0)).toBe(0);
+  });
+
+  it("should price unlisted models as the most expensive listed model", () => {
+    const mostExpensive = Math.max(
+      ...Object.values(AI_MODEL_PRICING).map(
+        (pricing) => pricing.output_per_million_usd
+      )
+    );
+
+    expect(UNKNOWN_MODEL_PRICING.output_per_million_usd).toBe(mostExpensive);
+    expect(estimateAICost("some-new-model", 0, 1_000_000)).toBe(mostExpensive);
+  });
+
+  it("should round estimates to a millionth of a dollar", () => {
+    const cost = estimateAICost(AIModel.GEMINI_2_5_FLASH_LITE, 1234, 567);
+
+    expect(cost).toBeGreaterThan(0);
+    expect(Math.round(cost * 1_000_000)).toBe(cost * 1_000_000);
+  });
+
+  it("should count AI usage per usage period", () => {
+    expect(MONTHLY_USAGE_METRICS).toEqual(
+      expect.arrayContaining([UsageMetric.AI_TOKENS, UsageMetric.AI_COST])
+    );
+    expect(USAGE_COUNTER_FIELDS[UsageMetric.AI_TOKENS]).toBe("ai_tokens_count");
+    expect(USAGE_COUNTER_FIELDS[UsageMetric.AI_COST]).toBe("ai_cost_usd");
+  });
+
+  it("should give every tier a monthly AI budget", () => {
+    for (const tier of Object.values(SubscriptionTier)) {
+      expect(
+        getTierConfig(tier).limits.ai_budget_usd_per_month
+      ).toBeGreaterThan(0);
+    }
+  });
+
+  it("should report the AI budget when spend reaches it", () => {
+    const budget = getTierConfig(SubscriptionTier.FREE).limits
+      .ai_budget_usd_per_month;
+
+    expect(
+      getLimitReached(SubscriptionTier.FREE, "ai_cost_usd", budget - 0.1, 0.2)
+    ).toEqual({ limit_type: "ai_budget_usd_per_month", limit: budget });
+    expect(
+      isWithinLimit(SubscriptionTier.FREE, "ai_budget_usd_per_month", budget)
+    ).toBe(false);
+    // Tokens are metered, but spend is what's capped
+    expect(
+      getLimitReached(SubscriptionTier.FREE, "ai_tokens", 0, 10_000_000)
+    ).toBeNull();
+  });
+});
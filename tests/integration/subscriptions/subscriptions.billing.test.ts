@@ -0,0 +1,274 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Billing
+ *
+ * Tests how signed billing webhooks become billing events (Stripe and the
+ * in-memory fake), and how those events change a subscription.
+ */
+
+import Stripe from "stripe";
+import {
+  BillingCycle,
+  BillingEventType,
+  BillingProviderFactory,
+  CreateCheckoutSessionInputSchema,
+  FakeBillingProvider,
+  StripeBillingProvider,
+  SubscriptionStatus,
+  SubscriptionTier,
+  getBillingChanges,
+} from "@/modules/subscriptions";
+import { ValidationError } from "@/shared/utils/errors";
+
+const WEBHOOK_SECRET = "whsec_test_secret";
+
+const stripeProvider = new StripeBillingProvider({
+  secretKey: "sk_test_not_used",
+  webhookSecret: WEBHOOK_SECRET,
+  prices: {
+    [SubscriptionTier.PRO]: {
+      [BillingCycle.MONTHLY]: "price_pro_monthly",
+      [BillingCycle.YEARLY]: "price_pro_yearly",
+    },
+  },
+});
+
+const stripeWebhook = (type: string, object: Record<string, unknown>) => {
+  const payload = JSON.stringify({
+    id: "evt_1",
+    object: "event",
+    created: 1767312000,
+    type,
+    data: { object },
+  });
+  const signature = new Stripe(
+    "sk_test_not_used"
+  ).webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+  return { payload, signature };
+};
+
+describe("Subscriptions - Billing", () => {
+  it("should translate Stripe subscription webhooks by price", async () => {
+    const { payload, signature } = stripeWebhook(
+      "customer.subscription.updated",
+      {
+        id: "sub_1",
+        object: "subscription",
+        customer: "cus_1",
+        status: "past_due",
+        metadata: { organization_id: "org-1" },
+        items: {
+          data: [
+            {
+              price: {
+                id: "price_pro_yearly",
+                recurring: { interval: "year" },
+              },
+              current_period_start: 1767225600,
+              current_period_end: 1798761600,
+            },
+          ],
+        },
+      }
+    );
+
+    const event = await stripeProvider.constructWebhookEvent(
+      payload,
+      signature
+    );
+
+    expect(event).toEqual({
+      id: "evt_1",
+      type: BillingEventType.SUBSCRIPTION_UPDATED,
+      occurred_at: new Date("2026-01-02T00:00:00Z"),
+      organization_id: "org-1",
+      customer_id: "cus_1",
+      subscription_id: "sub_1",
+      tier: SubscriptionTier.PRO,
+      billing_cycle: BillingCycle.YEARLY,
+      status: SubscriptionStatus.PAST_DUE,
+      current_period_start: new Date("2026-01-01T00:00:00Z"),
+      current_period_end: new Date("2027-01-01T00:00:00Z"),
+    });
+  });
+
+  it("should translate completed checkouts and failed payments", async () => {
+    const checkout = stripeWebhook("checkout.session.completed", {
+      id: "cs_1",
+      object: "checkout.session",
+      mode: "subscription",
+      client_reference_id: "org-1",
+      customer: "cus_1",
+      subscription: "sub_1",
+      metadata: { tier: "pro", billing_cycle: "monthly" },
+    });
+
+    expect(
+      await stripeProvider.constructWebhookEvent(
+        checkout.payload,
+        checkout.signature
+      )
+    ).toMatchObject({
+      type: BillingEventType.CHECKOUT_COMPLETED,
+      organization_id: "org-1",
+      subscription_id: "sub_1",
+      tier: SubscriptionTier.PRO,
+      billing_cycle: BillingCycle.MONTHLY,
+    });
+
+    const failed = stripeWebhook("invoice.payment_failed", {
+      id: "in_1",
+      object: "invoice",
+      customer: "cus_1",
+      parent: { subscription_details: { subscription: "sub_1" } },
+    });
+
+    expect(
+      await stripeProvider.constructWebhookEvent(
+        failed.payload,
+        failed.signature
+      )
+    ).toMatchObject({
+      type: BillingEventType.PAYMENT_FAILED,
+      customer_id: "cus_1",
+      subscription_id: "sub_1",
+    });
+  });
+
+  it("should ignore events that don't affect subscriptions", async () => {
+    const { payload, signature } = stripeWebhook("customer.created", {
+      id: "cus_1",
+      object: "customer",
+    });
+
+    expect(
+      await stripeProvider.constructWebhookEvent(payload, signature)
+    ).toBeNull();
+  });
+
+  it("should reject webhooks with an invalid signature", async () => {
+    const { payload } = stripeWebhook("customer.created", { id: "cus_1" });
+
+    await expect(
+      stripeProvider.constructWebhookEvent(payload, "t=1,v1=forged")
+    ).rejects.toThrow(ValidationError);
+
+    const fake = new FakeBillingProvider(WEBHOOK_SECRET);
+    await expect(
+      fake.constructWebhookEvent(payload, fake.sign(payload + " "))
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it("should record fake sessions and accept fake signed webhooks", async () => {
+    const fake = new FakeBillingProvider(WEBHOOK_SECRET);
+
+    const session = await fake.createCheckoutSession({
+      organization_id: "org-1",
+      tier: SubscriptionTier.STARTER,
+      billing_cycle: BillingCycle.MONTHLY,
+      success_url: "https://app.example.com/billing/success",
+      cancel_url: "https://app.example.com/billing",
+    });
+    expect(fake.checkoutSessions).toEqual([
+      expect.objectContaining({ id: session.id, organization_id: "org-1" }),
+    ]);
+
+    const payload = JSON.stringify({
+      id: "evt_fake",
+      type: BillingEventType.SUBSCRIPTION_CANCELLED,
+      customer_id: "cus_fake",
+      occurred_at: "2026-01-15T00:00:00.000Z",
+      current_period_end: "2026-02-01T00:00:00.000Z",
+    });
+    const event = await fake.constructWebhookEvent(payload, fake.sign(payload));
+
+    expect(event?.type).toBe(BillingEventType.SUBSCRIPTION_CANCELLED);
+    expect(event?.current_period_end).toEqual(new Date("2026-02-01T00:00:00Z"));
+    expect(event?.occurred_at).toEqual(new Date("2026-01-15T00:00:00Z"));
+  });
+
+  it("should only use the fake provider outside production, with a secret", () => {
+    const env = process.env as Record<string, string | undefined>;
+    const saved = {
+      BILLING_PROVIDER: env.BILLING_PROVIDER,
+      FAKE_BILLING_WEBHOOK_SECRET: env.FAKE_BILLING_WEBHOOK_SECRET,
+      NODE_ENV: env.NODE_ENV,
+    };
+
+    try {
+      env.BILLING_PROVIDER = "fake";
+
+      delete env.FAKE_BILLING_WEBHOOK_SECRET;
+      BillingProviderFactory.set(null);
+      expect(() => BillingProviderFactory.get()).toThrow(/webhook secret/);
+
+      env.FAKE_BILLING_WEBHOOK_SECRET = WEBHOOK_SECRET;
+      BillingProviderFactory.set(null);
+      expect(BillingProviderFactory.get().name).toBe("fake");
+
+      env.NODE_ENV = "production";
+      BillingProviderFactory.set(null);
+      expect(() => BillingProviderFactory.get()).toThrow(/production/);
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) {
+          delete env[name];
+        } else {
+          env[name] = value;
+        }
+      }
+      BillingProviderFactory.set(null);
+    }
+  });
+
+  it("should work out subscription changes from billing events", () => {
+    expect(
+      getBillingChanges({
+        id: "evt_1",
+        type: BillingEventType.CHECKOUT_COMPLETED,
+        customer_id: "cus_1",
+        subscription_id: "sub_1",
+        tier: SubscriptionTier.PRO,
+      })
+    ).toEqual({
+      stripe_customer_id: "cus_1",
+      stripe_subscription_id: "sub_1",
+      tier: SubscriptionTier.PRO,
+      status: SubscriptionStatus.ACTIVE,
+    });
+
+    expect(
+      getBillingChanges({
+        id: "evt_2",
+        type: BillingEventType.SUBSCRIPTION_CANCELLED,
+        tier: SubscriptionTier.PRO,
+      })
+    ).toEqual({
+      tier: SubscriptionTier.FREE,
+      status: SubscriptionStatus.CANCELLED,
+    });
+
+    expect(
+      getBillingChanges({ id: "evt_3", type: BillingEventType.PAYMENT_FAILED })
+    ).toEqual({ status: SubscriptionStatus.PAST_DUE });
+  });
+
+  it("should only check out paid tiers", () => {
+    const urls = {
+      success_url: "https://app.example.com/billing/success",
+      cancel_url: "https://app.example.com/billing",
+    };
+
+    expect(
+      CreateCheckoutSessionInputSchema.safeParse({ tier: "pro", ...urls }).data
+        ?.billing_cycle
+    ).toBe(BillingCycle.MONTHLY);
+    expect(
+      CreateCheckoutSessionInputSchema.safeParse({ tier: "free", ...urls })
+        .success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Entitlements
+ *
+ * Tests the tier catalogue (defaults and configuration), feature access and
+ * how per-organization limit overrides change the effective limits.
+ */
+
+import {
+  DEFAULT_TIER_CATALOGUE,
+  Feature,
+  FeatureValues,
+  LimitOverridesInputSchema,
+  SubscriptionTier,
+  TIER_CATALOGUE_ENV,
+  buildTierCatalogue,
+  getEffectiveLimit,
+  getEffectiveLimits,
+  getLimitReached,
+  getTierConfig,
+  getTierFeatures,
+  isWithinLimit,
+  loadTierCatalogueFromEnv,
+  setTierCatalogue,
+  tierHasFeature,
+} from "@/modules/subscriptions";
+
+describe("Subscriptions - Entitlements", () => {
+  afterEach(() => {
+    setTierCatalogue(null);
+  });
+
+  it("should gate features by tier", () => {
+    expect(tierHasFeature(SubscriptionTier.FREE, Feature.EXPORT_DATA)).toBe(
+      false
+    );
+    expect(tierHasFeature(SubscriptionTier.STARTER, Feature.EXPORT_DATA)).toBe(
+      true
+    );
+    expect(tierHasFeature(SubscriptionTier.STARTER, Feature.AI_RESEARCH)).toBe(
+      false
+    );
+    expect(tierHasFeature(SubscriptionTier.PRO, Feature.AI_RESEARCH)).toBe(
+      true
+    );
+  });
+
+  it("should give enterprise every feature", () => {
+    expect(getTierFeatures(SubscriptionTier.ENTERPRISE)).toEqual(FeatureValues);
+  });
+
+  it("should apply limit overrides over the tier's limits", () => {
+    const overrides = { projects: 100, users: -1 };
+    const limits = getEffectiveLimits(SubscriptionTier.ENTERPRISE, overrides);
+    const tierLimits = getTierConfig(SubscriptionTier.ENTERPRISE).limits;
+
+    expect(limits).toEqual({ ...tierLimits, projects: 100, users: -1 });
+    expect(
+      getEffectiveLimit(SubscriptionTier.ENTERPRISE, "storage_gb", overrides)
+    ).toBe(tierLimits.storage_gb);
+    expect(
+      isWithinLimit(SubscriptionTier.ENTERPRISE, "projects", 100, overrides)
+    ).toBe(false);
+    expect(
+      getLimitReached(SubscriptionTier.ENTERPRISE, "projects", 99, 1, overrides)
+    ).toEqual({ limit_type: "projects", limit: 100 });
+    // Without the override, enterprise projects are unlimited
+    expect(isWithinLimit(SubscriptionTier.ENTERPRISE, "projects", 100)).toBe(
+      true
+    );
+  });
+
+  it("should validate limit override input", () => {
+    expect(
+      LimitOverridesInputSchema.parse({ projects: 100, users: null })
+    ).toEqual({ projects: 100, users: null });
+    expect(
+      LimitOverridesInputSchema.safeParse({ storage_gb: -2 }).success
+    ).toBe(false);
+    expect(LimitOverridesInputSchema.safeParse({ seats: 5 }).success).toBe(
+      false
+    );
+  });
+
+  it("should build a catalogue from configuration over the defaults", () => {
+    const catalogue = buildTierCatalogue({
+      [SubscriptionTier.PRO]: {
+        limits: { projects: 50 },
+        features: [Feature.AI_RESEARCH],
+      },
+    });
+
+    expect(catalogue[SubscriptionTier.PRO]).toEqual({
+      ...DEFAULT_TIER_CATALOGUE[SubscriptionTier.PRO],
+      limits: {
+        ...DEFAULT_TIER_CATALOGUE[SubscriptionTier.PRO].limits,
+        projects: 50,
+      },
+      features: [Feature.AI_RESEARCH],
+    });
+    expect(catalogue[SubscriptionTier.FREE]).toBe(
+      DEFAULT_TIER_CATALOGUE[SubscriptionTier.FREE]
+    );
+
+    setTierCatalogue(catalogue);
+    expect(tierHasFeature(SubscriptionTier.PRO, Feature.EXPORT_DATA)).toBe(
+      false
+    );
+
+    setTierCatalogue(null);
+    expect(tierHasFeature(SubscriptionTier.PRO, Feature.EXPORT_DATA)).toBe(
+      true
+    );
+  });
+
+  it("should reject invalid catalogue configuration", () => {
+    expect(() => buildTierCatalogue({ platinum: {} })).toThrow(
+      /Invalid tier catalogue/
+    );
+    expect(() =>
+      buildTierCatalogue({ pro: { features: ["teleportation"] } })
+    ).toThrow(/pro\.features/);
+    expect(() =>
+      buildTierCatalogue({ pro: { limits: { projects: -2 } } })
+    ).toThrow(/pro\.limits\.projects/);
+    expect(() =>
+      loadTierCatalogueFromEnv({ [TIER_CATALOGUE_ENV]: "{not json" })
+    ).toThrow(/not valid JSON/);
+  });
+
+  it("should use the default catalogue when none is configured", () => {
+    expect(loadTierCatalogueFromEnv({})).toBe(DEFAULT_TIER_CATALOGUE);
+    expect(
+      loadTierCatalogueFromEnv({
+        [TIER_CATALOGUE_ENV]: JSON.stringify({ free: { trial_days: 7 } }),
+      })[SubscriptionTier.FREE].trial_days
+    ).toBe(7);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Subscription Lifecycle
+ *
+ * Tests when trials are reminded, when each organization's monthly usage
+ * resets, and when usage reaches a tier limit.
+ */
+
+import {
+  SubscriptionTier,
+  getTierConfig,
+  TRIAL_REMINDER_DAYS,
+  getLimitReached,
+  getNextUsageResetAt,
+  getTrialDaysRemaining,
+  isTrialReminderDue,
+  subscriptionsService,
+} from "@/modules/subscriptions";
+import type { SubscriptionResponse } from "@/modules/subscriptions";
+import {
+  SubscriptionLimitReachedDataSchema,
+  SubscriptionTrialExpiringDataSchema,
+} from "@/modules/events";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-03-10T12:00:00Z");
+
+describe("Subscriptions - Lifecycle", () => {
+  it("should remind trials within TRIAL_REMINDER_DAYS of ending", () => {
+    const endsIn = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+    expect(isTrialReminderDue(endsIn(TRIAL_REMINDER_DAYS), now)).toBe(true);
+    expect(isTrialReminderDue(endsIn(0.5), now)).toBe(true);
+    expect(isTrialReminderDue(endsIn(TRIAL_REMINDER_DAYS + 1), now)).toBe(
+      false
+    );
+    // Ended trials are expired, not reminded
+    expect(isTrialReminderDue(endsIn(-1), now)).toBe(false);
+
+    expect(getTrialDaysRemaining(endsIn(0.5), now)).toBe(1);
+    expect(getTrialDaysRemaining(endsIn(3), now)).toBe(3);
+  });
+
+  it("should reset usage on the monthly anniversary", () => {
+    expect(getNextUsageResetAt(new Date("2026-01-15T08:30:00Z"))).toEqual(
+      new Date("2026-02-15T08:30:00Z")
+    );
+    expect(getNextUsageResetAt(new Date("2026-12-05T00:00:00Z"))).toEqual(
+      new Date("2027-01-05T00:00:00Z")
+    );
+  });
+
+  it("should fall on the month's last day without moving later resets", () => {
+    const february = getNextUsageResetAt(new Date("2026-01-31T09:00:00Z"), 31);
+    expect(february).toEqual(new Date("2026-02-28T09:00:00Z"));
+    expect(getNextUsageResetAt(february, 31)).toEqual(
+      new Date("2026-03-31T09:00:00Z")
+    );
+  });
+
+  it("should work out the next reset from created_at until usage first resets", () => {
+    const subscription = {
+      created_at: new Date("2026-01-31T09:00:00Z"),
+    } as SubscriptionResponse;
+
+    expect(subscriptionsService.getNextUsageResetAt(subscription)).toEqual(
+      new Date("2026-02-28T09:00:00Z")
+    );
+    expect(
+      subscriptionsService.getNextUsageResetAt({
+        ...subscription,
+        usage_reset_at: new Date("2026-02-28T09:00:00Z"),
+      })
+    ).toEqual(new Date("2026-03-31T09:00:00Z"));
+  });
+
+  it("should report a limit only when an increment reaches it", () => {
+    const limit = getTierConfig(SubscriptionTier.FREE).limits.projects;
+
+    expect(
+      getLimitReached(SubscriptionTier.FREE, "projects", limit - 1, 1)
+    ).toEqual({ limit_type: "projects", limit });
+    expect(
+      getLimitReached(SubscriptionTier.FREE, "projects", limit - 2, 1)
+    ).toBeNull();
+    // Already at the limit - reported when it was reached
+    expect(
+      getLimitReached(SubscriptionTier.FREE, "projects", limit, 1)
+    ).toBeNull();
+    expect(
+      getLimitReached(SubscriptionTier.FREE, "api_calls", 0, 1_000_000)
+    ).toMatchObject({ limit_type: "api_calls_per_month" });
+  });
+
+  it("should never report unlimited limits", () => {
+    // Enterprise projects are unlimited (-1)
+    expect(
+      getLimitReached(SubscriptionTier.ENTERPRISE, "projects", 0, 1_000_000)
+    ).toBeNull();
+  });
+
+  it("should validate lifecycle event payloads", () => {
+    expect(
+      SubscriptionTrialExpiringDataSchema.safeParse({
+        organization_id: "org-1",
+        trial_ends_at: "2026-03-12T00:00:00.000Z",
+        days_remaining: 2,
+      }).success
+    ).toBe(true);
+    expect(
+      SubscriptionLimitReachedDataSchema.safeParse({
+        organization_id: "",
+        limit_type: "projects",
+        usage: 3,
+        limit: 3,
+        tier: "free",
+      }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Usage Ledger
+ *
+ * Tests usage report periods and totals, how ledger metrics map to the
+ * cached subscription counters, and the route labels usage is recorded with.
+ */
+
+import { NextRequest } from "next/server";
+
+import {
+  MAX_USAGE_REPORT_DAYS,
+  MONTHLY_USAGE_METRICS,
+  USAGE_COUNTER_FIELDS,
+  UsageGroupBy,
+  UsageMetric,
+  UsageMetricValues,
+  UsageReportQuerySchema,
+  resolveUsageReportPeriod,
+  totalUsageByMetric,
+} from "@/modules/subscriptions";
+import { getSourceRoute } from "@/shared/api";
+
+const now = new Date("2026-03-10T12:00:00Z");
+
+describe("Subscriptions - Usage Ledger", () => {
+  it("should default reports to the current calendar month", () => {
+    expect(resolveUsageReportPeriod(undefined, undefined, now)).toEqual({
+      from: new Date("2026-03-01T00:00:00Z"),
+      to: now,
+    });
+    expect(
+      resolveUsageReportPeriod(undefined, new Date("2026-02-01T00:00:00Z"), now)
+    ).toEqual({
+      from: new Date("2026-01-01T00:00:00Z"),
+      to: new Date("2026-02-01T00:00:00Z"),
+    });
+  });
+
+  it("should reject empty, reversed and overlong periods", () => {
+    const march = new Date("2026-03-01T00:00:00Z");
+
+    expect(resolveUsageReportPeriod(march, march, now)).toHaveProperty("error");
+    expect(
+      resolveUsageReportPeriod(now, new Date("2026-01-01T00:00:00Z"), now)
+    ).toHaveProperty("error");
+    expect(
+      resolveUsageReportPeriod(
+        new Date(now.getTime() - (MAX_USAGE_REPORT_DAYS + 1) * 86_400_000),
+        now,
+        now
+      )
+    ).toHaveProperty("error");
+  });
+
+  it("should parse report queries", () => {
+    const query = UsageReportQuerySchema.parse({
+      from: "2026-02-01",
+      group_by: "day",
+    });
+
+    expect(query.from).toEqual(new Date("2026-02-01T00:00:00Z"));
+    expect(query.to).toBeUndefined();
+    expect(query.group_by).toBe(UsageGroupBy.DAY);
+    expect(UsageReportQuerySchema.parse({}).group_by).toBe(UsageGroupBy.METRIC);
+    expect(
+      UsageReportQuerySchema.safeParse({ group_by: "client" }).success
+    ).toBe(false);
+    expect(UsageReportQuerySchema.safeParse({ from: "soon" }).success).toBe(
+      false
+    );
+  });
+
+  it("should total report rows per metric", () => {
+    expect(
+      totalUsageByMetric([
+        {
+          metric: UsageMetric.API_CALLS,
+          day: "2026-03-01",
+          quantity: 40,
+          events: 40,
+        },
+        {
+          metric: UsageMetric.API_CALLS,
+          day: "2026-03-02",
+          quantity: 12,
+          events: 12,
+        },
+        {
+          metric: UsageMetric.PROJECTS,
+          day: "2026-03-02",
+          quantity: -1,
+          events: 3,
+        },
+      ])
+    ).toEqual({ [UsageMetric.API_CALLS]: 52, [UsageMetric.PROJECTS]: -1 });
+  });
+
+  it("should cache every metric in its own counter", () => {
+    const fields = UsageMetricValues.map(
+      (metric) => USAGE_COUNTER_FIELDS[metric]
+    );
+
+    expect(new Set(fields).size).toBe(UsageMetricValues.length);
+    expect(USAGE_COUNTER_FIELDS[UsageMetric.STORAGE]).toBe("storage_used_gb");
+    expect(MONTHLY_USAGE_METRICS).toEqual([
+      UsageMetric.API_CALLS,
+      UsageMetric.AI_TOKENS,
+      UsageMetric.AI_COST,
+    ]);
+  });
+
+  it("should label usage with the route pattern it came from", () => {
+    const req = new NextRequest(
+      "http://localhost/api/clients/65f0c0ffee/research?force=true",
+      { method: "POST" }
+    );
+
+    expect(getSourceRoute(req, { id: "65f0c0ffee" })).toBe(
+      "POST /api/clients/[id]/research"
+    );
+    expect(getSourceRoute(new NextRequest("http://localhost/api/tasks"))).toBe(
+      "GET /api/tasks"
+    );
+  });
+});
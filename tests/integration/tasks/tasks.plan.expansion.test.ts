@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Plan Calendar Expansion into Tasks
+ *
+ * Tests that a plan's calendar becomes scheduled tasks, that re-expanding
+ * the same plan does not create duplicates, and that tasks for items
+ * removed from the plan are cancelled.
+ */
+
+import { Types } from "mongoose";
+import { tasksService } from "@/modules/tasks/application/service";
+import { TaskStatus, type IPlanTaskSource } from "@/modules/tasks";
+
+describe("Tasks - Plan Expansion", () => {
+  const TEST_TIMEOUT = 30000;
+  const mockUserId = "test-user-123";
+  const mockOrgId = "test-org-456";
+
+  it(
+    "should create one task per calendar item and be idempotent",
+    async () => {
+      const plan: IPlanTaskSource = {
+        id: new Types.ObjectId().toString(),
+        client_id: new Types.ObjectId().toString(),
+        organization_id: mockOrgId,
+        start_date: new Date("2025-01-01T00:00:00.000Z"),
+        calendar: [
+          {
+            item_id: `item-${Date.now()}-1`,
+            day: 1,
+            title: "Launch post",
+            pillar: "Founder-led content",
+            channel: "linkedin",
+          },
+          {
+            item_id: `item-${Date.now()}-2`,
+            day: 8,
+            title: "Keyword research",
+            pillar: "SEO",
+            channel: "seo",
+            estimated_hours: 3,
+          },
+        ],
+      };
+
+      const first = await tasksService.expandPlanToTasks(
+        plan,
+        mockUserId,
+        mockOrgId
+      );
+
+      expect(first.total_items).toBe(2);
+      expect(first.created).toBe(2);
+      expect(first.skipped).toBe(0);
+
+      const { data: tasks } = await tasksService.findTasks(
+        new URLSearchParams({ plan_id: plan.id, sort: "due_date" }),
+        mockOrgId
+      );
+
+      expect(tasks).toHaveLength(2);
+      expect(tasks[0].plan_item_id).toBe(plan.calendar[0].item_id);
+      expect(tasks[0].pillar).toBe("Founder-led content");
+      expect(tasks[0].owner_id).toBe(mockUserId);
+      expect(tasks[0].status).toBe(TaskStatus.QUEUED);
+      expect(new Date(tasks[1].due_date!).toISOString()).toBe(
+        "2025-01-08T00:00:00.000Z"
+      );
+
+      // Re-expanding the same plan creates nothing new
+      const second = await tasksService.expandPlanToTasks(
+        plan,
+        mockUserId,
+        mockOrgId
+      );
+
+      expect(second.created).toBe(0);
+      expect(second.skipped).toBe(2);
+      expect(second.cancelled).toBe(0);
+    },
+    TEST_TIMEOUT
+  );
+
+  it(
+    "should cancel open tasks for items removed from the plan",
+    async () => {
+      const keptItem = {
+        item_id: `item-${Date.now()}-kept`,
+        day: 1,
+        title: "Kept post",
+        pillar: "SEO",
+        channel: "seo",
+      };
+      const removedItem = {
+        item_id: `item-${Date.now()}-removed`,
+        day: 2,
+        title: "Removed post",
+        pillar: "SEO",
+        channel: "seo",
+      };
+      const plan: IPlanTaskSource = {
+        id: new Types.ObjectId().toString(),
+        client_id: new Types.ObjectId().toString(),
+        organization_id: mockOrgId,
+        start_date: new Date("2025-01-01T00:00:00.000Z"),
+        calendar: [keptItem, removedItem],
+      };
+
+      await tasksService.expandPlanToTasks(plan, mockUserId, mockOrgId);
+
+      // The next version of the plan drops one item
+      const result = await tasksService.expandPlanToTasks(
+        { ...plan, calendar: [keptItem] },
+        mockUserId,
+        mockOrgId
+      );
+
+      expect(result.created).toBe(0);
+      expect(result.cancelled).toBe(1);
+
+      const { data: tasks } = await tasksService.findTasks(
+        new URLSearchParams({ plan_id: plan.id, sort: "due_date" }),
+        mockOrgId
+      );
+
+      expect(tasks.map((task) => [task.plan_item_id, task.status])).toEqual([
+        [keptItem.item_id, TaskStatus.QUEUED],
+        [removedItem.item_id, TaskStatus.CANCELLED],
+      ]);
+    },
+    TEST_TIMEOUT
+  );
+});
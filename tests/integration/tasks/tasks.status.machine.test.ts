@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration Test: Task Status State Machine
+ *
+ * Tests the allowed task lifecycle transitions, and that concurrent
+ * transitions can't both pass the state machine.
+ */
+
+import { Types } from "mongoose";
+import { tasksService } from "@/modules/tasks/application/service";
+import type { CreateTaskInput } from "@/modules/tasks";
+import { ConflictError } from "@/shared/utils/errors";
+import {
+  TaskStatus,
+  TaskStatusValues,
+  canTransitionTaskStatus,
+  getAllowedTaskTransitions,
+  isTerminalTaskStatus,
+} from "@/modules/tasks";
+
+describe("Tasks - Status State Machine", () => {
+  it("should allow the happy path draft → queued → in_progress → review → done", () => {
+    const path = [
+      TaskStatus.DRAFT,
+      TaskStatus.QUEUED,
+      TaskStatus.IN_PROGRESS,
+      TaskStatus.REVIEW,
+      TaskStatus.DONE,
+    ];
+
+    for (let i = 0; i < path.length - 1; i++) {
+      expect(canTransitionTaskStatus(path[i], path[i + 1])).toBe(true);
+    }
+  });
+
+  it("should reject skipping steps", () => {
+    expect(canTransitionTaskStatus(TaskStatus.DRAFT, TaskStatus.DONE)).toBe(
+      false
+    );
+    expect(canTransitionTaskStatus(TaskStatus.QUEUED, TaskStatus.REVIEW)).toBe(
+      false
+    );
+    expect(
+      canTransitionTaskStatus(TaskStatus.DRAFT, TaskStatus.IN_PROGRESS)
+    ).toBe(false);
+  });
+
+  it("should allow failing or cancelling active work", () => {
+    expect(
+      canTransitionTaskStatus(TaskStatus.IN_PROGRESS, TaskStatus.FAILED)
+    ).toBe(true);
+    expect(
+      canTransitionTaskStatus(TaskStatus.REVIEW, TaskStatus.CANCELLED)
+    ).toBe(true);
+    expect(canTransitionTaskStatus(TaskStatus.FAILED, TaskStatus.QUEUED)).toBe(
+      true
+    );
+  });
+
+  it("should treat done and cancelled as terminal", () => {
+    for (const status of [TaskStatus.DONE, TaskStatus.CANCELLED]) {
+      expect(isTerminalTaskStatus(status)).toBe(true);
+      expect(getAllowedTaskTransitions(status)).toEqual([]);
+
+      for (const to of TaskStatusValues) {
+        expect(canTransitionTaskStatus(status, to)).toBe(false);
+      }
+    }
+  });
+
+  it("should let only one of two concurrent transitions through", async () => {
+    const task = await tasksService.createTask(
+      {
+        user_id: "test-user-123",
+        organization_id: "test-org-456",
+        client_id: new Types.ObjectId().toString(),
+        title: "Concurrent transition",
+        status: TaskStatus.QUEUED,
+      } as CreateTaskInput,
+      "test-user-123",
+      "test-org-456"
+    );
+
+    // Both read the task as queued; only one may write
+    const results = await Promise.allSettled([
+      tasksService.transitionStatus(task.id, TaskStatus.IN_PROGRESS, "user-a"),
+      tasksService.transitionStatus(task.id, TaskStatus.DRAFT, "user-b"),
+    ]);
+
+    const fulfilled = results.filter((result) => result.status === "fulfilled");
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(ConflictError);
+  }, 30000);
+});